@@ -0,0 +1,192 @@
+import http from "http";
+import crypto from "crypto";
+import {Transport, axiosTransport} from "./transport";
+import {HTTP_METHODS} from "./request-handler";
+import {OAUTH_BASE_URL, TokenHandler} from "./token-handler";
+import {Exception, EXCEPTION_REASONS} from "./exceptions";
+import {isDefined} from "./utils";
+
+//Reference: https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#authorization-code-grant-flow
+/**
+ * Helper for the OAuth Authorization Code flow, which obtains the initial User Access Token and refresh token of a user
+ * @example
+ * const flow = new AuthorizationCodeFlow({clientId, clientSecret, redirectUri: "http://localhost:3000/callback", scopes: ["channel:manage:polls"]});
+ * const tokens = await flow.authorize({tokenHandler: apiClient._tokenHandler});
+ */
+export class AuthorizationCodeFlow{
+
+    private readonly _clientId: string;
+    private readonly _clientSecret: string;
+    private readonly _redirectUri: string;
+    private readonly _scopes: string[];
+    private readonly _forceVerify: boolean;
+    private readonly _oauthBaseUrl: string;
+    private readonly _transport: Transport;
+
+    /**
+     * @param config Information about the application
+     * @param config.clientId The client identifier of the application
+     * @param config.clientSecret The client secret of the application
+     * @param config.redirectUri One of the redirect URIs registered for the application. The local listener of authorize() listens on its port and path.
+     * @param config.scopes The scopes the user is asked to grant
+     * @param [config.forceVerify] A Boolean that determines whether the user has to confirm the authorization again, even if they already authorized the application
+     * @param [config.oauthBaseUrl] The base URL of the OAuth API, e.g. of a local mock server. Defaults to https://id.twitch.tv/oauth2
+     * @param [config.transport] The transport the token request is sent with. Defaults to axios.
+     */
+    constructor(config: {clientId: string, clientSecret: string, redirectUri: string, scopes: string[], forceVerify?: boolean, oauthBaseUrl?: string, transport?: Transport}){
+        this._clientId = config.clientId;
+        this._clientSecret = config.clientSecret;
+        this._redirectUri = config.redirectUri;
+        this._scopes = config.scopes;
+        this._forceVerify = config.forceVerify ?? false;
+        this._oauthBaseUrl = (config.oauthBaseUrl ?? OAUTH_BASE_URL).replace(/\/+$/, "");
+        this._transport = config.transport ?? axiosTransport;
+    }
+
+    /**
+     * Builds the URL the user has to open to authorize the application
+     * @param state The random value that protects the redirect against CSRF. Twitch returns it unchanged with the authorization code.
+     */
+    public getAuthorizeUrl(state: string): string{
+        const url = new URL(`${this._oauthBaseUrl}/authorize`);
+
+        url.searchParams.set("client_id", this._clientId);
+        url.searchParams.set("redirect_uri", this._redirectUri);
+        url.searchParams.set("response_type", "code");
+        url.searchParams.set("scope", this._scopes.join(" "));
+        url.searchParams.set("state", state);
+
+        if(this._forceVerify)
+            url.searchParams.set("force_verify", "true");
+
+        return url.toString();
+    }
+
+    /**
+     * Exchanges an authorization code for the tokens of the user
+     * @param code The authorization code Twitch appended to the redirect URI
+     */
+    public async exchangeCode(code: string): Promise<AuthorizationTokens>{
+        const response = await this._transport({
+            method: HTTP_METHODS.POST,
+            url: `${this._oauthBaseUrl}/token`,
+            headers: {},
+            body: {
+                client_id: this._clientId,
+                client_secret: this._clientSecret,
+                code,
+                grant_type: "authorization_code",
+                redirect_uri: this._redirectUri
+            }
+        })
+
+        if(response.status >= 400)
+            throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `Authorization code exchange failed with ${response.status}: ${response.data?.message ?? ""}`);
+
+        return {
+            accessToken: response.data.access_token,
+            refreshToken: response.data.refresh_token,
+            expiresIn: response.data.expires_in,
+            scopes: response.data.scope ?? []
+        }
+    }
+
+    /**
+     * Runs the whole flow: Starts a temporary HTTP listener on the port and path of the redirect URI, waits until the user authorized the application,
+     * checks the state and exchanges the authorization code for the tokens of the user
+     * @param [options] Additional options
+     * @param [options.tokenHandler] A token handler the tokens are handed to. Its refresh interval is started with the new refresh token.
+     * @param [options.onAuthorizeUrl] Called with the URL the user has to open, e.g. to open it in a browser. Defaults to logging the URL.
+     * @param [options.timeout] The number of milliseconds to wait for the redirect. Defaults to 5 minutes.
+     * @returns The tokens of the user
+     */
+    public async authorize(options?: {tokenHandler?: TokenHandler, onAuthorizeUrl?: (url: string) => void, timeout?: number}): Promise<AuthorizationTokens>{
+        const state = crypto.randomBytes(16).toString("hex");
+        const code = await this.receiveCode(state, options?.onAuthorizeUrl ?? ((url)=> console.info(`Open the following URL to authorize the application: ${url}`)), options?.timeout ?? 1000 * 60 * 5);
+
+        const tokens = await this.exchangeCode(code);
+
+        if(isDefined(options?.tokenHandler))
+            await options!.tokenHandler!.setUserTokens(tokens);
+
+        return tokens;
+    }
+
+    /**
+     * Listens for the redirect of the user and resolves with the authorization code
+     * @param state The state the redirect must carry
+     * @param onAuthorizeUrl Called with the authorize URL, once the listener is ready
+     * @param timeout The number of milliseconds to wait for the redirect
+     * @private
+     */
+    private receiveCode(state: string, onAuthorizeUrl: (url: string) => void, timeout: number): Promise<string>{
+        const redirectUri = new URL(this._redirectUri);
+
+        return new Promise((resolve, reject)=>{
+            const finish = (err: Exception | undefined, code?: string)=>{
+                clearTimeout(timer);
+                server.close();
+
+                if(isDefined(err))
+                    reject(err);
+                else
+                    resolve(code!);
+            }
+
+            const server = http.createServer((incoming, outgoing)=>{
+                //The listener is closed after the redirect, so browsers must not keep the connection alive
+                outgoing.setHeader("Connection", "close");
+
+                const url = new URL(incoming.url ?? "/", redirectUri.origin);
+
+                if(url.pathname !== redirectUri.pathname){
+                    outgoing.writeHead(404).end();
+                    return;
+                }
+
+                //Redirects without the expected state were not triggered by this flow and are ignored
+                if(url.searchParams.get("state") !== state){
+                    outgoing.writeHead(400, {"Content-Type": "text/plain"}).end("Invalid state");
+                    return;
+                }
+
+                const error = url.searchParams.get("error");
+                if(error !== null){
+                    outgoing.writeHead(400, {"Content-Type": "text/plain"}).end("Authorization failed, you may close this window.");
+                    finish(new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `Authorization failed: ${url.searchParams.get("error_description") ?? error}`));
+                    return;
+                }
+
+                outgoing.writeHead(200, {"Content-Type": "text/plain"}).end("Authorization succeeded, you may close this window.");
+                finish(undefined, url.searchParams.get("code") ?? "");
+            })
+
+            const timer = setTimeout(()=> finish(new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `No authorization received within ${timeout}ms`)), timeout);
+
+            server.on("error", (err)=> finish(new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `Failed to listen for the redirect: ${err.message}`)));
+            server.listen(parseInt(redirectUri.port || "80"), redirectUri.hostname, ()=> onAuthorizeUrl(this.getAuthorizeUrl(state)));
+        })
+    }
+}
+
+export type AuthorizationTokens = {
+    /**
+     * The User Access Token of the user
+     */
+    accessToken: string,
+
+    /**
+     * The refresh token of the User Access Token
+     */
+    refreshToken: string,
+
+    /**
+     * The number of seconds until the User Access Token expires
+     */
+    expiresIn: number,
+
+    /**
+     * The scopes the user granted
+     */
+    scopes: string[]
+}
@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import {Transport, TransportRequest, TransportResponse, axiosTransport} from "./transport";
+import {UnmatchedRequestException} from "./exceptions";
+import {ObjectValues} from "./types";
+import {isDefined} from "./utils";
+
+export const CASSETTE_MODES = {
+    /** Only recorded responses are replayed, unmatched requests throw an UnmatchedRequestException */
+    REPLAY: "replay",
+    /** Recorded responses are replayed, unmatched requests are sent and recorded */
+    RECORD_NEW: "record_new",
+    /** All requests are sent and recorded, previous recordings are discarded */
+    RECORD: "record"
+} as const;
+export type CassetteMode = ObjectValues<typeof CASSETTE_MODES>;
+
+/**
+ * Body and query fields that are replaced with SCRUBBED_VALUE before an interaction is recorded
+ */
+export const SCRUBBED_FIELDS = ["client_secret", "access_token", "refresh_token", "code", "device_code", "token"];
+export const SCRUBBED_VALUE = "[SCRUBBED]";
+
+/**
+ * Records the exchanges with Helix into a JSON file and replays them, e.g. to regression test the mapping of real payloads without network access.
+ * Requests are matched by method, URL and body. A request that is sent several times is replayed with its recorded responses in order.
+ * @NOTE Request headers are not recorded, and tokens, the client secret and authorization codes are scrubbed from URLs and bodies.
+ */
+export class Cassette{
+
+    private readonly _file: string;
+    private readonly _mode: CassetteMode;
+    private readonly _upstream: Transport;
+    private readonly _scrubbedFields: string[];
+
+    private readonly _interactions: CassetteInteraction[];
+    private readonly _replayed = new Map<string, number>();
+
+    /**
+     * Loads the cassette file, if it exists
+     * @param file The path of the JSON file the interactions are stored in
+     * @param [options] Additional options
+     * @param [options.mode] Whether to replay only, to record unmatched requests or to record everything again. Defaults to replay.
+     * @param [options.transport] The transport unmatched requests are sent with while recording. Defaults to axios.
+     * @param [options.scrubbedFields] Additional body and query fields to be scrubbed
+     */
+    constructor(file: string, options?: {mode?: CassetteMode, transport?: Transport, scrubbedFields?: string[]}){
+        this._file = file;
+        this._mode = options?.mode ?? CASSETTE_MODES.REPLAY;
+        this._upstream = options?.transport ?? axiosTransport;
+        this._scrubbedFields = [...SCRUBBED_FIELDS, ...(options?.scrubbedFields ?? [])];
+
+        const recorded = this._mode !== CASSETTE_MODES.RECORD && fs.existsSync(file);
+        this._interactions = recorded ? (JSON.parse(fs.readFileSync(file, "utf8")) as CassetteFile).interactions : [];
+    }
+
+    /**
+     * Transport that replays or records the requests of a TwitchAPI, to be passed as options.transport
+     */
+    public readonly transport: Transport = async (request)=> this.handle(request);
+
+    get mode(): CassetteMode{
+        return this._mode;
+    }
+
+    get interactions(): readonly CassetteInteraction[]{
+        return this._interactions;
+    }
+
+    /**
+     * Replays the recorded response of the request or records a new one
+     * @param request The request to be answered
+     * @private
+     */
+    private async handle(request: TransportRequest): Promise<TransportResponse>{
+        const recordedRequest: CassetteRequest = {
+            method: request.method,
+            url: this.scrubUrl(request.url),
+            body: this.scrub(request.body)
+        };
+
+        const key = this.keyOf(recordedRequest);
+        const occurrence = this._replayed.get(key) ?? 0;
+        this._replayed.set(key, occurrence + 1);
+
+        const matches = this._interactions.filter((interaction)=> this.keyOf(interaction.request) === key);
+        if(occurrence < matches.length){
+            //Scrubbed tokens would break the live requests that are recorded next, so token responses are fetched again while recording
+            if(this._mode !== CASSETTE_MODES.REPLAY && JSON.stringify(matches[occurrence].response.data ?? "").includes(SCRUBBED_VALUE))
+                return await this._upstream(request);
+
+            return matches[occurrence].response;
+        }
+
+        if(this._mode === CASSETTE_MODES.REPLAY)
+            throw new UnmatchedRequestException(recordedRequest.method, recordedRequest.url);
+
+        const response = await this._upstream(request);
+
+        this._interactions.push({
+            request: recordedRequest,
+            response: {status: response.status, headers: response.headers, data: this.scrub(response.data)}
+        });
+        this.save();
+
+        return response;
+    }
+
+    private save(){
+        fs.mkdirSync(path.dirname(this._file), {recursive: true});
+        fs.writeFileSync(this._file, JSON.stringify({interactions: this._interactions} as CassetteFile, null, 2));
+    }
+
+    /**
+     * Builds the key a request is matched by. Object keys of the body are sorted, so the key does not depend on their order.
+     * @private
+     */
+    private keyOf(request: CassetteRequest): string{
+        return `${request.method} ${request.url} ${JSON.stringify(this.sortKeys(request.body)) ?? ""}`;
+    }
+
+    private sortKeys(value: unknown): unknown{
+        if(Array.isArray(value))
+            return value.map((entry)=> this.sortKeys(entry));
+
+        if(typeof value !== "object" || value === null)
+            return value;
+
+        return Object.fromEntries(Object.keys(value).sort().map((key)=> [key, this.sortKeys((value as Record<string, unknown>)[key])]));
+    }
+
+    /**
+     * Replaces the values of all scrubbed fields, at any depth
+     * @private
+     */
+    private scrub(value: unknown): unknown{
+        if(Array.isArray(value))
+            return value.map((entry)=> this.scrub(entry));
+
+        if(typeof value !== "object" || value === null)
+            return value;
+
+        return Object.fromEntries(Object.entries(value).map(([key, entry])=> [key, this._scrubbedFields.includes(key) && isDefined(entry) ? SCRUBBED_VALUE : this.scrub(entry)]));
+    }
+
+    private scrubUrl(url: string): string{
+        const parsed = new URL(url);
+
+        for(const field of this._scrubbedFields)
+            if(parsed.searchParams.has(field))
+                parsed.searchParams.set(field, SCRUBBED_VALUE);
+
+        return parsed.toString();
+    }
+}
+
+export type CassetteRequest = {
+    /**
+     * The HTTP method of the request
+     */
+    method: string,
+
+    /**
+     * The full URL of the request, with scrubbed query parameters
+     */
+    url: string,
+
+    /**
+     * The scrubbed body of the request
+     */
+    body?: unknown
+}
+
+export type CassetteInteraction = {
+    /**
+     * The recorded request
+     */
+    request: CassetteRequest,
+
+    /**
+     * The recorded response, with a scrubbed body
+     */
+    response: TransportResponse
+}
+
+type CassetteFile = {
+    interactions: CassetteInteraction[]
+}
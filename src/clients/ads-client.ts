@@ -0,0 +1,45 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {startCommercialResult} from "../types";
+
+/**
+ * Calls of the Ads category of the Helix API, available via apiClient.ads
+ */
+export class AdsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#start-commercial
+    /**
+     * Starts a commercial on the specified channel.
+     * @tokentype user
+     * @scope channel:edit:commercial
+     * @note NOTE: Only the broadcaster may start a commercial; the broadcaster’s editors and moderators may not start commercials on behalf of the broadcaster.
+     * @param broadcasterId The ID of the partner or affiliate broadcaster that wants to run the commercial
+     * @param length The length of the commercial to run, in seconds. Twitch tries to serve a commercial that’s the requested length, but it may be shorter or longer. The maximum length you should request is 180 seconds.
+     * @returns An array that contains a single object with the status of your start commercial request.
+     */
+    public async startCommercial(broadcasterId: string, length: number): Promise<startCommercialResult> {
+        validateParameters("startCommercial", {broadcasterId, length});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/channels/commercial",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.startCommercial,
+            schema: RESPONSE_SCHEMAS.startCommercial,
+            body: {
+                "broadcaster_id": broadcasterId,
+                "length": length
+            }
+        })
+
+        return {
+            commercialLength: response.data[0].length,
+            twitchMessage: response.data[0].message,
+            nextCommercialIn: response.data[0].retry_after
+        } as startCommercialResult;
+
+    }
+}
@@ -0,0 +1,133 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES, HelixResponse} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {ExtensionReport, GameReport} from "../types";
+
+/**
+ * Calls of the Analytics category of the Helix API, available via apiClient.analytics
+ */
+export class AnalyticsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extension-analytics
+    /**
+     * Gets an analytics report for one or more extensions. The response contains the URLs used to download the reports (CSV files)
+     * @tokentype user
+     * @scope analytics:read:extensions
+     * @param extensionId The extension’s client ID. If specified, the response contains a report for the specified extension. If not specified, the response includes a report for each extension that the authenticated user owns.
+     * @param startedAt The reporting window’s start date. The start date must be on or after January 31, 2018
+     * @param endedAt The reporting window’s end date, in RFC3339 format. Enter this date only if you have also entered a start date
+     * @param count The maximum number of extensions, reports will be generated for
+     * @returns A list of reports. The reports are returned in no particular order
+     */
+    public async getExtensionAnalytics(extensionId?: string, startedAt?: Date, endedAt?: Date, count?: number): Promise<ExtensionReport[]> {
+        validateParameters("getExtensionAnalytics", {extensionId, startedAt, endedAt, count});
+
+        const reports: ExtensionReport[] = []
+
+        let cursor: string | undefined = undefined;
+
+        while (true) {
+            const response: HelixResponse = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/analytics/extensions",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getExtensionAnalytics,
+                schema: RESPONSE_SCHEMAS.getExtensionAnalytics,
+                query: {
+                    extension_id: extensionId,
+                    started_at: startedAt,
+                    ended_at: isDefined(startedAt) ? endedAt : undefined,
+                    first: (count! > 100) ? 100 : count,
+                    after: cursor
+                }
+            })
+
+            for (const report of response.data) {
+                reports.push({
+                    extensionId: report.extension_id,
+                    url: report.URL,
+                    type: report.type,
+                    range: {
+                        startedAt: new Date(report.date_range.started_at),
+                        endedAt: new Date(report.date_range.ended_at)
+                    }
+                })
+
+            }
+
+            if (isUndefined(response.pagination?.cursor))
+                break;
+
+            cursor = response.pagination!.cursor;
+
+        }
+
+        if (!isUndefined(extensionId))
+            return reports;
+
+        return reports.slice(0, count);
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-game-analytics
+    /**
+     * Gets an analytics report for one or more games. The response contains the URLs used to download the reports (CSV files).
+     * @tokentype user
+     * @scope analytics:read:games
+     * @param gameId The game’s client ID. If specified, the response contains a report for the specified game. If not specified, the response includes a report for each of the authenticated user’s games.
+     * @param startedAt The reporting window’s start date. The start date must be on or after January 31, 2018
+     * @param endedAt The reporting window’s end date, in RFC3339 format. Enter this date only if you have also entered a start date
+     * @param count The maximum number of games, reports will be generated for
+     * @returns A list of reports. The reports are returned in no particular order
+     */
+    public async getGameAnalytics(gameId?: string, startedAt?: Date, endedAt?: Date, count?: number) {
+        validateParameters("getGameAnalytics", {gameId, startedAt, endedAt, count});
+
+        const reports: GameReport[] = []
+
+        let cursor: string | undefined = undefined;
+
+        while (true) {
+            const response: HelixResponse = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/analytics/games",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getGameAnalytics,
+                schema: RESPONSE_SCHEMAS.getGameAnalytics,
+                query: {
+                    game_id: gameId,
+                    started_at: startedAt,
+                    ended_at: isDefined(startedAt) ? endedAt : undefined,
+                    first: (count! > 100) ? 100 : count,
+                    after: cursor
+                }
+            })
+
+            for (const report of response.data) {
+                reports.push({
+                    gameId: report.game_id,
+                    url: report.URL,
+                    type: report.type,
+                    range: {
+                        startedAt: new Date(report.date_range.started_at),
+                        endedAt: new Date(report.date_range.ended_at)
+                    }
+                })
+
+            }
+
+            if (isUndefined(response.pagination?.cursor))
+                break;
+
+            cursor = response.pagination!.cursor;
+
+        }
+
+        if (!isUndefined(gameId))
+            return reports;
+
+        return reports.slice(0, count);
+    }
+}
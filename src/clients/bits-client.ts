@@ -0,0 +1,188 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {LeaderboardLeaders, Cheermote, ExtensionTransaction} from "../types";
+
+/**
+ * Calls of the Bits category of the Helix API, available via apiClient.bits
+ */
+export class BitsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-bits-leaderboard
+    /**
+     * Gets the Bits leaderboard for the authenticated broadcaster.
+     * @tokentype user
+     * @scope bits:read
+     * @param count The number of results to return. The minimum count is 1 and the maximum is 100
+     * @param period The time period over which data is aggregated (uses the PST time zone).
+     * @param startedAt The start date, in RFC3339 format, used for determining the aggregation period.
+     * @param userId An ID that identifies a user that cheered bits in the channel. If count is greater than 1, the response may include users ranked above and below the specified user. To get the leaderboard’s top leaders, don’t specify a user ID.
+     * @returns A list of leaderboard leaders. The leaders are returned in rank order by how much they’ve cheered. The array is empty if nobody has cheered bits.
+     */
+    public async getBitsLeaderboards(count?: number, period?: "day" | "week" | "month" | "year" | "all", startedAt?: Date, userId?: string): Promise<LeaderboardLeaders[]> {
+        validateParameters("getBitsLeaderboards", {count, period, startedAt, userId});
+
+        const leaders: LeaderboardLeaders[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/bits/leaderboard",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getBitsLeaderboards,
+            schema: RESPONSE_SCHEMAS.getBitsLeaderboards,
+            query: {
+                count,
+                period,
+                started_at: startedAt,
+                user_id: userId
+            }
+        })
+
+        for (const leader of response.data) {
+            leaders.push({
+                userId: leader.user_id,
+                userLogin: leader.user_login,
+                displayName: leader.user_name,
+                rank: leader.rank,
+                score: leader.score,
+                date_range: {
+                    started_at: new Date(response.date_range.started_at),
+                    ended_at: new Date(response.date_range.ended_at)
+                }
+            })
+        }
+
+        return leaders;
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-cheermotes
+    /**
+     * Gets a list of Cheermotes that users can use to cheer Bits in any Bits-enabled channel’s chat room.
+     * @tokentype app, user
+     * @param broadcasterId The ID of the broadcaster whose custom Cheermotes you want to get. Specify the broadcaster’s ID if you want to include the broadcaster’s Cheermotes in the response (not all broadcasters upload Cheermotes). If not specified, the response contains only global Cheermotes.
+     * @returns The list of Cheermotes. The list is in ascending order by the order field’s value.
+     */
+    public async getCheermotes(broadcasterId?: string): Promise<Cheermote[]> {
+        validateParameters("getCheermotes", {broadcasterId});
+
+        const cheermotes: Cheermote[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/bits/cheermotes",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getCheermotes,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        for (const cheermote of response.data) {
+            cheermotes.push({
+                prefix: cheermote.prefix,
+                tiers: cheermote.tiers.map((tier: any) => {
+                    return {
+                        minBits: tier.min_bits,
+                        level: tier.id,
+                        color: tier.color,
+                        images: tier.images,
+                        canCheer: tier.can_cheer,
+                        showInBitsCard: tier.show_in_bits_card
+                    }
+                }),
+                type: cheermote.type,
+                order: cheermote.order,
+                lastUpdated: new Date(cheermote.last_updated),
+                isCharitable: cheermote.is_charitable
+            })
+        }
+
+        return cheermotes;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extension-transactions
+    /**
+     * Gets an extension’s list of transactions.
+     * @Tokentype app
+     * @param extensionId The ID of the extension whose list of transactions you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.transactionIds] Transaction IDs used to filter the list of transactions.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of transactions to be returned.
+     * @return The list of transactions. If no one was found, null will be returned.
+     */
+    public async getExtensionTransactions(extensionId: string, options?: {transactionIds?: string[], cursor?: string, max?: number}):Promise<{transactions: ExtensionTransaction[], cursor: string | null } | null>{
+        validateParameters("getExtensionTransactions", {extensionId, options});
+
+        const transactions: ExtensionTransaction[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/extensions/transactions",
+                tokenType: TOKEN_TYPES.APP,
+                schema: RESPONSE_SCHEMAS.getExtensionTransactions,
+                query: {
+                    extension_id: extensionId,
+                    id: options?.transactionIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const transaction of response.data){
+                transactions.push({
+                    id: transaction.id,
+                    timestamp: new Date(transaction.timestamp),
+                    broadcasterId: transaction.broadcaster_id,
+                    broadcasterLogin: transaction.broadcaster_login,
+                    broadcasterDisplayName: transaction.broadcaster_name,
+                    buyerId: transaction.user_id,
+                    buyerLogin: transaction.user_login,
+                    buyerDisplayName: transaction.user_name,
+                    productType: transaction.product_type,
+                    productData:{
+                        sku: transaction.product_data.sku,
+                        domain: transaction.product_data.domain,
+                        cost:{
+                            amount: transaction.product_data.cost.amount,
+                            type: transaction.product_data.cost.type
+                        },
+                        inDevelopment: transaction.inDevelopment,
+                        name: transaction.displayName,
+                        expiration: transaction.expiration,
+                        broadcast: transaction.broadcast
+                    }
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {transactions: transactions, cursor: cursor!};
+                    return transactions.length === 0 ? null : {transactions: transactions, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return transactions.length === 0 ? null : {transactions: transactions, cursor: null}
+    }
+}
@@ -0,0 +1,496 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES, HelixResponse} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Reward, Redemption, RewardModifications, RedemptionStatus} from "../types";
+
+/**
+ * Calls of the Channel Points category of the Helix API, available via apiClient.channelPoints
+ */
+export class ChannelPointsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-custom-rewards
+    /**
+     * Creates a Custom Reward in the broadcaster’s channel.
+     * @Tokentype user
+     * @Scope channel:manage:redemptions
+     * @NOTE The broadcasterId must match the user ID found in the OAuth token.
+     * @NOTE The maximum number of custom rewards per channel is 50, which includes both enabled and disabled rewards.
+     * @param broadcasterId The ID of the broadcaster to add the custom reward to.
+     * @param rewardData Data for new custom reward
+     * @param rewardData.title The custom reward’s title. The title may contain a maximum of 45 characters and it must be unique amongst all of the broadcaster’s custom rewards.
+     * @param rewardData.cost The cost of the reward, in Channel Points. The minimum is 1 point.
+     * @param rewardData.prompt The prompt shown to the viewer when they redeem the reward. Specify a prompt if is_user_input_required is true. The prompt is limited to a maximum of 200 characters.
+     * @param rewardData.isEnabled    A Boolean value that determines whether the reward is enabled. Default: true
+     * @param rewardData.backgroundColor The background color (in Hex format) to use for the reward.
+     * @param rewardData.userInputRequired A Boolean value that determines whether the user needs to enter information when redeeming the reward. Default: false
+     * @param rewardData.maxPerStreamEnabled A Boolean value that determines whether to limit the maximum number of redemptions allowed per live stream. Default: false
+     * @param rewardData.maxPerStream The maximum number of redemptions allowed per live stream. Minimum is 1
+     * @param rewardData.maxPerUserPerStreamEnabled A Boolean value that determines whether to limit the maximum number of redemptions allowed per user per stream. Default: false
+     * @param rewardData.maxPerUserPerStream The maximum number of redemptions allowed per user per stream.
+     * @param rewardData.globalCooldownEnabled A Boolean value that determines whether to apply a cooldown period between redemptions. Default: false
+     * @param rewardData.globalCooldown The cooldown period, in seconds.
+     * @param rewardData.redemptionsSkipRequestQueue A Boolean value that determines whether redemptions should be set to FULFILLED status immediately when a reward is redeemed. Default: false
+     */
+    public async createCustomReward(broadcasterId: string, rewardData: { title: string, cost: number, prompt?: string, isEnabled?: boolean, backgroundColor?: string, userInputRequired?: boolean, maxPerStreamEnabled?: boolean, maxPerStream?: number, maxPerUserPerStreamEnabled?: boolean, maxPerUserPerStream?: number, globalCooldownEnabled?: boolean, globalCooldown?: number, redemptionsSkipRequestQueue?: boolean }): Promise<Reward> {
+        validateParameters("createCustomReward", {broadcasterId, rewardData});
+
+        rewardData.isEnabled = rewardData.isEnabled ?? true
+        rewardData.userInputRequired = rewardData.userInputRequired ?? false
+        rewardData.maxPerStreamEnabled = rewardData.maxPerStreamEnabled ?? false
+        rewardData.maxPerUserPerStreamEnabled = rewardData.maxPerUserPerStreamEnabled ?? false
+        rewardData.globalCooldownEnabled = rewardData.globalCooldownEnabled ?? false
+        rewardData.redemptionsSkipRequestQueue = rewardData.redemptionsSkipRequestQueue ?? false
+
+        const creationObject = {
+            title: rewardData.title,
+            cost: rewardData.cost
+        };
+
+        if (!isUndefined(rewardData.prompt))
+            Object.defineProperty(creationObject, "prompt", {value: rewardData.prompt, enumerable: true})
+
+        if (!isUndefined(rewardData.isEnabled))
+            Object.defineProperty(creationObject, "is_enabled", {value: rewardData.isEnabled, enumerable: true})
+
+        if (!isUndefined(rewardData.backgroundColor))
+            Object.defineProperty(creationObject, "background_color", {value: rewardData.backgroundColor, enumerable: true})
+
+        if (!isUndefined(rewardData.userInputRequired))
+            Object.defineProperty(creationObject, "is_user_input_required", {
+                value: rewardData.userInputRequired,
+                enumerable: true
+            })
+
+
+        if (rewardData.maxPerStreamEnabled && !isUndefined(rewardData.maxPerStream))
+            Object.defineProperty(creationObject, "is_max_per_stream_enabled", {
+                value: rewardData.maxPerStreamEnabled,
+                enumerable: true
+            })
+
+        if (!isUndefined(rewardData.maxPerStream) && rewardData.maxPerStreamEnabled)
+            Object.defineProperty(creationObject, "max_per_stream", {
+                value: rewardData.maxPerStream,
+                enumerable: true
+            })
+
+
+        if (rewardData.maxPerUserPerStreamEnabled && !isUndefined(rewardData.maxPerUserPerStream))
+            Object.defineProperty(creationObject, "is_max_per_user_per_stream_enabled", {
+                value: rewardData.maxPerUserPerStreamEnabled,
+                enumerable: true
+            })
+
+        if (!isUndefined(rewardData.maxPerUserPerStream) && rewardData.maxPerUserPerStreamEnabled)
+            Object.defineProperty(creationObject, "max_per_user_per_stream", {
+                value: rewardData.maxPerUserPerStream,
+                enumerable: true
+            })
+
+
+        if (rewardData.globalCooldownEnabled && !isUndefined(rewardData.globalCooldown))
+            Object.defineProperty(creationObject, "is_global_cooldown_enabled", {
+                value: rewardData.globalCooldownEnabled,
+                enumerable: true
+            })
+
+        if (!isUndefined(rewardData.globalCooldown) && rewardData.globalCooldownEnabled)
+            Object.defineProperty(creationObject, "global_cooldown_seconds", {
+                value: rewardData.globalCooldown,
+                enumerable: true
+            })
+
+        if (!isUndefined(rewardData.redemptionsSkipRequestQueue))
+            Object.defineProperty(creationObject, "should_redemptions_skip_request_queue", {
+                value: rewardData.redemptionsSkipRequestQueue,
+                enumerable: true
+            })
+
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/channel_points/custom_rewards",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.createCustomReward,
+            schema: RESPONSE_SCHEMAS.createCustomReward,
+            query: {
+                broadcaster_id: broadcasterId
+            },
+            body: creationObject
+        })
+
+        const reward = response.data[0]
+
+        return {
+            broadcasterId: reward.broadcaster_id,
+            broadcasterLogin: reward.broadcaster_login,
+            broadcasterDisplayName: reward.broadcaster_name,
+            id: reward.id,
+            title: reward.title,
+            prompt: reward.prompt,
+            cost: reward.cost,
+            image: {
+                url_1x: reward.image?.url_1x,
+                url_2x: reward.image?.url_2x,
+                url_4x: reward.image?.url_4x
+            },
+            defaultImage: {
+                url_1x: reward.default_image.url_1x,
+                url_2x: reward.default_image.url_2x,
+                url_4x: reward.default_image.url_4x
+            },
+            backgroundColor: reward.background_color,
+            isEnabled: reward.is_enabled,
+            userInputRequired: reward.is_user_input_required,
+            maxPerStreamSetting: {
+                isEnabled: reward.max_per_stream_setting.is_enabled,
+                maxPerStream: reward.max_per_stream_setting.max_per_stream
+            },
+            maxPerUserPerStreamSetting: {
+                isEnabled: reward.max_per_user_per_stream_setting.is_enabled,
+                maxPerUserPerStream: reward.max_per_user_per_stream_setting.max_per_user_per_stream
+            },
+            globalCooldownSetting: {
+                isEnabled: reward.global_cooldown_setting.is_enabled,
+                globalCooldown: reward.global_cooldown_setting.global_cooldown_seconds
+            },
+            isPaused: reward.is_paused,
+            isInStock: reward.is_in_stock,
+            redemptionsSkipRequestQueue: reward.should_redemptions_skip_request_queue,
+            redemptionsCountCurrentStream: reward.redemptions_redeemed_current_stream,
+            cooldownExpiresAt: new Date(reward.cooldown_expires_at)
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#delete-custom-reward
+    /**
+     * Deletes a custom reward that the broadcaster created.
+     * @param broadcasterId The ID of the broadcaster that created the custom reward.
+     * @param rewardId The ID of the custom reward to delete.
+     */
+    public async deleteCustomReward(broadcasterId: string, rewardId: string): Promise<void> {
+        validateParameters("deleteCustomReward", {broadcasterId, rewardId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/channel_points/custom_rewards",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.deleteCustomReward,
+            query: {
+                broadcaster_id: broadcasterId,
+                id: rewardId
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-custom-reward
+    /**
+     * Gets a list of custom rewards that the specified broadcaster created.
+     * @Tokentype user
+     * @Scope channel:read:redemptions
+     * @param broadcasterId The ID of the broadcaster whose custom rewards you want to get.
+     * @param ids A list/array of IDs to filter the rewards by.
+     * @returns A list of custom rewards. The list is in ascending order by rewardId.
+     */
+    public async getCustomRewards(broadcasterId: string, options: { rewardIds?: string[], manageableRewardsOnly?: boolean }): Promise<Reward[]> {
+        validateParameters("getCustomRewards", {broadcasterId, options});
+
+        const rewards: Reward[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/channel_points/custom_rewards",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getCustomRewards,
+            schema: RESPONSE_SCHEMAS.getCustomRewards,
+            query: {
+                broadcaster_id: broadcasterId,
+                id: options.rewardIds,
+                only_manageable_rewards: options.manageableRewardsOnly
+            }
+        })
+
+        for (const reward of response.data) {
+            rewards.push({
+                broadcasterId: reward.broadcaster_id,
+                broadcasterLogin: reward.broadcaster_login,
+                broadcasterDisplayName: reward.broadcaster_name,
+                id: reward.id,
+                title: reward.title,
+                prompt: reward.prompt,
+                cost: reward.cost,
+                image: {
+                    url_1x: reward.image?.url_1x,
+                    url_2x: reward.image?.url_2x,
+                    url_4x: reward.image?.url_4x
+                },
+                defaultImage: {
+                    url_1x: reward.default_image.url_1x,
+                    url_2x: reward.default_image.url_2x,
+                    url_4x: reward.default_image.url_4x
+                },
+                backgroundColor: reward.background_color,
+                isEnabled: reward.is_enabled,
+                userInputRequired: reward.is_user_input_required,
+                maxPerStreamSetting: {
+                    isEnabled: reward.max_per_stream_setting.is_enabled,
+                    maxPerStream: reward.max_per_stream_setting.max_per_stream
+                },
+                maxPerUserPerStreamSetting: {
+                    isEnabled: reward.max_per_user_per_stream_setting.is_enabled,
+                    maxPerUserPerStream: reward.max_per_user_per_stream_setting.max_per_user_per_stream
+                },
+                globalCooldownSetting: {
+                    isEnabled: reward.global_cooldown_setting.is_enabled,
+                    globalCooldown: reward.global_cooldown_setting.global_cooldown_seconds
+                },
+                isPaused: reward.is_paused,
+                isInStock: reward.is_in_stock,
+                redemptionsSkipRequestQueue: reward.should_redemptions_skip_request_queue,
+                redemptionsCountCurrentStream: reward.redemptions_redeemed_current_stream,
+                cooldownExpiresAt: new Date(reward.cooldown_expires_at)
+            })
+        }
+
+        return rewards;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-custom-reward-redemption
+    /**
+     * Gets a list of redemptions for the specified custom reward.
+     * @Tokentype user
+     * @Scope channel:read:redemptions
+     * @NOTE The app used to create the reward is the only app that may get the redemptions.
+     * @NOTE The broadcasterId must match the user ID found in the user OAuth token.
+     * @param broadcasterId The ID of the broadcaster that owns the custom reward.
+     * @param rewardId The ID that identifies the custom reward whose redemptions you want to get.
+     * @param options Optional request parameters
+     * @returns The list of redemptions for the specified reward. The list is empty if there are no redemptions that match the redemption criteria.
+     */
+    public async getCustomRewardRedemptions(broadcasterId: string, rewardId: string, options: { status?: "CANCELED" | "FULFILLED" | "UNFULFILLED", id?: string, sort?: "OLDEST" | "NEWEST", max?: number }): Promise<Redemption[]> {
+        validateParameters("getCustomRewardRedemptions", {broadcasterId, rewardId, options});
+
+        const redemptions: Redemption[] = [];
+
+        const pageSize = (isUndefined(options.max) || options.max! > 100) ? 100 : options.max
+        let cursor: string | undefined = undefined;
+
+        if (isUndefined(options.id) && isUndefined(options.status))
+            throw new Error("Status must be provided if no ID was provided!")
+
+        while (true) {
+            const response: HelixResponse = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/channel_points/custom_rewards/redemptions",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getCustomRewardRedemptions,
+                schema: RESPONSE_SCHEMAS.getCustomRewardRedemptions,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    reward_id: rewardId,
+                    status: isUndefined(options.id) ? options.status : undefined,
+                    id: options.id,
+                    sort: options.sort,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            for (const redemption of response.data) {
+                redemptions.push({
+                    broadcasterId: redemption.broadcaster_id,
+                    broadcasterLogin: redemption.broadcaster_login,
+                    broadcasterDisplayName: redemption.broadcaster_name,
+                    id: redemption.id,
+                    redeemerId: redemption.user_id,
+                    redeemerLogin: redemption.user_login,
+                    redeemerInput: redemption.user_input,
+                    redeemerDisplayName: redemption.user_name,
+                    status: redemption.status,
+                    redeemedAt: new Date(redemption.redeemed_at),
+                    reward: {
+                        id: redemption.reward.id,
+                        title: redemption.reward.title,
+                        prompt: redemption.reward.prompt,
+                        cost: redemption.reward.cost
+                    }
+                })
+            }
+
+            if (isUndefined(response.pagination?.cursor))
+                break;
+
+            cursor = response.pagination!.cursor;
+        }
+
+        return redemptions;
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-custom-reward
+    /**
+     * Updates a custom reward. The app used to create the reward is the only app that may update the reward.
+     * @Tokentype user
+     * @Scope channel:manage:redemptions
+     * @param broadcasterId The ID of the broadcaster that’s updating the reward.
+     * @param rewardId The ID of the reward to update.
+     * @param modifications
+     * @return The updated reward.
+     */
+    public async updateCustomReward(broadcasterId: string, rewardId: string, modifications: RewardModifications):Promise<Reward>{
+        validateParameters("updateCustomReward", {broadcasterId, rewardId, modifications});
+
+        const requestObject = {}
+
+        if(isDefined(modifications.title))
+            Object.defineProperty(requestObject, "title", {value: modifications.title, enumerable: true})
+
+        if(isDefined(modifications.prompt))
+            Object.defineProperty(requestObject, "prompt", {value: modifications.prompt, enumerable: true})
+
+        if(isDefined(modifications.cost))
+            Object.defineProperty(requestObject, "cost", {value: modifications.cost, enumerable: true})
+
+        if(isDefined(modifications.backgroundColor))
+            Object.defineProperty(requestObject, "background_color", {value: modifications.backgroundColor, enumerable: true})
+
+        if(isDefined(modifications.isEnabled))
+            Object.defineProperty(requestObject, "is_enabled", {value: modifications.isEnabled, enumerable: true})
+
+        if(isDefined(modifications.isUserInputRequired))
+            Object.defineProperty(requestObject, "is_user_input_required", {value: modifications.isUserInputRequired, enumerable: true})
+
+        if(isDefined(modifications.isMaxPerStreamEnabled))
+            Object.defineProperty(requestObject, "is_max_per_stream_enabled", {value: modifications.isMaxPerStreamEnabled, enumerable: true})
+
+
+        if(isDefined(modifications.maxPerStream))
+            Object.defineProperty(requestObject, "max_per_stream", {value: modifications.maxPerStream, enumerable: true})
+
+        if(isDefined(modifications.isMaxPerUserPerStreamEnabled))
+            Object.defineProperty(requestObject, "is_max_per_user_per_stream_enabled", {value: modifications.isMaxPerUserPerStreamEnabled, enumerable: true})
+
+        if(isDefined(modifications.maxPerUserPerStream))
+            Object.defineProperty(requestObject, "max_per_user_per_stream", {value: modifications.maxPerUserPerStream, enumerable: true})
+
+        if(isDefined(modifications.isCooldownEnabled))
+            Object.defineProperty(requestObject, "is_global_cooldown_enabled", {value: modifications.isCooldownEnabled, enumerable: true})
+
+        if(isDefined(modifications.cooldownSeconds))
+            Object.defineProperty(requestObject, "global_cooldown_seconds", {value: modifications.cooldownSeconds, enumerable: true})
+
+        if(isDefined(modifications.isPaused))
+            Object.defineProperty(requestObject, "is_paused", {value: modifications.isPaused, enumerable: true})
+
+        if(isDefined(modifications.redemptionsSkipRequestQueue))
+            Object.defineProperty(requestObject, "should_redemptions_skip_request_queue", {value: modifications.redemptionsSkipRequestQueue, enumerable: true})
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/channel_points/custom_rewards",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateCustomReward,
+            schema: RESPONSE_SCHEMAS.updateCustomReward,
+            query: {
+                broadcaster_id: broadcasterId,
+                id: rewardId
+            },
+            body: requestObject
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            id: response.data[0].id,
+            title: response.data[0].title,
+            prompt: response.data[0].prompt,
+            cost: response.data[0].cost,
+            image: {
+                url_1x: response.data[0].image?.url_1x,
+                url_2x: response.data[0].image?.url_2x,
+                url_4x: response.data[0].image?.url_4x
+            },
+            defaultImage: {
+                url_1x: response.data[0].default_image.url_1x,
+                url_2x: response.data[0].default_image.url_2x,
+                url_4x: response.data[0].default_image.url_4x
+            },
+            backgroundColor: response.data[0].background_color,
+            isEnabled: response.data[0].is_enabled,
+            userInputRequired: response.data[0].is_user_input_required,
+            maxPerStreamSetting: {
+                isEnabled: response.data[0].max_per_stream_setting.is_enabled,
+                maxPerStream: response.data[0].max_per_stream_setting.max_per_stream
+            },
+            maxPerUserPerStreamSetting: {
+                isEnabled: response.data[0].max_per_user_per_stream_setting.is_enabled,
+                maxPerUserPerStream: response.data[0].max_per_user_per_stream_setting.max_per_user_per_stream
+            },
+            globalCooldownSetting: {
+                isEnabled: response.data[0].global_cooldown_setting.is_enabled,
+                globalCooldown: response.data[0].global_cooldown_setting.global_cooldown_seconds
+            },
+            isPaused: response.data[0].is_paused,
+            isInStock: response.data[0].is_in_stock,
+            redemptionsSkipRequestQueue: response.data[0].should_redemptions_skip_request_queue,
+            redemptionsCountCurrentStream: response.data[0].redemptions_redeemed_current_stream,
+            cooldownExpiresAt: new Date(response.data[0].cooldown_expires_at)
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-redemption-status
+    /**
+     * Updates a redemption’s status.
+     * @Tokentype user
+     * @Scope channel:manage:redemptions
+     * @NOTE: The broadcasterId must match the user ID associated with the user OAuth token.
+     * @NOTE2: You may update a redemption only if its status is UNFULFILLED. The app used to create the reward is the only app that may update the redemption.
+     * @param broadcasterId The ID of the broadcaster that’s updating the redemption.
+     * @param rewardId The ID that identifies the reward that’s been redeemed.
+     * @param redemptionIds A list of IDs that identify the redemptions to update.
+     * @param newStatus The status to set the redemption to.
+     */
+    public async updateRedemptionStatus(broadcasterId: string, rewardId: string, redemptionIds: string[], newStatus: RedemptionStatus):Promise<Redemption>{
+        validateParameters("updateRedemptionStatus", {broadcasterId, rewardId, redemptionIds, newStatus});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/channel_points/custom_rewards/redemptions",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateRedemptionStatus,
+            schema: RESPONSE_SCHEMAS.updateRedemptionStatus,
+            query: {
+                broadcaster_id: broadcasterId,
+                id: redemptionIds,
+                reward_id: rewardId
+            },
+            body: {
+                status: newStatus
+            }
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            id: response.data[0].id,
+            redeemerId: response.data[0].user_id,
+            redeemerLogin: response.data[0].user_login,
+            redeemerInput: response.data[0].user_input,
+            redeemerDisplayName: response.data[0].user_name,
+            status: response.data[0].status,
+            redeemedAt: new Date(response.data[0].redeemed_at),
+            reward: {
+                id: response.data[0].reward.id,
+                title: response.data[0].reward.title,
+                prompt: response.data[0].reward.prompt,
+                cost: response.data[0].reward.cost
+            }
+        }
+    }
+}
@@ -0,0 +1,250 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Languages, ChannelInformation, Editor, User} from "../types";
+
+/**
+ * Calls of the Channels category of the Helix API, available via apiClient.channels
+ */
+export class ChannelsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-information
+    /**
+     * Gets information about one or more channels.
+     * @tokentype app, user
+     * @param broadcasterIds The ID of the broadcasters whose channel you want to get
+     * returns A list that contains information about the specified channels. The list is empty if the specified channels weren’t found.
+     */
+    public async getChannelInformation(broadcasterIds: string[]): Promise<ChannelInformation[]> {
+        validateParameters("getChannelInformation", {broadcasterIds});
+
+        const channels: ChannelInformation[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/channels",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getChannelInformation,
+            query: {
+                broadcaster_id: broadcasterIds
+            }
+        })
+
+        for (const channel of response.data) {
+            channels.push({
+                streamerId: channel.broadcaster_id,
+                streamerLogin: channel.broadcaster_login,
+                streamerDisplayName: channel.broadcaster_name,
+                streamerLanguage: channel.broadcaster_language,
+                gameName: channel.game_name,
+                gameId: channel.game_id,
+                streamTitle: channel.title,
+                streamDelay: channel.delay
+            })
+        }
+
+        return channels;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#modify-channel-information
+    /**
+     * Updates a channel’s properties.
+     * @Tokentype user
+     * @Scope channel:manage:broadcast
+     * @NOTE The broadcasterId must match the user ID associated with the user access token.
+     * @param broadcasterId The ID of the broadcaster whose channel you want to update. This ID must match the user ID associated with the user access token.
+     * @param modifications Available channel property modifications
+     * @param modifications.gameId The ID of the game that the user plays. The game is not updated if the ID isn’t a game ID that Twitch recognizes. To unset this field, use “0” or “” (an empty string).
+     * @param modifications.language The user’s preferred language.
+     * @param modifications.title The title of the user’s stream. You may not set this field to an empty string.
+     * @param modifications.delay The number of seconds you want your broadcast buffered before streaming it live. Only users with Partner status may set this field. The maximum delay is 900 seconds (15 minutes).
+     */
+    public async modifyChannelInformation(broadcasterId: string, modifications: { gameId?: string, language?: Languages, title?: string, delay?: number }) {
+        validateParameters("modifyChannelInformation", {broadcasterId, modifications});
+
+        const modifyObject = {}
+
+        if (!isUndefined(modifications.gameId))
+            Object.defineProperty(modifyObject, "game_id", {value: modifications.gameId, enumerable: true})
+
+        if (!isUndefined(modifications.language))
+            Object.defineProperty(modifyObject, "broadcaster_language", {
+                value: modifications.language,
+                enumerable: true
+            })
+
+        if (!isUndefined(modifications.title))
+            Object.defineProperty(modifyObject, "title", {value: modifications.title, enumerable: true})
+
+        if (!isUndefined(modifications.delay))
+            Object.defineProperty(modifyObject, "delay", {value: modifications.delay, enumerable: true})
+
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/channels",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.modifyChannelInformation,
+            query: {
+                broadcaster_id: broadcasterId
+            },
+            body: modifyObject
+        })
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-editors
+    /**
+     * Gets the broadcaster’s channel editors.
+     * @Tokentype user
+     * @Scope channel:read:editors
+     * @NOTE The broadcasterId must match the user ID associated with the user access token.
+     * @param broadcasterId The ID of the broadcaster that owns the channel. This ID must match the user ID in the access token.
+     */
+    public async getChannelEditors(broadcasterId: string) {
+        validateParameters("getChannelEditors", {broadcasterId});
+
+        const editors: Editor[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/channels/editors",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getChannelEditors,
+            schema: RESPONSE_SCHEMAS.getChannelEditors,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        for (const editor of response.data) {
+            editors.push({
+                id: editor.user_id,
+                displayName: editor.user_name,
+                appointedAt: new Date(editor.created_at)
+            })
+        }
+
+        return editors;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-vips
+    /**
+     * Gets a list of the broadcaster’s VIPs.
+     * @Tokentype user
+     * @Scope channel:read:vips
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster whose list of VIPs you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.userIds] Filters the list for specific VIPs.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] Maximum amount of vips to be returned. If no one was found, null will be returned
+     */
+    public async getVIPs(broadcasterId: string, options?: {userIds?: string[], cursor?: string, max?: number}): Promise<{vips: User[], cursor: string | null} | null>{
+        validateParameters("getVIPs", {broadcasterId, options});
+
+        const vips: User[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/channels/vips",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getVIPs,
+                schema: RESPONSE_SCHEMAS.getVIPs,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    user_id: options?.userIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const vip of response.data){
+                vips.push({
+                    id: vip.user_id,
+                    login: vip.user_login,
+                    displayName: vip.user_name
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {vips, cursor: cursor!};
+                    return vips.length === 0 ? null : {vips, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                return vips.length === 0 ? null : {vips, cursor: null}
+            }
+        }
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#add-channel-vip
+    /**
+     * Adds the specified user as a VIP in the broadcaster’s channel.
+     * @Tokentype user
+     * @Scope channel:manage:vips
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster that’s adding the user as a VIP.
+     * @param userId The ID of the user to give VIP status to.
+     */
+    public async addChannelVIP(broadcasterId: string, userId: string): Promise<void>{
+        validateParameters("addChannelVIP", {broadcasterId, userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/channels/vips",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.addChannelVIP,
+            query: {
+                broadcaster_id: broadcasterId,
+                user_id: userId
+            }
+        })
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#remove-channel-vip
+    /**
+     * Removes the specified user as a VIP in the broadcaster’s channel.
+     * @Tokentype user
+     * @Scope channel:manage:vips
+     * @NOTE If the broadcaster wants to remove a VIP, the broadcasterId must match the user ID in the access token
+     * @NOTE If a VIP wants to remove his VIP status, the userId must match the user ID in the access token
+     * @param broadcasterId The ID of the broadcaster who owns the channel where the user has VIP status.
+     * @param userId The ID of the user to remove VIP status from.
+     */
+    public async removeChannelVIP(broadcasterId: string, userId: string): Promise<void>{
+        validateParameters("removeChannelVIP", {broadcasterId, userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/channels/vips",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.removeChannelVIP,
+            query: {
+                broadcaster_id: broadcasterId,
+                user_id: userId
+            }
+        })
+
+    }
+}
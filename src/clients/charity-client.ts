@@ -0,0 +1,132 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {CharityCampaign, CharityDonation} from "../types";
+
+/**
+ * Calls of the Charity category of the Helix API, available via apiClient.charity
+ */
+export class CharityClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-charity-campaign
+    /**
+     * Gets information about the charity campaign that a broadcaster is running.
+     * @Tokentype user
+     * @Scope channel:read:charity
+     * @param broadcasterId The ID of the broadcaster that’s currently running a charity campaign.
+     * @return The charity campaign that the broadcaster is currently running. If no one is found or the campaign ended, null will be returned.
+     */
+    public async getCharityCampaign(broadcasterId: string): Promise<CharityCampaign | null>{
+        validateParameters("getCharityCampaign", {broadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/charity/campaigns",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getCharityCampaign,
+            schema: RESPONSE_SCHEMAS.getCharityCampaign,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        return response.data.length === 0 ? null : response.data.map((campaign: any): CharityCampaign=>{
+            return {
+                id: campaign.id,
+                broadcasterId: campaign.broadcaster_id,
+                broadcasterLogin: campaign.broadcaster_login,
+                broadcasterDisplayName: campaign.broadcaster_name,
+                name: campaign.charity_name,
+                description: campaign.charity_description,
+                logo: campaign.charity_logo,
+                website: campaign.charity_website,
+                currentAmount:{
+                    value: campaign.current_amount.value,
+                    decimalPlaces: campaign.current_amount.decimal_places,
+                    currency: campaign.current_amount.currency
+                },
+                targetAmount:{
+                    value: campaign.target_amount.value,
+                    decimalPlaces: campaign.target_amount.decimal_places,
+                    currency: campaign.target_amount.currency
+                }
+            }
+        })
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-charity-campaign-donations
+    /**
+     * Gets the list of donations that users have made to the broadcaster’s active charity campaign.
+     * @Tokentype user
+     * @Scope channel:read:charity
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster that’s currently running a charity campaign.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of donations to be returned.
+     * @return A list that contains the donations that users have made to the broadcaster’s charity campaign. If no one was found, null will be returned.
+     */
+    public async getCharityCampaignDonations(broadcasterId: string, options?:{cursor?: string, max?: number}): Promise<{donations: CharityDonation[], cursor: string | null} | null>{
+        validateParameters("getCharityCampaignDonations", {broadcasterId, options});
+
+        const donations: CharityDonation[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/charity/donations",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getCharityCampaignDonations,
+                schema: RESPONSE_SCHEMAS.getCharityCampaignDonations,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const donation of response.data){
+                donations.push({
+                    campaignId: donation.campaign_id,
+                    donatorId: donation.user_id,
+                    donatorLogin: donation.user_login,
+                    donatorDisplayName: donation.user_name,
+                    amount:{
+                        value: donation.amount.value,
+                        decimalPlaces: donation.amount.decimal_places,
+                        currency: donation.amount.currency
+                    }
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {donations, cursor: cursor!};
+                    return donations.length === 0 ? null : {donations, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return donations.length === 0 ? null : {donations, cursor: null}
+    }
+}
@@ -0,0 +1,454 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES, HelixResponse} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {NamedChatColors, User, Emote, GlobalEmote, EmoteSet, ChatBadge, ChatSettings, ChatColor, ChatSettingsModifications} from "../types";
+
+/**
+ * Calls of the Chat category of the Helix API, available via apiClient.chat
+ */
+export class ChatClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-chatters
+    /**
+     * Gets the list of users that are connected to the broadcaster’s chat session.
+     * @Tokentype user
+     * @Scope moderator:read:chatters
+     * @NOTE The moderatorId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster whose list of chatters you want to get.
+     * @param moderatorId The ID of the broadcaster or one of the broadcaster’s moderators.
+     */
+    public async getChatters(broadcasterId: string, moderatorId: string): Promise<User[]> {
+        validateParameters("getChatters", {broadcasterId, moderatorId});
+
+        const chatters: User[] = [];
+
+        let cursor: string | undefined = undefined;
+
+        while (true) {
+            const response: HelixResponse = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/chat/chatters",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getChatters,
+                schema: RESPONSE_SCHEMAS.getChatters,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    moderator_id: moderatorId,
+                    first: 100,
+                    after: cursor
+                }
+            })
+
+            for (const chatter of response.data) {
+                chatters.push({
+                    id: chatter.user_id,
+                    login: chatter.user_login,
+                    displayName: chatter.user_name
+
+                })
+            }
+
+            if (isUndefined(response.pagination?.cursor))
+                break;
+
+            cursor = response.pagination!.cursor;
+        }
+
+        return chatters;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-emotes
+    /**
+     * Gets the broadcaster’s list of custom emotes.
+     * @Tokentype user, app
+     * @param broadcasterId An ID that identifies the broadcaster whose emotes you want to get.
+     * @returns The list of emotes that the specified broadcaster created. If the broadcaster hasn’t created custom emotes, the list is empty.
+     */
+    public async getChannelEmotes(broadcasterId: string): Promise<Emote[]> {
+        validateParameters("getChannelEmotes", {broadcasterId});
+
+        const emotes: Emote[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/emotes",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getChannelEmotes,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        for (const emote of response.data) {
+            emotes.push({
+                id: emote.id,
+                name: emote.name,
+                images: emote.images,
+                tier: emote.tier,
+                type: emote.emote_type,
+                setId: emote.emote_set_id,
+                format: emote.format,
+                scale: emote.scale,
+                themeMode: emote.theme_mode,
+            })
+        }
+
+        return emotes;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-global-emotes
+    /**
+     * Gets the list of global emotes.
+     * @Tokentype user, app
+     * @returns The list of global emotes.
+     */
+    public async getGlobalEmotes(): Promise<GlobalEmote[]> {
+        const emotes: GlobalEmote[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/emotes/global",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getGlobalEmotes
+        })
+
+        for (const emote of response.data) {
+            emotes.push({
+                id: emote.id,
+                name: emote.name,
+                images: emote.images,
+                format: emote.format,
+                scale: emote.scale,
+                themeMode: emote.theme_mode,
+            })
+        }
+
+        return emotes;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-emote-sets
+    /**
+     * Gets emotes for one or more specified emote sets.
+     * @Tokentype user, app
+     * @param setId IDs that identify the emote sets to get.
+     */
+    public async getEmoteSets(setIds: string[]) {
+        validateParameters("getEmoteSets", {setIds});
+
+        const emoteSets: EmoteSet[] = []
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/emotes/set",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getEmoteSets,
+            query: {
+                emote_set_id: setIds
+            }
+        })
+
+        for (const emoteSet of response.data) {
+            emoteSets.push({
+                id: emoteSet.id,
+                name: emoteSet.name,
+                images: emoteSet.images,
+                type: emoteSet.emote_type,
+                setId: emoteSet.emote_set_id,
+                ownerId: emoteSet.owner_id,
+                format: emoteSet.format,
+                scale: emoteSet.scale,
+                themeMode: emoteSet.theme_mode
+            })
+        }
+
+        return emoteSets;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-chat-badges
+    /**
+     * Gets the broadcaster’s list of custom chat badges.
+     * @Tokentype user, app
+     * @param broadcasterId The ID of the broadcaster whose chat badges you want to get.
+     * @returns The list of chat badges. The list is sorted in ascending order by set_id, and within a set, the list is sorted in ascending order by id.
+     */
+    public async getChannelChatBadges(broadcasterId: string): Promise<ChatBadge[]> {
+        validateParameters("getChannelChatBadges", {broadcasterId});
+
+        const badges: ChatBadge[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/badges",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getChannelChatBadges,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        for (const chatBadge of response.data) {
+            badges.push({
+                setId: chatBadge.set_id,
+                versions: chatBadge.versions,
+            })
+        }
+
+        return badges;
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-global-chat-badges
+    /**
+     * Gets Twitch’s list of chat badges, which users may use in any channel’s chat room
+     * @Tokentype user, app
+     * @returns The list of global chat badges. The list is sorted in ascending order by set_id, and within a set, the list is sorted in ascending order by id.
+     */
+    public async getGlobalChatBadges(): Promise<ChatBadge[]> {
+        const badges: ChatBadge[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/badges/global",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getGlobalChatBadges
+        })
+
+        for (const chatBadge of response.data) {
+            badges.push({
+                setId: chatBadge.set_id,
+                versions: chatBadge.versions,
+            })
+        }
+
+        return badges;
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-chat-settings
+    /**
+     * Gets the broadcaster’s chat settings.
+     * @Tokentype user, app
+     * @Scope moderator:read:chat_settings
+     * @param broadcasterId The ID of the broadcaster whose chat settings you want to get.
+     * @param moderatorId The ID of a user that has permission to moderate the broadcaster’s chat room, or the broadcaster’s ID if they’re getting the settings.
+     * @returns The list of chat settings. The list contains a single object with all the settings.
+     */
+    public async getChatSettings(broadcasterId: string, moderatorId?: string): Promise<ChatSettings> {
+        validateParameters("getChatSettings", {broadcasterId, moderatorId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/settings",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getChatSettings,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            }
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            emoteModeActive: response.data[0].emote_mode,
+            followerModeActive: response.data[0].follower_mode,
+            followerModeDuration: response.data[0].follower_mode_duration,
+            moderatorId: response.data[0].moderator_id,
+            moderatorChatDelayActive: response.data[0].non_moderator_chat_delay,
+            moderatorChatDelay: response.data[0].non_moderator_chat_delay_duration,
+            slowModeActive: response.data[0].slow_mode,
+            slowModeWaitTime: response.data[0].slow_mode_wait_time,
+            subscriberModeActive: response.data[0].subscriber_mode,
+            uniqueChatModeActive: response.data[0].unique_chat_mode
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-chat-settings
+    /**
+     * Updates the broadcaster’s chat settings.
+     * @Tokentype user
+     * @Scope moderator:manage:chat_settings
+     * @NOTE The moderatorId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster whose chat settings you want to update.
+     * @param moderatorId The ID of a user that has permission to moderate the broadcaster’s chat room, or the broadcaster’s ID if they’re making the update. This ID must match the user ID in the user access token.
+     * @param [modifications] Possible modifications
+     * @param [modifications.emoteModeActive] A Boolean value that determines whether chat messages must contain only emotes.
+     * @param [modifications.followerModeActive] A Boolean value that determines whether the broadcaster restricts the chat room to followers only.
+     * @param [modifications.followerModeDuration] The length of time, in minutes, that users must follow the broadcaster before being able to participate in the chat room.
+     * @param [modifications.moderatorChatDelayActive] A Boolean value that determines whether the broadcaster adds a short delay before chat messages appear in the chat room.
+     * @param [modifications.moderatorChatDelay] The amount of time, in seconds, that messages are delayed before appearing in chat.
+     * @param [modifications.slowModeActive] A Boolean value that determines whether the broadcaster limits how often users in the chat room are allowed to send messages.
+     * @param [modifications.slowModeWaitTime] The amount of time, in seconds, that users must wait between sending messages.
+     * @param [modifications.subscriberModeActive] A Boolean value that determines whether only users that subscribe to the broadcaster’s channel may talk in the chat room.
+     * @param [modifications.uniqueChatModeActive] A Boolean value that determines whether the broadcaster requires users to post only unique messages in the chat room.
+     * @return New chat settings.
+     */
+    public async updateChatSettings(broadcasterId: string, moderatorId: string, modifications: ChatSettingsModifications):Promise<ChatSettings>{
+        validateParameters("updateChatSettings", {broadcasterId, moderatorId, modifications});
+
+        const requestObject = {}
+
+        if(isDefined(modifications.emoteModeActive))
+            Object.defineProperty(requestObject, "emote_mode", {value: modifications.emoteModeActive, enumerable: true})
+
+        if(isDefined(modifications.followerModeActive)){
+            if(modifications.followerModeActive && isDefined(modifications.followerModeDuration)){
+                Object.defineProperty(requestObject, "follower_mode_duration", {value: modifications.followerModeDuration, enumerable: true})
+            }else{
+                throw new Error("No duration for follower mode provided!");
+            }
+            Object.defineProperty(requestObject, "follower_mode", {value: modifications.followerModeActive, enumerable: true})
+        }
+
+        if(isDefined(modifications.moderatorChatDelayActive)){
+            if(modifications.moderatorChatDelayActive && isDefined(modifications.moderatorChatDelay)){
+                Object.defineProperty(requestObject, "non_moderator_chat_delay_duration", {value: modifications.moderatorChatDelay, enumerable: true})
+            }else{
+                throw new Error("No duration for moderator chat mode provided!");
+            }
+            Object.defineProperty(requestObject, "non_moderator_chat_delay", {value: modifications.moderatorChatDelayActive, enumerable: true})
+        }
+
+        if(isDefined(modifications.slowModeActive)){
+            if(modifications.slowModeActive && isDefined(modifications.slowModeWaitTime)){
+                Object.defineProperty(requestObject, "slow_mode_wait_time", {value: modifications.slowModeWaitTime, enumerable: true})
+            }else{
+                throw new Error("No wait time for slow mode provided!");
+            }
+            Object.defineProperty(requestObject, "slow_mode", {value: modifications.slowModeActive, enumerable: true})
+        }
+
+        if(isDefined(modifications.subscriberModeActive)){
+            Object.defineProperty(requestObject, "subscriber_mode", {value: modifications.subscriberModeActive, enumerable: true})
+        }
+
+        if(isDefined(modifications.uniqueChatModeActive)){
+            Object.defineProperty(requestObject, "unique_chat_mode", {value: modifications.uniqueChatModeActive, enumerable: true})
+        }
+
+
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/chat/settings",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateChatSettings,
+            schema: RESPONSE_SCHEMAS.updateChatSettings,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: requestObject
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            emoteModeActive: response.data[0].emote_mode,
+            followerModeActive: response.data[0].follower_mode,
+            followerModeDuration: response.data[0].follower_mode_duration,
+            moderatorId: response.data[0].moderator_id,
+            moderatorChatDelayActive: response.data[0].non_moderator_chat_delay,
+            moderatorChatDelay: response.data[0].non_moderator_chat_delay_duration,
+            slowModeActive: response.data[0].slow_mode,
+            slowModeWaitTime: response.data[0].slow_mode_wait_time,
+            subscriberModeActive: response.data[0].subscriber_mode,
+            uniqueChatModeActive: response.data[0].unique_chat_mode
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#send-chat-announcement
+    /**
+     * Sends an announcement to the broadcaster’s chat room.
+     * @Tokentype user
+     * @Scope moderator:manage:announcements
+     * @NOTE The moderatorId must match the user ID in the user access token.
+     * @NOTE If moderatorId was not set, it will default to the broadcaster's id
+     * @param broadcasterId The ID of the broadcaster that owns the chat room to send the announcement to.
+     * @param message The announcement to make in the broadcaster’s chat room. Announcements are limited to a maximum of 500 characters;
+     * @param options
+     */
+    public async sendChatAnnouncement(broadcasterId: string, message: string, options?: { moderatorId?: string, color?: "blue" | "green" | "orange" | "purple" | "primary" }): Promise<void> {
+        validateParameters("sendChatAnnouncement", {broadcasterId, message, options});
+
+        const announcementColor = isUndefined(options) ? "primary" : (options!.color ?? "primary")
+        const moderatorId = isUndefined(options) ? broadcasterId : (options!.moderatorId ?? broadcasterId)
+
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/chat/announcements",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.sendChatAnnouncement,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: {
+                message,
+                color: announcementColor
+            }
+        })
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-user-chat-color
+    /**
+     * Gets the color used for the users' name in chat.
+     * @Tokentype user, app
+     * @param userIds The ID of the users whose username color you want to get.
+     * @returns The list of users and the color code they use for their name.
+     */
+    public async getUsersChatColor(userIds: string[]): Promise<ChatColor[]> {
+        validateParameters("getUsersChatColor", {userIds});
+
+        const chatColors: ChatColor[] = [];
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/chat/color",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getUsersChatColor,
+            query: {
+                user_id: userIds
+            }
+        })
+
+        for (const color of response.data) {
+            chatColors.push({
+                userId: color.user_id,
+                userLogin: color.user_login,
+                userDisplayName: color.user_name,
+                color: color.color
+            })
+        }
+
+        return chatColors;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-user-chat-color
+    /**
+     * Updates the color used for the user’s name in chat.
+     * @Tokentype user
+     * @Scope user:manage:chat_color
+     * @NOTE The userID must match the user ID in the access token.
+     * @NOTE Turbo and Prime users may specify a named color or a Hex color code like #9146FF
+     * @param userId The ID of the user whose chat color you want to update.
+     * @param color The color to use for the user’s name in chat.
+     */
+    public async updateUserChatColor(userId: string, color: NamedChatColors | string): Promise<void> {
+        validateParameters("updateUserChatColor", {userId, color});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/chat/color",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateUserChatColor,
+            query: {
+                user_id: userId,
+                color
+            }
+        })
+    }
+}
@@ -0,0 +1,136 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Clip} from "../types";
+
+/**
+ * Calls of the Clips category of the Helix API, available via apiClient.clips
+ */
+export class ClipsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-clip
+    /**
+     * Creates a clip from the broadcaster’s stream.
+     * @Tokentype user
+     * @Scope clips:edit
+     * @NOTE This captures up to 90 seconds of the broadcaster’s stream. The 90 seconds spans the point in the stream from when you called the method.
+     * @NOTE By default, Twitch publishes up to the last 30 seconds of the 90 seconds window and provides a default title for the clip
+     * @NOTE To specify the title and the portion of the 90 seconds window that’s used for the clip, use the URL in the return
+     * @param broadcasterId
+     * @param options
+     */
+    public async createClip(broadcasterId: string, options?: { delayed?: boolean }): Promise<{url: string, id: string}> {
+        validateParameters("createClip", {broadcasterId, options});
+
+        const delay = isUndefined(options) ? false : options!.delayed ?? false
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/clips",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.createClip,
+            schema: RESPONSE_SCHEMAS.createClip,
+            query: {
+                broadcaster_id: broadcasterId,
+                has_delay: delay
+            }
+        })
+
+        return {
+            url: response.data[0].edit_url,
+            id: response.data[0].id
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-clips
+    /**
+     * Gets one or more video clips that were captured from streams.
+     * @Tokentype user, app
+     * @NOTE The id, game_id, and broadcaster_id query parameters are mutually exclusive.
+     * @param identifiers Possible identifiers
+     * @param [identifiers.broadcasterId] An ID that identifies the broadcaster whose video clips you want to get.
+     * @param [identifiers.categoryId] An ID that identifies the game whose clips you want to get.
+     * @param [identifiers.clipIds] IDs that identify the clip to get.
+     * @param [options] Additional optional parameters
+     * @param [options.startedAt] The start date used to filter clips.
+     * @param [options.endedAt] The end date used to filter clips.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] Maximum amount of clips to be returned.
+     * @return List of clips. If no one was found, null will be returned
+     */
+    public async getClips(identifiers: {broadcasterId?: string, categoryId?: string, clipIds?: string[]}, options?: {startedAt?: Date, endedAt?: Date, cursor?: string, max?: number}):Promise<{clips: Clip[], cursor: string | null} | null>{
+        validateParameters("getClips", {identifiers, options});
+
+        const clips: Clip[] = [];
+
+        if(isUndefined(identifiers.broadcasterId, identifiers.clipIds, identifiers.categoryId))
+            throw new Error("You have to provide at least one identifier!")
+
+        //The identifiers are mutually exclusive, only the first defined one is sent
+        const identifierQuery = isDefined(identifiers.broadcasterId) ? {broadcaster_id: identifiers.broadcasterId} : isDefined(identifiers.categoryId) ? {game_id: identifiers.categoryId} : {id: identifiers.clipIds}
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/clips",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getClips,
+                query: {
+                    ...identifierQuery,
+                    started_at: options?.startedAt,
+                    ended_at: options?.endedAt,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const clip of response.data){
+                clips.push({
+                    id: clip.id,
+                    url: clip.url,
+                    embedUrl: clip.embed_url,
+                    broadcasterId: clip.broadcaster_id,
+                    broadcasterDisplayName: clip.broadcaster_name,
+                    creatorId: clip.creator_id,
+                    creatorDisplayName: clip.creator_name,
+                    videoId: clip.video_id,
+                    categoryId: clip.game_id,
+                    language: clip.language,
+                    title: clip.title,
+                    viewCount: clip.view_count,
+                    createdAt: new Date(clip.created_at),
+                    thumbnailUrl: clip.thumbnail_url,
+                    duration: clip.duration,
+                    vodOffset: clip.vod_offset
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {clips, cursor: cursor!};
+                    return clips.length === 0 ? null : {clips, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return clips.length === 0 ? null : {clips, cursor: null}
+    }
+}
@@ -0,0 +1,162 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {CodeRedemption, Code, EntitlementStatus, DropEntitlement} from "../types";
+
+/**
+ * Calls of the Entitlements category of the Helix API, available via apiClient.entitlements
+ */
+export class EntitlementsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-code-status
+    /**
+     * Gets the status of one or more redemption codes for a Bits reward.
+     * @Tokentype app
+     * @NOTE The client ID in the access token must match a client ID that Twitch has approved to provide entitlements.
+     * @param codes The redemption codes to check.
+     * @param userId The ID of the user that owns the redemption code.
+     * @return List of code status. If no one was found, null will be returned
+     */
+    public async getCodeStatus(codes: string[], userId: string):Promise<Code[] | null>{
+        validateParameters("getCodeStatus", {codes, userId});
+
+        const returnCodes: Code[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/entitlements/codes",
+            tokenType: TOKEN_TYPES.APP,
+            schema: RESPONSE_SCHEMAS.getCodeStatus,
+            query: {
+                code: codes,
+                user_id: userId
+            }
+        })
+
+        for(const code of response.data){
+            returnCodes.push({
+                code: code.code,
+                status: code.status
+            })
+        }
+
+        return returnCodes.length === 0 ? null: returnCodes;
+
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-drops-entitlements
+    /**
+     * Gets an organization’s list of entitlements that have been granted to a game, a user, or both.
+     * @Tokentype user, app
+     * @NOTE The client ID in the access token must own the game. See Reference for more important information!
+     * @param [identifiers] Possible identifiers
+     * @param [identifiers.entitlementIds] IDs that identifies the entitlement to get.
+     * @param [identifiers.granteeId] An ID that identifies a user that was granted entitlements.
+     * @param [identifiers.categoryId] An ID that identifies a category that offered entitlements.
+     * @param [identifiers.fulfillmentStatus] The entitlement’s fulfillment status.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of entitlements to be returned.
+     * @return The list of entitlements. If no one was found, null will be returned.
+     */
+    public async getDropEntitlements(identifiers?: {entitlementIds?: string[], granteeId?: string, categoryId?: string, fulfillmentStatus?: EntitlementStatus}, options?:{cursor?: string, max?: number}):Promise<{entitlements: DropEntitlement[], cursor: string | null} | null>{
+        validateParameters("getDropEntitlements", {identifiers, options});
+
+        const entitlements: DropEntitlement[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/entitlements/drops",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getDropEntitlements,
+                query: {
+                    id: identifiers?.entitlementIds,
+                    user_id: identifiers?.granteeId,
+                    game_id: identifiers?.categoryId,
+                    fulfillment_status: identifiers?.fulfillmentStatus,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const entitlement of response.data){
+                entitlements.push({
+                    id: entitlement.id,
+                    benefitId: entitlement.benefit_id,
+                    timestamp: new Date(entitlement.timestamp),
+                    granteeId: entitlement.user_id,
+                    categoryId: entitlement.game_id,
+                    fulfillmentStatus: entitlement.fulfillment_status,
+                    lastUpdated: new Date(entitlement.last_updated)
+                })
+
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {entitlements, cursor: cursor!};
+                    return entitlements.length === 0 ? null : {entitlements, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return entitlements.length === 0 ? null : {entitlements, cursor: null}
+    }
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#update-drops-entitlements
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#redeem-code
+    /**
+     * Redeems one or more redemption codes. Redeeming a code credits the user’s account with the entitlement
+     * @Tokentype app
+     * @NOTE Only client IDs approved by Twitch may redeem codes on behalf of any Twitch user account.
+     * @param codes The redemption codes to redeem.
+     * @param userId The ID of the user that owns the redemption code to redeem.
+     */
+    public async redeemCode(codes: string[], userId: string): Promise<CodeRedemption[]>{
+        validateParameters("redeemCode", {codes, userId});
+
+        const redemptions: CodeRedemption[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/entitlements/codes",
+            tokenType: TOKEN_TYPES.APP,
+            schema: RESPONSE_SCHEMAS.redeemCode,
+            query: {
+                code: codes,
+                user_id: userId
+            }
+        })
+
+        for(const redemption of response.data){
+            redemptions.push({
+                code: redemption.code,
+                status: redemption.status
+            })
+        }
+
+        return redemptions;
+
+
+    }
+}
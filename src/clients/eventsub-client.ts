@@ -0,0 +1,192 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {TRANSPORT_METHODS, TransportMethod, SubscriptionStatus, SubscriptionType, Subscription} from "../types";
+import {EventSubCondition, EventSubVersion} from "../eventsub-types";
+
+/**
+ * Calls of the EventSub category of the Helix API, available via apiClient.eventsub
+ */
+export class EventsubClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-eventsub-subscription
+    /**
+     * Creates an EventSub subscription.
+     * @Tokentype user, app (see NOTE)
+     * @Scope channel:read:subscriptions
+     * @NOTE If you use Webhooks you MUST use an app access token, if you use Websockets you MUST use a user access token.
+     * @NOTE You must have aquired a user access token with the correct scope even tho you are using webhooks!
+     * @param type The type of subscription to create.
+     * @param version The version number that identifies the definition of the subscription type that you want the response to use.
+     * @param condition A JSON object that contains the parameter values that are specific to the specified subscription type.
+     * @param transport The transport details that you want Twitch to use when sending you notifications.
+     * @return Newly created subscription
+     */
+    public async createEventsubSubscription<T extends SubscriptionType>(type: T, version: EventSubVersion<T>, condition: EventSubCondition<T>, transport: {method: TransportMethod, callback?: string, secret?: string, sessionId?: string}): Promise<Subscription<T>>{
+        validateParameters("createEventsubSubscription", {type, version, condition, transport});
+
+        let subscriptionObject = {
+            type: type,
+            version: version,
+            condition: condition,
+            transport:{
+                method: transport.method
+            }
+        }
+
+        if(transport.method === TRANSPORT_METHODS.WEBHOOK){
+            Object.defineProperty(subscriptionObject.transport, "callback", {value: transport.callback, enumerable: true})
+            Object.defineProperty(subscriptionObject.transport, "secret", {value: transport.secret, enumerable: true})
+        }
+
+        if(transport.method === TRANSPORT_METHODS.WEBSOCKET){
+            Object.defineProperty(subscriptionObject.transport, "session_id", {value: transport.sessionId, enumerable: true})
+        }
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/eventsub/subscriptions",
+            tokenType: transport.method === TRANSPORT_METHODS.WEBHOOK ? TOKEN_TYPES.APP : TOKEN_TYPES.USER,
+            schema: RESPONSE_SCHEMAS.createEventsubSubscription,
+            body: subscriptionObject
+        })
+
+        let subscription =  {
+            id: response.data[0].id,
+            status: response.data[0].status,
+            type: response.data[0].type,
+            version: response.data[0].version,
+            condition: response.data[0].condition,
+            createdAt: new Date(response.data[0].created_at),
+            transport:{
+                method: response.data[0].transport.method
+            },
+            cost: response.data[0].cost,
+            totalSubscriptions: response.total,
+            totalCost: response.total_cost,
+            maxTotalCost: response.max_total_cost
+        }
+
+        if(transport.method === TRANSPORT_METHODS.WEBHOOK){
+            Object.defineProperty(subscription.transport, "callback", {value: response.data[0].transport.callback, enumerable: true})
+            Object.defineProperty(subscription.transport, "secret", {value: response.data[0].transport.secret, enumerable: true})
+        }
+
+        if(transport.method === TRANSPORT_METHODS.WEBSOCKET){
+            Object.defineProperty(subscription.transport, "sessionId", {value: response.data[0].transport.session_id, enumerable: true})
+        }
+
+        return subscription;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#delete-eventsub-subscription
+    /**
+     * Deletes an EventSub subscription.
+     * @param id The ID of the subscription to delete.
+     * @param usedMethod Transport method used for receiving the event. Websocket or Webhook
+     */
+    public async deleteEventsubSubscription(id: string, usedMethod: TransportMethod){
+        validateParameters("deleteEventsubSubscription", {id, usedMethod});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/eventsub/subscriptions",
+            tokenType: usedMethod === TRANSPORT_METHODS.WEBSOCKET ? TOKEN_TYPES.USER : TOKEN_TYPES.APP,
+            query: {
+                id
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-eventsub-subscriptions
+    /**
+     * Gets information about all broadcasts on Twitch
+     * @Tokentype user
+     * @Scope channel:read:subscriptions
+     * @NOTE If you use Webhooks you MUST use an app access token, if you use Websockets you MUST use a user access token.
+     * @NOTE You must have aquired a user access token with the correct scope even tho you are using webhooks!
+     * @param options Additional optional parameters
+     * @param options.status Filter subscriptions by its status.
+     * @param options.type Filter subscriptions by subscription type.
+     * @param options.userIds Filter subscriptions by user IDs
+     * @param options.usedMethod Transport method of the subscriptions to get. Webhook subscriptions are requested with the app access token. Defaults to Websocket.
+     * @param options.max Maximum number of returned subscriptions
+     * @param options.cursor The cursor used to get the next page of results.
+     * @return List of subscription. If no one was found, null will be returned
+     */
+    public async getEventsubSubscription(options?: {status?: SubscriptionStatus, type?: SubscriptionType, userIds?: string[], usedMethod?: TransportMethod, max?: number, cursor?: string}):Promise<{subscriptions: Subscription[], cursor: string | null, totalCost: number, maxTotalCost: number} | null>{
+        validateParameters("getEventsubSubscription", {options});
+
+        const subscriptions: Subscription[] = [];
+
+        let cursor = options?.cursor
+        let totalCost = 0;
+        let maxTotalCost = 0;
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/eventsub/subscriptions",
+                tokenType: options?.usedMethod === TRANSPORT_METHODS.WEBHOOK ? TOKEN_TYPES.APP : TOKEN_TYPES.USER,
+                schema: RESPONSE_SCHEMAS.getEventsubSubscription,
+                query: {
+                    user_id: options?.userIds,
+                    type: options?.type,
+                    status: options?.status,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+            totalCost = response.total_cost;
+            maxTotalCost = response.max_total_cost;
+
+            for (const subscription of response.data){
+                const subscriptionObject = {
+                    id: subscription.id,
+                    status: subscription.status,
+                    type: subscription.type,
+                    version: subscription.version,
+                    condition: subscription.condition,
+                    createdAt: new Date(subscription.created_at),
+                    transport: {
+                        method: subscription.transport.method,
+                    },
+                    cost: subscription.cost
+                }
+
+                if(subscriptionObject.transport.method === TRANSPORT_METHODS.WEBHOOK){
+                    Object.defineProperty(subscriptionObject.transport, "callback", {value: subscription.transport.callback, enumerable: true})
+                    Object.defineProperty(subscriptionObject.transport, "secret", {value: subscription.transport.secret, enumerable: true})
+                }
+
+                if(subscriptionObject.transport.method === TRANSPORT_METHODS.WEBSOCKET){
+                    Object.defineProperty(subscriptionObject.transport, "sessionId", {value: subscription.transport.session_id, enumerable: true})
+                }
+                subscriptions.push(subscriptionObject)
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {subscriptions, cursor: cursor!, totalCost, maxTotalCost};
+                    return subscriptions.length === 0 ? null : {subscriptions, cursor: null, totalCost, maxTotalCost}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                return subscriptions.length === 0 ? null : {subscriptions, cursor: null, totalCost, maxTotalCost}
+            }
+        }
+
+
+    }
+}
@@ -0,0 +1,409 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {Extension, ExtensionSecret, BitsProduct, ExtensionLiveChannel, PubsubMessageTarget} from "../types";
+
+/**
+ * Calls of the Extensions category of the Helix API, available via apiClient.extensions
+ */
+export class ExtensionsClient extends HelixClient{
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#get-extension-configuration-segment
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#set-extension-configuration-segment
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#set-extension-required-configuration
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#send-extension-pubsub-message
+    /**
+     * Sends a message to one or more viewers.
+     * @Tokentype JWT
+     * @NOTE: See Reference for more information about the JWT!
+     * @param broadcasterId The ID of the broadcaster to send the message to.
+     * @param targets The targets of the message. Whisper messsages must have the following structure: whisper-{user-id}
+     * @param message The message to send.
+     * @param [options] Additional optional parameters
+     * @param [options.isGlobalBroadcast] A Boolean value that determines whether the message should be sent to all channels where your extension is active.
+     */
+    public async sendExtensionPubsubMessage(broadcasterId: string, targets: PubsubMessageTarget[], message: string, options?: {isGlobalbroadcast: boolean}):Promise<void>{
+        validateParameters("sendExtensionPubsubMessage", {broadcasterId, targets, message, options});
+
+        const requestObject={
+            broadcaster_id: broadcasterId,
+            target: targets,
+            message: message
+        }
+
+        if(isDefined(options?.isGlobalbroadcast))
+            Object.defineProperty(requestObject, "is_global_broadcaster", {value: options!.isGlobalbroadcast, enumerable: true})
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/extensions/pubsub",
+            tokenType: TOKEN_TYPES.USER,
+            body: requestObject
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extension-live-channels
+    /**
+     * Gets a list of broadcasters that are streaming live and have installed or activated the extension.
+     * @Tokentype user, app
+     * @NOTE: It may take a few minutes for the list to include or remove broadcasters that have recently gone live or stopped broadcasting.
+     * @param extensionId The ID of the extension to get. Returns the list of broadcasters that are live and that have installed or activated this extension.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of channels to be returned.
+     * @return The list of broadcasters that are streaming live and that have installed or activated the extension. If no one was found, null will be returned.
+     */
+    public async getExtensionLiveChannels(extensionId: string, options?:{cursor?: string, max?: number}): Promise<{channels: ExtensionLiveChannel[], cursor: string | null} | null>{
+        validateParameters("getExtensionLiveChannels", {extensionId, options});
+
+        const channels: ExtensionLiveChannel[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/extensions/live",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getExtensionLiveChannels,
+                query: {
+                    extension_id: extensionId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const channel of response.data){
+                channels.push({
+                    broadcasterId: channel.broadcaster_id,
+                    broadcasterDisplayName: channel.broadcaster_name,
+                    categoryId: channel.game_id,
+                    categoryName: channel.game_name,
+                    title: channel.title
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {channels, cursor: cursor!};
+                    return channels.length === 0 ? null : {channels, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return channels.length === 0 ? null : {channels, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extension-secrets
+    /**
+     * Gets an extension’s list of shared secrets.
+     * @Tokentype JWT
+     * @param extensionId The ID of the extension whose shared secrets you want to get.
+     * @param jwt See information for detailed information!
+     * @return The list of shared secrets that the extension created. Null of no one was found
+     */
+    public async getExtensionSecrets(extensionId: string, jwt: string): Promise<ExtensionSecret[] | null>{
+        validateParameters("getExtensionSecrets", {extensionId, jwt});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/extensions/jwt/secrets",
+            tokenType: TOKEN_TYPES.JWT,
+            schema: RESPONSE_SCHEMAS.getExtensionSecrets,
+            jwt,
+            query: {
+                extension_id: extensionId
+            }
+        })
+
+        return response.data.length === 0 ? null : response.data.map((secret: any): ExtensionSecret =>{
+            return {
+                formatVersion: secret.format_version,
+                secrets: secret.secrets.map((s: any)=>{
+                    return {
+                        content: s.content,
+                        activeAt: new Date(s.active_at),
+                        expiresAt: new Date(s.expires_at)
+                    }
+                })
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-extension-secret
+    /**
+     * Creates a shared secret used to sign and verify JWT tokens.
+     * @Tokentype JWT
+     * @param extensionId The ID of the extension to apply the shared secret to.
+     * @param jwt JSON Web Token (JWT) created by an Extension Backend Service (EBS) for signing (See Reference for more information!)
+     * @param options Additional optional parameters
+     * @param options.delay The amount of time, in seconds, to delay activating the secret.
+     * @return Newly created secret.
+     */
+    public async createExtensionSecret(extensionId: string, jwt: string, options:{delay?: number}): Promise<ExtensionSecret[] | null>{
+        validateParameters("createExtensionSecret", {extensionId, jwt, options});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/extensions/jwt/secrets",
+            tokenType: TOKEN_TYPES.JWT,
+            schema: RESPONSE_SCHEMAS.createExtensionSecret,
+            jwt,
+            query: {
+                extension_id: extensionId,
+                delay: options?.delay
+            }
+        })
+
+        return response.data.length === 0 ? null : (response.data.map((result: any): ExtensionSecret=>{
+            return {
+                formatVersion: result.format_version,
+                secrets: result.secrets.map((secret: any)=>{
+                    return {
+                        content: secret.content,
+                        activeAt: new Date(secret.active_at),
+                        expiresAt: new Date(secret.expires_at)
+                    }
+                })
+            }
+        }))[0]
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#send-extension-chat-message
+    /**
+     * Sends a message to the specified broadcaster’s chat room. The extension’s name is used as the username for the message in the chat room.
+     * @Tokentype JWT
+     * @param broadcasterId The ID of the broadcaster that has activated the extension.
+     * @param extensionId The ID of the extension that’s sending the chat message.
+     * @param extensionVersion The extension’s version number.
+     * @param text The message. The message may contain a maximum of 280 characters.
+     * @param jwt See Reference for detailed information!
+     */
+    public async sendExtensionChatMessage(broadcasterId: string, extensionId: string, extensionVersion: string, text: string, jwt: string){
+        validateParameters("sendExtensionChatMessage", {broadcasterId, extensionId, extensionVersion, text, jwt});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/extensions/chat",
+            tokenType: TOKEN_TYPES.JWT,
+            jwt,
+            query: {
+                broadcaster_id: broadcasterId
+            },
+            body: {
+                text,
+                extension_id: extensionId,
+                extension_version: extensionVersion
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extensions
+    /**
+     * Gets information about an extension.
+     * @Tokentype JWT (see Reference for more information!)
+     * @param extensionId The ID of the extension to get.
+     * @param options The version of the extension to get.
+     */
+    public async getExtensions(extensionId: string, jwt: string, options: {extensionVersion: string}):Promise<Extension | null>{
+        validateParameters("getExtensions", {extensionId, jwt, options});
+
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/extensions",
+            tokenType: TOKEN_TYPES.JWT,
+            schema: RESPONSE_SCHEMAS.getExtensions,
+            jwt,
+            query: {
+                extension_id: extensionId,
+                extension_version: options?.extensionVersion
+            }
+        })
+
+
+        return response.data.length === 0 ? null :{
+            authorName: response.data[0].author_name,
+            bitsEnabled: response.data[0].bits_enabled,
+            canInstall: response.data[0].can_install,
+            configurationLocation: response.data[0].configuration_location,
+            description: response.data[0].description,
+            eulaTosUrl: response.data[0].eula_tos_url,
+            hasChatSupport: response.data[0].has_chat_support,
+            iconUrl: response.data[0].icon_url,
+            iconUrls: response.data[0].icon_urls,
+            id: response.data[0].id,
+            name: response.data[0].name,
+            privacyPolicyUrl: response.data[0].privacy_policy_url,
+            requestIdentityLink: response.data[0].request_identity_link,
+            screenshotUrls: response.data[0].screenshot_urls,
+            state: response.data[0].state,
+            subscriptionsSupportLevel: response.data[0].subscriptions_support_level,
+            summary: response.data[0].summary,
+            supportEmail: response.data[0].support_email,
+            version: response.data[0].version,
+            viewerSummary: response.data[0].viewer_summary,
+            views:{
+                mobile:{
+                    viewerUrl: response.data[0].views.mobile.viewer_url,
+                },
+                panel: {
+                    viewerUrl: response.data[0].views.panel.viewer_url,
+                    height: response.data[0].views.panel.height,
+                    canLinkExternalContent: response.data[0].views.panel.can_link_external_content
+                },
+                videoOverlay: {
+                    viewerUrl: response.data[0].views.video_overlay.viewer_url,
+                    canLinkExternalContent: response.data[0].views.video_overlay.can_link_external_content
+                },
+                component:{
+                    viewerUrl: response.data[0].views.component.viewer_url,
+                    aspectRatioX: response.data[0].views.component.aspect_ratio_x,
+                    aspectRatioY: response.data[0].views.component.aspect_ratio_y,
+                    autoScale: response.data[0].views.component.autoscale,
+                    scalePixels: response.data[0].views.component.scale_pixels,
+                    targetHigh: response.data[0].views.component.target_height,
+                    canLinkExternalContent: response.data[0].views.component.can_link_external_content
+                },
+                config: {
+                    viewerUrl: response.data[0].views.config.viewer_url,
+                    canLinkExternalContent: response.data[0].views.config.can_link_external_content
+                }
+            },
+            allowlistedConfigUrls: response.data[0].allowlisted_config_urls,
+            allowlistedPanelUrls: response.data[0].allowlisted_panel_urls
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-released-extensions
+    /**
+     * Gets information about a released extension.
+     * @Tokentype user, app
+     * @param extensionId The ID of the extension to get.
+     * @param [options]
+     * @param [options.extensionVersion] The version of the extension to get. If not specified, it returns the latest version.
+     * @return The specified released extension. If no one was found, null will be returned
+     */
+    public async getReleasedExtensions(extensionId: string, options?: {extensionVersion?: string}): Promise<Extension | null>{
+        validateParameters("getReleasedExtensions", {extensionId, options});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/extensions/released",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getReleasedExtensions,
+            query: {
+                extension_id: extensionId,
+                extension_version: options?.extensionVersion
+            }
+        })
+
+        return response.data.length === 0 ? null :{
+            authorName: response.data[0].author_name,
+            bitsEnabled: response.data[0].bits_enabled,
+            canInstall: response.data[0].can_install,
+            configurationLocation: response.data[0].configuration_location,
+            description: response.data[0].description,
+            eulaTosUrl: response.data[0].eula_tos_url,
+            hasChatSupport: response.data[0].has_chat_support,
+            iconUrl: response.data[0].icon_url,
+            iconUrls: response.data[0].icon_urls,
+            id: response.data[0].id,
+            name: response.data[0].name,
+            privacyPolicyUrl: response.data[0].privacy_policy_url,
+            requestIdentityLink: response.data[0].request_identity_link,
+            screenshotUrls: response.data[0].screenshot_urls,
+            state: response.data[0].state,
+            subscriptionsSupportLevel: response.data[0].subscriptions_support_level,
+            summary: response.data[0].summary,
+            supportEmail: response.data[0].support_email,
+            version: response.data[0].version,
+            viewerSummary: response.data[0].viewer_summary,
+            views:{
+                mobile:{
+                    viewerUrl: response.data[0].views.mobile.viewer_url,
+                },
+                panel: {
+                    viewerUrl: response.data[0].views.panel.viewer_url,
+                    height: response.data[0].views.panel.height,
+                    canLinkExternalContent: response.data[0].views.panel.can_link_external_content
+                },
+                videoOverlay: {
+                    viewerUrl: response.data[0].views.video_overlay.viewer_url,
+                    canLinkExternalContent: response.data[0].views.video_overlay.can_link_external_content
+                },
+                component:{
+                    viewerUrl: response.data[0].views.component.viewer_url,
+                    aspectRatioX: response.data[0].views.component.aspect_ratio_x,
+                    aspectRatioY: response.data[0].views.component.aspect_ratio_y,
+                    autoScale: response.data[0].views.component.autoscale,
+                    scalePixels: response.data[0].views.component.scale_pixels,
+                    targetHigh: response.data[0].views.component.target_height,
+                    canLinkExternalContent: response.data[0].views.component.can_link_external_content
+                },
+                config: {
+                    viewerUrl: response.data[0].views.config.viewer_url,
+                    canLinkExternalContent: response.data[0].views.config.can_link_external_content
+                }
+            },
+            allowlistedConfigUrls: response.data[0].allowlisted_config_urls,
+            allowlistedPanelUrls: response.data[0].allowlisted_panel_urls
+        }
+
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-extension-bits-products
+    /**
+     * Gets the list of Bits products that belongs to the extension.
+     * @Tokentype app
+     * @NOTE The client ID in the app access token must be the extension’s client ID.
+     * @param [options] Additional optional parameters
+     * @param [options.shouldIncludeAll] 	A Boolean value that determines whether to include disabled or expired Bits products in the response. The default is false.
+     */
+    public async getExtensionBitsProducts(options?: {shouldIncludeAll: boolean}): Promise<BitsProduct[] | null>{
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/bits/extensions",
+            tokenType: TOKEN_TYPES.APP,
+            schema: RESPONSE_SCHEMAS.getExtensionBitsProducts,
+            query: {
+                should_include_all: options?.shouldIncludeAll
+            }
+        })
+
+        return response.data.length === 0 ? null : response.data.map((product: any): BitsProduct =>{
+            return {
+                sku: product.sku,
+                cost: {
+                    amount: product.cost.amount,
+                    type: product.cost.type
+                },
+                inDevelopment: product.in_development,
+                displayName: product.display_name,
+                expiration: new Date(product.expiration),
+                isBroadcast: product.is_broadcast
+            }
+        })
+    }
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#update-extension-bits-product
+}
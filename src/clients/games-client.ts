@@ -0,0 +1,135 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {Category} from "../types";
+
+/**
+ * Calls of the Games category of the Helix API, available via apiClient.games
+ */
+export class GamesClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-top-games
+    /**
+     * Gets information about all broadcasts on Twitch.
+     * @Tokentype user, app
+     * @param options
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] Maximum number of returned subscriptions.
+     */
+    public async getTopGames(options?: {cursor?: string, max?: number}):Promise<{games: Category[], cursor: string | null} | null>{
+        validateParameters("getTopGames", {options});
+
+        const games: Category[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/games/top",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getTopGames,
+                query: {
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const game of response.data){
+                games.push({
+                    id: game.id,
+                    name: game.name,
+                    boxArtUrl: game.box_art_url,
+                    igdbId: game.igdb_id,
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {games, cursor: cursor!};
+                    return games.length === 0 ? null : {games, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                return games.length === 0 ? null : {games, cursor: null}
+            }
+        }
+    }
+
+    /**
+     * Gets information about specified categories or games.
+     * @Reference https://dev.twitch.tv/docs/api/reference#get-games
+     * @Tokentype user, app
+     * @NOTE At least one id, name or igdId must be provided!
+     * @param identifiers Available types of game/category identifier
+     * @param [options] Additional options
+     * @param [options.size] Size of resulting box art urls.
+     * @param [identifiers.ids] The IDs of the categories or game to get.
+     * @param [identifiers.names] The names of the categories or game to get.
+     * @param [identifiers.igdbIds] The IGDB IDs of the games to get
+     * @returns The list of categories and games. The list is empty if the specified categories and games weren’t found.
+     */
+    public async getGames(identifiers: {ids?: string[], names?: string[], igdbIds?: string[]}, options?: {size?:{width: number, height: number}}): Promise<Category[]>{
+        validateParameters("getGames", {identifiers, options});
+
+        const games: Category[] = [];
+
+        const identifierCount = (identifiers.ids?.length ?? 0) + (identifiers.names?.length ?? 0) + (identifiers.igdbIds?.length ?? 0)
+
+        if(identifierCount === 0)
+            throw new Error("No identifier provided! You must at least provide one id, name or igdbId")
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/games",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getGames,
+            query: {
+                id: identifiers.ids,
+                name: identifiers.names,
+                igdb_id: identifiers.igdbIds
+            }
+        })
+
+        for(const game of response.data){
+            games.push({
+                id: game.id,
+                name: game.name,
+                boxArtUrl: (!isUndefined(options) && !isUndefined(options!.size)) ? game.box_art_url.replace("{width}", options!.size!.width).replace("{height}", options!.size!.height) : game.box_art_url,
+                igdbId: game.igdb_id
+            })
+        }
+
+        return games;
+    }
+
+    /**
+     * Gets information about specified category.
+     * @Reference https://dev.twitch.tv/docs/api/reference#get-games
+     * @Tokentype user, app
+     * @NOTE At least one id, name or igdId must be provided!
+     * @param identifiers Available types of game/category identifier
+     * @param [options] Additional options
+     * @param [options.size] Size of resulting box art urls.
+     * @param [identifiers.ids] The IDs of the categories or game to get.
+     * @param [identifiers.names] The names of the categories or game to get
+     * @returns The list of categories and games. The list is empty if the specified categories weren’t found.
+     */
+    public async getCategory(identifiers: {ids?: string[], names?: string[]}, options?: {size?:{width: number, height: number}}): Promise<Category[]>{
+        return (await this.getGames(identifiers, options)).map((category)=>{
+            delete category.igdbId
+            return category
+        })
+    }
+}
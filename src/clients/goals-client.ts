@@ -0,0 +1,53 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Goal} from "../types";
+
+/**
+ * Calls of the Goals category of the Helix API, available via apiClient.goals
+ */
+export class GoalsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-creator-goals
+    /**
+     * Gets the broadcaster’s list of active goals.
+     * @Tokentype user
+     * @Scope channel:read:goals
+     * @NOTE The broadcasterId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that created the goals.
+     * @return List of active goals. If no one was found, null will be returned
+     */
+    public async getCreatorGoals(broadcasterId: string): Promise<Goal[] | null>{
+        validateParameters("getCreatorGoals", {broadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/goals",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getCreatorGoals,
+            schema: RESPONSE_SCHEMAS.getCreatorGoals,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        if(response.data.length === 0)
+            return null;
+
+        return response.data.map((goalData: any): Goal =>{
+            return {
+                id: goalData.id,
+                broadcasterId: goalData.broadcaster_id,
+                brodcasterLogin: goalData.broadcaster_login,
+                broadcasterDisplayName: goalData.broadcaster_name,
+                type: goalData.type,
+                description: goalData.description,
+                currentAmount: goalData.current_amount,
+                targetAmount: goalData.target_amount,
+                createdAt: new Date(goalData.created_at)
+            }
+        })
+    }
+}
@@ -0,0 +1,17 @@
+import {RequestHandler} from "../request-handler";
+
+/**
+ * Base of the sub-clients, which group the calls of one category of the Helix API.
+ * Sub-clients only depend on the request handler, so they can be imported and used without the rest of the TwitchAPI client.
+ */
+export abstract class HelixClient{
+
+    protected readonly _requestHandler: RequestHandler;
+
+    /**
+     * @param requestHandler The request handler the calls are sent through. Sub-clients of the same TwitchAPI share its request handler.
+     */
+    constructor(requestHandler: RequestHandler){
+        this._requestHandler = requestHandler;
+    }
+}
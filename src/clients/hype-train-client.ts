@@ -0,0 +1,101 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {HypeTrainEvent} from "../types";
+
+/**
+ * Calls of the Hype Train category of the Helix API, available via apiClient.hypeTrain
+ */
+export class HypeTrainClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-hype-train-events
+    /**
+     * Gets information about the broadcaster’s current or most recent Hype Train event.
+     * @Tokentype user
+     * @Scope channel:read:hype_train
+     * @NOTE The broadcasterId must match the User ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that’s running the Hype Train.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of hyptrain events to be returned.
+     * @return The list of Hype Train events. If no one was found, null will be returned.
+     */
+    public async getHypeTrainEvents(broadcasterId: string, options?:{cursor?: string, max?: number}): Promise<{events: HypeTrainEvent[], cursor: string | null} | null>{
+        validateParameters("getHypeTrainEvents", {broadcasterId, options});
+
+        const events: HypeTrainEvent[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/hypetrain/events",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getHypeTrainEvents,
+                schema: RESPONSE_SCHEMAS.getHypeTrainEvents,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const event of response.data){
+                events.push({
+                    id: event.id,
+                    type: event.event_type,
+                    timestamp: new Date(event.event_timestamp),
+                    version: event.version,
+                    data: {
+                        broadcasterId: event.event_data.broadcaster_id,
+                        cooldownEndTime: event.event_data.cooldown_end_time,
+                        expiresAt: new Date(event.event_data.expires_at),
+                        goal: event.event_data.goal,
+                        hypetrainId: event.event_data.id,
+                        lastContribution:{
+                            total: event.event_data.last_contribution.total,
+                            type: event.event_data.last_contribution.type,
+                            contributorId: event.event_data.last_contribution.user
+                        },
+                        level: event.event_data.level,
+                        startedAt: new Date(event.event_data.started_at),
+                        topContributions: event.event_data.top_contributions.map((con: any)=>{
+                            return {
+                               total: con.total,
+                               type: con.type,
+                               contributorId: con.user
+                            }
+                        }),
+                        total: event.event_data.total
+                    }
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {events, cursor: cursor!};
+                    return events.length === 0 ? null : {events, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return events.length === 0 ? null : {events, cursor: null}
+    }
+}
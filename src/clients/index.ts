@@ -0,0 +1,29 @@
+export * from "./helix-client"
+export * from "./ads-client"
+export * from "./analytics-client"
+export * from "./bits-client"
+export * from "./channel-points-client"
+export * from "./channels-client"
+export * from "./charity-client"
+export * from "./chat-client"
+export * from "./clips-client"
+export * from "./entitlements-client"
+export * from "./eventsub-client"
+export * from "./extensions-client"
+export * from "./games-client"
+export * from "./goals-client"
+export * from "./hype-train-client"
+export * from "./moderation-client"
+export * from "./polls-client"
+export * from "./predictions-client"
+export * from "./raids-client"
+export * from "./schedule-client"
+export * from "./search-client"
+export * from "./soundtrack-client"
+export * from "./streams-client"
+export * from "./subscriptions-client"
+export * from "./tags-client"
+export * from "./teams-client"
+export * from "./users-client"
+export * from "./videos-client"
+export * from "./whispers-client"
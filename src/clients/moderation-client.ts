@@ -0,0 +1,658 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {Exception, EXCEPTION_REASONS} from "../exceptions";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {User, BanResult, BlockedTerm, BannedUser, MessageCheck, MessageCheckResult, MessageModerationAction, AutoModSettings, ShieldModeStatus} from "../types";
+
+/**
+ * Calls of the Moderation category of the Helix API, available via apiClient.moderation
+ */
+export class ModerationClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#check-automod-status
+    /**
+     * Checks whether AutoMod would flag the specified message for review.
+     * @Tokentype user
+     * @Scope moderation:read
+     * @param broadcasterId The ID of the broadcaster whose AutoMod settings and list of blocked terms are used to check the message.
+     * @param messages
+     * @return The list of checking results.
+     */
+    public async checkAutoModStatus(broadcasterId: string, messages: MessageCheck[]): Promise<MessageCheckResult[] | null>{
+        validateParameters("checkAutoModStatus", {broadcasterId, messages});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/moderation/enforcements/status",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.checkAutoModStatus,
+            schema: RESPONSE_SCHEMAS.checkAutoModStatus,
+            query: {
+                broadcaster_id: broadcasterId
+            },
+            body: messages
+        })
+
+        return response.data.map((value: any): MessageCheckResult=>{
+            return {
+                checkId: value.msg_id,
+                isPermitted: value.is_permitted
+            }
+        })
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#manage-held-automod-messages
+    /**
+     * Allow or deny the message that AutoMod flagged for review.
+     * @Tokentype user
+     * @Scope moderator:manage:automod
+     * @param moderatorId The moderator who is approving or denying the held message.
+     * @param messageId The ID of the message to allow or deny.
+     * @param action The action to take for the message.
+     */
+    public async manageHeldAutoModMessages(moderatorId: string, messageId: string, action: MessageModerationAction): Promise<void>{
+        validateParameters("manageHeldAutoModMessages", {moderatorId, messageId, action});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/moderation/automod/message",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.manageHeldAutoModMessages,
+            body: {
+                user_id: moderatorId,
+                msg_id: messageId,
+                action
+            }
+        })
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-automod-settings
+    /**
+     * Gets the broadcaster’s AutoMod settings.
+     * @Tokentype user
+     * @Scope moderator:read:automod_settings
+     * @param broadcasterId The ID of the broadcaster whose AutoMod settings you want to get.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @return List of AutoMod settings. If none is configured, null will be returned
+     */
+    public async getAutoModSettings(broadcasterId: string, moderatorId: string): Promise<AutoModSettings | null>{
+        validateParameters("getAutoModSettings", {broadcasterId, moderatorId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/moderation/automod/settings",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getAutoModSettings,
+            schema: RESPONSE_SCHEMAS.getAutoModSettings,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            }
+        })
+
+        return response.data.length === 0 ? null : {
+            broadcasterId: response.data[0].broadcaster_id,
+            moderatorId: response.data[0].moderator_id,
+            overallLevel: response.data[0].overall_level,
+            disability: response.data[0].disability,
+            aggression: response.data[0].aggression,
+            sexualitySexOrGender: response.data[0].sexuality_sex_or_gender,
+            misogyny: response.data[0].misogyny,
+            bullying: response.data[0].bullying,
+            swearing: response.data[0].swearing,
+            raceEthnicityOrReligion: response.data[0].race_ethnicity_or_religion,
+            sexBasedTerms: response.data[0].sex_based_terms
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-automod-settings
+    /**
+     * Updates the broadcaster’s AutoMod settings.
+     * @Tokentype user
+     * @Scope moderator:manage:automod_settings
+     * @NOTE The moderatorId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster whose AutoMod settings you want to update.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param newSettings New settings, all must be set!
+     * @param newSettings.aggression The Automod level for hostility involving aggression.
+     * @param newSettings.bullying The Automod level for hostility involving name calling or insults.
+     * @param newSettings.disability The Automod level for discrimination against disability.
+     * @param newSettings.misogyny The Automod level for discrimination against women.
+     * @param newSettings.overallLevel The default AutoMod level for the broadcaster.
+     * @param newSettings.raceEthnicityOrReligion The Automod level for racial discrimination.
+     * @param newSettings.sexBasedTerms The Automod level for sexual content.
+     * @param newSettings.sexualitySexOrGender The AutoMod level for discrimination based on sexuality, sex, or gender.
+     * @param newSettings.swearing The Automod level for profanity.
+     * @return Newly created settings
+     */
+    public async updateAutoModSettings(broadcasterId: string, moderatorId: string, newSettings: {aggression?:number, bullying?: number, disability?: number, misogyny?: number, overallLevel?: number, raceEthnicityOrReligion?: number, sexBasedTerms?: number, sexualitySexOrGender?: number, swearing?: number}): Promise<AutoModSettings>{
+        validateParameters("updateAutoModSettings", {broadcasterId, moderatorId, newSettings});
+
+        if(isDefined(newSettings.overallLevel) && (isDefined(newSettings.aggression) || isDefined(newSettings.bullying) || isDefined(newSettings.disability) || isDefined(newSettings.misogyny) || isDefined(newSettings.raceEthnicityOrReligion) || isDefined(newSettings.sexBasedTerms) || isDefined(newSettings.sexualitySexOrGender) || isDefined(newSettings.swearing)))
+            throw new Exception(EXCEPTION_REASONS.INVALID_PARAMETERS, "You may not specifiy an overall level AND a specific one. These are exclusive choices!")
+
+        const changeObject = isDefined(newSettings.overallLevel) ? {overall_level: newSettings.overallLevel} : {
+            aggression: newSettings.aggression ?? 0,
+            bullying: newSettings.bullying ?? 0,
+            disability: newSettings.disability ?? 0,
+            misogyny: newSettings.misogyny ?? 0,
+            race_ethnicity_or_religion: newSettings.raceEthnicityOrReligion ?? 0,
+            sex_based_terms: newSettings.sexBasedTerms ?? 0,
+            sexuality_sex_or_gender: newSettings.sexualitySexOrGender ?? 0,
+            swearing: newSettings.swearing ?? 0
+        }
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/moderation/automod/settings",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateAutoModSettings,
+            schema: RESPONSE_SCHEMAS.updateAutoModSettings,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: changeObject
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            moderatorId: response.data[0].moderator_id,
+            overallLevel: response.data[0].overall_level,
+            disability: response.data[0].disability,
+            aggression: response.data[0].aggression,
+            sexualitySexOrGender: response.data[0].sexuality_sex_or_gender,
+            misogyny: response.data[0].misogyny,
+            bullying: response.data[0].bullying,
+            swearing: response.data[0].swearing,
+            raceEthnicityOrReligion: response.data[0].race_ethnicity_or_religion,
+            sexBasedTerms: response.data[0].sex_based_terms
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-banned-users
+    /**
+     * Gets all users that the broadcaster banned or put in a timeout.
+     * @param broadcasterId The ID of the broadcaster whose list of banned users you want to get.
+     * @param options Additional optional parameters
+     * @param options.userIds A list of user IDs used to filter the results.
+     * @param options.max Maximum amount of banned user to return
+     * @return List of banned users and cursor for later usage if not all banned users are returned
+     */
+    public async getBannedUsers(broadcasterId: string, options?: {userIds?: string[], max?: number, cursor?: string}): Promise<{ bannedUsers: BannedUser[], cursor: string | null } | null>{
+        validateParameters("getBannedUsers", {broadcasterId, options});
+
+        const bannedUsers: BannedUser[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/moderation/banned",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getBannedUsers,
+                schema: RESPONSE_SCHEMAS.getBannedUsers,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    user_id: options?.userIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const ban of response.data){
+                bannedUsers.push({
+                    userId: ban.user_id,
+                    userLogin: ban.user_login,
+                    userDisplayName: ban.user_name,
+                    expiresAt: ban.expires_at == "" ? null : new Date(ban.expires_at),
+                    createdAt: new Date(ban.created_at),
+                    reason: ban.reason,
+                    moderatorId: ban.moderator_id,
+                    moderatorLogin: ban.moderator_login,
+                    moderatorDisplayName: ban.moderator_name
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {bannedUsers, cursor: cursor!};
+                    return bannedUsers.length === 0 ? null : {bannedUsers, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return bannedUsers.length === 0 ? null : {bannedUsers, cursor: null}
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#ban-user
+    /**
+     * Bans a user from participating in the specified broadcaster’s chat room or puts them in a timeout.
+     * @Tokentype user
+     * @Scope moderator:manage:banned_users
+     * @param broadcasterId The ID of the broadcaster whose chat room the user is being banned from.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param userId The ID of the user to ban or put in a timeout.
+     * @param options Additional optional ban information
+     * @param options.duration The amount of seconds to ban the user for. Min: 1, Max 1209600 (2 Weeks). Dont use this if you want the user permanently
+     * @param options.reason The reason the you’re banning the user or putting them in a timeout.
+     */
+    public async banUser(broadcasterId: string, moderatorId: string, userId: string, options?: {duration?: number, reason?: string}): Promise<BanResult>{
+        validateParameters("banUser", {broadcasterId, moderatorId, userId, options});
+
+        const banObject = {
+            user_id: userId
+        }
+        if(!isUndefined(options)){
+            if(options!.duration)
+                Object.defineProperty(banObject, "duration", {value: options!.duration, enumerable: true})
+            if(options!.reason)
+                Object.defineProperty(banObject, "reason", {value: options!.reason, enumerable: true})
+        }
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/moderation/bans",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.banUser,
+            schema: RESPONSE_SCHEMAS.banUser,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: {data: banObject}
+        })
+
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            moderatorId: response.data[0].moderator_id,
+            userId: response.data[0].user_id,
+            createdAt: new Date(response.data[0].created_at),
+            endTime: new Date(response.data[0].end_time)
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#unban-user
+    /**
+     * Removes the ban or timeout that was placed on the specified user.
+     * @Tokentype user
+     * @Scope moderator:manage:banned_users
+     * @param broadcasterId The ID of the broadcaster whose chat room the user is banned from chatting in.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param userId The ID of the user to remove the ban or timeout from.
+     */
+    public async unbanUser(broadcasterId: string, moderatorId: string, userId: string){
+        validateParameters("unbanUser", {broadcasterId, moderatorId, userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/moderation/bans",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.unbanUser,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId,
+                user_id: userId
+            }
+        })
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-blocked-terms
+    /**
+     * Gets the broadcaster’s list of non-private, blocked words or phrases.
+     * @Tokentype user
+     * @Scope moderator:read:blocked_terms
+     * @NOTE The moderatorId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster whose blocked terms you’re getting.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] Maximum amount of blocked terms to be returned
+     * @return List of blocked terms. If no one was found, null will be returned
+     */
+    public async getBlockedTerms(broadcasterId: string, moderatorId: string, options?: {cursor?: string, max?: number}): Promise<{terms: BlockedTerm[], cursor: string | null} | null>{
+        validateParameters("getBlockedTerms", {broadcasterId, moderatorId, options});
+
+        const blockedTerms: BlockedTerm[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/moderation/blocked_terms",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getBlockedTerms,
+                schema: RESPONSE_SCHEMAS.getBlockedTerms,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    moderator_id: moderatorId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const term of response.data){
+                blockedTerms.push({
+                    broadcasterId: term.broadcaster_id,
+                    moderatorId: term.moderator_id,
+                    id: term.id,
+                    text: term.text,
+                    createdAt: new Date(term.created_at),
+                    updatedAt: new Date(term.updated_at),
+                    expiresAt: new Date(term.expires_at)
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {terms: blockedTerms, cursor: cursor!};
+                    return blockedTerms.length === 0 ? null : {terms: blockedTerms, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                return blockedTerms.length === 0 ? null : {terms: blockedTerms, cursor: null}
+            }
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#add-blocked-term
+    /**
+     * Adds a word or phrase to the broadcaster’s list of blocked terms.
+     * @Tokentype user
+     * @Scope moderator:manage:blocked_terms
+     * @param broadcasterId The ID of the broadcaster that owns the list of blocked terms.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param text The word or phrase to block from being used in the broadcaster’s chat room.
+     * @return Summary object of added term
+     */
+    public async addBlockedTerm(broadcasterId: string, moderatorId: string, text: string): Promise<BlockedTerm>{
+        validateParameters("addBlockedTerm", {broadcasterId, moderatorId, text});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/moderation/blocked_terms",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.addBlockedTerm,
+            schema: RESPONSE_SCHEMAS.addBlockedTerm,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: {text}
+        })
+        return {
+            broadcasterId: response.data[0].broadcaster_id,
+            moderatorId: response.data[0].moderator_id,
+            id: response.data[0].id,
+            text: response.data[0].text,
+            createdAt: new Date(response.data[0].created_at),
+            updatedAt: new Date(response.data[0].updated_at),
+            expiresAt: new Date(response.data[0].expires_at)
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#remove-blocked-term
+    /**
+     * Removes the word or phrase from the broadcaster’s list of blocked terms.
+     * @Tokentype user
+     * @Scope moderator:manage:blocked_terms
+     * @param broadcasterId The ID of the broadcaster that owns the list of blocked terms.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param termId The ID of the blocked term to remove from the broadcaster’s list of blocked terms.
+     */
+    public async removeBlockedTerm(broadcasterId: string, moderatorId: string, termId: string): Promise<void> {
+        validateParameters("removeBlockedTerm", {broadcasterId, moderatorId, termId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/moderation/blocked_terms",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.removeBlockedTerm,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId,
+                id: termId
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#delete-chat-messages
+    /**
+     * Removes a single chat message or all chat messages from the broadcaster’s chat room.
+     * @Tokentype user
+     * @Scope moderator:manage:chat_messages
+     * @NOTE Restrictions: The message must have been created within the last 6 hours, The message must not belong to the broadcaster, The message must not belong to another moderator
+     * @param broadcasterId The ID of the broadcaster that owns the chat room to remove messages from.
+     * @param moderatorId The ID of the broadcaster or a user that has permission to moderate the broadcaster’s chat room.
+     * @param options Additionally optional parameters
+     * @param options.messageId The ID of the message to remove. If not specified, all messages in the chatroom will be removed!
+     */
+    public async deleteChatMessages(broadcasterId: string, moderatorId: string, options?: {messageId?: string}): Promise<void>{
+        validateParameters("deleteChatMessages", {broadcasterId, moderatorId, options});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/moderation/chat",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.deleteChatMessages,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId,
+                message_id: options?.messageId
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-moderators
+    public async getModerators(broadcasterId: string, options?: {userIds?: string[], max?: number, cursor?: string}): Promise<{ moderators: User[], cursor: string | null } | null>{
+        validateParameters("getModerators", {broadcasterId, options});
+
+        const moderators: User[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/moderation/moderators",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getModerators,
+                schema: RESPONSE_SCHEMAS.getModerators,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    user_id: options?.userIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const ban of response.data){
+                moderators.push({
+                    id: ban.user_id,
+                    login: ban.user_login,
+                    displayName: ban.user_name
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(moderators.length === 0)
+
+                        if(isDefined(cursor))
+                            return {moderators, cursor: cursor!};
+                    return moderators.length === 0 ? null : {moderators, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return moderators.length === 0 ? null : {moderators, cursor: null}
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#add-channel-moderator
+    /**
+     * Adds a moderator to the broadcaster’s chat room.
+     * @Tokentype user
+     * @Scope channel:manage:moderators
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster that owns the chat room. This ID must match the user ID in the access token.
+     * @param userId The ID of the user to add as a moderator in the broadcaster’s chat room.
+     */
+    public async addChannelModerator(broadcasterId: string, userId: string): Promise<void>{
+        validateParameters("addChannelModerator", {broadcasterId, userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/moderation/moderators",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.addChannelModerator,
+            query: {
+                broadcaster_id: broadcasterId,
+                user_id: userId
+            }
+        })
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#remove-channel-moderator
+    /**
+     * Removes a moderator from the broadcaster’s chat room.
+     * @Tokentype user
+     * @Scope channel:manage:moderators
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster that owns the chat room.
+     * @param userId The ID of the user to remove as a moderator from the broadcaster’s chat room.
+     */
+    public async removeChannelModerator(broadcasterId: string, userId: string): Promise<void>{
+        validateParameters("removeChannelModerator", {broadcasterId, userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/moderation/moderators",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.removeChannelModerator,
+            query: {
+                broadcaster_id: broadcasterId,
+                user_id: userId
+            }
+        })
+    }
+
+    //BUG: The TwitchAPI does not return the documented properties. Therefore only the is_active field will be returned.
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-shield-mode-status
+    /**
+     * Activates or deactivates the broadcaster’s Shield Mode.
+     * @Tokentype user
+     * @Scope moderator:manage:shield_mode
+     * @NOTE The moderatorId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster whose Shield Mode you want to activate or deactivate.
+     * @param moderatorId The ID of the broadcaster or a user that is one of the broadcaster’s moderators.
+     * @param isActive A Boolean value that determines whether to activate Shield Mode. Set to true to activate Shield Mode; otherwise, false to deactivate Shield Mode.
+     * @return A Boolean that determines whether the shield mode is active or inactive after the call.
+     */
+    public async updateShieldModeStatus(broadcasterId: string, moderatorId: string, isActive: boolean):Promise<boolean>{
+        validateParameters("updateShieldModeStatus", {broadcasterId, moderatorId, isActive});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/moderation/shield_mode",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateShieldModeStatus,
+            schema: RESPONSE_SCHEMAS.updateShieldModeStatus,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            },
+            body: {
+                is_active: isActive
+            }
+        })
+
+        return response.data[0].is_active;
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-shield-mode-status
+    /**
+     * Gets the broadcaster’s Shield Mode activation status.
+     * @Tokentype user
+     * @Scope moderator:read:shield_mode or moderator:manage:shield_mode
+     * @NOTE The moderatorId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster whose Shield Mode activation status you want to get.
+     * @param moderatorId The ID of the broadcaster or a user that is one of the broadcaster’s moderators
+     * @return The broadcaster’s Shield Mode status if active. If it's not active, null will be returned!
+     */
+    public async getShieldModeStatus(broadcasterId: string, moderatorId: string): Promise<ShieldModeStatus>{
+        validateParameters("getShieldModeStatus", {broadcasterId, moderatorId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/moderation/shield_mode",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getShieldModeStatus,
+            schema: RESPONSE_SCHEMAS.getShieldModeStatus,
+            query: {
+                broadcaster_id: broadcasterId,
+                moderator_id: moderatorId
+            }
+        })
+
+        return {
+            isActive: response.data[0].is_active,
+            moderatorId: response.data[0].moderator_id,
+            moderatorLogin: response.data[0].moderator_login,
+            moderatorDisplayName: response.data[0].moderator_name,
+            lastActivatedAt: new Date(response.data[0].last_activated_at)
+        }
+
+    }
+}
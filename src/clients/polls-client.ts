@@ -0,0 +1,203 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Poll} from "../types";
+
+/**
+ * Calls of the Polls category of the Helix API, available via apiClient.polls
+ */
+export class PollsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-polls
+    /**
+     * Gets a list of polls that the broadcaster created.
+     * @Tokentype user
+     * @Scope channel:read:polls
+     * @NOTE The broadcasterId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that created the polls.
+     * @param [options] Additional optional parameters
+     * @param [options.pollIds] A list of IDs that identify the polls to return.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of polls to be returned.
+     */
+    public async getPolls(broadcasterId: string, options?: {pollIds?: string[], cursor?: string, max?: number}):Promise<{polls: Poll[], cursor: string | null} | null>{
+        validateParameters("getPolls", {broadcasterId, options});
+
+        const polls: Poll[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/polls",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getPolls,
+                schema: RESPONSE_SCHEMAS.getPolls,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    id: options?.pollIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const poll of response.data){
+                polls.push({
+                    id: poll.id,
+                    broadcasterId: poll.broadcaster_id,
+                    broadcasterLogin: poll.broadcaster_login,
+                    broadcasterDisplayName: poll.broadcaster_name,
+                    title: poll.title,
+                    choices: poll.choices.map((choice: any)=>{
+                        return {
+                            id: choice.id,
+                            title: choice.title,
+                            votes: choice.votes,
+                            channelPointsVotes: choice.channel_points_votes,
+                            bitsVotes: choice.bits_votes
+                        }
+                    }),
+                    bitsVoting: poll.bits_voting_enabled,
+                    bitsPerVote: poll.bits_per_vote,
+                    channelPointsVoting: poll.channel_points_voting_enabled,
+                    channelPointsPerVote: poll.channel_points_per_vote,
+                    status: poll.status,
+                    duration: poll.duration,
+                    startedAt: new Date(poll.started_at),
+                    endedAt: new Date(poll.ended_at)
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {polls, cursor: cursor!};
+                    return polls.length === 0 ? null : {polls, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return polls.length === 0 ? null : {polls, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-poll
+    /**
+     * Creates a poll that viewers in the broadcaster’s channel can vote on.
+     * @Tokentype user
+     * @Scope channel:manage:polls
+     * @NOTE The broadcasterId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that’s running the poll. This ID must match the user ID in the user access token.
+     * @param title The question that viewers will vote on.
+     * @param choices A list of choices that viewers may choose from.
+     * @param duration The length of time (in seconds) that the poll will run for.
+     * @param options
+     * @param options.channelsPointVoting A Boolean value that indicates whether viewers may cast additional votes using Channel Points.
+     * @param options.channelPointsPerVote The number of points that the viewer must spend to cast one additional vote.
+     * @returns A list that contains the single poll that you created.
+     */
+    public async createPoll(broadcasterId: string, title: string, choices: string[], duration: number, options?: {channelPointsVoting?: boolean, channelPointsPerVote?: number }): Promise<Poll>{
+        validateParameters("createPoll", {broadcasterId, title, choices, duration, options});
+
+       const requestBody = {
+           broadcaster_id: broadcasterId,
+           title: title,
+           choices: choices.map((choice: string)=> ({title: choice})),
+           duration: duration,
+       }
+        if(!isUndefined(options) && !isUndefined(options!.channelPointsVoting))
+           Object.defineProperty(requestBody, "channel_points_voting_enabled", {value: options!.channelPointsVoting, enumerable: true})
+
+        if(!isUndefined(options) && !isUndefined(options!.channelPointsPerVote))
+           Object.defineProperty(requestBody, "channel_points_per_vote", {value: options!.channelPointsPerVote, enumerable: true})
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/polls",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.createPoll,
+            schema: RESPONSE_SCHEMAS.createPoll,
+            body: requestBody
+        })
+
+        return {
+            id: response.data[0].id,
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            title: response.data[0].title,
+            choices: response.data[0].choices,
+            bitsVoting: response.data[0].bits_voting_enabled,
+            bitsPerVote: response.data[0].bits_per_vote,
+            channelPointsVoting: response.data[0].channel_points_voting_enabled,
+            channelPointsPerVote: response.data[0].channel_points_per_vote,
+            status: response.data[0].status,
+            duration: response.data[0].duration,
+            startedAt: response.data[0].started_at,
+            endedAt: response.data[0].ended_at
+
+        }
+
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#end-poll
+    /**
+     * Ends an active poll.
+     * @Tokentype user
+     * @Scope channel:manage:polls
+     * @NOTE The broadcasterId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that’s running the poll.
+     * @param pollId The ID of the poll to update.
+     * @param status The status to set the poll to. Possible case-sensitive values are: TERMINATED and ARCHIVED
+     */
+    public async endPoll(broadcasterId: string, pollId: string, status: "ARCHIVED" | "TERMINATED"): Promise<Poll>{
+        validateParameters("endPoll", {broadcasterId, pollId, status});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/polls",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.endPoll,
+            schema: RESPONSE_SCHEMAS.endPoll,
+            body: {
+                broadcaster_id: broadcasterId,
+                id: pollId,
+                status: status
+            }
+        })
+
+        return {
+            id: response.data[0].id,
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            title: response.data[0].title,
+            choices: response.data[0].choices,
+            bitsVoting: response.data[0].bits_voting_enabled,
+            bitsPerVote: response.data[0].bits_per_vote,
+            channelPointsVoting: response.data[0].channel_points_voting_enabled,
+            channelPointsPerVote: response.data[0].channel_points_per_vote,
+            status: response.data[0].status,
+            duration: response.data[0].duration,
+            startedAt: response.data[0].started_at,
+            endedAt: response.data[0].ended_at
+
+        }
+    }
+}
@@ -0,0 +1,236 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {PredictionStatus, Prediction} from "../types";
+
+/**
+ * Calls of the Predictions category of the Helix API, available via apiClient.predictions
+ */
+export class PredictionsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-predictions
+    /**
+     * Gets a list of Channel Points Predictions that the broadcaster created.
+     * @Tokentype user
+     * @Scope channel:read:predictions
+     * @NOTE The broadcasterId must match the user ID associated with the user access token.
+     * @param broadcasterId The ID of the broadcaster whose predictions you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.predictionIds] The ID of the prediction to get.
+     * @param [options.cursor] 	The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of predictions to be returned.
+     */
+    public async getPredictions(broadcasterId: string, options?: {predictionIds?: string[], cursor?: string | null, max?: number }){
+        validateParameters("getPredictions", {broadcasterId, options});
+
+        const predictions: Prediction[] = [];
+
+        let cursor = options?.cursor ?? undefined
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/predictions",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getPredictions,
+                schema: RESPONSE_SCHEMAS.getPredictions,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    id: options?.predictionIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const prediction of response.data){
+                predictions.push({
+                    id: prediction.id,
+                    broadcasterId: prediction.broadcaster_id,
+                    broadcasterLogin: prediction.broadcaster_login,
+                    broadcasterDisplayName: prediction.broadcaster_name,
+                    title: prediction.title,
+                    winningOutcomeId: prediction.winning_outcome_id,
+                    outcomes: prediction.outcomes.map((outcome: any)=>{
+                        return {
+                            id: outcome.id,
+                            title: outcome.title,
+                            users: outcome.users,
+                            channelPoints: outcome.channel_points,
+                            topPredictors: (outcome.top_predictors ?? []).map((predictor: any)=>{
+                                return {
+                                    userId: predictor.user_id,
+                                    userDisplayName: predictor.user_name,
+                                    userLogin: predictor.user_login,
+                                    channelPointsUsed: predictor.channel_points_used,
+                                    channelPointsWon: predictor.channel_points_won,
+                                }
+                            }),
+                            color: outcome.color
+                        }
+                    }),
+                    predictionWindow: prediction.prediction_window,
+                    status: prediction.status,
+                    createdAt: new Date(prediction.created_at),
+                    endedAt: new Date(prediction.ended_at),
+                    lockedAt: new Date(prediction.locked_at)
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {predictions, cursor: cursor!};
+                    return predictions.length === 0 ? null : {predictions, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return predictions.length === 0 ? null : {predictions, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-prediction
+    /**
+     * Creates a Channel Points Prediction.
+     * @Tokentype user
+     * @Scope channel:manage:predictions
+     * @param broadcasterId The ID of the broadcaster that’s running the prediction.
+     * @param title The question that the broadcaster is asking.
+     * @param outcomes The list of possible outcomes that the viewers may choose from.
+     * @param predictionWindow The length of time (in seconds) that the prediction will run for.
+     * @return The newly created prediction
+     */
+    public async createPrediction(broadcasterId: string, title: string, outcomes: string[], predictionWindow: number): Promise<Prediction | null>{
+        validateParameters("createPrediction", {broadcasterId, title, outcomes, predictionWindow});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/predictions",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.createPrediction,
+            schema: RESPONSE_SCHEMAS.createPrediction,
+            body: {
+                broadcaster_id: broadcasterId,
+                title,
+                outcomes: outcomes.map((title)=> ({title})),
+                prediction_window: predictionWindow
+            }
+        })
+
+        return {
+            id: response.data[0].id,
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            title: response.data[0].title,
+            winningOutcomeId: response.data[0].winning_outcome_id,
+            outcomes: response.data[0].outcomes.map((outcome: any)=>{
+                return {
+                    id: outcome.id,
+                    title: outcome.title,
+                    users: outcome.users,
+                    channelPoints: outcome.channel_points,
+                    topPredictors: (outcome.top_predictors ?? []).map((predictor: any)=>{
+                        return {
+                            userId: predictor.user_id,
+                            userDisplayName: predictor.user_name,
+                            userLogin: predictor.user_login,
+                            channelPointsUsed: predictor.channel_points_used,
+                            channelPointsWon: predictor.channel_points_won,
+                        }
+                    }),
+                    color: outcome.color
+                }
+            }),
+            predictionWindow: response.data[0].prediction_window,
+            status: response.data[0].status,
+            createdAt: new Date(response.data[0].created_at),
+            endedAt: new Date(response.data[0].ended_at),
+            lockedAt: new Date(response.data[0].locked_at)
+
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#end-prediction
+    /**
+     * Locks, resolves, or cancels a Channel Points Prediction.
+     * @Tokentype user
+     * @Scope channel:manage:predictions
+     * @NOTE The broadcasterId must match the user ID in the user access token.
+     * @param broadcasterId The ID of the broadcaster that’s running the prediction.
+     * @param predictionId The ID of the prediction to update.
+     * @param status The status to set the prediction to.
+     * @param [options] Additional optional parameters
+     * @param [options.winningOutcomeId] The ID of the winning outcome.
+     * @return Recently updated prediction
+     */
+    public async endPrediction(broadcasterId: string, predictionId: string, status: PredictionStatus, options?: {winningOutcomeId?: string}):Promise<Prediction | null>{
+        validateParameters("endPrediction", {broadcasterId, predictionId, status, options});
+
+        const requestObject = {
+            broadcaster_id: broadcasterId,
+            id: predictionId,
+            status,
+
+        }
+
+        if(isDefined(options?.winningOutcomeId))
+            Object.defineProperty(requestObject, "winning_outcome_id", {value: options!.winningOutcomeId, enumerable: true})
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PATCH,
+            endpoint: "/predictions",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.endPrediction,
+            schema: RESPONSE_SCHEMAS.endPrediction,
+            body: requestObject
+        })
+
+        return {
+            id: response.data[0].id,
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            title: response.data[0].title,
+            winningOutcomeId: response.data[0].winning_outcome_id,
+            outcomes: response.data[0].outcomes.map((outcome: any)=>{
+                return {
+                    id: outcome.id,
+                    title: outcome.title,
+                    users: outcome.users,
+                    channelPoints: outcome.channel_points,
+                    topPredictors: (outcome.top_predictors ?? []).map((predictor: any)=>{
+                        return {
+                            userId: predictor.user_id,
+                            userDisplayName: predictor.user_name,
+                            userLogin: predictor.user_login,
+                            channelPointsUsed: predictor.channel_points_used,
+                            channelPointsWon: predictor.channel_points_won,
+                        }
+                    }),
+                    color: outcome.color
+                }
+            }),
+            predictionWindow: response.data[0].prediction_window,
+            status: response.data[0].status,
+            createdAt: new Date(response.data[0].created_at),
+            endedAt: new Date(response.data[0].ended_at),
+            lockedAt: new Date(response.data[0].locked_at)
+
+        }
+    }
+}
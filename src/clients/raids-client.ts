@@ -0,0 +1,64 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+
+/**
+ * Calls of the Raids category of the Helix API, available via apiClient.raids
+ */
+export class RaidsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#start-a-raid
+    /**
+     * Raid another channel by sending the broadcaster’s viewers to the targeted channel
+     * @Tokentype user
+     * @Scope channel:manage:raids
+     * @NOTE The fromBroadcasterId must match the user ID associated with the user access token.
+     * @param fromBroadcasterId The ID of the broadcaster that’s sending the raiding party.
+     * @param toBroadcasterId The ID of the broadcaster to raid.
+     * @returns A single object with information about the pending raid.
+     */
+    public async startRaid(fromBroadcasterId: string, toBroadcasterId: string){
+        validateParameters("startRaid", {fromBroadcasterId, toBroadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/raids",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.startRaid,
+            schema: RESPONSE_SCHEMAS.startRaid,
+            query: {
+                from_broadcaster_id: fromBroadcasterId,
+                to_broadcaster_id: toBroadcasterId
+            }
+        })
+
+        return {
+            createdAt: new Date(response.data[0].created_at),
+            isMature: response.data[0].is_mature
+        }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#cancel-a-raid
+    /**
+     * Cancel a pending raid.
+     * @Tokentype user
+     * @Scope channel:manage:raids
+     * @NOTE The broadcasterId must match the user ID associated with the user access token.
+     * @param broadcasterId The ID of the broadcaster that initiated the raid.
+     */
+    public async cancelRaid(broadcasterId: string): Promise<void>{
+        validateParameters("cancelRaid", {broadcasterId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/raids",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.cancelRaid,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+    }
+}
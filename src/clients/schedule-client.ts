@@ -0,0 +1,41 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+
+/**
+ * Calls of the Schedule category of the Helix API, available via apiClient.schedule
+ */
+export class ScheduleClient extends HelixClient{
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#get-channel-stream-schedule
+
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-icalendar
+    /**
+     * Gets the broadcaster’s streaming schedule as an iCalendar.
+     * @param broadcasterId The ID of the broadcaster that owns the streaming schedule you want to get.
+     * @return iCalendar data
+     */
+    public async getChannelICalendar(broadcasterId: string):Promise<string>{
+        validateParameters("getChannelICalendar", {broadcasterId});
+
+        return await this._requestHandler.request<string>({
+            method: HTTP_METHODS.GET,
+            endpoint: "/schedule/icalendar",
+            tokenType: TOKEN_TYPES.NONE,
+            schema: RESPONSE_SCHEMAS.getChannelICalendar,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+    }
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#update-channel-stream-schedule
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#create-channel-stream-schedule-segment
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#update-channel-stream-schedule-segment
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#delete-channel-stream-schedule-segment
+}
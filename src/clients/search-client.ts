@@ -0,0 +1,144 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {Category, Channel} from "../types";
+
+/**
+ * Calls of the Search category of the Helix API, available via apiClient.search
+ */
+export class SearchClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#search-categories
+    /**
+     * Gets the games or categories that match the specified query.
+     * @Tokentype user, app
+     * @param query The URI-encoded search string.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of categories to be returned.
+     * @return The list of categories that match the query. If no one was found, null will be returned.
+     */
+    public async searchCategories(query: string, options?: {cursor?: string, max?: number}): Promise<null | {categories: Category[], cursor: string | null}>{
+        validateParameters("searchCategories", {query, options});
+
+        const categories: Category[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/search/categories",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.searchCategories,
+                query: {
+                    query,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const category of response.data){
+                categories.push({
+                   boxArtUrl: category.box_art_url,
+                    name: category.name,
+                    id: category.id
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {categories, cursor: cursor!};
+                    return categories.length === 0 ? null : {categories, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return categories.length === 0 ? null : {categories, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#search-channels
+    /**
+     * Gets the channels that match the specified query and have streamed content within the past 6 months.
+     * @Tokentype user, app
+     * @param query The URI-encoded search string.
+     * @param [options] Additional optional parameters
+     * @param [options.liveOnly] A Boolean value that determines whether the response includes only channels that are currently streaming live.
+     * @param [options.cursor] 	The cursor used to get the next page of results.
+     * @param [options.max] The maxmimum amount of channels to be returned.
+     * @return The list of channels that match the query. If no one was found, null will be returned.
+     */
+    public async searchChannels(query: string, options?: {liveOnly?: boolean, cursor?: string, max?: number}): Promise<null | {channels: Channel[], cursor: string | null}>{
+        validateParameters("searchChannels", {query, options});
+
+        const channels: Channel[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/search/channels",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.searchChannels,
+                query: {
+                    query,
+                    live_only: options?.liveOnly,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const channel of response.data){
+                channels.push({
+                    broadcasterLanguage: channel.broadcaster_language,
+                    broadcasterLogin: channel.broadcaster_login,
+                    broadcasterDisplayName: channel.display_name,
+                    categoryId: channel.game_id,
+                    categoryName: channel.game_name,
+                    id: channel.id,
+                    isLive: channel.is_live,
+                    tagIds: channel.tag_ids,
+                    thumbnailUrl: channel.thumbnail_url,
+                    title: channel.title,
+                    startedAt: new Date(channel.started_at)
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {channels, cursor: cursor!};
+                    return channels.length === 0 ? null : {channels, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return channels.length === 0 ? null : {channels, cursor: null}
+    }
+}
@@ -0,0 +1,197 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {PlaylistTrack, SoundtrackPlaylist} from "../types";
+
+/**
+ * Calls of the Soundtrack category of the Helix API, available via apiClient.soundtrack
+ */
+export class SoundtrackClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-soundtrack-current-track
+    /**
+     * Gets the Soundtrack track that the broadcaster is playing.
+     * @Tokentype user, app
+     * @param broadcasterId The ID of the broadcaster that’s playing a Soundtrack track.
+     * @return Currently playing track. If no one is playing, null will be returned.
+     */
+    public async getSoundtrackCurrentTrack(broadcasterId: string){
+        validateParameters("getSoundtrackCurrentTrack", {broadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/soundtrack/current_track",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getSoundtrackCurrentTrack,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+
+        return response.data.length === 0 ? null : {
+                    album:{
+                        id: response.data[0].track.album.id,
+                        imageUrl: response.data[0].track.album.image_url,
+                        name: response.data[0].track.album.name
+                    },
+                    artists: response.data[0].track.artists.map((artist: any)=>{
+                        return {
+                            creatorChannelId: artist.creator_channel_id,
+                            id: artist.id,
+                            name: artist.name
+                        }
+                    }),
+                    duration: response.data[0].track.duration,
+                    id: response.data[0].track.id,
+                    isrc: response.data[0].track.isrc,
+                    title: response.data[0].track.title,
+                    source:{
+                        contentType: response.data[0].source.content_type,
+                        id: response.data[0].source.id,
+                        imageUrl: response.data[0].source.image_url,
+                        soundtrackUrl: response.data[0].source.soundtrack_url,
+                        spotifyUrl: response.data[0].source.spotify_url,
+                        title: response.data[0].source.title
+                    }
+                }
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-soundtrack-playlist
+    /**
+     * Gets the Soundtrack playlist’s tracks.
+     * @Tokentype user, app
+     * @param playlistId The ID of the playlist to get.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of tracks to be returned.
+     * @return The playlist’s list of tracks. If no one was found, null will be returned.
+     */
+    public async getSoundtrackPlaylist(playlistId: string, options?:{cursor?: string, max?: number}):Promise<null | {cursor: string | null, tracks: PlaylistTrack[]}>{
+        validateParameters("getSoundtrackPlaylist", {playlistId, options});
+
+        const tracks: PlaylistTrack[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/soundtrack/playlist",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getSoundtrackPlaylist,
+                query: {
+                    id: playlistId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const track of response.data){
+                tracks.push({
+                    album:{
+                        id: track.album.id,
+                        imageUrl: track.album.image_url,
+                        name: track.album.name
+                    },
+                    artists: track.artists.map((artist: any)=>{
+                        return {
+                            creatorChannelId: artist.creator_channel_id,
+                            id: artist.id,
+                            name: artist.name
+                        }
+                    }),
+                    duration: track.duration,
+                    id: track.id,
+                    isrc: track.isrc,
+                    title: track.title
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {tracks, cursor: cursor!};
+                    return tracks.length === 0 ? null : {tracks, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return tracks.length === 0 ? null : {tracks, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-soundtrack-playlists
+    /**
+     * Gets a list of Soundtrack playlists.
+     * @Tokentype user, app
+     * @param [options] Additional optional parameters
+     * @param [options.playlistId] The ID of the playlist to get. Specify an ID only if you want to get a single playlist instead of all playlists.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of playlist to be returned.
+     * @return The list of Soundtrack playlists. If no one was found, null will be returned.
+     */
+    public async getSoundtrackPlaylists(options?:{ playlistId?: string, cursor?: string, max?: number}):Promise<null | {cursor: string | null, playlists: SoundtrackPlaylist[]}>{
+        validateParameters("getSoundtrackPlaylists", {options});
+
+        const playlists: SoundtrackPlaylist[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/soundtrack/playlists",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getSoundtrackPlaylists,
+                query: {
+                    id: options?.playlistId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const playlist of response.data){
+                playlists.push({
+                    id: playlist.id,
+                    description: playlist.description,
+                    imageUrl: playlist.image_url,
+                    title: playlist.title
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {playlists, cursor: cursor!};
+                    return playlists.length === 0 ? null : {playlists, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return playlists.length === 0 ? null : {playlists, cursor: null}
+    }
+}
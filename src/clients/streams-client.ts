@@ -0,0 +1,306 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Languages, Marker, StreamTypes, Stream, StreamMarker} from "../types";
+
+/**
+ * Calls of the Streams category of the Helix API, available via apiClient.streams
+ */
+export class StreamsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-stream-key
+    /**
+     * Gets the channel’s stream key.
+     * @Tokentype user
+     * @Scope channel:read:stream_key
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The ID of the broadcaster that owns the channel.
+     * @return The channel’s stream key.
+     */
+    public async getStreamKey(broadcasterId: string): Promise<string>{
+        validateParameters("getStreamKey", {broadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/streams/key",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getStreamKey,
+            schema: RESPONSE_SCHEMAS.getStreamKey,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+        return response.data[0].stream_key;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-streams
+    /**
+     * Gets a list of all streams.
+     * @Tokentype user, app
+     * @param [options.broadcasterIds] Broadcaster ids used to filter the list of streams.
+     * @param [options.broadcasterLogins] Broadcaster login names used to filter the list of streams.
+     * @param [options.categoryIds] Game/Category ids used to filter the list of streams.
+     * @param [options.type] The type of stream to filter the list of streams by.
+     * @param [options.language] A language code used to filter the list of streams.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of streams to be returned
+     * @return The list of streams. If no one was found, null will be returned
+     */
+    public async getStreams(options?:{broadcasterIds?: string[], broadcasterLogins?: string[], categoryIds?: string[], type?: StreamTypes | "all", language?: Languages, cursor?: string, max?: number}): Promise<{streams: Stream[], cursor: string | null} | null>{
+        validateParameters("getStreams", {options});
+
+        const streams: Stream[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/streams",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getStreams,
+                query: {
+                    user_id: options?.broadcasterIds,
+                    user_login: options?.broadcasterLogins,
+                    game_id: options?.categoryIds,
+                    type: options?.type,
+                    language: options?.language,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const stream of response.data){
+                streams.push({
+                    id: stream.id,
+                    broadcasterId: stream.user_id,
+                    broadcasterLogin: stream.user_login,
+                    broadcasterDisplayName: stream.user_name,
+                    categoryId: stream.game_id,
+                    categoryName: stream.game_name,
+                    type: stream.type,
+                    title: stream.title,
+                    viewerCount: stream.viewer_count,
+                    startedAt: new Date(stream.started_at),
+                    language: stream.language,
+                    thumbnailUrl: stream.thumbnail_url,
+                    tagIds: stream.tag_ids,
+                    isMature: stream.is_mature
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {streams: streams, cursor: cursor!};
+                    return streams.length === 0 ? null : {streams: streams, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return streams.length === 0 ? null : {streams: streams, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-followed-streams
+    /**
+     * Gets the list of broadcasters that the user follows and that are streaming live.
+     * @Tokentype user
+     * @Scope user:read:follows
+     * @NOTE The userId must match the user ID in the access token.
+     * @param userId The ID of the user whose list of followed streams you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of streams to be returned. If no one was found, null will be returned.
+     * @return The list of live streams of broadcasters that the specified user follows.
+     */
+    public async getFollowedStreams(userId: string, options?: {cursor?: string, max?: number}): Promise<{streams: Stream[], cursor: string | null} | null>{
+        validateParameters("getFollowedStreams", {userId, options});
+
+        const streams: Stream[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/streams/followed",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getFollowedStreams,
+                schema: RESPONSE_SCHEMAS.getFollowedStreams,
+                query: {
+                    user_id: userId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const stream of response.data){
+                streams.push({
+                    id: stream.id,
+                    broadcasterId: stream.user_id,
+                    broadcasterLogin: stream.user_login,
+                    broadcasterDisplayName: stream.user_name,
+                    categoryId: stream.game_id,
+                    categoryName: stream.game_name,
+                    type: stream.type,
+                    title: stream.title,
+                    viewerCount: stream.viewer_count,
+                    startedAt: new Date(stream.started_at),
+                    language: stream.language,
+                    thumbnailUrl: stream.thumbnail_url,
+                    tagIds: stream.tag_ids,
+                    isMature: stream.is_mature
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {streams: streams, cursor: cursor!};
+                    return streams.length === 0 ? null : {streams: streams, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return streams.length === 0 ? null : {streams: streams, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#create-stream-marker
+    /**
+     * Adds a marker to a live stream.
+     * @Tokentype user
+     * @Scope channel:manage:broadcast
+     * @NOTE The broadcasterId must match the user ID in the access token or the user in the access token must be one of the broadcaster’s editors.
+     * @param broadcasterId The ID of the broadcaster that’s streaming content.
+     * @param options
+     * @param options.description A short description of the marker to help the user remember why they marked the location.
+     */
+    public async createStreamMarker(broadcasterId: string, options?: {description?: string}): Promise<Marker>{
+        validateParameters("createStreamMarker", {broadcasterId, options});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/streams/markers",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.createStreamMarker,
+            schema: RESPONSE_SCHEMAS.createStreamMarker,
+            body: {
+                user_id: broadcasterId,
+                description: options?.description
+            }
+        })
+
+        return {
+            id: response.data[0].id,
+            createdAt: new Date(response.data[0].created_at),
+            position: response.data[0].position_seconds,
+            description: response.data[0].description
+        }
+
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-stream-markers
+    /**
+     * Gets a list of markers from the user’s most recent stream or from the specified VOD/video.
+     * @Tokentype user
+     * @Scope user:read:broadcast
+     * @NOTE The userId must match the user ID in the access token or the user in the access token must be one of the broadcaster’s editors.
+     * @param userId A user ID. The request returns the markers from this user’s most recent video.
+     * @param videoId A video on demand (VOD)/video ID.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of markers to be returned.
+     */
+    public async getStreamMarkers(userId: string, videoId: string, options?:{cursor?: string, max?: number}): Promise<null | {cursor: string | null, markers: StreamMarker[]}>{
+        validateParameters("getStreamMarkers", {userId, videoId, options});
+
+        const markers: StreamMarker[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/streams/markers",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getStreamMarkers,
+                schema: RESPONSE_SCHEMAS.getStreamMarkers,
+                query: {
+                    user_id: userId,
+                    video_id: videoId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const marker of response.data){
+                markers.push({
+                    creatorId: marker.user_id,
+                    creatorLogin: marker.user_login,
+                    creatorDisplayName: marker.user_name,
+                    videos: marker.videos.map((video: any)=>{
+                        return {
+                            id: video.video_id,
+                            markers: video.markers.map((marker: any)=>{
+                                return {
+                                    id: marker.id,
+                                    createdAt: new Date(marker.created_at),
+                                    description: marker.description,
+                                    position: marker.position_seconds,
+                                    url: marker.url
+                                }
+                            })
+                        }
+
+                    })
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {markers, cursor: cursor!};
+                    return markers.length === 0 ? null : {markers, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return markers.length === 0 ? null : {markers, cursor: null}
+    }
+}
@@ -0,0 +1,127 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {UserSubscription, BroadcasterSubscription} from "../types";
+
+/**
+ * Calls of the Subscriptions category of the Helix API, available via apiClient.subscriptions
+ */
+export class SubscriptionsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-broadcaster-subscriptions
+    /**
+     * Gets a list of users that subscribe to the specified broadcaster.
+     * @Tokentype user
+     * @Scope channel:read:subscriptions
+     * @NOTE The broadcasterId must match the user ID in the access token.
+     * @param broadcasterId The broadcaster’s ID.
+     * @param [options] Additional optional parameters
+     * @param [options.userId] Filters the list to include only the specified subscribers.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of subscribers to be returned.
+     * @return The list of users that subscribe to the broadcaster. If no one was found, null will be returned.
+     */
+    public async getBroadcasterSubscriptions(broadcasterId: string, options?: {userId?: string, cursor?: string, max?: number}): Promise< {subscriptions: BroadcasterSubscription[], cursor: string | null} | null>{
+        validateParameters("getBroadcasterSubscriptions", {broadcasterId, options});
+
+        const subscriptions: BroadcasterSubscription [] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/subscriptions",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getBroadcasterSubscriptions,
+                schema: RESPONSE_SCHEMAS.getBroadcasterSubscriptions,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    user_id: options?.userId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const subscription of response.data){
+                subscriptions.push({
+                    broadcasterId: subscription.broadcaster_id,
+                    broadcasterLogin: subscription.broadcaster_login,
+                    broadcasterDisplayName: subscription.broadcaster_name,
+                    gifterId: subscription.gifter_id,
+                    gifterLogin: subscription.gifter_login,
+                    gifterDisplayName: subscription.gifter_name,
+                    isGift: subscription.is_gift,
+                    planName: subscription.plan_name,
+                    tier: subscription.tier,
+                    userId: subscription.user_id,
+                    userLogin: subscription.user_login,
+                    userDisplayName: subscription.user_name,
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {subscriptions, cursor: cursor!};
+                    return subscriptions.length === 0 ? null : {subscriptions, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return subscriptions.length === 0 ? null : {subscriptions, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#check-user-subscription
+    /**
+     * Checks whether the user subscribes to the broadcaster’s channel.
+     * @Tokentype user
+     * @Scope user:read:subscriptions
+     * @NOTE The userId must match the user ID in the access Token.
+     * @param broadcasterId The ID of a partner or affiliate broadcaster.
+     * @param userId The ID of the user that you’re checking to see whether they subscribe to the broadcaster in broadcaster_id.
+     * @return Information about the user’s subscription. If no one was found, null will be returned.
+     */
+    public async checkUserSubscription(broadcasterId: string, userId: string): Promise<null | UserSubscription>{
+        validateParameters("checkUserSubscription", {broadcasterId, userId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/subscriptions/user",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.checkUserSubscription,
+            schema: RESPONSE_SCHEMAS.checkUserSubscription,
+            query: {
+                broadcaster_id: broadcasterId,
+                user_id: userId
+            }
+        })
+
+        return response.data.length === 0 ? null :{
+            broadcasterId: response.data[0].broadcaster_id,
+            broadcasterLogin: response.data[0].broadcaster_login,
+            broadcasterDisplayName: response.data[0].broadcaster_name,
+            gifterId: response.data[0].gifter_id,
+            gifterLogin: response.data[0].gifter_login,
+            gifterDisplayName: response.data[0].gifter_name,
+            isGift: response.data[0].is_gift,
+            tier: response.data[0].tier
+        }
+
+    }
+}
@@ -0,0 +1,145 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {StreamTag} from "../types";
+
+/**
+ * Calls of the Tags category of the Helix API, available via apiClient.tags
+ */
+export class TagsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-all-stream-tags
+    /**
+     * Gets a list of all stream tags that Twitch defines.
+     * @Tokentype user, app
+     * @param [options] Additional optional parameters
+     * @param [options.tagIds] The IDs of the tags to get
+     * @param [options.cursor] 	The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of tags to be returned. If no one was found, null will be returned.
+     */
+    public async getAllStreamTags(options?:{tagIds?: string[], cursor?: string, max?: number}):Promise<{tags: StreamTag[], cursor: string | null} | null>{
+        validateParameters("getAllStreamTags", {options});
+
+        const tags: StreamTag[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/tags/streams",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getAllStreamTags,
+                query: {
+                    tag_id: options?.tagIds,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const tag of response.data){
+                tags.push({
+                    id: tag.tag_id,
+                    isAuto: tag.is_auto,
+                    localizationNames: tag.localization_names,
+                    localizationDescription: tag.localization_descriptions
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {tags, cursor: cursor!};
+                    return tags.length === 0 ? null : {tags, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return tags.length === 0 ? null : {tags, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-stream-tags
+    /**
+     * Gets the list of stream tags that the broadcaster or Twitch added to their channel.
+     * @Tokentype user, app
+     * @param broadcasterId The ID of the broadcaster whose stream tags you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.max] Maximum amount of stream tags to be returned
+     * @return List of stream tags. If no one was found, null will be returned
+     */
+    public async getStreamTags(broadcasterId: string, options?: {max?: number}): Promise<StreamTag[] | null>{
+        validateParameters("getStreamTags", {broadcasterId, options});
+
+        const tags: StreamTag[] = [];
+
+        let count = 0;
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/streams/tags",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getStreamTags,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+
+        for (const tag of response.data){
+            tags.push({
+                id: tag.tag_id,
+                isAuto: tag.is_auto,
+                localizationNames: tag.localization_names,
+                localizationDescription: tag.localization_descriptions
+            })
+            count++;
+
+
+            if(isDefined(options?.max) && count === options!.max){
+                return tags.length === 0 ? null : tags
+            }
+        }
+
+        return tags.length === 0 ? null : tags
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#replace-stream-tags
+    /**
+     * Applies one or more tags to the specified channel, overwriting existing tags.
+     * @Tokentype user
+     * @Scope channel:manage:broadcast
+     * @param broadcasterId The ID of the broadcaster that owns the channel to apply the tags to.
+     * @param [options] Additional optional parameters
+     * @param [options.tagIds] A list of IDs that identify the tags to apply to the channel.
+     */
+    public async replaceStreamTags(broadcasterId: string, options?: {tagIds?: string[]}): Promise<void> {
+        validateParameters("replaceStreamTags", {broadcasterId, options});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/streams/tags",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.replaceStreamTags,
+            query: {
+                broadcaster_id: broadcasterId
+            },
+            body: {
+                tag_ids: isDefined(options?.tagIds) ? options!.tagIds : []
+            }
+        })
+    }
+}
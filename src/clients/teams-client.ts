@@ -0,0 +1,120 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {getChannelTeamResult, Team} from "../types";
+
+/**
+ * Calls of the Teams category of the Helix API, available via apiClient.teams
+ */
+export class TeamsClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-channel-teams
+    /**
+     * Gets the list of Twitch teams that the broadcaster is a member of.
+     * @Tokentype user, app
+     * @param broadcasterId The ID of the broadcaster whose teams you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.max] Maximum amount of teams to be returned
+     * @return List of teams. If no one was found, null will be returned
+     */
+    public async getChannelTeams(broadcasterId: string, options?: {max?: number}): Promise<getChannelTeamResult[] | null>{
+        validateParameters("getChannelTeams", {broadcasterId, options});
+
+        const teams: getChannelTeamResult[] = [];
+
+        let count = 0;
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/teams/channel",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getChannelTeams,
+            query: {
+                broadcaster_id: broadcasterId
+            }
+        })
+
+        for (const team of response.data){
+            teams.push({
+                broadcasterId: team.broadcaster_id,
+                broadcasterLogin: team.broadcaster_login,
+                broadcasterDisplayName: team.broadcaster_name,
+                team: {
+                    backgroundImageUrl: team.background_image_url,
+                    banner: team.banner,
+                    createdAt: new Date(team.created_at),
+                    updatedAt: new Date(team.updated_at),
+                    info: team.info,
+                    thumbnailUrl: team.thumbnail_url,
+                    name: team.team_name,
+                    displayName: team.team_display_name,
+                    id: team.id
+                }
+            })
+            count++;
+
+
+            if(isDefined(options?.max) && count === options!.max){
+                return teams.length === 0 ? null : teams
+            }
+        }
+
+        return teams.length === 0 ? null : teams
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-teams
+    /**
+     * Gets information about the specified Twitch team.
+     * @Tokentype user, app
+     * @param [identifiers] Mutually exclusive team identifiers
+     * @param [identifiers.name] The name of the team to get.
+     * @param [identifiers.id] The ID of the team to get.
+     */
+    public async getTeams(identifiers?: {name?: string, id?: string}):Promise<Team[] | null>{
+        validateParameters("getTeams", {identifiers});
+
+        const teams: Team[] = [];
+
+        if(isUndefined(identifiers))
+            throw new Error("You must at least specify a team name or team id");
+
+        if(isUndefined(identifiers?.name) && isUndefined(identifiers?.id))
+            throw new Error("You must at least specify a team name or team id");
+
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/teams",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getTeams,
+            query: isDefined(identifiers!.name) ? {name: identifiers!.name} : {id: identifiers!.id}
+        })
+
+        for(const team of response.data){
+            teams.push({
+                users: team.users.map((user: any)=>{
+                    return {
+                        userId: user.user_id,
+                        userLogin: user.user_login,
+                        userName: user.user_name
+                    }
+                }),
+                backgroundImageUrl: team.background_image_url,
+                banner: team.banner,
+                createdAt: new Date(team.created_at),
+                updatedAt: new Date(team.updated_at),
+                info: team.info,
+                thumbnailUrl: team.thumbnail_url,
+                name: team.team_name,
+                displayName: team.team_display_name,
+                id: team.id
+            })
+        }
+
+        return teams.length === 0 ? null : teams;
+
+
+    }
+}
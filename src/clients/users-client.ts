@@ -0,0 +1,408 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {BlockReason, BlockContext, User, UserExtension, Extension, FollowRelationship, UserExtension2} from "../types";
+
+/**
+ * Calls of the Users category of the Helix API, available via apiClient.users
+ */
+export class UsersClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-users
+    /**
+     * Gets information about one or more users.
+     * @Tokentype user, app
+     * @Scope user:read:email
+     * @NOTE Use userIds whenever possible due to the possibility of changing login names!
+     * @NOTE If you don’t specify IDs or login names, the request returns information about the user in the access token if you specify a user access token.
+     * @param options
+     * @param options.userIds The IDs of the users to get.
+     * @param options.userLogins The login names of the users to get.
+     */
+    public async getUsers(options?: {userIds?: string[], userLogins?: string[]}): Promise<User[]>{
+        validateParameters("getUsers", {options});
+
+        const users: User[] = [];
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/users",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getUsers,
+            query: {
+                id: options?.userIds,
+                login: options?.userLogins
+            }
+        })
+
+        for(const user of response.data){
+            users.push({
+                id: user.id,
+                login: user.login,
+                displayName: user.display_name,
+                type: user.type,
+                broadcasterType: user.broadcaster_type,
+                description: user.description,
+                profileImageURL: user.profile_image_url,
+                offlineImageURL: user.offline_image_url,
+                viewCount: user.view_count,
+                email: user.email,
+                createdAt: new Date(user.created_at)
+            })
+        }
+
+        return users;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#update-user
+    /**
+     * Updates the specified user’s information.
+     * @Tokentype user
+     * @Scope user:edit, to include email in reponse, add user:read:email
+     * @NOTE The user ID in the OAuth token identifies the user whose information you want to update.
+     * @param newDescription The string to update the channel’s description to
+     * @return The single user that you updated
+     */
+    public async updateUser(newDescription?: string):Promise<User>{
+        validateParameters("updateUser", {newDescription});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/users",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.updateUser,
+            schema: RESPONSE_SCHEMAS.updateUser,
+            query: {
+                description: isDefined(newDescription) ? newDescription : ""
+            }
+        })
+
+        return {
+            id: response.data[0].id,
+            login: response.data[0].login,
+            displayName: response.data[0].display_name,
+            type: response.data[0].type,
+            broadcasterType: response.data[0].broadcaster_type,
+            description: response.data[0].description,
+            profileImageURL: response.data[0].profile_image_url,
+            offlineImageURL: response.data[0].offline_image_url,
+            viewCount: response.data[0].view_count,
+            email: response.data[0].email,
+            createdAt: new Date(response.data[0].created_at)
+        }
+    }
+
+    /**
+     * Updates a users description text
+     * @HELPER
+     * @Tokentype user
+     * @Scope user:edit, to include email in reponse, add user:read:email
+     * @NOTE The user ID in the OAuth token identifies the user whose information you want to update.
+     * @param newDescription The string to update the channel’s description to
+     * @return The single user that you updated
+     */
+    public async updateDescription(newDescription?: string): Promise<User>{
+        return this.updateUser(newDescription);
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-users-follows
+    /**
+     * Gets information about users that are following other users.
+     * @Tokentype user, app
+     * @NOTE Read Reference for detailed information. Or see helper functions called getFollowers(), getFollowees(), isFollowing()
+     * @param [identifiers] Possible identifiers, at least one of both must be provided
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of relationships to be returned.
+     * @return The list of follower-followee relationship information. If no one was found, null will be returned
+     */
+    public async getUsersFollows(identifiers:{followerId?: string, followeeId?: string}, options?:{cursor?: string, max?: number}):Promise<{total: number, relationships: FollowRelationship[], cursor: string | null} | null>{
+        validateParameters("getUsersFollows", {identifiers, options});
+
+        const relationships: FollowRelationship[] = [];
+
+        if(isUndefined(identifiers.followerId) && isUndefined(identifiers.followeeId))
+            throw new Error("Follower ID or Followee ID must be provided!");
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        let total = 0;
+
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/users/follows",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getUsersFollows,
+                query: {
+                    from_id: identifiers.followerId,
+                    to_id: identifiers.followeeId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            total = response.total!;
+
+            cursor = response.pagination?.cursor;
+
+            for (const relationship of response.data){
+                relationships.push({
+                    followerId: relationship.from_id,
+                    followerLogin: relationship.from_login,
+                    followerDisplayName: relationship.from_name,
+                    followeeId: relationship.to_id,
+                    followeeLogin: relationship.to_login,
+                    followeeDisplayName: relationship.to_name,
+                    followedAt: new Date(relationship.followed_at)
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {total, relationships, cursor: cursor!};
+                    return relationships.length === 0 ? null : {total, relationships, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return relationships.length === 0 ? null : {total, relationships, cursor: null}
+    }
+
+    /**
+     * Gets followers of a user
+     * @Tokentype user, app
+     * @param userId Id of user to get followers of
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of followers to get.
+     * @return List of users that are following the user specified by userId. If no one was found, null will be returned.
+     */
+    public async getFollowers(userId: string, options?:{cursor?: string, max?: number}):Promise<null | { cursor: string | null, total: number, followers: { displayName: string, followedAt: Date, id: string, login: string }[] }>{
+        const relationships = await this.getUsersFollows({followeeId: userId}, options);
+        return relationships == null ? null : {total: relationships.total, cursor: relationships.cursor, followers: relationships.relationships.map((relationship: FollowRelationship)=>{
+            return {
+                id: relationship.followerId,
+                login: relationship.followerLogin,
+                displayName: relationship.followerDisplayName,
+                followedAt: relationship.followedAt
+            }
+        })}
+    }
+
+    /**
+     * Get all users that the specified user is following
+     * @Tokentype user, app
+     * @param userId Id of user to get followees of
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of followers to get.
+     * @return List of users the specified user is following. If no one was found, null will be returned.
+     */
+    public async getFollowees(userId: string, options?:{cursor?: string, max?: number}): Promise<null | {cursor: string | null, total: number, followees: {id: string, login: string, displayName: string, followedAt: Date}[]}>{
+        const relationships = await this.getUsersFollows({followerId: userId}, options);
+        return relationships == null ? null : {total: relationships.total, cursor: relationships.cursor, followees: relationships.relationships.map((relationship: FollowRelationship)=>{
+                return {
+                    id: relationship.followeeId,
+                    login: relationship.followeeLogin,
+                    displayName: relationship.followeeDisplayName,
+                    followedAt: relationship.followedAt
+                }
+            })}
+    }
+
+    /**
+     * Determines whether the user is following the broadcaster
+     * @Tokentype user, app
+     * @param userId Id of user to check following for
+     * @param broadcasterId If of broadcaster to check for
+     * @return Boolean that determines whether the user is following the broadcaster
+     */
+    public async isFollowing(userId: string, broadcasterId: string): Promise<boolean>{
+        const result = await this.getUsersFollows({followerId: userId, followeeId: broadcasterId});
+        return result !== null;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-user-block-list
+    /**
+     * Gets the list of users that the broadcaster has blocked.
+     * @Tokentype user
+     * @Scope user:read:blocked_users
+     * @param broadcasterId The ID of the broadcaster whose list of blocked users you want to get.
+     * @param [options] Additional optional parameters
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of blocked users to be returned.
+     * @return List of blocked users. If no one was found, null will be returned.
+     */
+    public async getUserBlockList(broadcasterId: string, options?: {cursor?: string, max?: number}): Promise<null | {blockedUsers: {id: string, login: string, displayName: string}[], cursor: string | null}>{
+        validateParameters("getUserBlockList", {broadcasterId, options});
+
+        const blockedUsers: {id: string, login: string, displayName: string}[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/users/blocks",
+                tokenType: TOKEN_TYPES.USER,
+                scopes: SCOPES.getUserBlockList,
+                schema: RESPONSE_SCHEMAS.getUserBlockList,
+                query: {
+                    broadcaster_id: broadcasterId,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const user of response.data){
+                blockedUsers.push({
+                    id: user.user_id,
+                    login: user.user_login,
+                    displayName: user.display_name
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {blockedUsers, cursor: cursor!};
+                    return blockedUsers.length === 0 ? null : {blockedUsers, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return blockedUsers.length === 0 ? null : {blockedUsers, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#block-user
+    /**
+     * Blocks the specified user from interacting with or having contact with the broadcaster.
+     * @Tokentype user
+     * @Scope user:manage:blocked_users
+     * @NOTE The user ID in the OAuth token identifies the broadcaster who is blocking the user.
+     * @param userId The ID of the user to block.
+     * @param options Optional additional blocking parameters
+     * @param options.blockContext The location where the harassment took place
+     * @param options.reason The reason that the broadcaster is blocking the user
+     */
+    public async blockUser(userId: string, options?: {blockContext: BlockContext, reason: BlockReason}): Promise<void>{
+        validateParameters("blockUser", {userId, options});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.PUT,
+            endpoint: "/users/blocks",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.blockUser,
+            query: {
+                target_user_id: userId,
+                source_context: options?.blockContext,
+                reason: options?.reason
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#unblock-user
+    /**
+     * Removes the user from the broadcaster’s list of blocked users.
+     * @Tokentype user
+     * @Scope user:manage:blocked_users
+     * @NOTE The user ID in the OAuth token identifies the broadcaster who’s removing the block.
+     * @param userId The ID of the user to remove from the broadcaster’s list of blocked users.
+     */
+    public async unblockUser(userId: string): Promise<void>{
+        validateParameters("unblockUser", {userId});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/users/blocks",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.unblockUser,
+            query: {
+                target_user_id: userId
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-user-extensions
+    /**
+     * Gets a list of all extensions (both active and inactive) that the broadcaster has installed.
+     * @Tokentype user
+     * @Scope user:read:broadcast or user:edit:broadcast, to include inactive extensions, you must include the user:edit:broadcast scope.
+     * @NOTE The user ID in the access token identifies the broadcaster.
+     * @return The list of extensions that the user has installed.
+     */
+    public async getUserExtensions():Promise<Extension[] | null>{
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/users/extensions/list",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.getUserExtensions,
+            schema: RESPONSE_SCHEMAS.getUserExtensions
+        })
+
+        return response.data.length === 0 ? null : response.data.map((extension: any): UserExtension=>{
+            return {
+                id: extension.id,
+                version: extension.version,
+                name: extension.name,
+                canActivate: extension.can_activate,
+                type: extension.type
+            }
+        })
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-user-active-extensions
+    /**
+     * Gets the active extensions that the broadcaster has installed for each configuration.
+     * @Tokentype user, app (see NOTE)
+     * @Scope user:read:broadcast or user:edit:broadcast
+     * @NOTE This parameter is required if you specify an app access token and is optional if you specify a user access token.
+     * @param broadcasterId The ID of the broadcaster whose active extensions you want to get.
+     * @return The active extensions that the broadcaster has installed.
+     */
+    public async getUserActiveExtensions(broadcasterId?: string):Promise<UserExtension2[] | null>{
+        validateParameters("getUserActiveExtensions", {broadcasterId});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/users/extensions",
+            tokenType: TOKEN_TYPES.ANY,
+            schema: RESPONSE_SCHEMAS.getUserActiveExtensions,
+            query: {
+                user_id: broadcasterId
+            }
+        })
+
+        return response.data.length === 0 ? null : response.data[0];
+
+
+    }
+
+    //TODO: https://dev.twitch.tv/docs/api/reference#update-user-extensions
+}
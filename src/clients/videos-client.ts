@@ -0,0 +1,138 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {isDefined, isUndefined} from "../utils";
+import {RESPONSE_SCHEMAS} from "../response-schemas";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+import {Languages, VideoType, VideoSorting, VideoPeriods, Video} from "../types";
+
+/**
+ * Calls of the Videos category of the Helix API, available via apiClient.videos
+ */
+export class VideosClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#get-videos
+    /**
+     * Gets information about one or more published videos. You may get videos by ID, by user, or by game/category.
+     * @param videoIds A list of IDs that identify the videos you want to get.
+     * @param broadcasterId The ID of the broadcaster whose list of videos you want to get.
+     * @param categoryId A category or game ID
+     * @param [options] Additional optional parameters
+     * @param [options.language] A filter used to filter the list of videos by the language that the video owner broadcasts in.
+     * @param [options.period] A filter used to filter the list of videos by when they were published.
+     * @param [options.sort] The order to sort the returned videos in. Possible values are
+     * @param [options.type] A filter used to filter the list of videos by the video’s type.
+     * @param [options.cursor] The cursor used to get the next page of results.
+     * @param [options.max] The maximum amount of videos to be returned.
+     * @return The list of published videos that match the filter criteria.
+     */
+    public async getVideos(videoIds: string[], broadcasterId: string, categoryId: string, options?:{language?: Languages, period?: VideoPeriods, sort?: VideoSorting, type?: VideoType, cursor?: string, max?: number}):Promise<{videos: Video[], cursor: string | null} | null>{
+        validateParameters("getVideos", {videoIds, broadcasterId, categoryId, options});
+
+        const videos: Video[] = [];
+
+        let cursor = options?.cursor
+        let count = 0;
+        let pageSize = 100
+        while(true){
+
+            if(isDefined(options?.max) && count + pageSize > options!.max!)
+                pageSize = options!.max! - count;
+
+            const response = await this._requestHandler.request({
+                method: HTTP_METHODS.GET,
+                endpoint: "/videos",
+                tokenType: TOKEN_TYPES.ANY,
+                schema: RESPONSE_SCHEMAS.getVideos,
+                query: {
+                    id: videoIds,
+                    user_id: broadcasterId,
+                    game_id: categoryId,
+                    language: options?.language,
+                    period: options?.period,
+                    sort: options?.sort,
+                    type: options?.type,
+                    first: pageSize,
+                    after: cursor
+                }
+            })
+
+            cursor = response.pagination?.cursor;
+
+            for (const video of response.data){
+                videos.push({
+                    id: video.id,
+                    streamId: video.stream_id,
+                    broadcasterId: video.user_id,
+                    broadcasterLogin: video.user_login,
+                    broadcasterDisplayName: video.user_name,
+                    title: video.title,
+                    description: video.description,
+                    createdAt: new Date(video.created_at),
+                    publishedAt: new Date(video.published_at),
+                    url: video.url,
+                    thumbnailUrl: video.thumbnail_url,
+                    viewable: video.viewable,
+                    viewCount: video.view_count,
+                    language: video.language,
+                    type: video.type,
+                    duration: {
+                        minutes: parseInt(video.duration.split("m")[0]),
+                        seconds: parseInt(video.duration.split("m").split("s")[0])
+                    },
+                    mutedSegments: video.muted_segments.map((segment: any)=>{
+                        return {
+                            duration: {
+                                minutes: parseInt(segment.duration.split("m")[0]),
+                                seconds: parseInt(segment.duration.split("m").split("s")[0])
+                            },
+                            offset: segment.offset
+                        }
+                    })
+
+
+                })
+                count++;
+
+
+                if(isDefined(options?.max) && count === options!.max){
+                    if(isDefined(cursor))
+                        return {videos: videos, cursor: cursor!};
+                    return videos.length === 0 ? null : {videos: videos, cursor: null}
+                }
+            }
+
+            if(isUndefined(cursor)){
+                break;
+            }
+        }
+
+        return videos.length === 0 ? null : {videos: videos, cursor: null}
+    }
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#delete-videos
+    /**
+     * Deletes one or more videos. You may delete past broadcasts, highlights, or uploads.
+     * @Tokentype user
+     * @Scope channel:manage:videos
+     * @NOTE If the user doesn’t have permission to delete one of the videos in the list, none of the videos are deleted.
+     * @param videoIds The list of videos to delete.
+     * @return The list of IDs of the videos that were deleted.
+     */
+    public async deleteVideos(videoIds: string[]):Promise<string[]>{
+        validateParameters("deleteVideos", {videoIds});
+
+        const response = await this._requestHandler.request({
+            method: HTTP_METHODS.DELETE,
+            endpoint: "/videos",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.deleteVideos,
+            schema: RESPONSE_SCHEMAS.deleteVideos,
+            query: {
+                id: videoIds
+            }
+        })
+        return response.data.length === 0 ? null : response.data;
+
+    }
+}
@@ -0,0 +1,37 @@
+import {HelixClient} from "./helix-client";
+import {HTTP_METHODS, TOKEN_TYPES} from "../request-handler";
+import {validateParameters} from "../parameter-schemas";
+import {SCOPES} from "../scopes";
+
+/**
+ * Calls of the Whispers category of the Helix API, available via apiClient.whispers
+ */
+export class WhispersClient extends HelixClient{
+
+    //Reference: https://dev.twitch.tv/docs/api/reference#send-whisper
+    /**
+     * Sends a whisper message to the specified user.
+     * @Tokentype user
+     * @Scope user:manage:whispers
+     * @NOTE The senderId must match the user ID in the user access token and the sender must have a verified phone number
+     * @NOTE The message may not be empty. 500 chars if you initially start a conversation, 10000 chars if you reply to a message
+     * @param senderId The ID of the user sending the whisper.
+     * @param receiverId The ID of the user to receive the whisper.
+     * @param message The whisper message to send.
+     */
+    public async sendWhisper(senderId: string, receiverId: string, message: string): Promise<void>{
+        validateParameters("sendWhisper", {senderId, receiverId, message});
+
+        await this._requestHandler.request({
+            method: HTTP_METHODS.POST,
+            endpoint: "/whispers",
+            tokenType: TOKEN_TYPES.USER,
+            scopes: SCOPES.sendWhisper,
+            query: {
+                from_user_id: senderId,
+                to_user_id: receiverId
+            },
+            body: {message}
+        })
+    }
+}
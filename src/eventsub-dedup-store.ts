@@ -0,0 +1,195 @@
+import fs from "fs";
+import path from "path";
+import {isDefined} from "./utils";
+
+/**
+ * Webhook messages older than 10 minutes are rejected as stale, so their IDs only have to be remembered that long
+ */
+const DEFAULT_TTL = 1000 * 60 * 10;
+const DEFAULT_MAX_SIZE = 10000;
+
+/**
+ * Records the IDs of dispatched EventSub notifications. Twitch may deliver a notification more than once, e.g. after a failed webhook response or during a WebSocket reconnect,
+ * and the EventSub transports only dispatch notifications whose ID was not recorded yet.
+ */
+export interface EventSubDedupStore{
+    /**
+     * Records the ID of a notification
+     * @param messageId The ID of the message, i.e. the Twitch-Eventsub-Message-Id header or the message_id of a WebSocket message
+     * @returns false if the ID was already recorded, i.e. the notification is a duplicate
+     */
+    add(messageId: string): Promise<boolean>;
+
+    /**
+     * Forgets the ID of a notification whose listeners failed, so the retry Twitch sends is dispatched again
+     * @param messageId The ID that was added before
+     */
+    delete(messageId: string): Promise<void>;
+}
+
+/**
+ * Dedup store that keeps the IDs in memory. IDs expire after the TTL, and the least recently seen IDs are evicted if the store is full.
+ */
+export class MemoryDedupStore implements EventSubDedupStore{
+
+    protected readonly _messageIds = new Map<string, number>();
+    private readonly _ttl: number;
+    private readonly _maxSize: number;
+    private readonly _now: () => Date;
+
+    /**
+     * @param [options] Additional options
+     * @param [options.ttl] The number of milliseconds an ID is remembered. Defaults to 10 minutes, the age after which webhook messages are rejected as stale.
+     * @param [options.maxSize] The maximum number of remembered IDs. Defaults to 10000.
+     * @param [options.now] The clock the expiry of IDs is checked against. Defaults to the system time.
+     */
+    constructor(options?: {ttl?: number, maxSize?: number, now?: () => Date}){
+        this._ttl = options?.ttl ?? DEFAULT_TTL;
+        this._maxSize = options?.maxSize ?? DEFAULT_MAX_SIZE;
+        this._now = options?.now ?? (()=> new Date());
+    }
+
+    public async add(messageId: string): Promise<boolean>{
+        return this.record(messageId);
+    }
+
+    public async delete(messageId: string): Promise<void>{
+        this._messageIds.delete(messageId);
+    }
+
+    /**
+     * The number of remembered IDs, including expired IDs that were not evicted yet
+     */
+    get size(): number{
+        return this._messageIds.size;
+    }
+
+    /**
+     * Records an ID and evicts expired and least recently seen IDs
+     * @param messageId The ID to record
+     * @returns false if the ID was already recorded
+     */
+    protected record(messageId: string): boolean{
+        const now = this._now().getTime();
+        const expiresAt = this._messageIds.get(messageId);
+
+        this.evictExpired(now);
+
+        if(isDefined(expiresAt) && expiresAt! > now){
+            //Map keeps insertion order, so re-inserting moves the ID to the end of the eviction order
+            this._messageIds.delete(messageId);
+            this._messageIds.set(messageId, expiresAt!);
+            return false;
+        }
+
+        this._messageIds.delete(messageId);
+        this._messageIds.set(messageId, now + this._ttl);
+
+        for(const oldest of this._messageIds.keys()){
+            if(this._messageIds.size <= this._maxSize)
+                break;
+
+            this._messageIds.delete(oldest);
+        }
+
+        return true;
+    }
+
+    /**
+     * Evicts the expired IDs at the start of the eviction order. Expired IDs behind a recently seen ID are evicted later or by the size limit.
+     * @private
+     */
+    private evictExpired(now: number){
+        for(const [messageId, expiresAt] of this._messageIds){
+            if(expiresAt > now)
+                break;
+
+            this._messageIds.delete(messageId);
+        }
+    }
+}
+
+/**
+ * Dedup store that keeps the IDs in a JSON file, so notifications are not dispatched again after a restart
+ * @NOTE The IDs are loaded on the first add() and the file is replaced atomically after every change
+ */
+export class JsonFileDedupStore extends MemoryDedupStore{
+
+    private readonly _file: string;
+    private _loaded = false;
+    private _queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param file The path of the JSON file. Missing directories are created on the first save.
+     * @param [options] Additional options, see MemoryDedupStore
+     */
+    constructor(file: string, options?: {ttl?: number, maxSize?: number, now?: () => Date}){
+        super(options);
+        this._file = file;
+    }
+
+    public add(messageId: string): Promise<boolean>{
+        //Adds are queued, so concurrent notifications do not write the file at the same time
+        const added = this._queue.then(async ()=>{
+            await this.load();
+
+            const isNew = this.record(messageId);
+            if(isNew)
+                await this.save();
+
+            return isNew;
+        })
+
+        this._queue = added.catch(()=> undefined);
+        return added;
+    }
+
+    public delete(messageId: string): Promise<void>{
+        const deleted = this._queue.then(async ()=>{
+            await this.load();
+
+            if(this._messageIds.delete(messageId))
+                await this.save();
+        })
+
+        this._queue = deleted.catch(()=> undefined);
+        return deleted;
+    }
+
+    get file(): string{
+        return this._file;
+    }
+
+    /**
+     * Loads the IDs of the file once
+     * @private
+     */
+    private async load(){
+        if(this._loaded)
+            return;
+
+        try{
+            const stored = JSON.parse(await fs.promises.readFile(this._file, "utf8")) as Record<string, number>;
+
+            for(const [messageId, expiresAt] of Object.entries(stored).sort(([, a], [, b])=> a - b))
+                this._messageIds.set(messageId, expiresAt);
+        }catch(err: unknown){
+            if((err as NodeJS.ErrnoException).code !== "ENOENT")
+                throw err;
+        }
+
+        this._loaded = true;
+    }
+
+    /**
+     * Replaces the file with the remembered IDs
+     * @private
+     */
+    private async save(){
+        const temporaryFile = `${this._file}.${process.pid}.tmp`;
+
+        await fs.promises.mkdir(path.dirname(this._file), {recursive: true});
+        await fs.promises.writeFile(temporaryFile, JSON.stringify(Object.fromEntries(this._messageIds)));
+        await fs.promises.rename(temporaryFile, this._file);
+    }
+}
@@ -0,0 +1,225 @@
+import {EventsubClient} from "./clients";
+import {Subscription, TRANSPORT_METHODS} from "./types";
+import {EventSubSubscriptionDefinition} from "./eventsub";
+import {isDefined} from "./utils";
+
+/**
+ * Statuses of subscriptions that still work or will work once Twitch verified the callback. Subscriptions with any other status are failed.
+ */
+const HEALTHY_STATUSES = ["enabled", "webhook_callback_verification_pending"];
+
+/**
+ * Brings the EventSub subscriptions of one transport in line with a desired set of subscriptions: Creates missing subscriptions
+ * and deletes failed, duplicated and stale ones. Failed subscriptions that are still desired are created again.
+ * Subscriptions of the same method with another callback or session belong to other deployments and are left alone, unless deleteForeignTransports is set.
+ * @NOTE Webhook subscriptions are managed with the App Access Token, WebSocket subscriptions with the User Access Token of the eventsub client.
+ * @example
+ * const reconciler = new EventSubReconciler(apiClient.eventsub, {method: TRANSPORT_METHODS.WEBHOOK, callback: "https://example.com/eventsub", secret});
+ * const result = await reconciler.reconcile([{type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: broadcasterId}}]);
+ * console.log(`Using ${result.totalCost} of ${result.maxTotalCost}`);
+ */
+export class EventSubReconciler{
+
+    private readonly _eventsub: EventsubClient;
+    private readonly _transport: EventSubTransport;
+    private readonly _deleteForeignTransports: boolean;
+
+    /**
+     * @param eventsub The EventSub calls the subscriptions are managed with, e.g. apiClient.eventsub
+     * @param transport The transport of the managed subscriptions
+     * @param [options] Additional options
+     * @param [options.deleteForeignTransports] Treats subscriptions of the same method with another callback or session as stale and deletes them, e.g. after the callback URL changed. Only enable it if no other deployment shares the client ID. Defaults to false.
+     */
+    constructor(eventsub: EventsubClient, transport: EventSubTransport, options?: {deleteForeignTransports?: boolean}){
+        this._eventsub = eventsub;
+        this._transport = transport;
+        this._deleteForeignTransports = options?.deleteForeignTransports ?? false;
+    }
+
+    /**
+     * Compares the desired subscriptions with the existing ones, without changing anything
+     * @param desired The subscriptions that should exist
+     * @returns The subscriptions reconcile() would create, delete and keep
+     */
+    public async plan(desired: EventSubSubscriptionDefinition[]): Promise<EventSubReconciliationPlan>{
+        const existing = await this._eventsub.getEventsubSubscription({usedMethod: this._transport.method});
+
+        const plan: EventSubReconciliationPlan = {create: [], delete: [], keep: [], totalCost: existing?.totalCost ?? 0, maxTotalCost: existing?.maxTotalCost};
+        const wanted = new Map(desired.map((definition)=> [this.keyOf(definition), definition]));
+
+        for(const subscription of existing?.subscriptions ?? []){
+            const key = this.keyOf(subscription);
+
+            if(!this.matchesTransport(subscription)){
+                if(this._deleteForeignTransports)
+                    plan.delete.push(subscription);
+                continue;
+            }
+
+            //Kept subscriptions are removed from wanted, so later duplicates of them are deleted
+            if(HEALTHY_STATUSES.includes(subscription.status) && wanted.has(key)){
+                plan.keep.push(subscription);
+                wanted.delete(key);
+            }else{
+                plan.delete.push(subscription);
+            }
+        }
+
+        plan.create = [...wanted.values()];
+        return plan;
+    }
+
+    /**
+     * Creates the missing subscriptions and deletes failed, duplicated and stale ones. Stale subscriptions are deleted first, which frees their cost.
+     * Failed calls do not stop the reconciliation, they are reported in the result.
+     * @param desired The subscriptions that should exist
+     */
+    public async reconcile(desired: EventSubSubscriptionDefinition[]): Promise<EventSubReconciliation>{
+        const plan = await this.plan(desired);
+        const result: EventSubReconciliation = {
+            created: [],
+            deleted: [],
+            kept: plan.keep,
+            failedCreations: [],
+            failedDeletions: [],
+            totalCost: plan.totalCost,
+            maxTotalCost: plan.maxTotalCost
+        };
+
+        for(const subscription of plan.delete){
+            try{
+                await this._eventsub.deleteEventsubSubscription(subscription.id, this._transport.method);
+                result.deleted.push(subscription);
+                result.totalCost -= subscription.cost;
+            }catch(err: unknown){
+                result.failedDeletions.push({subscription, error: err});
+            }
+        }
+
+        for(const definition of plan.create){
+            try{
+                const subscription = await this._eventsub.createEventsubSubscription(definition.type, definition.version, definition.condition, this._transport);
+                result.created.push(subscription);
+                result.totalCost = subscription.totalCost ?? result.totalCost + subscription.cost;
+                result.maxTotalCost = subscription.maxTotalCost ?? result.maxTotalCost;
+            }catch(err: unknown){
+                result.failedCreations.push({definition, error: err});
+            }
+        }
+
+        return result;
+    }
+
+    get transport(): EventSubTransport{
+        return this._transport;
+    }
+
+    get deleteForeignTransports(): boolean{
+        return this._deleteForeignTransports;
+    }
+
+    /**
+     * Identifies a subscription by its type, version and condition. Condition fields are sorted, so their order does not matter.
+     * @private
+     */
+    private keyOf(subscription: {type: string, version: string, condition: Record<string, unknown>}): string{
+        const condition = Object.entries(subscription.condition).filter(([, value])=> isDefined(value) && value !== "").sort(([a], [b])=> a.localeCompare(b));
+        return JSON.stringify([subscription.type, subscription.version, condition]);
+    }
+
+    /**
+     * Checks whether an existing subscription uses the callback or session of the reconciler
+     * @private
+     */
+    private matchesTransport(subscription: Subscription): boolean{
+        if(this._transport.method === TRANSPORT_METHODS.WEBHOOK)
+            return subscription.transport.callback === this._transport.callback;
+
+        return subscription.transport.sessionId === this._transport.sessionId;
+    }
+}
+
+/**
+ * The transport of the subscriptions of an EventSubReconciler
+ */
+export type EventSubTransport = {
+    method: typeof TRANSPORT_METHODS.WEBHOOK,
+    /**
+     * The callback URL of the webhook
+     */
+    callback: string,
+    /**
+     * The secret the notifications are signed with
+     */
+    secret: string
+} | {
+    method: typeof TRANSPORT_METHODS.WEBSOCKET,
+    /**
+     * The ID of the WebSocket session, e.g. the sessionId of an EventSubWebSocketClient
+     */
+    sessionId: string
+}
+
+export type EventSubReconciliationPlan = {
+    /**
+     * The desired subscriptions that are missing or failed
+     */
+    create: EventSubSubscriptionDefinition[],
+
+    /**
+     * The failed, duplicated and stale subscriptions of the transport, and those of other callbacks or sessions if deleteForeignTransports is set
+     */
+    delete: Subscription[],
+
+    /**
+     * The desired subscriptions that already exist
+     */
+    keep: Subscription[],
+
+    /**
+     * The current total cost of the subscriptions, including those of other callbacks or sessions
+     */
+    totalCost: number,
+
+    /**
+     * The maximum total cost. Undefined if no subscription exists, because Twitch only reports it with subscriptions.
+     */
+    maxTotalCost?: number
+}
+
+export type EventSubReconciliation = {
+    /**
+     * The created subscriptions
+     */
+    created: Subscription[],
+
+    /**
+     * The deleted subscriptions
+     */
+    deleted: Subscription[],
+
+    /**
+     * The desired subscriptions that already existed
+     */
+    kept: Subscription[],
+
+    /**
+     * The subscriptions that could not be created, e.g. because the maximum total cost was reached
+     */
+    failedCreations: {definition: EventSubSubscriptionDefinition, error: unknown}[],
+
+    /**
+     * The subscriptions that could not be deleted
+     */
+    failedDeletions: {subscription: Subscription, error: unknown}[],
+
+    /**
+     * The total cost of the subscriptions after the reconciliation
+     */
+    totalCost: number,
+
+    /**
+     * The maximum total cost. Undefined if neither subscriptions existed nor were created, because Twitch only reports it with subscriptions.
+     */
+    maxTotalCost?: number
+}
@@ -0,0 +1,571 @@
+import {SubscriptionType} from "./types";
+import {EventSubNotification} from "./eventsub";
+
+//Reference: https://dev.twitch.tv/docs/eventsub/eventsub-subscription-types/
+/**
+ * The version of every subscription type the event types of EventSubSubscriptionMap belong to
+ */
+export const SUBSCRIPTION_VERSIONS = {
+    "channel.update": "2",
+    "channel.follow": "2",
+    "channel.subscribe": "1",
+    "channel.subscription.end": "1",
+    "channel.subscription.gift": "1",
+    "channel.subscription.message": "1",
+    "channel.cheer": "1",
+    "channel.raid": "1",
+    "channel.ban": "1",
+    "channel.unban": "1",
+    "channel.moderator.add": "1",
+    "channel.moderator.remove": "1",
+    "channel.channel_points_custom_reward.add": "1",
+    "channel.channel_points_custom_reward.update": "1",
+    "channel.channel_points_custom_reward.remove": "1",
+    "channel.channel_points_custom_reward_redemption.add": "1",
+    "channel.channel_points_custom_reward_redemption.update": "1",
+    "channel.poll.begin": "1",
+    "channel.poll.progress": "1",
+    "channel.poll.end": "1",
+    "channel.prediction.begin": "1",
+    "channel.prediction.progress": "1",
+    "channel.prediction.lock": "1",
+    "channel.prediction.end": "1",
+    "channel.charity_campaign.donate": "1",
+    "channel.charity_campaign.start": "1",
+    "channel.charity_campaign.progress": "1",
+    "channel.charity_campaign.stop": "1",
+    "drop.entitlement.grant": "1",
+    "extension.bits_transaction.create": "1",
+    "channel.goal.begin": "1",
+    "channel.goal.progress": "1",
+    "channel.goal.end": "1",
+    "channel.hype_train.begin": "1",
+    "channel.hype_train.progress": "1",
+    "channel.hype_train.end": "1",
+    "channel.shield_mode.begin": "1",
+    "channel.shield_mode.end": "1",
+    "stream.online": "1",
+    "stream.offline": "1",
+    "user.authorization.grant": "1",
+    "user.authorization.revoke": "1",
+    "user.update": "1"
+} as const satisfies Record<SubscriptionType, string>;
+
+/**
+ * Maps every subscription type to its version, the condition Twitch requires to create it and the event of its notifications.
+ * Conditions are sent to Twitch as they are and keep their snake_case keys, events are camelCased.
+ */
+export type EventSubSubscriptionMap = {
+    "channel.update": {version: "2", condition: BroadcasterCondition, event: ChannelUpdateEvent},
+    "channel.follow": {version: "2", condition: BroadcasterCondition & ModeratorCondition, event: ChannelFollowEvent},
+    "channel.subscribe": {version: "1", condition: BroadcasterCondition, event: ChannelSubscribeEvent},
+    "channel.subscription.end": {version: "1", condition: BroadcasterCondition, event: ChannelSubscriptionEndEvent},
+    "channel.subscription.gift": {version: "1", condition: BroadcasterCondition, event: ChannelSubscriptionGiftEvent},
+    "channel.subscription.message": {version: "1", condition: BroadcasterCondition, event: ChannelSubscriptionMessageEvent},
+    "channel.cheer": {version: "1", condition: BroadcasterCondition, event: ChannelCheerEvent},
+    "channel.raid": {version: "1", condition: RaidCondition, event: ChannelRaidEvent},
+    "channel.ban": {version: "1", condition: BroadcasterCondition, event: ChannelBanEvent},
+    "channel.unban": {version: "1", condition: BroadcasterCondition, event: ChannelUnbanEvent},
+    "channel.moderator.add": {version: "1", condition: BroadcasterCondition, event: ChannelModeratorEvent},
+    "channel.moderator.remove": {version: "1", condition: BroadcasterCondition, event: ChannelModeratorEvent},
+    "channel.channel_points_custom_reward.add": {version: "1", condition: BroadcasterCondition, event: CustomRewardEvent},
+    "channel.channel_points_custom_reward.update": {version: "1", condition: BroadcasterCondition & RewardCondition, event: CustomRewardEvent},
+    "channel.channel_points_custom_reward.remove": {version: "1", condition: BroadcasterCondition & RewardCondition, event: CustomRewardEvent},
+    "channel.channel_points_custom_reward_redemption.add": {version: "1", condition: BroadcasterCondition & RewardCondition, event: CustomRewardRedemptionEvent},
+    "channel.channel_points_custom_reward_redemption.update": {version: "1", condition: BroadcasterCondition & RewardCondition, event: CustomRewardRedemptionEvent},
+    "channel.poll.begin": {version: "1", condition: BroadcasterCondition, event: ChannelPollBeginEvent},
+    "channel.poll.progress": {version: "1", condition: BroadcasterCondition, event: ChannelPollProgressEvent},
+    "channel.poll.end": {version: "1", condition: BroadcasterCondition, event: ChannelPollEndEvent},
+    "channel.prediction.begin": {version: "1", condition: BroadcasterCondition, event: ChannelPredictionBeginEvent},
+    "channel.prediction.progress": {version: "1", condition: BroadcasterCondition, event: ChannelPredictionProgressEvent},
+    "channel.prediction.lock": {version: "1", condition: BroadcasterCondition, event: ChannelPredictionLockEvent},
+    "channel.prediction.end": {version: "1", condition: BroadcasterCondition, event: ChannelPredictionEndEvent},
+    "channel.charity_campaign.donate": {version: "1", condition: BroadcasterCondition, event: CharityDonationEvent},
+    "channel.charity_campaign.start": {version: "1", condition: BroadcasterCondition, event: CharityCampaignStartEvent},
+    "channel.charity_campaign.progress": {version: "1", condition: BroadcasterCondition, event: CharityCampaignProgressEvent},
+    "channel.charity_campaign.stop": {version: "1", condition: BroadcasterCondition, event: CharityCampaignStopEvent},
+    "drop.entitlement.grant": {version: "1", condition: DropEntitlementGrantCondition, event: DropEntitlementGrantEvent[]},
+    "extension.bits_transaction.create": {version: "1", condition: {extension_client_id: string}, event: ExtensionBitsTransactionCreateEvent},
+    "channel.goal.begin": {version: "1", condition: BroadcasterCondition, event: GoalBeginEvent},
+    "channel.goal.progress": {version: "1", condition: BroadcasterCondition, event: GoalProgressEvent},
+    "channel.goal.end": {version: "1", condition: BroadcasterCondition, event: GoalEndEvent},
+    "channel.hype_train.begin": {version: "1", condition: BroadcasterCondition, event: HypeTrainBeginEvent},
+    "channel.hype_train.progress": {version: "1", condition: BroadcasterCondition, event: HypeTrainProgressEvent},
+    "channel.hype_train.end": {version: "1", condition: BroadcasterCondition, event: HypeTrainEndEvent},
+    "channel.shield_mode.begin": {version: "1", condition: BroadcasterCondition & ModeratorCondition, event: ShieldModeBeginEvent},
+    "channel.shield_mode.end": {version: "1", condition: BroadcasterCondition & ModeratorCondition, event: ShieldModeEndEvent},
+    "stream.online": {version: "1", condition: BroadcasterCondition, event: StreamOnlineEvent},
+    "stream.offline": {version: "1", condition: BroadcasterCondition, event: StreamOfflineEvent},
+    "user.authorization.grant": {version: "1", condition: {client_id: string}, event: UserAuthorizationGrantEvent},
+    "user.authorization.revoke": {version: "1", condition: {client_id: string}, event: UserAuthorizationRevokeEvent},
+    "user.update": {version: "1", condition: {user_id: string}, event: UserUpdateEvent}
+}
+
+/**
+ * The version of a subscription type
+ */
+export type EventSubVersion<T extends SubscriptionType> = EventSubSubscriptionMap[T]["version"];
+
+/**
+ * The condition a subscription of the type is created with
+ */
+export type EventSubCondition<T extends SubscriptionType> = EventSubSubscriptionMap[T]["condition"];
+
+/**
+ * The camelCased event of a notification of the subscription type
+ */
+export type EventSubEvent<T extends SubscriptionType> = EventSubSubscriptionMap[T]["event"];
+
+/**
+ * Listeners of the typed notification events of the EventSub transports, e.g. on("channel.raid", (event)=> event.fromBroadcasterUserId)
+ */
+export type EventSubTypedEvents = {
+    [T in SubscriptionType]: (event: EventSubEvent<T>, notification: EventSubNotification) => void
+}
+
+//#region Conditions
+
+type BroadcasterCondition = {
+    broadcaster_user_id: string
+}
+
+type ModeratorCondition = {
+    /**
+     * The ID of the broadcaster or one of their moderators. The User Access Token must belong to this user.
+     */
+    moderator_user_id: string
+}
+
+type RewardCondition = {
+    /**
+     * Restricts the subscription to a single custom reward
+     */
+    reward_id?: string
+}
+
+/**
+ * Raids are subscribed either from or to a broadcaster
+ */
+type RaidCondition = {from_broadcaster_user_id: string, to_broadcaster_user_id?: never} | {to_broadcaster_user_id: string, from_broadcaster_user_id?: never};
+
+type DropEntitlementGrantCondition = {
+    organization_id: string,
+    category_id?: string,
+    campaign_id?: string
+}
+
+//endregion
+
+//#region Events
+
+type EventSubBroadcaster = {
+    broadcasterUserId: string,
+    broadcasterUserLogin: string,
+    broadcasterUserName: string
+}
+
+type EventSubUser = {
+    userId: string,
+    userLogin: string,
+    userName: string
+}
+
+type EventSubModerator = {
+    moderatorUserId: string,
+    moderatorUserLogin: string,
+    moderatorUserName: string
+}
+
+export type ChannelUpdateEvent = EventSubBroadcaster & {
+    title: string,
+    /**
+     * The ISO 639-1 two-letter code of the language of the stream
+     */
+    language: string,
+    categoryId: string,
+    categoryName: string,
+    contentClassificationLabels: string[]
+}
+
+export type ChannelFollowEvent = EventSubBroadcaster & EventSubUser & {
+    /**
+     * RFC3339 timestamp of the follow
+     */
+    followedAt: string
+}
+
+export type ChannelSubscribeEvent = EventSubBroadcaster & EventSubUser & {
+    /**
+     * 1000, 2000 or 3000
+     */
+    tier: string,
+    isGift: boolean
+}
+
+export type ChannelSubscriptionEndEvent = ChannelSubscribeEvent;
+
+export type ChannelSubscriptionGiftEvent = EventSubBroadcaster & {
+    /**
+     * Null if the gift was anonymous
+     */
+    userId: string | null,
+    userLogin: string | null,
+    userName: string | null,
+    /**
+     * The number of gifted subscriptions
+     */
+    total: number,
+    tier: string,
+    /**
+     * The number of subscriptions the user gifted in the channel so far. Null if the gift was anonymous or the user chose not to share it.
+     */
+    cumulativeTotal: number | null,
+    isAnonymous: boolean
+}
+
+export type ChannelSubscriptionMessageEvent = EventSubBroadcaster & EventSubUser & {
+    tier: string,
+    message: {
+        text: string,
+        /**
+         * The positions of the emotes in the text
+         */
+        emotes: {begin: number, end: number, id: string}[] | null
+    },
+    cumulativeMonths: number,
+    /**
+     * Null if the user chose not to share it
+     */
+    streakMonths: number | null,
+    durationMonths: number
+}
+
+export type ChannelCheerEvent = EventSubBroadcaster & {
+    isAnonymous: boolean,
+    /**
+     * Null if the cheer was anonymous
+     */
+    userId: string | null,
+    userLogin: string | null,
+    userName: string | null,
+    message: string,
+    bits: number
+}
+
+export type ChannelRaidEvent = {
+    fromBroadcasterUserId: string,
+    fromBroadcasterUserLogin: string,
+    fromBroadcasterUserName: string,
+    toBroadcasterUserId: string,
+    toBroadcasterUserLogin: string,
+    toBroadcasterUserName: string,
+    viewers: number
+}
+
+export type ChannelBanEvent = EventSubBroadcaster & EventSubUser & EventSubModerator & {
+    reason: string,
+    bannedAt: string,
+    /**
+     * Null if the ban is permanent
+     */
+    endsAt: string | null,
+    isPermanent: boolean
+}
+
+export type ChannelUnbanEvent = EventSubBroadcaster & EventSubUser & EventSubModerator;
+
+export type ChannelModeratorEvent = EventSubBroadcaster & EventSubUser;
+
+export type CustomRewardEvent = EventSubBroadcaster & {
+    id: string,
+    isEnabled: boolean,
+    isPaused: boolean,
+    isInStock: boolean,
+    title: string,
+    cost: number,
+    prompt: string,
+    isUserInputRequired: boolean,
+    shouldRedemptionsSkipRequestQueue: boolean,
+    maxPerStream: {isEnabled: boolean, value: number},
+    maxPerUserPerStream: {isEnabled: boolean, value: number},
+    backgroundColor: string,
+    /**
+     * Null if the reward uses the default image
+     */
+    image: {url1x: string, url2x: string, url4x: string} | null,
+    defaultImage: {url1x: string, url2x: string, url4x: string},
+    globalCooldown: {isEnabled: boolean, seconds: number},
+    cooldownExpiresAt: string | null,
+    redemptionsRedeemedCurrentStream: number | null
+}
+
+export type CustomRewardRedemptionEvent = EventSubBroadcaster & EventSubUser & {
+    id: string,
+    userInput: string,
+    /**
+     * unknown, unfulfilled, fulfilled or canceled
+     */
+    status: string,
+    reward: {id: string, title: string, cost: number, prompt: string},
+    redeemedAt: string
+}
+
+type PollVoting = {
+    isEnabled: boolean,
+    amountPerVote: number
+}
+
+export type ChannelPollBeginEvent = EventSubBroadcaster & {
+    id: string,
+    title: string,
+    choices: {id: string, title: string}[],
+    bitsVoting: PollVoting,
+    channelPointsVoting: PollVoting,
+    startedAt: string,
+    endsAt: string
+}
+
+export type ChannelPollProgressEvent = ChannelPollBeginEvent & {
+    choices: {id: string, title: string, bitsVotes: number, channelPointsVotes: number, votes: number}[]
+}
+
+export type ChannelPollEndEvent = Omit<ChannelPollProgressEvent, "endsAt"> & {
+    /**
+     * completed, archived or terminated
+     */
+    status: string,
+    endedAt: string
+}
+
+type PredictionOutcome = {
+    id: string,
+    title: string,
+    /**
+     * blue or pink
+     */
+    color: string,
+    users?: number,
+    channelPoints?: number,
+    topPredictors?: {userId: string, userLogin: string, userName: string, channelPointsWon: number | null, channelPointsUsed: number}[]
+}
+
+export type ChannelPredictionBeginEvent = EventSubBroadcaster & {
+    id: string,
+    title: string,
+    outcomes: PredictionOutcome[],
+    startedAt: string,
+    locksAt: string
+}
+
+export type ChannelPredictionProgressEvent = ChannelPredictionBeginEvent;
+
+export type ChannelPredictionLockEvent = Omit<ChannelPredictionBeginEvent, "locksAt"> & {
+    lockedAt: string
+}
+
+export type ChannelPredictionEndEvent = Omit<ChannelPredictionBeginEvent, "locksAt"> & {
+    /**
+     * Null if the prediction was canceled
+     */
+    winningOutcomeId: string | null,
+    /**
+     * resolved or canceled
+     */
+    status: string,
+    endedAt: string
+}
+
+type CharityAmount = {
+    value: number,
+    /**
+     * The number of decimal places of value, e.g. 2 for 1550 meaning 15.50
+     */
+    decimalPlaces: number,
+    currency: string
+}
+
+type CharityCampaign = {
+    id: string,
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterName: string,
+    charityName: string,
+    charityDescription: string,
+    charityLogo: string,
+    charityWebsite: string,
+    currentAmount: CharityAmount,
+    targetAmount: CharityAmount
+}
+
+export type CharityDonationEvent = {
+    id: string,
+    campaignId: string,
+    broadcasterUserId: string,
+    broadcasterUserLogin: string,
+    broadcasterUserName: string,
+    userId: string,
+    userLogin: string,
+    userName: string,
+    charityName: string,
+    charityDescription: string,
+    charityLogo: string,
+    charityWebsite: string,
+    amount: CharityAmount
+}
+
+export type CharityCampaignStartEvent = CharityCampaign & {
+    startedAt: string
+}
+
+export type CharityCampaignProgressEvent = CharityCampaign;
+
+export type CharityCampaignStopEvent = CharityCampaign & {
+    stoppedAt: string
+}
+
+export type DropEntitlementGrantEvent = {
+    /**
+     * The ID of the grant, which is shared by retried deliveries
+     */
+    id: string,
+    data: {
+        organizationId: string,
+        categoryId: string,
+        categoryName: string,
+        campaignId: string,
+        userId: string,
+        userLogin: string,
+        userName: string,
+        entitlementId: string,
+        benefitId: string,
+        createdAt: string
+    }
+}
+
+export type ExtensionBitsTransactionCreateEvent = EventSubBroadcaster & EventSubUser & {
+    id: string,
+    extensionClientId: string,
+    product: {name: string, bits: number, sku: string, inDevelopment: boolean}
+}
+
+export type GoalBeginEvent = EventSubBroadcaster & {
+    id: string,
+    /**
+     * follow, subscription, subscription_count, new_subscription or new_subscription_count
+     */
+    type: string,
+    description: string,
+    currentAmount: number,
+    targetAmount: number,
+    startedAt: string
+}
+
+export type GoalProgressEvent = GoalBeginEvent;
+
+export type GoalEndEvent = GoalBeginEvent & {
+    isAchieved: boolean,
+    endedAt: string
+}
+
+type HypeTrainContribution = {
+    userId: string,
+    userLogin: string,
+    userName: string,
+    /**
+     * bits or subscription
+     */
+    type: string,
+    total: number
+}
+
+export type HypeTrainBeginEvent = EventSubBroadcaster & {
+    id: string,
+    total: number,
+    /**
+     * The number of points contributed to the current level
+     */
+    progress: number,
+    /**
+     * The number of points required to reach the next level
+     */
+    goal: number,
+    topContributions: HypeTrainContribution[],
+    lastContribution: HypeTrainContribution,
+    startedAt: string,
+    expiresAt: string
+}
+
+export type HypeTrainProgressEvent = HypeTrainBeginEvent & {
+    level: number
+}
+
+export type HypeTrainEndEvent = EventSubBroadcaster & {
+    id: string,
+    level: number,
+    total: number,
+    topContributions: HypeTrainContribution[],
+    startedAt: string,
+    endedAt: string,
+    cooldownEndsAt: string
+}
+
+export type ShieldModeBeginEvent = EventSubBroadcaster & EventSubModerator & {
+    startedAt: string
+}
+
+export type ShieldModeEndEvent = EventSubBroadcaster & EventSubModerator & {
+    endedAt: string
+}
+
+export type StreamOnlineEvent = EventSubBroadcaster & {
+    /**
+     * The ID of the stream
+     */
+    id: string,
+    /**
+     * live, playlist, watch_party, premiere or rerun
+     */
+    type: string,
+    startedAt: string
+}
+
+export type StreamOfflineEvent = EventSubBroadcaster;
+
+export type UserAuthorizationGrantEvent = EventSubUser & {
+    clientId: string
+}
+
+export type UserAuthorizationRevokeEvent = {
+    clientId: string,
+    userId: string,
+    /**
+     * Null if the user no longer exists
+     */
+    userLogin: string | null,
+    userName: string | null
+}
+
+export type UserUpdateEvent = EventSubUser & {
+    /**
+     * Only included if the subscription was created with the user:read:email scope
+     */
+    email?: string,
+    emailVerified: boolean,
+    description: string
+}
+
+//endregion
+
+/**
+ * Converts the snake_case keys of an event as sent by Twitch to camelCase, e.g. from_broadcaster_user_id to fromBroadcasterUserId
+ * @param value The event or one of its values
+ */
+export function camelCaseKeys(value: unknown): any{
+    if(Array.isArray(value))
+        return value.map(camelCaseKeys);
+
+    if(typeof value !== "object" || value === null)
+        return value;
+
+    return Object.fromEntries(Object.entries(value).map(([key, nested])=> [key.replace(/_([a-z0-9])/g, (match, character: string)=> character.toUpperCase()), camelCaseKeys(nested)]));
+}
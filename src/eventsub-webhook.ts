@@ -0,0 +1,289 @@
+import http from "http";
+import crypto from "crypto";
+import {Exception, EXCEPTION_REASONS} from "./exceptions";
+import {Subscription} from "./types";
+import {EventSubListener, EventSubNotification, toSubscription} from "./eventsub";
+import {EventSubTypedEvents} from "./eventsub-types";
+import {EventSubDedupStore} from "./eventsub-dedup-store";
+import {isDefined, isUndefined} from "./utils";
+
+/**
+ * Twitch recommends to reject messages older than 10 minutes, which protects against replayed messages
+ */
+const DEFAULT_MAX_MESSAGE_AGE = 1000 * 60 * 10;
+
+export const EVENTSUB_WEBHOOK_HEADERS = {
+    MESSAGE_ID: "twitch-eventsub-message-id",
+    MESSAGE_TIMESTAMP: "twitch-eventsub-message-timestamp",
+    MESSAGE_SIGNATURE: "twitch-eventsub-message-signature",
+    MESSAGE_TYPE: "twitch-eventsub-message-type"
+} as const;
+
+export interface EventSubWebhookHandler{
+    on<E extends keyof EventSubWebhookEvents>(event: E, listener: EventSubWebhookEvents[E]): this;
+    once<E extends keyof EventSubWebhookEvents>(event: E, listener: EventSubWebhookEvents[E]): this;
+    off<E extends keyof EventSubWebhookEvents>(event: E, listener: EventSubWebhookEvents[E]): this;
+    emit<E extends keyof EventSubWebhookEvents>(event: E, ...args: Parameters<EventSubWebhookEvents[E]>): boolean;
+}
+
+//Reference: https://dev.twitch.tv/docs/eventsub/handling-webhook-events/
+/**
+ * Receives EventSub notifications of webhook subscriptions. Verifies the signature and age of every message,
+ * answers the verification challenge of new subscriptions and emits notifications and revocations.
+ * handle() works with any HTTP framework, listen() and middleware() cover Node.js http and Express.
+ * @example
+ * const webhook = new EventSubWebhookHandler(secret);
+ * webhook.on("notification", (notification)=> console.log(notification.event));
+ * app.post("/eventsub", webhook.middleware());
+ */
+export class EventSubWebhookHandler extends EventSubListener{
+
+    private readonly _secret: string;
+    private readonly _maxMessageAge: number;
+    private readonly _now: () => Date;
+
+    /**
+     * @param secret The secret the webhook subscriptions were created with
+     * @param [options] Additional options
+     * @param [options.maxMessageAge] The number of milliseconds after which a message is rejected as stale. Defaults to 10 minutes.
+     * @param [options.now] The clock the age of messages is checked against. Defaults to the system time.
+     * @param [options.dedupStore] Records the IDs of the emitted notifications, so notifications Twitch retries are emitted once. Use a shared store if multiple instances receive the notifications. Defaults to a MemoryDedupStore.
+     */
+    constructor(secret: string, options?: {maxMessageAge?: number, now?: () => Date, dedupStore?: EventSubDedupStore}){
+        super(options?.dedupStore);
+        this._secret = secret;
+        this._maxMessageAge = options?.maxMessageAge ?? DEFAULT_MAX_MESSAGE_AGE;
+        this._now = options?.now ?? (()=> new Date());
+    }
+
+    /**
+     * Handles a request Twitch sent to the callback URL
+     * @param request The headers and the raw body of the request. The body must not be parsed yet, because the signature is computed over its exact bytes.
+     * @returns The response that has to be sent to Twitch
+     */
+    public async handle(request: EventSubWebhookRequest): Promise<EventSubWebhookResponse>{
+        const messageId = getHeader(request.headers, EVENTSUB_WEBHOOK_HEADERS.MESSAGE_ID);
+        const timestamp = getHeader(request.headers, EVENTSUB_WEBHOOK_HEADERS.MESSAGE_TIMESTAMP);
+        const signature = getHeader(request.headers, EVENTSUB_WEBHOOK_HEADERS.MESSAGE_SIGNATURE);
+        const messageType = getHeader(request.headers, EVENTSUB_WEBHOOK_HEADERS.MESSAGE_TYPE);
+
+        if(!isDefined(messageId, timestamp, signature, messageType))
+            return textResponse(400, "Missing EventSub headers");
+
+        const body = typeof request.body === "string" ? request.body : request.body.toString("utf8");
+
+        if(!this.verifySignature(messageId!, timestamp!, body, signature!))
+            return textResponse(403, "Invalid signature");
+
+        const age = this._now().getTime() - new Date(timestamp!).getTime();
+        if(isNaN(age) || Math.abs(age) > this._maxMessageAge)
+            return textResponse(403, "Stale message");
+
+        let message: {subscription: any, event?: any, events?: any[], challenge?: string};
+        try{
+            message = JSON.parse(body);
+        }catch(err: unknown){
+            return textResponse(400, "Invalid body");
+        }
+
+        switch(messageType){
+            case "webhook_callback_verification":
+                this.emit("verification", toSubscription(message.subscription));
+                return textResponse(200, message.challenge ?? "");
+            case "notification":
+                await this.dispatchNotification({
+                    messageId: messageId!,
+                    messageTimestamp: new Date(timestamp!),
+                    subscription: toSubscription(message.subscription),
+                    //Drop entitlements are delivered in batches
+                    event: message.event ?? message.events
+                });
+                return textResponse(204);
+            case "revocation":
+                this.emit("revocation", toSubscription(message.subscription));
+                return textResponse(204);
+            default:
+                return textResponse(204);
+        }
+    }
+
+    /**
+     * Checks the Twitch-Eventsub-Message-Signature header of a message
+     * @param messageId The Twitch-Eventsub-Message-Id header
+     * @param timestamp The Twitch-Eventsub-Message-Timestamp header
+     * @param body The raw body
+     * @param signature The Twitch-Eventsub-Message-Signature header
+     */
+    public verifySignature(messageId: string, timestamp: string, body: string, signature: string): boolean{
+        const expected = Buffer.from(`sha256=${crypto.createHmac("sha256", this._secret).update(messageId + timestamp + body).digest("hex")}`);
+        const actual = Buffer.from(signature);
+
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Starts an HTTP server that handles the requests Twitch sends to the callback URL. Twitch requires HTTPS on port 443, so the server is usually placed behind a reverse proxy.
+     * @param [port] The port to listen on. Defaults to a random free port.
+     * @param [options] Additional options
+     * @param [options.path] The path of the callback URL. Requests to other paths are answered with 404. Defaults to any path.
+     * @param [options.host] The host to listen on. Defaults to all interfaces.
+     * @NOTE Failed requests, e.g. because a listener threw, are answered with 500 and emitted as "error" event, so Twitch retries them.
+     */
+    public listen(port = 0, options?: {path?: string, host?: string}): Promise<EventSubWebhookServer>{
+        const server = http.createServer(async (incoming, outgoing)=>{
+            const url = new URL(incoming.url ?? "/", "http://localhost");
+
+            if(incoming.method !== "POST" || (isDefined(options?.path) && url.pathname !== options!.path)){
+                outgoing.writeHead(404).end();
+                return;
+            }
+
+            try{
+                await this.respond(incoming, await readBody(incoming), outgoing);
+            }catch(err: unknown){
+                this.emitError(err);
+                outgoing.writeHead(500).end();
+            }
+        })
+
+        return new Promise((resolve, reject)=>{
+            server.once("error", (err)=> reject(new Exception(EXCEPTION_REASONS.NETWORK_ERROR, `Failed to start the EventSub webhook server: ${err.message}`)));
+            server.listen(port, options?.host, ()=>{
+                resolve({
+                    port: (server.address() as {port: number}).port,
+                    close: ()=> new Promise((resolveClose)=> server.close(()=> resolveClose()))
+                })
+            })
+        })
+    }
+
+    /**
+     * Creates an Express-compatible middleware that handles the requests Twitch sends to the callback URL
+     * @NOTE The signature is computed over the raw body. Register the middleware before body parsers like express.json(), or use express.raw({type: "application/json"}) for its route.
+     */
+    public middleware(): (request: http.IncomingMessage & {body?: unknown}, response: http.ServerResponse, next: (err?: unknown) => void) => Promise<void>{
+        return async (request, response, next)=>{
+            try{
+                let body: string | Buffer;
+
+                if(typeof request.body === "string" || Buffer.isBuffer(request.body))
+                    body = request.body;
+                else if(isUndefined(request.body) && request.readable)
+                    body = await readBody(request);
+                else{
+                    next(new Exception(EXCEPTION_REASONS.BAD_REQUEST, "The body of the EventSub webhook request was already parsed, the signature requires the raw body"));
+                    return;
+                }
+
+                await this.respond(request, body, response);
+            }catch(err: unknown){
+                next(err);
+            }
+        }
+    }
+
+    /**
+     * Handles a Node.js request and writes the response
+     * @private
+     */
+    private async respond(request: http.IncomingMessage, body: string | Buffer, response: http.ServerResponse){
+        const result = await this.handle({headers: request.headers, body});
+
+        response.writeHead(result.status, result.headers);
+        response.end(result.body);
+    }
+}
+
+/**
+ * Reads the whole body of a request
+ * @param request The request to read
+ */
+function readBody(request: http.IncomingMessage): Promise<Buffer>{
+    return new Promise((resolve, reject)=>{
+        const chunks: Buffer[] = [];
+
+        request.on("data", (chunk: Buffer)=> chunks.push(chunk));
+        request.on("end", ()=> resolve(Buffer.concat(chunks)));
+        request.on("error", reject);
+    })
+}
+
+/**
+ * Gets a header case-insensitively
+ * @param headers The headers of a request
+ * @param name The lowercase name of the header
+ */
+function getHeader(headers: EventSubWebhookRequest["headers"], name: string): string | undefined{
+    const value = Object.entries(headers).find(([header])=> header.toLowerCase() === name)?.[1];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function textResponse(status: number, body?: string): EventSubWebhookResponse{
+    return {status, headers: isDefined(body) ? {"Content-Type": "text/plain"} : {}, body};
+}
+
+export type EventSubWebhookRequest = {
+    /**
+     * The headers of the request. Names are matched case-insensitively.
+     */
+    headers: Record<string, string | string[] | undefined>,
+
+    /**
+     * The raw, unparsed body of the request
+     */
+    body: string | Buffer
+}
+
+export type EventSubWebhookResponse = {
+    /**
+     * The HTTP status code
+     */
+    status: number,
+
+    /**
+     * The headers of the response
+     */
+    headers: Record<string, string>,
+
+    /**
+     * The body of the response, e.g. the challenge of a verification request
+     */
+    body?: string
+}
+
+export type EventSubWebhookServer = {
+    /**
+     * The port the server listens on
+     */
+    port: number,
+
+    /**
+     * Stops the server
+     */
+    close: () => Promise<void>
+}
+
+/**
+ * The events of an EventSubWebhookHandler and their listeners. Notifications are also emitted as event of their subscription type, see EventSubTypedEvents.
+ */
+export type EventSubWebhookEvents = EventSubTypedEvents & {
+    /**
+     * Twitch verified the callback of a new subscription, which is enabled afterwards
+     */
+    verification: (subscription: Subscription) => void,
+
+    /**
+     * An event of one of the subscriptions
+     */
+    notification: (notification: EventSubNotification) => void,
+
+    /**
+     * Twitch revoked a subscription, e.g. because the callback failed too often or the user revoked the authorization
+     */
+    revocation: (subscription: Subscription) => void,
+
+    /**
+     * A request to the server of listen() failed, e.g. because a listener threw. Dropped if nobody listens to this event.
+     */
+    error: (error: unknown) => void
+}
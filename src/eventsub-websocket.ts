@@ -0,0 +1,434 @@
+import {EventsubClient} from "./clients";
+import {Exception, EXCEPTION_REASONS} from "./exceptions";
+import {Subscription, TRANSPORT_METHODS} from "./types";
+import {EventSubListener, EventSubNotification, EventSubSubscriptionDefinition, toSubscription} from "./eventsub";
+import {EventSubTypedEvents} from "./eventsub-types";
+import {EventSubDedupStore} from "./eventsub-dedup-store";
+import {isDefined, isUndefined} from "./utils";
+
+export const EVENTSUB_WEBSOCKET_URL = "wss://eventsub.wss.twitch.tv/ws";
+
+/**
+ * Twitch closes connections that stay silent longer than the keepalive timeout, but keepalives may arrive a little late
+ */
+const KEEPALIVE_TOLERANCE = 1.5;
+const MAX_RECONNECT_DELAY = 1000 * 30;
+
+/**
+ * The minimal WebSocket interface the client needs. Implemented by the global WebSocket of browsers and Node.js 22+ and by the "ws" package.
+ */
+export type EventSubWebSocket = {
+    onmessage: ((event: {data: any}) => void) | null,
+    onclose: ((event: {code: number, reason: string}) => void) | null,
+    onerror: ((event: any) => void) | null,
+    close(code?: number, reason?: string): void
+}
+
+/**
+ * Opens a WebSocket connection to the given URL
+ */
+export type EventSubWebSocketFactory = (url: string) => EventSubWebSocket;
+
+/**
+ * Opens connections with the global WebSocket, which browsers and Node.js 22+ provide
+ * @param url The URL to connect to
+ */
+export const globalWebSocketFactory: EventSubWebSocketFactory = (url)=>{
+    const WebSocketClass = (globalThis as {WebSocket?: new (url: string) => EventSubWebSocket}).WebSocket;
+    if(typeof WebSocketClass !== "function")
+        throw new Exception(EXCEPTION_REASONS.NETWORK_ERROR, "No global WebSocket available, pass a factory as options.webSocket, e.g. (url)=> new WebSocket(url) with the \"ws\" package");
+
+    return new WebSocketClass(url);
+}
+
+export interface EventSubWebSocketClient{
+    on<E extends keyof EventSubWebSocketEvents>(event: E, listener: EventSubWebSocketEvents[E]): this;
+    once<E extends keyof EventSubWebSocketEvents>(event: E, listener: EventSubWebSocketEvents[E]): this;
+    off<E extends keyof EventSubWebSocketEvents>(event: E, listener: EventSubWebSocketEvents[E]): this;
+    emit<E extends keyof EventSubWebSocketEvents>(event: E, ...args: Parameters<EventSubWebSocketEvents[E]>): boolean;
+}
+
+//Reference: https://dev.twitch.tv/docs/eventsub/handling-websocket-events/
+/**
+ * Receives EventSub notifications over a WebSocket. Creates the configured subscriptions for every new session,
+ * follows reconnect requests without dropping notifications and reconnects if the keepalive messages stop.
+ * @example
+ * const client = new EventSubWebSocketClient(apiClient.eventsub, {subscriptions: [{type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: broadcasterId}}]});
+ * client.on("notification", (notification)=> console.log(notification.event));
+ * await client.connect();
+ */
+export class EventSubWebSocketClient extends EventSubListener{
+
+    private readonly _eventsub: EventsubClient;
+    private readonly _url: string;
+    private readonly _webSocket: EventSubWebSocketFactory;
+    private readonly _keepaliveTimeoutSeconds?: number;
+    private readonly _reconnectDelay: number;
+
+    private readonly _definitions: EventSubSubscriptionDefinition[];
+    private readonly _subscriptions = new Map<string, Subscription>();
+
+    private _socket?: EventSubWebSocket;
+    private _reconnectSocket?: EventSubWebSocket;
+    private readonly _closedSockets = new WeakSet<EventSubWebSocket>();
+
+    private _sessionId?: string;
+    private _keepaliveTimer?: NodeJS.Timeout;
+    private _keepaliveTimeout = 0;
+    private _reconnectTimer?: NodeJS.Timeout;
+    private _reconnectAttempts = 0;
+    private _running = false;
+
+    /**
+     * @param eventsub The EventSub calls the subscriptions are created with, e.g. apiClient.eventsub. WebSocket subscriptions require a User Access Token.
+     * @param [options] Additional options
+     * @param [options.subscriptions] The subscriptions that are created for every new session
+     * @param [options.url] The URL of the EventSub WebSocket server, e.g. of a local stand-in. Defaults to wss://eventsub.wss.twitch.tv/ws
+     * @param [options.webSocket] Opens the WebSocket connections. Defaults to the global WebSocket.
+     * @param [options.keepaliveTimeoutSeconds] The number of seconds Twitch may stay silent before it sends a keepalive message (10 - 600). Defaults to the server default.
+     * @param [options.reconnectDelay] The number of milliseconds to wait before the first attempt to reconnect a lost connection. Doubles with every failed attempt. Defaults to 1 second.
+     * @param [options.dedupStore] Records the IDs of the emitted notifications, so notifications that arrive on both connections of a reconnect are emitted once. Defaults to a MemoryDedupStore.
+     */
+    constructor(eventsub: EventsubClient, options?: {subscriptions?: EventSubSubscriptionDefinition[], url?: string, webSocket?: EventSubWebSocketFactory, keepaliveTimeoutSeconds?: number, reconnectDelay?: number, dedupStore?: EventSubDedupStore}){
+        super(options?.dedupStore);
+        this._eventsub = eventsub;
+        this._url = options?.url ?? EVENTSUB_WEBSOCKET_URL;
+        this._webSocket = options?.webSocket ?? globalWebSocketFactory;
+        this._keepaliveTimeoutSeconds = options?.keepaliveTimeoutSeconds;
+        this._reconnectDelay = options?.reconnectDelay ?? 1000;
+        this._definitions = [...(options?.subscriptions ?? [])];
+    }
+
+    /**
+     * Connects to the EventSub WebSocket server and creates the subscriptions
+     * @returns The ID of the session
+     * @throws Exception with reason NETWORK_ERROR if the connection was closed before the session was welcomed
+     */
+    public connect(): Promise<string>{
+        this._running = true;
+
+        return new Promise((resolve, reject)=>{
+            const onConnected = (sessionId: string)=>{
+                this.off("disconnected", onDisconnected);
+                resolve(sessionId);
+            }
+            const onDisconnected = (close: {code: number, reason: string})=>{
+                this.off("connected", onConnected);
+                this.disconnect();
+                reject(new Exception(EXCEPTION_REASONS.NETWORK_ERROR, `EventSub WebSocket closed with ${close.code} before the session was welcomed: ${close.reason}`));
+            }
+
+            this.once("connected", onConnected);
+            this.once("disconnected", onDisconnected);
+            this.open(this.buildUrl());
+        })
+    }
+
+    /**
+     * Closes the connection. Twitch deletes the subscriptions of the session.
+     */
+    public disconnect(){
+        this._running = false;
+        clearTimeout(this._reconnectTimer);
+        clearTimeout(this._keepaliveTimer);
+
+        this.closeSocket(this._reconnectSocket);
+        this.closeSocket(this._socket);
+
+        this._socket = undefined;
+        this._reconnectSocket = undefined;
+        this._sessionId = undefined;
+        this._subscriptions.clear();
+    }
+
+    /**
+     * Adds a subscription, which is created right away if the client is connected, and for every new session
+     * @param definition The type, version and condition of the subscription
+     * @returns The created subscription, or undefined if the client is not connected
+     */
+    public async subscribe(definition: EventSubSubscriptionDefinition): Promise<Subscription | undefined>{
+        this._definitions.push(definition);
+
+        if(isUndefined(this._sessionId))
+            return undefined;
+
+        return await this.createSubscription(definition, this._sessionId!);
+    }
+
+    /**
+     * The ID of the current session, undefined while not connected
+     */
+    get sessionId(): string | undefined{
+        return this._sessionId;
+    }
+
+    /**
+     * The subscriptions of the current session
+     */
+    get subscriptions(): Subscription[]{
+        return [...this._subscriptions.values()];
+    }
+
+    get url(): string{
+        return this._url;
+    }
+
+    /**
+     * Opens a connection and wires its messages. Messages of every open connection are handled, so notifications that arrive on the old connection during a reconnect are not dropped.
+     * @param url The URL to connect to
+     * @private
+     */
+    private open(url: string): EventSubWebSocket{
+        const socket = this._webSocket(url);
+
+        socket.onmessage = (event)=> void this.handleMessage(socket, event.data);
+        socket.onclose = (event)=> this.handleClose(socket, event);
+        socket.onerror = ()=> undefined;
+
+        if(isUndefined(this._socket))
+            this._socket = socket;
+
+        return socket;
+    }
+
+    /**
+     * Closes a connection without treating it as lost
+     * @param socket The connection to close
+     * @private
+     */
+    private closeSocket(socket: EventSubWebSocket | undefined){
+        if(isUndefined(socket))
+            return;
+
+        this._closedSockets.add(socket!);
+        socket!.close();
+    }
+
+    /**
+     * Handles a message of one of the open connections
+     * @param socket The connection the message arrived on
+     * @param data The raw message
+     * @private
+     */
+    private async handleMessage(socket: EventSubWebSocket, data: unknown){
+        //Messages are handled outside of any caller, so failures of listeners, the dedup store or malformed messages are emitted instead of thrown
+        try{
+            const message: EventSubMessage = JSON.parse(String(data));
+
+            this.resetKeepalive();
+
+            switch(message.metadata.message_type){
+                case "session_welcome":
+                    await this.handleWelcome(socket, message.payload.session);
+                    break;
+                case "session_keepalive":
+                    break;
+                case "session_reconnect":
+                    this._reconnectSocket = this.open(message.payload.session.reconnect_url!);
+                    break;
+                case "notification":
+                    await this.dispatchNotification({
+                        messageId: message.metadata.message_id,
+                        messageTimestamp: new Date(message.metadata.message_timestamp),
+                        subscription: toSubscription(message.payload.subscription),
+                        //Drop entitlements are delivered in batches
+                        event: message.payload.event ?? message.payload.events
+                    });
+                    break;
+                case "revocation":
+                    this._subscriptions.delete(message.payload.subscription.id);
+                    this.emit("revocation", toSubscription(message.payload.subscription));
+                    break;
+            }
+        }catch(err: unknown){
+            this.emitError(err);
+        }
+    }
+
+    /**
+     * Starts a new session, or completes a reconnect if the welcome arrived on the reconnect connection
+     * @param socket The connection the welcome arrived on
+     * @param session The session of the welcome message
+     * @private
+     */
+    private async handleWelcome(socket: EventSubWebSocket, session: EventSubSession){
+        //The welcome of a reconnect connection may omit the keepalive timeout of the session
+        if(typeof session.keepalive_timeout_seconds === "number")
+            this._keepaliveTimeout = session.keepalive_timeout_seconds * 1000 * KEEPALIVE_TOLERANCE;
+
+        this._reconnectAttempts = 0;
+        this.resetKeepalive();
+
+        //The session and its subscriptions move to the new connection
+        if(socket === this._reconnectSocket){
+            this.closeSocket(this._socket);
+            this._socket = socket;
+            this._reconnectSocket = undefined;
+            this.emit("reconnected", session.id);
+            return;
+        }
+
+        this._sessionId = session.id;
+        this._subscriptions.clear();
+
+        for(const definition of this._definitions)
+            await this.createSubscription(definition, session.id);
+
+        this.emit("connected", session.id);
+    }
+
+    /**
+     * Handles a closed connection. A lost current connection is replaced with a new session.
+     * @param socket The closed connection
+     * @param event The close code and reason
+     * @private
+     */
+    private handleClose(socket: EventSubWebSocket, event: {code: number, reason: string}){
+        if(this._closedSockets.has(socket))
+            return;
+
+        if(socket === this._reconnectSocket){
+            //The old connection stays open until Twitch closes it, which starts a new session
+            this._reconnectSocket = undefined;
+            return;
+        }
+
+        if(socket !== this._socket)
+            return;
+
+        this.connectionLost({code: event.code, reason: event.reason});
+    }
+
+    /**
+     * Replaces a lost connection with a new session after the reconnect delay
+     * @param close The close code and reason of the lost connection
+     * @private
+     */
+    private connectionLost(close: {code: number, reason: string}){
+        clearTimeout(this._keepaliveTimer);
+        this.closeSocket(this._reconnectSocket);
+
+        this._socket = undefined;
+        this._reconnectSocket = undefined;
+        this._sessionId = undefined;
+        this._subscriptions.clear();
+
+        this.emit("disconnected", close);
+
+        if(!this._running)
+            return;
+
+        const delay = Math.min(this._reconnectDelay * Math.pow(2, this._reconnectAttempts++), MAX_RECONNECT_DELAY);
+        this._reconnectTimer = setTimeout(()=> this.open(this.buildUrl()), delay);
+    }
+
+    /**
+     * Restarts the timer that treats the connection as lost if no message arrives within the keepalive timeout
+     * @private
+     */
+    private resetKeepalive(){
+        clearTimeout(this._keepaliveTimer);
+
+        if(this._keepaliveTimeout === 0 || !this._running)
+            return;
+
+        this._keepaliveTimer = setTimeout(()=>{
+            const socket = this._socket;
+            this.closeSocket(socket);
+
+            if(isDefined(socket))
+                this.connectionLost({code: 4005, reason: "No keepalive received within the keepalive timeout"});
+        }, this._keepaliveTimeout);
+    }
+
+    /**
+     * Creates a subscription for the session. Failures are emitted as subscriptionFailed, or logged if nobody listens to it.
+     * @param definition The type, version and condition of the subscription
+     * @param sessionId The ID of the session
+     * @private
+     */
+    private async createSubscription(definition: EventSubSubscriptionDefinition, sessionId: string): Promise<Subscription | undefined>{
+        try{
+            const subscription = await this._eventsub.createEventsubSubscription(definition.type, definition.version, definition.condition, {method: TRANSPORT_METHODS.WEBSOCKET, sessionId});
+            this._subscriptions.set(subscription.id, subscription);
+            return subscription;
+        }catch(err: unknown){
+            if(this.listenerCount("subscriptionFailed") > 0)
+                this.emit("subscriptionFailed", {definition, error: err});
+            else
+                console.error(err);
+        }
+    }
+
+    /**
+     * Builds the URL of a new session
+     * @private
+     */
+    private buildUrl(): string{
+        if(isUndefined(this._keepaliveTimeoutSeconds))
+            return this._url;
+
+        const url = new URL(this._url);
+        url.searchParams.set("keepalive_timeout_seconds", String(this._keepaliveTimeoutSeconds));
+        return url.toString();
+    }
+}
+
+/**
+ * The events of an EventSubWebSocketClient and their listeners. Notifications are also emitted as event of their subscription type, see EventSubTypedEvents.
+ */
+export type EventSubWebSocketEvents = EventSubTypedEvents & {
+    /**
+     * A new session was welcomed and its subscriptions were created
+     */
+    connected: (sessionId: string) => void,
+
+    /**
+     * The session moved to a new connection after Twitch requested a reconnect
+     */
+    reconnected: (sessionId: string) => void,
+
+    /**
+     * The connection was lost or the keepalive messages stopped. Unless the client was disconnected, a new session is started.
+     */
+    disconnected: (close: {code: number, reason: string}) => void,
+
+    /**
+     * An event of one of the subscriptions
+     */
+    notification: (notification: EventSubNotification) => void,
+
+    /**
+     * Twitch revoked a subscription, e.g. because the user revoked the authorization
+     */
+    revocation: (subscription: Subscription) => void,
+
+    /**
+     * A subscription could not be created. If nobody listens to this event, the error is logged instead.
+     */
+    subscriptionFailed: (failure: {definition: EventSubSubscriptionDefinition, error: unknown}) => void,
+
+    /**
+     * A message could not be handled, e.g. because a listener threw or the message was malformed. Dropped if nobody listens to this event.
+     */
+    error: (error: unknown) => void
+}
+
+type EventSubSession = {
+    id: string,
+    status: string,
+    keepalive_timeout_seconds: number | null,
+    reconnect_url: string | null,
+    connected_at: string
+}
+
+type EventSubMessage = {
+    metadata: {
+        message_id: string,
+        message_type: "session_welcome" | "session_keepalive" | "session_reconnect" | "notification" | "revocation",
+        message_timestamp: string,
+        subscription_type?: string,
+        subscription_version?: string
+    },
+    payload: any
+}
@@ -0,0 +1,126 @@
+import {EventEmitter} from "events";
+import {Subscription, SubscriptionType} from "./types";
+import {EventSubCondition, EventSubVersion, camelCaseKeys} from "./eventsub-types";
+import {EventSubDedupStore, MemoryDedupStore} from "./eventsub-dedup-store";
+
+/**
+ * Base of the EventSub transports. Emits every notification as notification event with the event as sent by Twitch,
+ * and as event of its subscription type with the camelCased event, e.g. on("channel.raid", (event)=> event.fromBroadcasterUserId).
+ * Notifications Twitch delivers more than once are only emitted once.
+ */
+export abstract class EventSubListener extends EventEmitter{
+
+    private readonly _dedupStore: EventSubDedupStore;
+    private _dispatching: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param [dedupStore] Records the IDs of the emitted notifications. Defaults to a MemoryDedupStore.
+     */
+    protected constructor(dedupStore?: EventSubDedupStore){
+        super();
+        this._dedupStore = dedupStore ?? new MemoryDedupStore();
+    }
+
+    get dedupStore(): EventSubDedupStore{
+        return this._dedupStore;
+    }
+
+    /**
+     * Emits a failure as error event. Unlike plain EventEmitters, failures are dropped instead of thrown if nobody listens to error,
+     * so a failing listener cannot crash the process.
+     * @param err The failure
+     */
+    protected emitError(err: unknown){
+        if(this.listenerCount("error") > 0)
+            this.emit("error", err);
+    }
+
+    /**
+     * Emits a notification to the listeners, unless it was already emitted. Notifications are emitted in the order they were received.
+     * If a listener throws, the ID is removed from the dedup store again, so a retry of the notification is dispatched.
+     * @param notification The received notification
+     * @returns false if the notification was a duplicate
+     */
+    protected dispatchNotification(notification: EventSubNotification): Promise<boolean>{
+        const dispatched = this._dispatching.then(async ()=>{
+            if(!await this._dedupStore.add(notification.messageId))
+                return false;
+
+            try{
+                this.emit("notification", notification);
+                this.emit(notification.subscription.type, camelCaseKeys(notification.event), notification);
+            }catch(err: unknown){
+                await this._dedupStore.delete(notification.messageId);
+                throw err;
+            }
+
+            return true;
+        })
+
+        this._dispatching = dispatched.catch(()=> undefined);
+        return dispatched;
+    }
+}
+
+/**
+ * Maps a subscription of an EventSub message, as received over WebSocket or webhook
+ * @param subscription The subscription as sent by Twitch
+ */
+export function toSubscription(subscription: any): Subscription{
+    return {
+        id: subscription.id,
+        status: subscription.status,
+        type: subscription.type,
+        version: subscription.version,
+        condition: subscription.condition,
+        createdAt: new Date(subscription.created_at),
+        transport: {
+            method: subscription.transport.method,
+            callback: subscription.transport.callback,
+            sessionId: subscription.transport.session_id
+        },
+        cost: subscription.cost
+    }
+}
+
+/**
+ * A subscription to create. Without a type argument, it is the union of the definitions of all subscription types, so the condition is checked against the type.
+ */
+export type EventSubSubscriptionDefinition<T extends SubscriptionType = SubscriptionType> = T extends SubscriptionType ? {
+    /**
+     * The type of the subscription, e.g. "channel.raid"
+     */
+    type: T,
+
+    /**
+     * The version of the subscription type, see SUBSCRIPTION_VERSIONS
+     */
+    version: EventSubVersion<T>,
+
+    /**
+     * The parameters of the subscription type, e.g. {to_broadcaster_user_id: "1234"}
+     */
+    condition: EventSubCondition<T>
+} : never;
+
+export type EventSubNotification = {
+    /**
+     * The ID of the message. Twitch may deliver a message more than once.
+     */
+    messageId: string,
+
+    /**
+     * The time the message was sent
+     */
+    messageTimestamp: Date,
+
+    /**
+     * The subscription the notification belongs to
+     */
+    subscription: Subscription,
+
+    /**
+     * The event data, as sent by Twitch
+     */
+    event: any
+}
@@ -1,4 +1,5 @@
-import {ObjectValues} from "./twitch-ts";
+import {ZodIssue} from "zod";
+import {ObjectValues} from "./types";
 
 export class Exception extends Error{
 
@@ -14,12 +15,263 @@ export class Exception extends Error{
     }
 }
 
+export class HttpException extends Exception{
+
+    private readonly _status: number;
+    private readonly _helixMessage: string;
+    private readonly _endpoint: string;
+    private readonly _requestId?: string;
+
+    /**
+     * Exception thrown when the Helix API responded with an error status
+     * @param reason The reason of the exception
+     * @param details Information about the failed request
+     * @param details.status The HTTP status code of the response
+     * @param details.message The message Twitch returned in the response body
+     * @param details.endpoint The method and endpoint of the failed request, e.g. "POST /moderation/bans"
+     * @param [details.requestId] The ID Twitch assigned to the request, if it was returned
+     */
+    constructor(reason: ExceptionReason, details: HttpExceptionDetails){
+        super(reason, `${details.endpoint} responded with ${details.status}: ${details.message}`);
+        this._status = details.status;
+        this._helixMessage = details.message;
+        this._endpoint = details.endpoint;
+        this._requestId = details.requestId;
+    }
+
+    get status(): number{
+        return this._status;
+    }
+
+    get helixMessage(): string{
+        return this._helixMessage;
+    }
+
+    get endpoint(): string{
+        return this._endpoint;
+    }
+
+    get requestId(): string | undefined{
+        return this._requestId;
+    }
+}
+
+export class BadRequestException extends HttpException{
+    constructor(details: HttpExceptionDetails){
+        super(EXCEPTION_REASONS.BAD_REQUEST, details);
+    }
+}
+
+export class UnauthorizedException extends HttpException{
+    constructor(details: HttpExceptionDetails){
+        super(EXCEPTION_REASONS.UNAUTHORIZED, details);
+    }
+}
+
+export class ForbiddenException extends HttpException{
+    constructor(details: HttpExceptionDetails, reason: ExceptionReason = EXCEPTION_REASONS.FORBIDDEN){
+        super(reason, details);
+    }
+}
+
+export class MissingScopeException extends ForbiddenException{
+    constructor(details: HttpExceptionDetails){
+        super(details, EXCEPTION_REASONS.MISSING_SCOPE);
+    }
+}
+
+export class NotFoundException extends HttpException{
+    constructor(details: HttpExceptionDetails){
+        super(EXCEPTION_REASONS.NOT_FOUND, details);
+    }
+}
+
+export class ConflictException extends HttpException{
+    constructor(details: HttpExceptionDetails){
+        super(EXCEPTION_REASONS.CONFLICT, details);
+    }
+}
+
+export class RateLimitedException extends HttpException{
+
+    private readonly _retryAfter: number;
+
+    /**
+     * Exception thrown when the rate limit bucket of the token was exhausted
+     * @param details Information about the failed request
+     * @param retryAfter The number of seconds until the bucket is reset
+     */
+    constructor(details: HttpExceptionDetails, retryAfter: number){
+        super(EXCEPTION_REASONS.RATE_LIMITED, details);
+        this._retryAfter = retryAfter;
+    }
+
+    get retryAfter(): number{
+        return this._retryAfter;
+    }
+}
+
+export class ServerErrorException extends HttpException{
+    constructor(details: HttpExceptionDetails){
+        super(EXCEPTION_REASONS.SERVER_ERROR, details);
+    }
+}
+
+export class NetworkException extends Exception{
+
+    private readonly _endpoint: string;
+    private readonly _transportError: unknown;
+
+    /**
+     * Exception thrown when no response was received at all, e.g. due to a connection reset or timeout
+     * @param endpoint The method and endpoint of the failed request, e.g. "GET /streams"
+     * @param transportError The error the transport failed with
+     */
+    constructor(endpoint: string, transportError: unknown){
+        super(EXCEPTION_REASONS.NETWORK_ERROR, `${endpoint} failed: ${transportError instanceof Error ? transportError.message : String(transportError)}`);
+        this._endpoint = endpoint;
+        this._transportError = transportError;
+    }
+
+    get endpoint(): string{
+        return this._endpoint;
+    }
+
+    get transportError(): unknown{
+        return this._transportError;
+    }
+}
+
+export class OAuthException extends Exception{
+
+    private readonly _status: number;
+    private readonly _oauthMessage: string;
+
+    /**
+     * Exception thrown when the OAuth API responded with an error status, e.g. to a refresh with a revoked refresh token
+     * @param endpoint The OAuth endpoint of the failed request, e.g. "/token"
+     * @param status The HTTP status code of the response
+     * @param oauthMessage The message Twitch returned in the response body
+     */
+    constructor(endpoint: string, status: number, oauthMessage: string){
+        super(EXCEPTION_REASONS.UNAUTHORIZED, `${endpoint} responded with ${status}: ${oauthMessage}`);
+        this._status = status;
+        this._oauthMessage = oauthMessage;
+    }
+
+    get status(): number{
+        return this._status;
+    }
+
+    get oauthMessage(): string{
+        return this._oauthMessage;
+    }
+}
+
+export class UnmatchedRequestException extends Exception{
+
+    private readonly _method: string;
+    private readonly _url: string;
+
+    /**
+     * Exception thrown when a cassette has no recorded response for a request and is not allowed to record it
+     * @param method The HTTP method of the request
+     * @param url The full URL of the request
+     */
+    constructor(method: string, url: string){
+        super(EXCEPTION_REASONS.UNMATCHED_REQUEST, `No recorded response for ${method} ${url}`);
+        this._method = method;
+        this._url = url;
+    }
+
+    get method(): string{
+        return this._method;
+    }
+
+    get url(): string{
+        return this._url;
+    }
+}
+
+export class ResponseValidationException extends Exception{
+
+    private readonly _endpoint: string;
+    private readonly _issues: ZodIssue[];
+
+    /**
+     * Exception thrown when a response body does not match the schema of its endpoint (see VALIDATION_MODES)
+     * @param endpoint The method and endpoint of the request, e.g. "GET /streams"
+     * @param issues The mismatches zod reported
+     */
+    constructor(endpoint: string, issues: ZodIssue[]){
+        super(EXCEPTION_REASONS.INVALID_RESPONSE, `${endpoint} returned an unexpected payload: ${formatIssues(issues)}`);
+        this._endpoint = endpoint;
+        this._issues = issues;
+    }
+
+    get endpoint(): string{
+        return this._endpoint;
+    }
+
+    get issues(): ZodIssue[]{
+        return this._issues;
+    }
+}
+
+export class InsufficientScopeException extends MissingScopeException{
+
+    private readonly _requiredScopes: readonly string[];
+
+    /**
+     * Exception thrown before a request is sent, if the User Access Token grants none of the scopes the endpoint requires (see the checkScopes option).
+     * It extends MissingScopeException, so it is caught like the missing scope Helix would have responded with.
+     * @param endpoint The method and endpoint of the request, e.g. "POST /polls"
+     * @param requiredScopes The scopes the endpoint accepts, one of them is required
+     */
+    constructor(endpoint: string, requiredScopes: readonly string[]){
+        super({status: 403, message: `Missing scope: ${requiredScopes.join(" or ")}`, endpoint});
+        //The request was not sent, so the message must not claim a response
+        this.message = `${EXCEPTION_REASONS.MISSING_SCOPE} - ${endpoint} requires the scope ${requiredScopes.join(" or ")}`;
+        this._requiredScopes = requiredScopes;
+    }
+
+    get requiredScopes(): readonly string[]{
+        return this._requiredScopes;
+    }
+}
+
+/**
+ * Formats zod issues as a single line, e.g. "data.0.user_id: Expected string, received number"
+ * @param issues The issues to be formatted
+ */
+export function formatIssues(issues: ZodIssue[]): string{
+    return issues.map((issue)=> issue.path.length === 0 ? issue.message : `${issue.path.join(".")}: ${issue.message}`).join("; ");
+}
+
 
 
 
 export const EXCEPTION_REASONS = {
     UNAUTHORIZED: "Unauthorized",
-    INVALID_PARAMETERS: "Invalid Parameters"
+    INVALID_PARAMETERS: "Invalid Parameters",
+    BAD_REQUEST: "Bad Request",
+    FORBIDDEN: "Forbidden",
+    MISSING_SCOPE: "Missing Scope",
+    NOT_FOUND: "Not Found",
+    CONFLICT: "Conflict",
+    RATE_LIMITED: "Rate Limited",
+    SERVER_ERROR: "Server Error",
+    HTTP_ERROR: "HTTP Error",
+    NETWORK_ERROR: "Network Error",
+    UNMATCHED_REQUEST: "Unmatched Request",
+    INVALID_RESPONSE: "Invalid Response"
 
 } as const;
-export type ExceptionReason = ObjectValues<typeof EXCEPTION_REASONS>;
\ No newline at end of file
+export type ExceptionReason = ObjectValues<typeof EXCEPTION_REASONS>;
+
+export type HttpExceptionDetails = {
+    status: number,
+    message: string,
+    endpoint: string,
+    requestId?: string
+}
@@ -0,0 +1,1622 @@
+import http from "http";
+import {HttpMethod} from "./request-handler";
+import {Transport, TransportRequest, TransportResponse} from "./transport";
+import {isDefined, isUndefined} from "./utils";
+import {EventSubWebSocket, EventSubWebSocketFactory} from "./eventsub-websocket";
+
+export const FAKE_HELIX_BASE_URL = "http://fake-helix.local";
+
+/**
+ * In-process fake of the Helix and OAuth APIs with an in-memory state model.
+ * Point a TwitchAPI at it with new TwitchAPI({clientId: helix.clientId, tokens: {...}, options: helix.clientOptions}).
+ * @NOTE Only the users, channels, moderation (bans, moderators, VIPs), polls, predictions and channel points endpoints are implemented. Other endpoints respond with 404.
+ */
+export class FakeHelix{
+
+    private readonly _clientId: string;
+    private readonly _clientSecret: string;
+    private readonly _baseUrl: string;
+    private readonly _now: () => Date;
+    private readonly _deviceInterval: number;
+
+    private _nextId = 1;
+
+    private readonly _users = new Map<string, HelixObject>();
+    private readonly _channels = new Map<string, HelixObject>();
+    private readonly _bans = new Map<string, Map<string, HelixObject>>();
+    private readonly _moderators = new Map<string, Set<string>>();
+    private readonly _vips = new Map<string, Set<string>>();
+    private readonly _polls = new Map<string, HelixObject>();
+    private readonly _predictions = new Map<string, HelixObject>();
+    private readonly _rewards = new Map<string, HelixObject>();
+    private readonly _redemptions = new Map<string, HelixObject>();
+
+    private readonly _accessTokens = new Map<string, FakeToken>();
+    private readonly _refreshTokens = new Map<string, FakeToken>();
+    private readonly _authorizationCodes = new Map<string, FakeToken & {redirectUri: string}>();
+    private readonly _deviceCodes = new Map<string, FakeToken & {userCode: string}>();
+
+    private readonly _subscriptions = new Map<string, HelixObject>();
+    private readonly _sessions = new Map<string, FakeSession>();
+    private readonly _subscriptionOwners = new Map<string, string>();
+    private readonly _eventsubMaxTotalCost: number;
+
+    private readonly _routes: Record<string, Route> = {
+        "POST /oauth2/token": {auth: false, handler: (context)=> this.token(context)},
+        "POST /oauth2/device": {auth: false, handler: (context)=> this.device(context)},
+        "GET /oauth2/validate": {auth: false, handler: (context)=> this.validate(context)},
+        "POST /oauth2/revoke": {auth: false, handler: (context)=> this.revoke(context)},
+
+        "GET /helix/users": {handler: (context)=> this.getUsers(context)},
+        "PUT /helix/users": {scopes: ["user:edit"], handler: (context)=> this.updateUser(context)},
+        "GET /helix/channels": {handler: (context)=> this.getChannels(context)},
+        "PATCH /helix/channels": {scopes: ["channel:manage:broadcast"], handler: (context)=> this.modifyChannel(context)},
+
+        "GET /helix/moderation/banned": {scopes: ["moderation:read", "moderator:manage:banned_users"], handler: (context)=> this.getBannedUsers(context)},
+        "POST /helix/moderation/bans": {scopes: ["moderator:manage:banned_users"], handler: (context)=> this.banUser(context)},
+        "DELETE /helix/moderation/bans": {scopes: ["moderator:manage:banned_users"], handler: (context)=> this.unbanUser(context)},
+        "GET /helix/moderation/moderators": {scopes: ["moderation:read", "channel:manage:moderators"], handler: (context)=> this.getModerators(context)},
+        "POST /helix/moderation/moderators": {scopes: ["channel:manage:moderators"], handler: (context)=> this.addModerator(context)},
+        "DELETE /helix/moderation/moderators": {scopes: ["channel:manage:moderators"], handler: (context)=> this.removeModerator(context)},
+        "GET /helix/channels/vips": {scopes: ["channel:read:vips", "channel:manage:vips"], handler: (context)=> this.getVIPs(context)},
+        "POST /helix/channels/vips": {scopes: ["channel:manage:vips"], handler: (context)=> this.addVIP(context)},
+        "DELETE /helix/channels/vips": {scopes: ["channel:manage:vips"], handler: (context)=> this.removeVIP(context)},
+
+        "GET /helix/polls": {scopes: ["channel:read:polls", "channel:manage:polls"], handler: (context)=> this.getPolls(context)},
+        "POST /helix/polls": {scopes: ["channel:manage:polls"], handler: (context)=> this.createPoll(context)},
+        "PATCH /helix/polls": {scopes: ["channel:manage:polls"], handler: (context)=> this.endPoll(context)},
+        "GET /helix/predictions": {scopes: ["channel:read:predictions", "channel:manage:predictions"], handler: (context)=> this.getPredictions(context)},
+        "POST /helix/predictions": {scopes: ["channel:manage:predictions"], handler: (context)=> this.createPrediction(context)},
+        "PATCH /helix/predictions": {scopes: ["channel:manage:predictions"], handler: (context)=> this.endPrediction(context)},
+
+        "GET /helix/channel_points/custom_rewards": {scopes: ["channel:read:redemptions", "channel:manage:redemptions"], handler: (context)=> this.getCustomRewards(context)},
+        "POST /helix/channel_points/custom_rewards": {scopes: ["channel:manage:redemptions"], handler: (context)=> this.createCustomReward(context)},
+        "PATCH /helix/channel_points/custom_rewards": {scopes: ["channel:manage:redemptions"], handler: (context)=> this.updateCustomReward(context)},
+        "DELETE /helix/channel_points/custom_rewards": {scopes: ["channel:manage:redemptions"], handler: (context)=> this.deleteCustomReward(context)},
+        "GET /helix/channel_points/custom_rewards/redemptions": {scopes: ["channel:read:redemptions", "channel:manage:redemptions"], handler: (context)=> this.getRedemptions(context)},
+        "PATCH /helix/channel_points/custom_rewards/redemptions": {scopes: ["channel:manage:redemptions"], handler: (context)=> this.updateRedemptions(context)},
+
+        "POST /helix/eventsub/subscriptions": {handler: (context)=> this.createSubscription(context)},
+        "GET /helix/eventsub/subscriptions": {handler: (context)=> this.getSubscriptions(context)},
+        "DELETE /helix/eventsub/subscriptions": {handler: (context)=> this.deleteSubscription(context)}
+    }
+
+    /**
+     * Creates an empty fake Helix API
+     * @param [options] Additional options
+     * @param [options.clientId] The client identifier the fake accepts. Defaults to "fakehelixclientid".
+     * @param [options.clientSecret] The client secret the fake accepts for App Access Tokens. Defaults to "fakehelixclientsecret".
+     * @param [options.baseUrl] The origin of the fake hosts. Defaults to http://fake-helix.local
+     * @param [options.now] The clock of the fake, e.g. to let polls run out deterministically. Defaults to the system time.
+     * @param [options.deviceInterval] The number of seconds device code clients are asked to wait between polls. Defaults to 5.
+     * @param [options.eventsubMaxTotalCost] The maximum total cost of the EventSub subscriptions of a token. Defaults to 10000.
+     */
+    constructor(options?: {clientId?: string, clientSecret?: string, baseUrl?: string, now?: () => Date, deviceInterval?: number, eventsubMaxTotalCost?: number}){
+        this._clientId = options?.clientId ?? "fakehelixclientid";
+        this._clientSecret = options?.clientSecret ?? "fakehelixclientsecret";
+        this._baseUrl = (options?.baseUrl ?? FAKE_HELIX_BASE_URL).replace(/\/+$/, "");
+        this._now = options?.now ?? (()=> new Date());
+        this._deviceInterval = options?.deviceInterval ?? 5;
+        this._eventsubMaxTotalCost = options?.eventsubMaxTotalCost ?? 10000;
+    }
+
+    //#region API
+
+    /**
+     * Transport that answers the requests of a TwitchAPI in-process, without any network access
+     */
+    public readonly transport: Transport = async (request)=> this.handle(request);
+
+    get clientId(): string{
+        return this._clientId;
+    }
+
+    get clientSecret(): string{
+        return this._clientSecret;
+    }
+
+    get helixBaseUrl(): string{
+        return `${this._baseUrl}/helix`;
+    }
+
+    get oauthBaseUrl(): string{
+        return `${this._baseUrl}/oauth2`;
+    }
+
+    /**
+     * The host and transport options that point a TwitchAPI at this fake
+     */
+    get clientOptions(): {helixBaseUrl: string, oauthBaseUrl: string, transport: Transport}{
+        return {helixBaseUrl: this.helixBaseUrl, oauthBaseUrl: this.oauthBaseUrl, transport: this.transport};
+    }
+
+    /**
+     * The URL of the fake EventSub WebSocket server, to be passed to an EventSubWebSocketClient together with webSocket
+     */
+    get eventsubWebSocketUrl(): string{
+        return `${this._baseUrl.replace(/^http/, "ws")}/ws`;
+    }
+
+    /**
+     * Opens in-process connections to the fake EventSub WebSocket server, to be passed as options.webSocket of an EventSubWebSocketClient.
+     * The keepalive_timeout_seconds query parameter is honored without the limits of Twitch, so tests can use short timeouts.
+     */
+    public readonly webSocket: EventSubWebSocketFactory = (url)=> this.connectWebSocket(url);
+
+    /**
+     * Adds a user and its channel
+     * @param user Information about the user
+     * @param user.login The login name of the user
+     * @param [user.displayName] The display name of the user. Defaults to the login name.
+     * @param [user.broadcasterType] The broadcaster type of the user. Defaults to "" (normal broadcaster).
+     * @param [user.email] The email address of the user
+     * @returns The added user
+     */
+    public createUser(user: {login: string, displayName?: string, broadcasterType?: "partner" | "affiliate" | "", email?: string}): FakeUser{
+        const id = this.nextId();
+        const displayName = user.displayName ?? user.login;
+
+        this._users.set(id, {
+            id,
+            login: user.login,
+            display_name: displayName,
+            type: "",
+            broadcaster_type: user.broadcasterType ?? "",
+            description: "",
+            profile_image_url: `${this._baseUrl}/images/${id}/profile.png`,
+            offline_image_url: "",
+            view_count: 0,
+            email: user.email,
+            created_at: this.timestamp()
+        })
+
+        this._channels.set(id, {
+            broadcaster_id: id,
+            broadcaster_login: user.login,
+            broadcaster_name: displayName,
+            broadcaster_language: "en",
+            game_id: "",
+            game_name: "",
+            title: "",
+            delay: 0
+        })
+
+        return {id, login: user.login, displayName};
+    }
+
+    /**
+     * Issues a User Access Token and a refresh token for a user
+     * @param userId The ID of the user the token belongs to
+     * @param [scopes] The scopes of the token. If omitted, the token is allowed to call every endpoint.
+     */
+    public issueUserToken(userId: string, scopes?: string[]): FakeTokenPair{
+        this.requireUser(userId, "userId");
+
+        const token: FakeToken = {userId, scopes};
+        const refreshToken = `fake-refresh-token-${this.nextId()}`;
+
+        this._refreshTokens.set(refreshToken, token);
+        return {accessToken: this.issueAccessToken(token), refreshToken};
+    }
+
+    /**
+     * Issues an App Access Token, as if it was requested with the client credentials grant
+     */
+    public issueAppToken(): string{
+        return this.issueAccessToken({});
+    }
+
+    /**
+     * Invalidates an access token, e.g. to simulate its expiration. Requests with the token are answered with 401 "Invalid OAuth token".
+     * @param accessToken The token to invalidate
+     */
+    public invalidateToken(accessToken: string){
+        this._accessTokens.delete(accessToken);
+    }
+
+    /**
+     * Lets a user approve an authorization request, as if they clicked "Authorize" on the page of the authorize URL
+     * @param authorizeUrl The authorize URL of the Authorization Code flow
+     * @param userId The ID of the user that approves the request
+     * @returns The URL the browser is redirected to, which contains the authorization code and the state
+     */
+    public approveAuthorization(authorizeUrl: string, userId: string): string{
+        const parameters = new URL(authorizeUrl).searchParams;
+        this.requireUser(userId, "userId");
+
+        if(parameters.get("client_id") !== this._clientId || parameters.get("response_type") !== "code")
+            throw new FakeHelixError(400, "Invalid authorization request");
+
+        const redirectUri = parameters.get("redirect_uri") ?? "";
+        const scopes = (parameters.get("scope") ?? "").split(" ").filter((scope)=> scope.length > 0);
+        const code = `fake-authorization-code-${this.nextId()}`;
+
+        this._authorizationCodes.set(code, {userId, scopes, redirectUri});
+
+        const redirect = new URL(redirectUri);
+        redirect.searchParams.set("code", code);
+        redirect.searchParams.set("scope", scopes.join(" "));
+        redirect.searchParams.set("state", parameters.get("state") ?? "");
+        return redirect.toString();
+    }
+
+    /**
+     * Lets a user deny an authorization request, as if they clicked "Cancel" on the page of the authorize URL
+     * @param authorizeUrl The authorize URL of the Authorization Code flow
+     * @returns The URL the browser is redirected to, which contains the error and the state
+     */
+    public denyAuthorization(authorizeUrl: string): string{
+        const parameters = new URL(authorizeUrl).searchParams;
+
+        const redirect = new URL(parameters.get("redirect_uri") ?? "");
+        redirect.searchParams.set("error", "access_denied");
+        redirect.searchParams.set("error_description", "The user denied you access");
+        redirect.searchParams.set("state", parameters.get("state") ?? "");
+        return redirect.toString();
+    }
+
+    /**
+     * Lets a user approve a device authorization, as if they entered the user code on the page of the verification URI
+     * @param userCode The user code of the Device Code Grant flow
+     * @param userId The ID of the user that approves the request
+     */
+    public approveDevice(userCode: string, userId: string){
+        this.requireUser(userId, "userId");
+
+        const device = [...this._deviceCodes.values()].find((device)=> device.userCode === userCode);
+        if(isUndefined(device))
+            throw new FakeHelixError(400, "Invalid user code");
+
+        device!.userId = userId;
+    }
+
+    /**
+     * Lets a viewer redeem a custom reward, which the Helix API offers no endpoint for
+     * @param broadcasterId The ID of the broadcaster that owns the reward
+     * @param rewardId The ID of the reward to redeem
+     * @param userId The ID of the redeeming user
+     * @param [userInput] The text the user entered
+     * @returns The ID of the redemption
+     */
+    public redeemCustomReward(broadcasterId: string, rewardId: string, userId: string, userInput?: string): string{
+        const reward = this._rewards.get(rewardId);
+        if(isUndefined(reward) || reward!.broadcaster_id !== broadcasterId)
+            throw new FakeHelixError(404, "Custom reward not found");
+
+        const user = this.requireUser(userId, "userId");
+        const id = this.nextId();
+
+        reward!.redemptions_redeemed_current_stream += 1;
+
+        this._redemptions.set(id, {
+            broadcaster_id: reward!.broadcaster_id,
+            broadcaster_login: reward!.broadcaster_login,
+            broadcaster_name: reward!.broadcaster_name,
+            id,
+            user_id: user.id,
+            user_login: user.login,
+            user_name: user.display_name,
+            user_input: userInput ?? "",
+            status: reward!.should_redemptions_skip_request_queue ? "FULFILLED" : "UNFULFILLED",
+            redeemed_at: this.timestamp(),
+            reward: {id: reward!.id, title: reward!.title, prompt: reward!.prompt, cost: reward!.cost}
+        })
+
+        return id;
+    }
+
+    /**
+     * Publishes an event to all enabled subscriptions of the type whose condition matches
+     * @param type The subscription type, e.g. "channel.raid"
+     * @param condition The condition fields of the event, e.g. {to_broadcaster_user_id: "1"}. A subscription matches if all of its condition fields are equal.
+     * @param event The event data, as Twitch sends it
+     * @param [options] Additional options
+     * @param [options.deliveries] The number of times the notification is sent with the same message ID, as Twitch may deliver a notification more than once. Defaults to 1.
+     * @returns The number of notified subscriptions
+     */
+    public publishEvent(type: string, condition: Record<string, string>, event: HelixObject, options?: {deliveries?: number}): number{
+        const subscriptions = [...this._subscriptions.values()].filter((subscription)=>
+            subscription.type === type && subscription.status === "enabled" && Object.entries(subscription.condition).every(([field, value])=> condition[field] === value));
+
+        for(const subscription of subscriptions){
+            const message = this.eventsubMessage("notification", {subscription, event}, subscription);
+
+            for(let delivery = 0; delivery < (options?.deliveries ?? 1); delivery++)
+                this.sendToSession(subscription, message);
+        }
+
+        return subscriptions.length;
+    }
+
+    /**
+     * Revokes a subscription, as Twitch does when the user revokes the authorization or is banned
+     * @param subscriptionId The ID of the subscription
+     * @param [status] The reason of the revocation. Defaults to "authorization_revoked".
+     */
+    public revokeSubscription(subscriptionId: string, status = "authorization_revoked"){
+        const subscription = this._subscriptions.get(subscriptionId);
+        if(isUndefined(subscription))
+            throw new FakeHelixError(404, "Subscription not found");
+
+        subscription!.status = status;
+        this.sendToSession(subscription!, this.eventsubMessage("revocation", {subscription}, subscription));
+        this._subscriptions.delete(subscriptionId);
+        this._subscriptionOwners.delete(subscriptionId);
+    }
+
+    /**
+     * Changes the status of a subscription, e.g. to simulate a failed webhook callback verification
+     * @param subscriptionId The ID of the subscription
+     * @param status The new status, e.g. "webhook_callback_verification_failed" or "enabled"
+     */
+    public setSubscriptionStatus(subscriptionId: string, status: string){
+        const subscription = this._subscriptions.get(subscriptionId);
+        if(isUndefined(subscription))
+            throw new FakeHelixError(404, "Subscription not found");
+
+        subscription!.status = status;
+    }
+
+    /**
+     * Asks all WebSocket sessions to move to a new connection, as Twitch does before a server is restarted
+     */
+    public reconnectWebSockets(){
+        for(const session of this._sessions.values())
+            session.socket.send(this.eventsubMessage("session_reconnect", {session: {...this.sessionPayload(session), status: "reconnecting", reconnect_url: `${this.eventsubWebSocketUrl}?reconnect=${session.id}`}}));
+    }
+
+    /**
+     * Stops sending keepalive messages and notifications to all WebSocket sessions, as if the network connection silently broke
+     */
+    public stallWebSockets(){
+        for(const session of this._sessions.values()){
+            session.stalled = true;
+            clearInterval(session.keepaliveInterval);
+        }
+    }
+
+    /**
+     * Serves the fake over HTTP, e.g. for clients that run in a different process
+     * @param [port] The port to listen on. Defaults to a random free port.
+     * @returns The URLs of the fake hosts and a function that stops the server
+     */
+    public listen(port = 0): Promise<FakeHelixServer>{
+        const server = http.createServer((incoming, outgoing)=>{
+            const chunks: Buffer[] = [];
+
+            incoming.on("data", (chunk: Buffer)=> chunks.push(chunk));
+            incoming.on("end", async ()=>{
+                const headers: Record<string, string> = {};
+                for(const [name, value] of Object.entries(incoming.headers))
+                    headers[name] = String(value);
+
+                const rawBody = Buffer.concat(chunks).toString();
+                let body: unknown = undefined;
+                try{
+                    body = rawBody.length === 0 ? undefined : JSON.parse(rawBody);
+                }catch(err: unknown){
+                    body = rawBody;
+                }
+
+                try{
+                    const response = await this.handle({method: incoming.method as HttpMethod, url: incoming.url ?? "/", headers, body});
+
+                    outgoing.writeHead(response.status, response.headers);
+                    outgoing.end(isDefined(response.data) ? JSON.stringify(response.data) : undefined);
+                }catch(err: unknown){
+                    //Failures of the fake itself, e.g. a malformed URL, are answered like an internal error of Helix
+                    outgoing.writeHead(500, {"content-type": "application/json"});
+                    outgoing.end(JSON.stringify({error: http.STATUS_CODES[500], status: 500, message: err instanceof Error ? err.message : String(err)}));
+                }
+            })
+        })
+
+        return new Promise((resolve)=>{
+            server.listen(port, "127.0.0.1", ()=>{
+                const address = server.address() as {port: number};
+                const origin = `http://127.0.0.1:${address.port}`;
+
+                resolve({
+                    helixBaseUrl: `${origin}/helix`,
+                    oauthBaseUrl: `${origin}/oauth2`,
+                    close: ()=> new Promise((resolveClose)=> server.close(()=> resolveClose()))
+                })
+            })
+        })
+    }
+
+    //endregion
+
+    /**
+     * Answers a single request
+     * @param request The request to answer
+     * @private
+     */
+    private async handle(request: TransportRequest): Promise<TransportResponse>{
+        const url = new URL(request.url, this._baseUrl);
+        const route = this._routes[`${request.method} ${url.pathname.replace(/\/+$/, "")}`];
+
+        const headers: Record<string, string> = {};
+        for(const [name, value] of Object.entries(request.headers))
+            headers[name.toLowerCase()] = value;
+
+        try{
+            if(isUndefined(route))
+                throw new FakeHelixError(404, `No fake implementation of ${request.method} ${url.pathname}`);
+
+            const context: RouteContext = {query: url.searchParams, body: request.body ?? {}, headers, token: {}};
+
+            if(route.auth !== false)
+                context.token = this.authorize(headers, route.scopes);
+
+            const data = route.handler(context);
+
+            if(isUndefined(data))
+                return {status: 204, headers: {}, data: undefined};
+
+            return {status: 200, headers: {"content-type": "application/json"}, data};
+        }catch(err: unknown){
+            if(!(err instanceof FakeHelixError))
+                throw err;
+
+            return {
+                status: err.status,
+                headers: {"content-type": "application/json"},
+                data: {error: http.STATUS_CODES[err.status] ?? "Error", status: err.status, message: err.message}
+            };
+        }
+    }
+
+    /**
+     * Checks the Client-Id and Authorization headers and the scopes of the token
+     * @param headers The lower case headers of the request
+     * @param [scopes] The scopes of which the token needs at least one
+     * @private
+     */
+    private authorize(headers: Record<string, string>, scopes?: string[]): FakeToken{
+        const accessToken = headers["authorization"]?.replace(/^Bearer /i, "");
+        if(isUndefined(accessToken))
+            throw new FakeHelixError(401, "OAuth token is missing");
+
+        const token = this._accessTokens.get(accessToken!);
+        if(isUndefined(token))
+            throw new FakeHelixError(401, "Invalid OAuth token");
+
+        if(headers["client-id"] !== this._clientId)
+            throw new FakeHelixError(401, "Client ID and OAuth token do not match");
+
+        if(isDefined(scopes) && isDefined(token!.scopes) && !scopes!.some((scope)=> token!.scopes!.includes(scope)))
+            throw new FakeHelixError(401, `Missing scope: ${scopes![0]}`);
+
+        return token!;
+    }
+
+    //#region OAuth
+
+    private token(context: RouteContext): HelixObject{
+        const body = context.body;
+
+        if(body.client_id !== this._clientId)
+            throw new FakeHelixError(400, "invalid client");
+
+        if(body.grant_type === "client_credentials"){
+            if(body.client_secret !== this._clientSecret)
+                throw new FakeHelixError(403, "invalid client secret");
+
+            return {access_token: this.issueAppToken(), expires_in: 5011271, token_type: "bearer"};
+        }
+
+        if(body.grant_type === "refresh_token"){
+            const token = this._refreshTokens.get(body.refresh_token);
+            if(isUndefined(token))
+                throw new FakeHelixError(400, "Invalid refresh token");
+
+            return {
+                access_token: this.issueAccessToken(token!),
+                refresh_token: body.refresh_token,
+                expires_in: 14400,
+                scope: token!.scopes ?? [],
+                token_type: "bearer"
+            };
+        }
+
+        if(body.grant_type === "authorization_code"){
+            if(body.client_secret !== this._clientSecret)
+                throw new FakeHelixError(403, "invalid client secret");
+
+            const authorization = this._authorizationCodes.get(body.code);
+            if(isUndefined(authorization) || authorization!.redirectUri !== body.redirect_uri)
+                throw new FakeHelixError(400, "Invalid authorization code");
+
+            this._authorizationCodes.delete(body.code);
+
+            const pair = this.issueUserToken(authorization!.userId!, authorization!.scopes);
+            return {
+                access_token: pair.accessToken,
+                refresh_token: pair.refreshToken,
+                expires_in: 14400,
+                scope: authorization!.scopes ?? [],
+                token_type: "bearer"
+            };
+        }
+
+        if(body.grant_type === "urn:ietf:params:oauth:grant-type:device_code"){
+            const device = this._deviceCodes.get(body.device_code);
+            if(isUndefined(device))
+                throw new FakeHelixError(400, "invalid device code");
+
+            if(isUndefined(device!.userId))
+                throw new FakeHelixError(400, "authorization_pending");
+
+            this._deviceCodes.delete(body.device_code);
+
+            const pair = this.issueUserToken(device!.userId!, device!.scopes);
+            return {
+                access_token: pair.accessToken,
+                refresh_token: pair.refreshToken,
+                expires_in: 14400,
+                scope: device!.scopes ?? [],
+                token_type: "bearer"
+            };
+        }
+
+        throw new FakeHelixError(400, "unsupported grant type");
+    }
+
+    private validate(context: RouteContext): HelixObject{
+        const accessToken = context.headers["authorization"]?.replace(/^OAuth /i, "");
+        const token = isDefined(accessToken) ? this._accessTokens.get(accessToken!) : undefined;
+
+        if(isUndefined(token))
+            throw new FakeHelixError(401, "invalid access token");
+
+        if(isUndefined(token!.userId))
+            return {client_id: this._clientId, scopes: [], expires_in: 5011271};
+
+        return {
+            client_id: this._clientId,
+            login: this._users.get(token!.userId!)!.login,
+            user_id: token!.userId,
+            scopes: token!.scopes ?? [],
+            expires_in: 14400
+        };
+    }
+
+    private revoke(context: RouteContext): undefined{
+        if(context.body.client_id !== this._clientId)
+            throw new FakeHelixError(404, "client does not exist");
+
+        const token = this._accessTokens.get(context.body.token);
+        if(isUndefined(token))
+            throw new FakeHelixError(400, "Invalid token");
+
+        //Revoking an access token also revokes the refresh token of the same authorization
+        for(const [accessToken, other] of this._accessTokens)
+            if(other === token)
+                this._accessTokens.delete(accessToken);
+
+        for(const [refreshToken, other] of this._refreshTokens)
+            if(other === token)
+                this._refreshTokens.delete(refreshToken);
+
+        return undefined;
+    }
+
+    private device(context: RouteContext): HelixObject{
+        const body = context.body;
+
+        if(body.client_id !== this._clientId)
+            throw new FakeHelixError(400, "invalid client");
+
+        const deviceCode = `fake-device-code-${this.nextId()}`;
+        const userCode = `FAKE${this.nextId()}`;
+        const scopes = (body.scopes ?? "").split(" ").filter((scope: string)=> scope.length > 0);
+
+        this._deviceCodes.set(deviceCode, {scopes, userCode});
+
+        return {
+            device_code: deviceCode,
+            expires_in: 1800,
+            interval: this._deviceInterval,
+            user_code: userCode,
+            verification_uri: `${this._baseUrl}/activate?public=true&device-code=${userCode}`
+        };
+    }
+
+    //endregion
+
+    //#region Users and channels
+
+    private getUsers(context: RouteContext): HelixResponseBody{
+        const ids = context.query.getAll("id");
+        const logins = context.query.getAll("login");
+
+        if(ids.length === 0 && logins.length === 0){
+            if(isUndefined(context.token.userId))
+                throw new FakeHelixError(400, "The id or login query parameter is required when using an App Access Token");
+
+            return {data: [this._users.get(context.token.userId!)!]};
+        }
+
+        if(ids.length + logins.length > 100)
+            throw new FakeHelixError(400, "The total number of id and login query parameters may not exceed 100");
+
+        const users = [...this._users.values()].filter((user)=> ids.includes(user.id) || logins.includes(user.login));
+        return {data: users};
+    }
+
+    private updateUser(context: RouteContext): HelixResponseBody{
+        const user = this._users.get(this.requireUserToken(context))!;
+
+        if(context.query.has("description"))
+            user.description = context.query.get("description");
+
+        return {data: [user]};
+    }
+
+    private getChannels(context: RouteContext): HelixResponseBody{
+        const ids = this.requireParameters(context.query, "broadcaster_id");
+        return {data: ids.filter((id)=> this._channels.has(id)).map((id)=> this._channels.get(id)!)};
+    }
+
+    private modifyChannel(context: RouteContext): undefined{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const channel = this._channels.get(broadcasterId)!;
+        const body = context.body;
+
+        if(isDefined(body.title) && body.title.length === 0)
+            throw new FakeHelixError(400, "The title field may not contain an empty string");
+
+        if(isDefined(body.delay) && (body.delay < 0 || body.delay > 900))
+            throw new FakeHelixError(400, "The delay field must be between 0 and 900");
+
+        for(const field of ["game_id", "broadcaster_language", "title", "delay"])
+            if(isDefined(body[field]))
+                channel[field] = body[field];
+
+        return undefined;
+    }
+
+    //endregion
+
+    //#region Moderation
+
+    private getBannedUsers(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const userIds = context.query.getAll("user_id");
+
+        const bans = [...this.activeBans(broadcasterId).values()]
+            .filter((ban)=> userIds.length === 0 || userIds.includes(ban.user_id));
+
+        return this.paginate(bans, context.query);
+    }
+
+    private banUser(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireParameter(context.query, "broadcaster_id");
+        const moderator = this.requireModerator(context, broadcasterId, this.requireParameter(context.query, "moderator_id"));
+        const ban = context.body.data ?? {};
+
+        if(isUndefined(ban.user_id))
+            throw new FakeHelixError(400, "The user_id field is required");
+
+        const user = this.requireUser(ban.user_id, "user_id");
+
+        if(user.id === broadcasterId)
+            throw new FakeHelixError(400, "The user specified in the user_id field may not be banned");
+
+        if(this.activeBans(broadcasterId).has(user.id))
+            throw new FakeHelixError(400, "The user specified in the user_id field is already banned");
+
+        if(isDefined(ban.duration) && (ban.duration < 1 || ban.duration > 1209600))
+            throw new FakeHelixError(400, "The duration field must be between 1 and 1209600");
+
+        const createdAt = this._now();
+        const expiresAt = isDefined(ban.duration) ? new Date(createdAt.getTime() + ban.duration * 1000).toISOString() : "";
+
+        this.bansOf(broadcasterId).set(user.id, {
+            user_id: user.id,
+            user_login: user.login,
+            user_name: user.display_name,
+            expires_at: expiresAt,
+            created_at: createdAt.toISOString(),
+            reason: ban.reason ?? "",
+            moderator_id: moderator.id,
+            moderator_login: moderator.login,
+            moderator_name: moderator.display_name
+        })
+
+        return {
+            data: [{
+                broadcaster_id: broadcasterId,
+                moderator_id: moderator.id,
+                user_id: user.id,
+                created_at: createdAt.toISOString(),
+                end_time: expiresAt === "" ? null : expiresAt
+            }]
+        };
+    }
+
+    private unbanUser(context: RouteContext): undefined{
+        const broadcasterId = this.requireParameter(context.query, "broadcaster_id");
+        this.requireModerator(context, broadcasterId, this.requireParameter(context.query, "moderator_id"));
+        const userId = this.requireParameter(context.query, "user_id");
+
+        if(!this.activeBans(broadcasterId).has(userId))
+            throw new FakeHelixError(400, "The user specified in the user_id field is not banned");
+
+        this.bansOf(broadcasterId).delete(userId);
+        return undefined;
+    }
+
+    private getModerators(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        return this.paginate(this.userList(this.setOf(this._moderators, broadcasterId), context.query.getAll("user_id")), context.query);
+    }
+
+    private addModerator(context: RouteContext): undefined{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const user = this.requireUser(this.requireParameter(context.query, "user_id"), "user_id");
+
+        if(this.activeBans(broadcasterId).has(user.id))
+            throw new FakeHelixError(400, "The user in user_id is banned from the broadcaster's chat room");
+
+        if(this.setOf(this._moderators, broadcasterId).has(user.id))
+            throw new FakeHelixError(400, "The user in user_id is already a moderator in the broadcaster's chat room");
+
+        if(this.setOf(this._vips, broadcasterId).has(user.id))
+            throw new FakeHelixError(422, "The user in user_id is a VIP. To make them a moderator, you must first remove them as a VIP");
+
+        this.setOf(this._moderators, broadcasterId).add(user.id);
+        return undefined;
+    }
+
+    private removeModerator(context: RouteContext): undefined{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const userId = this.requireParameter(context.query, "user_id");
+
+        if(!this.setOf(this._moderators, broadcasterId).delete(userId))
+            throw new FakeHelixError(400, "The user in user_id is not a moderator in the broadcaster's chat room");
+
+        return undefined;
+    }
+
+    private getVIPs(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        return this.paginate(this.userList(this.setOf(this._vips, broadcasterId), context.query.getAll("user_id")), context.query);
+    }
+
+    private addVIP(context: RouteContext): undefined{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const user = this.requireUser(this.requireParameter(context.query, "user_id"), "user_id");
+
+        if(this.setOf(this._moderators, broadcasterId).has(user.id))
+            throw new FakeHelixError(422, "The user in user_id is a moderator. To make them a VIP, you must first remove them as a moderator");
+
+        if(this.setOf(this._vips, broadcasterId).has(user.id))
+            throw new FakeHelixError(422, "The user in user_id is already a VIP");
+
+        this.setOf(this._vips, broadcasterId).add(user.id);
+        return undefined;
+    }
+
+    private removeVIP(context: RouteContext): undefined{
+        const broadcasterId = this.requireParameter(context.query, "broadcaster_id");
+        const userId = this.requireParameter(context.query, "user_id");
+
+        //The broadcaster may remove any VIP, a VIP may only remove their own VIP status
+        if(context.token.userId !== userId)
+            this.requireBroadcaster(context, broadcasterId);
+
+        if(!this.setOf(this._vips, broadcasterId).delete(userId))
+            throw new FakeHelixError(422, "The user in user_id is not a VIP in the broadcaster's channel");
+
+        return undefined;
+    }
+
+    //endregion
+
+    //#region Polls and predictions
+
+    private getPolls(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const ids = context.query.getAll("id");
+
+        const polls = [...this._polls.values()]
+            .filter((poll)=> poll.broadcaster_id === broadcasterId && (ids.length === 0 || ids.includes(poll.id)))
+            .map((poll)=> this.completeExpiredPoll(poll))
+            .reverse();
+
+        return this.paginate(polls, context.query);
+    }
+
+    private createPoll(context: RouteContext): HelixResponseBody{
+        const body = context.body;
+        const broadcasterId = this.requireBroadcaster(context, body.broadcaster_id);
+        const broadcaster = this._users.get(broadcasterId)!;
+
+        this.requireLength(body.title, "title", 1, 60);
+
+        if(!Array.isArray(body.choices) || body.choices.length < 2 || body.choices.length > 5)
+            throw new FakeHelixError(400, "The choices field must contain a minimum of 2 choices and a maximum of 5 choices");
+
+        for(const choice of body.choices)
+            this.requireLength(choice?.title, "choices.title", 1, 25);
+
+        if(typeof body.duration !== "number" || body.duration < 15 || body.duration > 1800)
+            throw new FakeHelixError(400, "The duration field must be between 15 and 1800");
+
+        const hasActivePoll = [...this._polls.values()].some((poll)=> poll.broadcaster_id === broadcasterId && this.completeExpiredPoll(poll).status === "ACTIVE");
+        if(hasActivePoll)
+            throw new FakeHelixError(400, "The broadcaster already has an active poll");
+
+        const poll: HelixObject = {
+            id: this.nextId(),
+            broadcaster_id: broadcasterId,
+            broadcaster_name: broadcaster.display_name,
+            broadcaster_login: broadcaster.login,
+            title: body.title,
+            choices: body.choices.map((choice: HelixObject)=> ({id: this.nextId(), title: choice.title, votes: 0, channel_points_votes: 0, bits_votes: 0})),
+            bits_voting_enabled: false,
+            bits_per_vote: 0,
+            channel_points_voting_enabled: body.channel_points_voting_enabled ?? false,
+            channel_points_per_vote: body.channel_points_per_vote ?? 0,
+            status: "ACTIVE",
+            duration: body.duration,
+            started_at: this.timestamp(),
+            ended_at: null
+        };
+
+        this._polls.set(poll.id, poll);
+        return {data: [poll]};
+    }
+
+    private endPoll(context: RouteContext): HelixResponseBody{
+        const body = context.body;
+        const broadcasterId = this.requireBroadcaster(context, body.broadcaster_id);
+        const poll = this._polls.get(body.id);
+
+        if(isUndefined(poll) || poll!.broadcaster_id !== broadcasterId)
+            throw new FakeHelixError(404, "The poll was not found");
+
+        if(body.status !== "TERMINATED" && body.status !== "ARCHIVED")
+            throw new FakeHelixError(400, "The status field must be TERMINATED or ARCHIVED");
+
+        if(this.completeExpiredPoll(poll!).status !== "ACTIVE" && body.status === "TERMINATED")
+            throw new FakeHelixError(400, "The poll is not active");
+
+        poll!.status = body.status;
+        poll!.ended_at = poll!.ended_at ?? this.timestamp();
+
+        return {data: [poll!]};
+    }
+
+    private getPredictions(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const ids = context.query.getAll("id");
+
+        const predictions = [...this._predictions.values()]
+            .filter((prediction)=> prediction.broadcaster_id === broadcasterId && (ids.length === 0 || ids.includes(prediction.id)))
+            .reverse();
+
+        return this.paginate(predictions, context.query);
+    }
+
+    private createPrediction(context: RouteContext): HelixResponseBody{
+        const body = context.body;
+        const broadcasterId = this.requireBroadcaster(context, body.broadcaster_id);
+        const broadcaster = this._users.get(broadcasterId)!;
+
+        this.requireLength(body.title, "title", 1, 45);
+
+        if(!Array.isArray(body.outcomes) || body.outcomes.length < 2 || body.outcomes.length > 10)
+            throw new FakeHelixError(400, "The outcomes field must contain a minimum of 2 outcomes and a maximum of 10 outcomes");
+
+        for(const outcome of body.outcomes)
+            this.requireLength(outcome?.title, "outcomes.title", 1, 25);
+
+        if(typeof body.prediction_window !== "number" || body.prediction_window < 30 || body.prediction_window > 1800)
+            throw new FakeHelixError(400, "The prediction_window field must be between 30 and 1800");
+
+        const hasOpenPrediction = [...this._predictions.values()].some((prediction)=> prediction.broadcaster_id === broadcasterId && (prediction.status === "ACTIVE" || prediction.status === "LOCKED"));
+        if(hasOpenPrediction)
+            throw new FakeHelixError(400, "The broadcaster already has a prediction that is active or locked");
+
+        const prediction: HelixObject = {
+            id: this.nextId(),
+            broadcaster_id: broadcasterId,
+            broadcaster_name: broadcaster.display_name,
+            broadcaster_login: broadcaster.login,
+            title: body.title,
+            winning_outcome_id: null,
+            outcomes: body.outcomes.map((outcome: HelixObject, index: number)=> ({
+                id: this.nextId(),
+                title: outcome.title,
+                users: 0,
+                channel_points: 0,
+                top_predictors: null,
+                color: index === 0 ? "BLUE" : "PINK"
+            })),
+            prediction_window: body.prediction_window,
+            status: "ACTIVE",
+            created_at: this.timestamp(),
+            ended_at: null,
+            locked_at: null
+        };
+
+        this._predictions.set(prediction.id, prediction);
+        return {data: [prediction]};
+    }
+
+    private endPrediction(context: RouteContext): HelixResponseBody{
+        const body = context.body;
+        const broadcasterId = this.requireBroadcaster(context, body.broadcaster_id);
+        const prediction = this._predictions.get(body.id);
+
+        if(isUndefined(prediction) || prediction!.broadcaster_id !== broadcasterId)
+            throw new FakeHelixError(404, "The prediction was not found");
+
+        const isOpen = prediction!.status === "ACTIVE" || prediction!.status === "LOCKED";
+
+        switch(body.status){
+            case "LOCKED":
+                if(prediction!.status !== "ACTIVE")
+                    throw new FakeHelixError(400, "Only active predictions may be locked");
+
+                prediction!.locked_at = this.timestamp();
+                break;
+            case "RESOLVED":
+                if(!isOpen)
+                    throw new FakeHelixError(400, "Only active or locked predictions may be resolved");
+
+                if(!prediction!.outcomes.some((outcome: HelixObject)=> outcome.id === body.winning_outcome_id))
+                    throw new FakeHelixError(400, "The winning_outcome_id field must identify one of the prediction's outcomes");
+
+                prediction!.winning_outcome_id = body.winning_outcome_id;
+                prediction!.ended_at = this.timestamp();
+                break;
+            case "CANCELED":
+                if(!isOpen)
+                    throw new FakeHelixError(400, "Only active or locked predictions may be canceled");
+
+                prediction!.ended_at = this.timestamp();
+                break;
+            default:
+                throw new FakeHelixError(400, "The status field must be RESOLVED, CANCELED or LOCKED");
+        }
+
+        prediction!.status = body.status;
+        return {data: [prediction!]};
+    }
+
+    //endregion
+
+    //#region Channel points
+
+    private getCustomRewards(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const ids = context.query.getAll("id");
+
+        const rewards = [...this._rewards.values()]
+            .filter((reward)=> reward.broadcaster_id === broadcasterId && (ids.length === 0 || ids.includes(reward.id)));
+
+        if(ids.length > 0 && rewards.length === 0)
+            throw new FakeHelixError(404, "The custom reward was not found");
+
+        return {data: rewards};
+    }
+
+    private createCustomReward(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const broadcaster = this._users.get(broadcasterId)!;
+        const body = context.body;
+
+        this.requireLength(body.title, "title", 1, 45);
+
+        if(typeof body.cost !== "number" || body.cost < 1)
+            throw new FakeHelixError(400, "The cost field must be at least 1");
+
+        const rewards = [...this._rewards.values()].filter((reward)=> reward.broadcaster_id === broadcasterId);
+
+        if(rewards.some((reward)=> reward.title === body.title))
+            throw new FakeHelixError(400, "CREATE_CUSTOM_REWARD_DUPLICATE_REWARD");
+
+        if(rewards.length >= 50)
+            throw new FakeHelixError(400, "The broadcaster already has the maximum number of 50 custom rewards");
+
+        const reward: HelixObject = {
+            broadcaster_id: broadcasterId,
+            broadcaster_login: broadcaster.login,
+            broadcaster_name: broadcaster.display_name,
+            id: this.nextId(),
+            title: "",
+            prompt: "",
+            cost: 0,
+            image: null,
+            default_image: {
+                url_1x: `${this._baseUrl}/images/default-reward/1.png`,
+                url_2x: `${this._baseUrl}/images/default-reward/2.png`,
+                url_4x: `${this._baseUrl}/images/default-reward/4.png`
+            },
+            background_color: "#9147FF",
+            is_enabled: true,
+            is_user_input_required: false,
+            max_per_stream_setting: {is_enabled: false, max_per_stream: 0},
+            max_per_user_per_stream_setting: {is_enabled: false, max_per_user_per_stream: 0},
+            global_cooldown_setting: {is_enabled: false, global_cooldown_seconds: 0},
+            is_paused: false,
+            is_in_stock: true,
+            should_redemptions_skip_request_queue: false,
+            redemptions_redeemed_current_stream: 0,
+            cooldown_expires_at: null
+        };
+
+        this.applyRewardFields(reward, body);
+        this._rewards.set(reward.id, reward);
+
+        return {data: [reward]};
+    }
+
+    private updateCustomReward(context: RouteContext): HelixResponseBody{
+        const reward = this.requireReward(context);
+
+        if(isDefined(context.body.title)){
+            this.requireLength(context.body.title, "title", 1, 45);
+
+            if([...this._rewards.values()].some((other)=> other !== reward && other.broadcaster_id === reward.broadcaster_id && other.title === context.body.title))
+                throw new FakeHelixError(400, "CREATE_CUSTOM_REWARD_DUPLICATE_REWARD");
+        }
+
+        this.applyRewardFields(reward, context.body);
+        return {data: [reward]};
+    }
+
+    private deleteCustomReward(context: RouteContext): undefined{
+        const reward = this.requireReward(context);
+
+        this._rewards.delete(reward.id);
+        for(const redemption of [...this._redemptions.values()])
+            if(redemption.reward.id === reward.id)
+                this._redemptions.delete(redemption.id);
+
+        return undefined;
+    }
+
+    private getRedemptions(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const rewardId = this.requireParameter(context.query, "reward_id");
+        const ids = context.query.getAll("id");
+        const status = context.query.get("status");
+
+        if(ids.length === 0 && status === null)
+            throw new FakeHelixError(400, "The status query parameter is required if no id is specified");
+
+        const redemptions = [...this._redemptions.values()]
+            .filter((redemption)=> redemption.broadcaster_id === broadcasterId && redemption.reward.id === rewardId)
+            .filter((redemption)=> ids.length > 0 ? ids.includes(redemption.id) : redemption.status === status);
+
+        if(context.query.get("sort") === "NEWEST")
+            redemptions.reverse();
+
+        return this.paginate(redemptions, context.query);
+    }
+
+    private updateRedemptions(context: RouteContext): HelixResponseBody{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const rewardId = this.requireParameter(context.query, "reward_id");
+        const ids = this.requireParameters(context.query, "id");
+
+        if(context.body.status !== "FULFILLED" && context.body.status !== "CANCELED")
+            throw new FakeHelixError(400, "The status field must be FULFILLED or CANCELED");
+
+        const redemptions = ids
+            .map((id)=> this._redemptions.get(id))
+            .filter((redemption)=> isDefined(redemption) && redemption!.broadcaster_id === broadcasterId && redemption!.reward.id === rewardId && redemption!.status === "UNFULFILLED") as HelixObject[];
+
+        if(redemptions.length === 0)
+            throw new FakeHelixError(404, "No unfulfilled redemptions with the specified IDs were found");
+
+        for(const redemption of redemptions)
+            redemption.status = context.body.status;
+
+        return {data: redemptions};
+    }
+
+    /**
+     * Copies the updatable fields of a create or update custom reward request body onto the reward
+     * @param reward The reward to update
+     * @param body The request body
+     * @private
+     */
+    private applyRewardFields(reward: HelixObject, body: HelixObject){
+        if(isDefined(body.background_color) && !/^#[0-9a-f]{6}$/i.test(body.background_color))
+            throw new FakeHelixError(400, "The background_color field must be a hex color like #9147FF");
+
+        for(const field of ["title", "prompt", "cost", "background_color", "is_enabled", "is_user_input_required", "is_paused", "should_redemptions_skip_request_queue"])
+            if(isDefined(body[field]))
+                reward[field] = body[field];
+
+        if(isDefined(body.is_max_per_stream_enabled))
+            reward.max_per_stream_setting.is_enabled = body.is_max_per_stream_enabled;
+        if(isDefined(body.max_per_stream))
+            reward.max_per_stream_setting.max_per_stream = body.max_per_stream;
+
+        if(isDefined(body.is_max_per_user_per_stream_enabled))
+            reward.max_per_user_per_stream_setting.is_enabled = body.is_max_per_user_per_stream_enabled;
+        if(isDefined(body.max_per_user_per_stream))
+            reward.max_per_user_per_stream_setting.max_per_user_per_stream = body.max_per_user_per_stream;
+
+        if(isDefined(body.is_global_cooldown_enabled))
+            reward.global_cooldown_setting.is_enabled = body.is_global_cooldown_enabled;
+        if(isDefined(body.global_cooldown_seconds))
+            reward.global_cooldown_setting.global_cooldown_seconds = body.global_cooldown_seconds;
+    }
+
+    /**
+     * Gets the reward identified by the broadcaster_id and id query parameters
+     * @param context The context of the request
+     * @private
+     */
+    private requireReward(context: RouteContext): HelixObject{
+        const broadcasterId = this.requireBroadcaster(context, this.requireParameter(context.query, "broadcaster_id"));
+        const reward = this._rewards.get(this.requireParameter(context.query, "id"));
+
+        if(isUndefined(reward) || reward!.broadcaster_id !== broadcasterId)
+            throw new FakeHelixError(404, "The custom reward was not found");
+
+        return reward!;
+    }
+
+    //endregion
+
+    //#region EventSub
+
+    private createSubscription(context: RouteContext): HelixObject{
+        const body = context.body;
+        const transport = body.transport ?? {};
+        const userId = context.token.userId;
+
+        this.requireLength(body.type, "type", 1, 100);
+        this.requireLength(body.version, "version", 1, 10);
+
+        if(typeof body.condition !== "object" || body.condition === null)
+            throw new FakeHelixError(400, "The condition field is required");
+
+        let subscriptionTransport: HelixObject;
+        if(transport.method === "websocket"){
+            this.requireUserToken(context);
+
+            const session = this._sessions.get(transport.session_id);
+            if(isUndefined(session))
+                throw new FakeHelixError(400, "websocket transport session does not exist or has already disconnected");
+
+            subscriptionTransport = {method: "websocket", session_id: session!.id, connected_at: session!.connectedAt};
+        }else if(transport.method === "webhook"){
+            if(isDefined(userId))
+                throw new FakeHelixError(401, "The access token must be an app access token");
+
+            if(typeof transport.callback !== "string" || !transport.callback.startsWith("https://"))
+                throw new FakeHelixError(400, "The callback must use HTTPS on port 443");
+
+            this.requireLength(transport.secret, "secret", 10, 100);
+            subscriptionTransport = {method: "webhook", callback: transport.callback};
+        }else{
+            throw new FakeHelixError(400, "The transport method must be webhook or websocket");
+        }
+
+        const visible = this.visibleSubscriptions(context);
+        const conditionKey = JSON.stringify(body.condition);
+        if(visible.some((subscription)=> subscription.type === body.type && JSON.stringify(subscription.condition) === conditionKey && subscription.transport.session_id === subscriptionTransport.session_id && subscription.transport.callback === subscriptionTransport.callback))
+            throw new FakeHelixError(409, "subscription already exists");
+
+        //Subscriptions of users that authorized the application are free
+        const cost = isDefined(userId) && Object.values(body.condition).includes(userId) ? 0 : 1;
+        const totalCost = visible.reduce((sum, subscription)=> sum + subscription.cost, 0);
+        if(totalCost + cost > this._eventsubMaxTotalCost)
+            throw new FakeHelixError(429, "The sum of all subscription costs exceeds the maximum total cost");
+
+        const subscription = {
+            id: `fake-subscription-${this.nextId()}`,
+            status: transport.method === "websocket" ? "enabled" : "webhook_callback_verification_pending",
+            type: body.type,
+            version: body.version,
+            condition: body.condition,
+            created_at: this.timestamp(),
+            transport: subscriptionTransport,
+            cost
+        };
+        this._subscriptions.set(subscription.id, subscription);
+        if(isDefined(userId))
+            this._subscriptionOwners.set(subscription.id, userId!);
+
+        return {data: [subscription], total: visible.length + 1, total_cost: totalCost + cost, max_total_cost: this._eventsubMaxTotalCost};
+    }
+
+    private getSubscriptions(context: RouteContext): HelixObject{
+        const status = context.query.get("status");
+        const type = context.query.get("type");
+        const userId = context.query.get("user_id");
+
+        const visible = this.visibleSubscriptions(context);
+        const subscriptions = visible
+            .filter((subscription)=> status === null || subscription.status === status)
+            .filter((subscription)=> type === null || subscription.type === type)
+            .filter((subscription)=> userId === null || Object.values(subscription.condition).includes(userId));
+
+        return {
+            data: subscriptions,
+            total: visible.length,
+            total_cost: visible.reduce((sum, subscription)=> sum + subscription.cost, 0),
+            max_total_cost: this._eventsubMaxTotalCost,
+            pagination: {}
+        };
+    }
+
+    private deleteSubscription(context: RouteContext): undefined{
+        const id = this.requireParameter(context.query, "id");
+
+        if(!this.visibleSubscriptions(context).some((subscription)=> subscription.id === id))
+            throw new FakeHelixError(404, "Subscription not found");
+
+        this._subscriptions.delete(id);
+        this._subscriptionOwners.delete(id);
+        return undefined;
+    }
+
+    /**
+     * Gets the subscriptions the token may see: Webhook subscriptions for App Access Tokens, the WebSocket subscriptions of the user for User Access Tokens
+     * @private
+     */
+    private visibleSubscriptions(context: RouteContext): HelixObject[]{
+        const userId = context.token.userId;
+
+        return [...this._subscriptions.values()].filter((subscription)=> isUndefined(userId)
+            ? subscription.transport.method === "webhook"
+            : subscription.transport.method === "websocket" && this._subscriptionOwners.get(subscription.id) === userId);
+    }
+
+    private connectWebSocket(url: string): EventSubWebSocket{
+        const parameters = new URL(url).searchParams;
+        const socket = new FakeEventSubSocket((closed)=> this.webSocketClosed(closed));
+
+        //Connections to a reconnect URL take over the session, so its subscriptions keep working
+        const reconnectedSession = this._sessions.get(parameters.get("reconnect") ?? "");
+        if(isDefined(reconnectedSession)){
+            reconnectedSession!.socket = socket;
+            socket.send(this.eventsubMessage("session_welcome", {session: this.sessionPayload(reconnectedSession!)}));
+            return socket;
+        }
+
+        const session: FakeSession = {
+            id: `fake-session-${this.nextId()}`,
+            socket,
+            keepaliveTimeoutSeconds: parseFloat(parameters.get("keepalive_timeout_seconds") ?? "10"),
+            connectedAt: this.timestamp(),
+            stalled: false
+        };
+        session.keepaliveInterval = setInterval(()=> session.socket.send(this.eventsubMessage("session_keepalive", {})), session.keepaliveTimeoutSeconds * 1000);
+
+        this._sessions.set(session.id, session);
+        socket.send(this.eventsubMessage("session_welcome", {session: this.sessionPayload(session)}));
+        return socket;
+    }
+
+    /**
+     * Ends the session of a closed connection and disables its subscriptions
+     * @private
+     */
+    private webSocketClosed(socket: FakeEventSubSocket){
+        for(const session of [...this._sessions.values()]){
+            if(session.socket !== socket)
+                continue;
+
+            clearInterval(session.keepaliveInterval);
+            this._sessions.delete(session.id);
+
+            for(const subscription of this._subscriptions.values())
+                if(subscription.transport.session_id === session.id){
+                    subscription.status = "websocket_disconnected";
+                    subscription.transport.disconnected_at = this.timestamp();
+                }
+        }
+    }
+
+    private sendToSession(subscription: HelixObject, message: HelixObject){
+        if(subscription.transport.method !== "websocket")
+            return;
+
+        const session = this._sessions.get(subscription.transport.session_id);
+        if(isUndefined(session) || session!.stalled)
+            return;
+
+        session!.socket.send(message);
+    }
+
+    private sessionPayload(session: FakeSession): HelixObject{
+        return {id: session.id, status: "connected", keepalive_timeout_seconds: session.keepaliveTimeoutSeconds, reconnect_url: null, connected_at: session.connectedAt};
+    }
+
+    private eventsubMessage(messageType: string, payload: HelixObject, subscription?: HelixObject): HelixObject{
+        const metadata: HelixObject = {message_id: `fake-message-${this.nextId()}`, message_type: messageType, message_timestamp: this.timestamp()};
+
+        if(isDefined(subscription)){
+            metadata.subscription_type = subscription!.type;
+            metadata.subscription_version = subscription!.version;
+        }
+
+        return {metadata, payload};
+    }
+
+    //endregion
+
+    //#region Helpers
+
+    private nextId(): string{
+        return String(this._nextId++);
+    }
+
+    private timestamp(): string{
+        return this._now().toISOString();
+    }
+
+    private issueAccessToken(token: FakeToken): string{
+        const accessToken = `fake-access-token-${this.nextId()}`;
+        this._accessTokens.set(accessToken, token);
+        return accessToken;
+    }
+
+    private requireParameter(query: URLSearchParams, name: string): string{
+        const value = query.get(name);
+        if(value === null || value.length === 0)
+            throw new FakeHelixError(400, `Missing required parameter "${name}"`);
+
+        return value;
+    }
+
+    private requireParameters(query: URLSearchParams, name: string): string[]{
+        this.requireParameter(query, name);
+        return query.getAll(name);
+    }
+
+    private requireLength(value: unknown, name: string, min: number, max: number){
+        if(typeof value !== "string" || value.length < min || value.length > max)
+            throw new FakeHelixError(400, `The ${name} field must contain between ${min} and ${max} characters`);
+    }
+
+    private requireUser(userId: string, name: string): HelixObject{
+        const user = this._users.get(userId);
+        if(isUndefined(user))
+            throw new FakeHelixError(400, `The user in ${name} was not found`);
+
+        return user!;
+    }
+
+    private requireUserToken(context: RouteContext): string{
+        if(isUndefined(context.token.userId))
+            throw new FakeHelixError(401, "Missing User OAUTH Token");
+
+        return context.token.userId!;
+    }
+
+    /**
+     * Checks that the broadcaster is the user of the User Access Token
+     * @private
+     */
+    private requireBroadcaster(context: RouteContext, broadcasterId: string): string{
+        if(this.requireUserToken(context) !== broadcasterId)
+            throw new FakeHelixError(401, "The ID in broadcaster_id must match the user ID found in the request's OAuth token");
+
+        return broadcasterId;
+    }
+
+    /**
+     * Checks that the moderator is the user of the User Access Token and either the broadcaster or one of its moderators
+     * @private
+     */
+    private requireModerator(context: RouteContext, broadcasterId: string, moderatorId: string): HelixObject{
+        if(this.requireUserToken(context) !== moderatorId)
+            throw new FakeHelixError(401, "The ID in moderator_id must match the user ID found in the request's OAuth token");
+
+        if(moderatorId !== broadcasterId && !this.setOf(this._moderators, broadcasterId).has(moderatorId))
+            throw new FakeHelixError(403, "The user in moderator_id is not one of the broadcaster's moderators");
+
+        return this._users.get(moderatorId)!;
+    }
+
+    private setOf(sets: Map<string, Set<string>>, broadcasterId: string): Set<string>{
+        if(!sets.has(broadcasterId))
+            sets.set(broadcasterId, new Set());
+
+        return sets.get(broadcasterId)!;
+    }
+
+    private bansOf(broadcasterId: string): Map<string, HelixObject>{
+        if(!this._bans.has(broadcasterId))
+            this._bans.set(broadcasterId, new Map());
+
+        return this._bans.get(broadcasterId)!;
+    }
+
+    /**
+     * Gets the bans of the broadcaster after removing all timeouts that ran out
+     * @private
+     */
+    private activeBans(broadcasterId: string): Map<string, HelixObject>{
+        const bans = this.bansOf(broadcasterId);
+
+        for(const [userId, ban] of [...bans.entries()])
+            if(ban.expires_at !== "" && new Date(ban.expires_at) <= this._now())
+                bans.delete(userId);
+
+        return bans;
+    }
+
+    /**
+     * Completes the poll if its duration ran out
+     * @private
+     */
+    private completeExpiredPoll(poll: HelixObject): HelixObject{
+        const endsAt = new Date(poll.started_at).getTime() + poll.duration * 1000;
+
+        if(poll.status === "ACTIVE" && endsAt <= this._now().getTime()){
+            poll.status = "COMPLETED";
+            poll.ended_at = new Date(endsAt).toISOString();
+        }
+
+        return poll;
+    }
+
+    private userList(userIds: Set<string>, filter: string[]): HelixObject[]{
+        return [...userIds]
+            .filter((userId)=> filter.length === 0 || filter.includes(userId))
+            .map((userId)=> this._users.get(userId)!)
+            .map((user)=> ({user_id: user.id, user_login: user.login, user_name: user.display_name}));
+    }
+
+    /**
+     * Pages through a list with the first and after query parameters. The cursor is the offset of the next page.
+     * @private
+     */
+    private paginate(items: HelixObject[], query: URLSearchParams): HelixResponseBody{
+        const first = parseInt(query.get("first") ?? "20");
+        const offset = parseInt(query.get("after") ?? "0");
+
+        if(isNaN(first) || first < 1 || first > 100)
+            throw new FakeHelixError(400, "The first query parameter must be between 1 and 100");
+
+        if(isNaN(offset) || offset < 0)
+            throw new FakeHelixError(400, "The after query parameter is not a valid cursor");
+
+        const next = offset + first;
+        return {
+            data: items.slice(offset, next),
+            pagination: next < items.length ? {cursor: String(next)} : {}
+        };
+    }
+
+    //endregion
+}
+
+/**
+ * Error response of the fake, which is sent as {error, status, message} like Helix does
+ */
+/**
+ * In-process connection to the fake EventSub WebSocket server. Messages are delivered asynchronously and in order, like over a network.
+ */
+class FakeEventSubSocket implements EventSubWebSocket{
+    public onmessage: ((event: {data: any}) => void) | null = null;
+    public onclose: ((event: {code: number, reason: string}) => void) | null = null;
+    public onerror: ((event: any) => void) | null = null;
+
+    private readonly _onClosed: (socket: FakeEventSubSocket) => void;
+    private _closed = false;
+
+    constructor(onClosed: (socket: FakeEventSubSocket) => void){
+        this._onClosed = onClosed;
+    }
+
+    public send(message: unknown){
+        if(this._closed)
+            return;
+
+        const data = JSON.stringify(message);
+        setImmediate(()=> this.onmessage?.({data}));
+    }
+
+    public close(code = 1000, reason = ""){
+        if(this._closed)
+            return;
+
+        this._closed = true;
+        this._onClosed(this);
+        setImmediate(()=> this.onclose?.({code, reason}));
+    }
+}
+
+class FakeHelixError extends Error{
+    private readonly _status: number;
+
+    constructor(status: number, message: string){
+        super(message);
+        this._status = status;
+    }
+
+    get status(): number{
+        return this._status;
+    }
+}
+
+export type FakeUser = {
+    /**
+     * The ID of the user
+     */
+    id: string,
+
+    /**
+     * The login name of the user
+     */
+    login: string,
+
+    /**
+     * The display name of the user
+     */
+    displayName: string
+}
+
+export type FakeTokenPair = {
+    /**
+     * The User Access Token
+     */
+    accessToken: string,
+
+    /**
+     * The refresh token, which the fake OAuth API exchanges for new User Access Tokens
+     */
+    refreshToken: string
+}
+
+export type FakeHelixServer = {
+    /**
+     * The base URL of the served Helix API
+     */
+    helixBaseUrl: string,
+
+    /**
+     * The base URL of the served OAuth API
+     */
+    oauthBaseUrl: string,
+
+    /**
+     * Stops the server
+     */
+    close: () => Promise<void>
+}
+
+type HelixObject = Record<string, any>;
+type HelixResponseBody = {data: HelixObject[], pagination?: {cursor?: string}};
+
+type FakeToken = {
+    userId?: string,
+    scopes?: string[]
+}
+
+type FakeSession = {
+    id: string,
+    socket: FakeEventSubSocket,
+    keepaliveTimeoutSeconds: number,
+    keepaliveInterval?: NodeJS.Timer,
+    connectedAt: string,
+    stalled: boolean
+}
+
+type RouteContext = {
+    query: URLSearchParams,
+    body: HelixObject,
+    headers: Record<string, string>,
+    token: FakeToken
+}
+
+type Route = {
+    auth?: false,
+    scopes?: string[],
+    handler: (context: RouteContext) => HelixResponseBody | HelixObject | undefined
+}
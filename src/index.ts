@@ -1,5 +1,25 @@
 export * from "./twitch-ts"
 export * from "./token-handler"
+export * from "./request-handler"
+export * from "./rate-limit-bucket"
+export * from "./retry-policy"
+export * from "./transport"
+export * from "./paginator"
+export * from "./paginated-api"
+export * from "./exceptions"
 export * from "./utils"
-
-
+export * from "./fake-helix"
+export * from "./cassette"
+export * from "./response-schemas"
+export * from "./parameter-schemas"
+export * from "./clients"
+export * from "./authorization-code-flow"
+export * from "./scopes"
+export * from "./token-store"
+export * from "./user-token-manager"
+export * from "./eventsub"
+export * from "./eventsub-types"
+export * from "./eventsub-dedup-store"
+export * from "./eventsub-websocket"
+export * from "./eventsub-webhook"
+export * from "./eventsub-reconciler"
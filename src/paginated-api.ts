@@ -0,0 +1,334 @@
+import {Paginator, PaginationOptions} from "./paginator";
+import {
+    BannedUser,
+    BlockedTerm,
+    BroadcasterSubscription,
+    Category,
+    Channel,
+    CharityDonation,
+    Clip,
+    DropEntitlement,
+    EntitlementStatus,
+    ExtensionLiveChannel,
+    ExtensionTransaction,
+    FollowRelationship,
+    HypeTrainEvent,
+    Languages,
+    PlaylistTrack,
+    Poll,
+    Prediction,
+    SoundtrackPlaylist,
+    Stream,
+    StreamMarker,
+    StreamTag,
+    StreamTypes,
+    Subscription,
+    SubscriptionStatus,
+    SubscriptionType,
+    TransportMethod,
+    TwitchAPI,
+    User,
+    Video,
+    VideoPeriods,
+    VideoSorting,
+    VideoType
+} from "./twitch-ts";
+
+/**
+ * Async iterator versions of all cursor based TwitchAPI calls, available via apiClient.paginate
+ * @example
+ * for await (const ban of apiClient.paginate.getBannedUsers(broadcasterId, {pageSize: 50})){
+ *     ...
+ * }
+ */
+export class PaginatedTwitchAPI{
+
+    private readonly _api: TwitchAPI;
+
+    /**
+     * @param api The client whose calls are paginated
+     */
+    constructor(api: TwitchAPI){
+        this._api = api;
+    }
+
+    /**
+     * Lazily iterates over the transactions of getExtensionTransactions(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getExtensionTransactions(extensionId: string, options?: {transactionIds?: string[]} & PaginationOptions): Paginator<ExtensionTransaction>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.bits.getExtensionTransactions(extensionId, {...options, cursor, max});
+            return {items: result?.transactions ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the donations of getCharityCampaignDonations(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getCharityCampaignDonations(broadcasterId: string, options?: PaginationOptions): Paginator<CharityDonation>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.charity.getCharityCampaignDonations(broadcasterId, {...options, cursor, max});
+            return {items: result?.donations ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the clips of getClips(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getClips(identifiers: {broadcasterId?: string, categoryId?: string, clipIds?: string[]}, options?: {startedAt?: Date, endedAt?: Date} & PaginationOptions): Paginator<Clip>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.clips.getClips(identifiers, {...options, cursor, max});
+            return {items: result?.clips ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the entitlements of getDropEntitlements(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getDropEntitlements(identifiers?: {entitlementIds?: string[], granteeId?: string, categoryId?: string, fulfillmentStatus?: EntitlementStatus}, options?: PaginationOptions): Paginator<DropEntitlement>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.entitlements.getDropEntitlements(identifiers, {...options, cursor, max});
+            return {items: result?.entitlements ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the channels of getExtensionLiveChannels(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getExtensionLiveChannels(extensionId: string, options?: PaginationOptions): Paginator<ExtensionLiveChannel>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.extensions.getExtensionLiveChannels(extensionId, {...options, cursor, max});
+            return {items: result?.channels ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the subscriptions of getEventsubSubscription(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getEventsubSubscription(options?: {status?: SubscriptionStatus, type?: SubscriptionType, userIds?: string[], usedMethod?: TransportMethod} & PaginationOptions): Paginator<Subscription>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.eventsub.getEventsubSubscription({...options, cursor, max});
+            return {items: result?.subscriptions ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the games of getTopGames(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getTopGames(options?: PaginationOptions): Paginator<Category>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.games.getTopGames({...options, cursor, max});
+            return {items: result?.games ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the events of getHypeTrainEvents(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getHypeTrainEvents(broadcasterId: string, options?: PaginationOptions): Paginator<HypeTrainEvent>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.hypeTrain.getHypeTrainEvents(broadcasterId, {...options, cursor, max});
+            return {items: result?.events ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the banned users of getBannedUsers(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getBannedUsers(broadcasterId: string, options?: {userIds?: string[]} & PaginationOptions): Paginator<BannedUser>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.moderation.getBannedUsers(broadcasterId, {...options, cursor, max});
+            return {items: result?.bannedUsers ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the terms of getBlockedTerms(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getBlockedTerms(broadcasterId: string, moderatorId: string, options?: PaginationOptions): Paginator<BlockedTerm>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.moderation.getBlockedTerms(broadcasterId, moderatorId, {...options, cursor, max});
+            return {items: result?.terms ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the moderators of getModerators(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getModerators(broadcasterId: string, options?: {userIds?: string[]} & PaginationOptions): Paginator<User>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.moderation.getModerators(broadcasterId, {...options, cursor, max});
+            return {items: result?.moderators ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the vips of getVIPs(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getVIPs(broadcasterId: string, options?: {userIds?: string[]} & PaginationOptions): Paginator<User>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.channels.getVIPs(broadcasterId, {...options, cursor, max});
+            return {items: result?.vips ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the polls of getPolls(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getPolls(broadcasterId: string, options?: {pollIds?: string[]} & PaginationOptions): Paginator<Poll>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.polls.getPolls(broadcasterId, {...options, cursor, max});
+            return {items: result?.polls ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the predictions of getPredictions(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getPredictions(broadcasterId: string, options?: {predictionIds?: string[]} & PaginationOptions): Paginator<Prediction>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.predictions.getPredictions(broadcasterId, {...options, cursor, max});
+            return {items: result?.predictions ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the categories of searchCategories(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public searchCategories(query: string, options?: PaginationOptions): Paginator<Category>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.search.searchCategories(query, {...options, cursor, max});
+            return {items: result?.categories ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the channels of searchChannels(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public searchChannels(query: string, options?: {liveOnly?: boolean} & PaginationOptions): Paginator<Channel>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.search.searchChannels(query, {...options, cursor, max});
+            return {items: result?.channels ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the tracks of getSoundtrackPlaylist(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getSoundtrackPlaylist(playlistId: string, options?: PaginationOptions): Paginator<PlaylistTrack>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.soundtrack.getSoundtrackPlaylist(playlistId, {...options, cursor, max});
+            return {items: result?.tracks ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the playlists of getSoundtrackPlaylists(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getSoundtrackPlaylists(options?: {playlistId?: string} & PaginationOptions): Paginator<SoundtrackPlaylist>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.soundtrack.getSoundtrackPlaylists({...options, cursor, max});
+            return {items: result?.playlists ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the streams of getStreams(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getStreams(options?: {broadcasterIds?: string[], broadcasterLogins?: string[], categoryIds?: string[], type?: StreamTypes | "all", language?: Languages} & PaginationOptions): Paginator<Stream>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.streams.getStreams({...options, cursor, max});
+            return {items: result?.streams ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the streams of getFollowedStreams(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getFollowedStreams(userId: string, options?: PaginationOptions): Paginator<Stream>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.streams.getFollowedStreams(userId, {...options, cursor, max});
+            return {items: result?.streams ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the markers of getStreamMarkers(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getStreamMarkers(userId: string, videoId: string, options?: PaginationOptions): Paginator<StreamMarker>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.streams.getStreamMarkers(userId, videoId, {...options, cursor, max});
+            return {items: result?.markers ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the subscriptions of getBroadcasterSubscriptions(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getBroadcasterSubscriptions(broadcasterId: string, options?: {userId?: string} & PaginationOptions): Paginator<BroadcasterSubscription>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.subscriptions.getBroadcasterSubscriptions(broadcasterId, {...options, cursor, max});
+            return {items: result?.subscriptions ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the tags of getAllStreamTags(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getAllStreamTags(options?: {tagIds?: string[]} & PaginationOptions): Paginator<StreamTag>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.tags.getAllStreamTags({...options, cursor, max});
+            return {items: result?.tags ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the relationships of getUsersFollows(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getUsersFollows(identifiers: {followerId?: string, followeeId?: string}, options?: PaginationOptions): Paginator<FollowRelationship>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.users.getUsersFollows(identifiers, {...options, cursor, max});
+            return {items: result?.relationships ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the followers of getFollowers(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getFollowers(userId: string, options?: PaginationOptions): Paginator<{id: string, login: string, displayName: string, followedAt: Date}>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.users.getFollowers(userId, {...options, cursor, max});
+            return {items: result?.followers ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the followees of getFollowees(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getFollowees(userId: string, options?: PaginationOptions): Paginator<{id: string, login: string, displayName: string, followedAt: Date}>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.users.getFollowees(userId, {...options, cursor, max});
+            return {items: result?.followees ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the blocked users of getUserBlockList(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getUserBlockList(broadcasterId: string, options?: PaginationOptions): Paginator<{id: string, login: string, displayName: string}>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.users.getUserBlockList(broadcasterId, {...options, cursor, max});
+            return {items: result?.blockedUsers ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+
+    /**
+     * Lazily iterates over the videos of getVideos(). Takes the same parameters, but pages are controlled by pageSize and cursor instead of max and cursor.
+     */
+    public getVideos(videoIds: string[], broadcasterId: string, categoryId: string, options?: {language?: Languages, period?: VideoPeriods, sort?: VideoSorting, type?: VideoType} & PaginationOptions): Paginator<Video>{
+        return new Paginator(async (cursor, max)=>{
+            const result = await this._api.videos.getVideos(videoIds, broadcasterId, categoryId, {...options, cursor, max});
+            return {items: result?.videos ?? [], cursor: result?.cursor ?? undefined};
+        }, options);
+    }
+}
@@ -0,0 +1,82 @@
+import {isUndefined} from "./utils";
+
+/**
+ * Lazily iterates over the results of a cursor based endpoint. Pages are only fetched when they are consumed,
+ * so breaking out of a for await loop stops fetching.
+ */
+export class Paginator<T> implements AsyncIterable<T>{
+
+    private readonly _fetchPage: (cursor: string | undefined, pageSize: number) => Promise<Page<T>>;
+    private readonly _pageSize: number;
+    private _cursor?: string;
+
+    /**
+     * @param fetchPage Fetches a single page of at most pageSize items, starting at the cursor
+     * @param [options] Additional optional parameters
+     * @param [options.pageSize] The number of items to fetch per request (1-100).
+     * @param [options.cursor] A cursor of a previous iteration to resume from.
+     */
+    constructor(fetchPage: (cursor: string | undefined, pageSize: number) => Promise<Page<T>>, options?: PaginationOptions){
+        this._fetchPage = fetchPage;
+        this._pageSize = Math.min(Math.max(options?.pageSize ?? 100, 1), 100);
+        this._cursor = options?.cursor;
+    }
+
+    /**
+     * Iterates over the pages. The cursor is advanced before a page is handed out, so it always points to the next, not yet fetched page.
+     */
+    public async *pages(): AsyncGenerator<Page<T>>{
+        while(true){
+            const page = await this._fetchPage(this._cursor, this._pageSize);
+            this._cursor = page.cursor;
+
+            yield page;
+
+            if(isUndefined(this._cursor))
+                return;
+        }
+    }
+
+    /**
+     * Iterates over the single items of all pages
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T>{
+        for await (const page of this.pages()){
+            for(const item of page.items)
+                yield item;
+        }
+    }
+
+    /**
+     * The cursor of the next page that was not fetched yet. Undefined, if there are no pages left or nothing was fetched yet.
+     * @NOTE Items of the current page that were not consumed before breaking out of the loop are not covered by the cursor.
+     */
+    get cursor(): string | undefined{
+        return this._cursor;
+    }
+}
+
+
+export type Page<T> = {
+    /**
+     * The items of the page
+     */
+    items: T[],
+
+    /**
+     * The cursor of the next page. Undefined, if this is the last page.
+     */
+    cursor?: string
+}
+
+export type PaginationOptions = {
+    /**
+     * The number of items to fetch per request (1-100). Defaults to 100.
+     */
+    pageSize?: number,
+
+    /**
+     * A cursor of a previous iteration to resume from
+     */
+    cursor?: string
+}
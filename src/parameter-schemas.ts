@@ -0,0 +1,507 @@
+import {z as zod} from "zod";
+import {Exception, EXCEPTION_REASONS, formatIssues} from "./exceptions";
+
+//Reference: https://dev.twitch.tv/docs/api/reference
+//Limits are the ones documented by Twitch, so invalid calls fail before a request is sent
+
+const id = zod.string().min(1);
+const ids = (max: number)=> zod.array(id).max(max);
+const count = zod.number().int().positive();
+const cursor = zod.string();
+const hexColor = zod.string().regex(/^#[0-9A-F]{6}$/i, "Invalid hex color, expected #RRGGBB");
+const pagination = zod.object({cursor: cursor.nullish(), max: count.optional()});
+const autoModLevel = zod.number().int().min(0).max(4);
+
+const namedChatColor = zod.enum(["blue", "blue_violet", "chocolate", "coral", "dodger_blue", "firebrick", "golden_rod", "green", "hot_pink", "orange_red", "red", "sea_green", "spring_green", "yellow_green"]);
+const transportMethod = zod.enum(["webhook", "websocket"]);
+
+const rewardFields = {
+    title: zod.string().min(1).max(45),
+    prompt: zod.string().max(200).optional(),
+    cost: zod.number().int().positive(),
+    backgroundColor: hexColor.optional(),
+    maxPerStream: count.optional(),
+    maxPerUserPerStream: count.optional()
+};
+
+/**
+ * Schemas of the parameters of the TwitchAPI methods, by method name. Each schema validates an object of the named parameters.
+ */
+export const PARAMETER_SCHEMAS = {
+    startCommercial: zod.object({
+        broadcasterId: id,
+        length: zod.number().int().min(1).max(180)
+    }),
+    getExtensionAnalytics: zod.object({
+        extensionId: id.optional(),
+        startedAt: zod.date().optional(),
+        endedAt: zod.date().optional(),
+        count: count.optional()
+    }),
+    getGameAnalytics: zod.object({
+        gameId: id.optional(),
+        startedAt: zod.date().optional(),
+        endedAt: zod.date().optional(),
+        count: count.optional()
+    }),
+    getBitsLeaderboards: zod.object({
+        count: zod.number().int().min(1).max(100).optional(),
+        period: zod.enum(["day", "week", "month", "year", "all"]).optional(),
+        startedAt: zod.date().optional(),
+        userId: id.optional()
+    }),
+    getCheermotes: zod.object({
+        broadcasterId: id.optional()
+    }),
+    getExtensionTransactions: zod.object({
+        extensionId: id,
+        options: zod.object({transactionIds: ids(100).optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    getChannelInformation: zod.object({
+        broadcasterIds: ids(100).min(1)
+    }),
+    modifyChannelInformation: zod.object({
+        broadcasterId: id,
+        modifications: zod.object({
+            gameId: zod.string().optional(),
+            language: zod.string().optional(),
+            title: zod.string().min(1).max(140).optional(),
+            delay: zod.number().int().min(0).max(900).optional()
+        })
+    }),
+    getChannelEditors: zod.object({
+        broadcasterId: id
+    }),
+    createCustomReward: zod.object({
+        broadcasterId: id,
+        rewardData: zod.object({
+            ...rewardFields,
+            globalCooldown: zod.number().int().min(1).max(604800).optional()
+        })
+    }),
+    deleteCustomReward: zod.object({
+        broadcasterId: id,
+        rewardId: id
+    }),
+    getCustomRewards: zod.object({
+        broadcasterId: id,
+        options: zod.object({rewardIds: ids(50).optional(), manageableRewardsOnly: zod.boolean().optional()})
+    }),
+    getCustomRewardRedemptions: zod.object({
+        broadcasterId: id,
+        rewardId: id,
+        options: zod.object({
+            status: zod.enum(["CANCELED", "FULFILLED", "UNFULFILLED"]).optional(),
+            id: id.optional(),
+            sort: zod.enum(["OLDEST", "NEWEST"]).optional(),
+            max: count.optional()
+        })
+    }),
+    updateCustomReward: zod.object({
+        broadcasterId: id,
+        rewardId: id,
+        modifications: zod.object({
+            ...zod.object(rewardFields).partial().shape,
+            cooldownSeconds: zod.number().int().min(1).max(604800).optional()
+        })
+    }),
+    updateRedemptionStatus: zod.object({
+        broadcasterId: id,
+        rewardId: id,
+        redemptionIds: ids(50).min(1),
+        newStatus: zod.enum(["CANCELED", "FULFILLED"])
+    }),
+    getCharityCampaign: zod.object({
+        broadcasterId: id
+    }),
+    getCharityCampaignDonations: zod.object({
+        broadcasterId: id,
+        options: pagination.optional()
+    }),
+    getChatters: zod.object({
+        broadcasterId: id,
+        moderatorId: id
+    }),
+    getChannelEmotes: zod.object({
+        broadcasterId: id
+    }),
+    getEmoteSets: zod.object({
+        setIds: ids(25).min(1)
+    }),
+    getChannelChatBadges: zod.object({
+        broadcasterId: id
+    }),
+    getChatSettings: zod.object({
+        broadcasterId: id,
+        moderatorId: id.optional()
+    }),
+    updateChatSettings: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        modifications: zod.object({
+            followerModeDuration: zod.number().int().min(0).max(129600).optional(),
+            moderatorChatDelay: zod.union([zod.literal(2), zod.literal(4), zod.literal(6)]).optional(),
+            slowModeWaitTime: zod.number().int().min(3).max(120).optional()
+        })
+    }),
+    sendChatAnnouncement: zod.object({
+        broadcasterId: id,
+        message: zod.string().min(1).max(500),
+        options: zod.object({moderatorId: id.optional(), color: zod.enum(["blue", "green", "orange", "purple", "primary"]).optional()}).optional()
+    }),
+    getUsersChatColor: zod.object({
+        userIds: ids(100).min(1)
+    }),
+    updateUserChatColor: zod.object({
+        userId: id,
+        color: zod.union([namedChatColor, hexColor])
+    }),
+    createClip: zod.object({
+        broadcasterId: id,
+        options: zod.object({delayed: zod.boolean().optional()}).optional()
+    }),
+    getClips: zod.object({
+        identifiers: zod.object({broadcasterId: id.optional(), categoryId: id.optional(), clipIds: ids(100).optional()}),
+        options: zod.object({startedAt: zod.date().optional(), endedAt: zod.date().optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    getCodeStatus: zod.object({
+        codes: ids(20).min(1),
+        userId: id
+    }),
+    getDropEntitlements: zod.object({
+        identifiers: zod.object({entitlementIds: ids(100).optional(), granteeId: id.optional(), categoryId: id.optional(), fulfillmentStatus: zod.string().optional()}).optional(),
+        options: pagination.optional()
+    }),
+    redeemCode: zod.object({
+        codes: ids(20).min(1),
+        userId: id
+    }),
+    sendExtensionPubsubMessage: zod.object({
+        broadcasterId: id,
+        targets: zod.array(zod.string().min(1)).min(1),
+        message: zod.string().min(1)
+    }),
+    getExtensionLiveChannels: zod.object({
+        extensionId: id,
+        options: pagination.optional()
+    }),
+    getExtensionSecrets: zod.object({
+        extensionId: id,
+        jwt: id
+    }),
+    createExtensionSecret: zod.object({
+        extensionId: id,
+        jwt: id,
+        options: zod.object({delay: zod.number().int().min(300).optional()})
+    }),
+    sendExtensionChatMessage: zod.object({
+        broadcasterId: id,
+        extensionId: id,
+        extensionVersion: id,
+        text: zod.string().min(1).max(280),
+        jwt: id
+    }),
+    getExtensions: zod.object({
+        extensionId: id,
+        jwt: id,
+        options: zod.object({extensionVersion: zod.string()})
+    }),
+    getReleasedExtensions: zod.object({
+        extensionId: id,
+        options: zod.object({extensionVersion: zod.string().optional()}).optional()
+    }),
+    createEventsubSubscription: zod.object({
+        type: id,
+        version: id,
+        condition: zod.record(zod.unknown()),
+        transport: zod.object({method: transportMethod, callback: zod.string().url().optional(), secret: zod.string().min(10).max(100).optional(), sessionId: zod.string().optional()})
+    }),
+    deleteEventsubSubscription: zod.object({
+        id: id,
+        usedMethod: transportMethod
+    }),
+    getEventsubSubscription: zod.object({
+        options: zod.object({status: zod.string().optional(), type: zod.string().optional(), userIds: ids(100).optional(), usedMethod: transportMethod.optional(), max: count.optional(), cursor: cursor.optional()}).optional()
+    }),
+    getTopGames: zod.object({
+        options: pagination.optional()
+    }),
+    getGames: zod.object({
+        identifiers: zod.object({ids: ids(100).optional(), names: zod.array(zod.string().min(1)).max(100).optional(), igdbIds: ids(100).optional()}),
+        options: zod.object({size: zod.object({width: count, height: count}).optional()}).optional()
+    }),
+    getCreatorGoals: zod.object({
+        broadcasterId: id
+    }),
+    getHypeTrainEvents: zod.object({
+        broadcasterId: id,
+        options: pagination.optional()
+    }),
+    checkAutoModStatus: zod.object({
+        broadcasterId: id,
+        messages: zod.array(zod.object({id: id, text: zod.string().min(1)})).min(1).max(100)
+    }),
+    manageHeldAutoModMessages: zod.object({
+        moderatorId: id,
+        messageId: id,
+        action: zod.enum(["ALLOW", "DENY"])
+    }),
+    getAutoModSettings: zod.object({
+        broadcasterId: id,
+        moderatorId: id
+    }),
+    updateAutoModSettings: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        newSettings: zod.object({
+            aggression: autoModLevel.optional(),
+            bullying: autoModLevel.optional(),
+            disability: autoModLevel.optional(),
+            misogyny: autoModLevel.optional(),
+            overallLevel: autoModLevel.optional(),
+            raceEthnicityOrReligion: autoModLevel.optional(),
+            sexBasedTerms: autoModLevel.optional(),
+            sexualitySexOrGender: autoModLevel.optional(),
+            swearing: autoModLevel.optional()
+        })
+    }),
+    getBannedUsers: zod.object({
+        broadcasterId: id,
+        options: zod.object({userIds: ids(100).optional(), max: count.optional(), cursor: cursor.optional()}).optional()
+    }),
+    banUser: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        userId: id,
+        options: zod.object({duration: zod.number().int().min(1).max(1209600).optional(), reason: zod.string().max(500).optional()}).optional()
+    }),
+    unbanUser: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        userId: id
+    }),
+    getBlockedTerms: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        options: pagination.optional()
+    }),
+    addBlockedTerm: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        text: zod.string().min(2).max(500)
+    }),
+    removeBlockedTerm: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        termId: id
+    }),
+    deleteChatMessages: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        options: zod.object({messageId: id.optional()}).optional()
+    }),
+    getModerators: zod.object({
+        broadcasterId: id,
+        options: zod.object({userIds: ids(100).optional(), max: count.optional(), cursor: cursor.optional()}).optional()
+    }),
+    addChannelModerator: zod.object({
+        broadcasterId: id,
+        userId: id
+    }),
+    removeChannelModerator: zod.object({
+        broadcasterId: id,
+        userId: id
+    }),
+    getVIPs: zod.object({
+        broadcasterId: id,
+        options: zod.object({userIds: ids(100).optional(), max: count.optional(), cursor: cursor.optional()}).optional()
+    }),
+    addChannelVIP: zod.object({
+        broadcasterId: id,
+        userId: id
+    }),
+    removeChannelVIP: zod.object({
+        broadcasterId: id,
+        userId: id
+    }),
+    updateShieldModeStatus: zod.object({
+        broadcasterId: id,
+        moderatorId: id,
+        isActive: zod.boolean()
+    }),
+    getShieldModeStatus: zod.object({
+        broadcasterId: id,
+        moderatorId: id
+    }),
+    getPolls: zod.object({
+        broadcasterId: id,
+        options: zod.object({pollIds: ids(20).optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    createPoll: zod.object({
+        broadcasterId: id,
+        title: zod.string().min(1).max(60),
+        choices: zod.array(zod.string().min(1).max(25)).min(2).max(5),
+        duration: zod.number().int().min(15).max(1800),
+        options: zod.object({channelPointsVoting: zod.boolean().optional(), channelPointsPerVote: zod.number().int().min(1).max(1000000).optional()}).optional()
+    }),
+    endPoll: zod.object({
+        broadcasterId: id,
+        pollId: id,
+        status: zod.enum(["ARCHIVED", "TERMINATED"])
+    }),
+    getPredictions: zod.object({
+        broadcasterId: id,
+        options: zod.object({predictionIds: ids(25).optional(), cursor: cursor.nullish(), max: count.optional()}).optional()
+    }),
+    createPrediction: zod.object({
+        broadcasterId: id,
+        title: zod.string().min(1).max(45),
+        outcomes: zod.array(zod.string().min(1).max(25)).min(2).max(10),
+        predictionWindow: zod.number().int().min(30).max(1800)
+    }),
+    endPrediction: zod.object({
+        broadcasterId: id,
+        predictionId: id,
+        status: zod.enum(["RESOLVED", "CANCELED", "LOCKED"]),
+        options: zod.object({winningOutcomeId: id.optional()}).optional()
+    }).refine((parameters)=> parameters.status !== "RESOLVED" || parameters.options?.winningOutcomeId !== undefined, {message: "Required to resolve a prediction", path: ["options", "winningOutcomeId"]}),
+    startRaid: zod.object({
+        fromBroadcasterId: id,
+        toBroadcasterId: id
+    }),
+    cancelRaid: zod.object({
+        broadcasterId: id
+    }),
+    getChannelICalendar: zod.object({
+        broadcasterId: id
+    }),
+    searchCategories: zod.object({
+        query: zod.string().min(1),
+        options: pagination.optional()
+    }),
+    searchChannels: zod.object({
+        query: zod.string().min(1),
+        options: zod.object({liveOnly: zod.boolean().optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    getSoundtrackCurrentTrack: zod.object({
+        broadcasterId: id
+    }),
+    getSoundtrackPlaylist: zod.object({
+        playlistId: id,
+        options: pagination.optional()
+    }),
+    getSoundtrackPlaylists: zod.object({
+        options: zod.object({playlistId: id.optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    getStreamKey: zod.object({
+        broadcasterId: id
+    }),
+    getStreams: zod.object({
+        options: zod.object({
+            broadcasterIds: ids(100).optional(),
+            broadcasterLogins: ids(100).optional(),
+            categoryIds: ids(100).optional(),
+            type: zod.enum(["live", "all"]).optional(),
+            language: zod.string().optional(),
+            cursor: cursor.optional(),
+            max: count.optional()
+        }).optional()
+    }),
+    getFollowedStreams: zod.object({
+        userId: id,
+        options: pagination.optional()
+    }),
+    createStreamMarker: zod.object({
+        broadcasterId: id,
+        options: zod.object({description: zod.string().max(140).optional()}).optional()
+    }),
+    getStreamMarkers: zod.object({
+        userId: id,
+        videoId: id,
+        options: pagination.optional()
+    }),
+    getBroadcasterSubscriptions: zod.object({
+        broadcasterId: id,
+        options: zod.object({userId: id.optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    checkUserSubscription: zod.object({
+        broadcasterId: id,
+        userId: id
+    }),
+    getAllStreamTags: zod.object({
+        options: zod.object({tagIds: ids(100).optional(), cursor: cursor.optional(), max: count.optional()}).optional()
+    }),
+    getStreamTags: zod.object({
+        broadcasterId: id,
+        options: zod.object({max: count.optional()}).optional()
+    }),
+    replaceStreamTags: zod.object({
+        broadcasterId: id,
+        options: zod.object({tagIds: ids(5).optional()}).optional()
+    }),
+    getChannelTeams: zod.object({
+        broadcasterId: id,
+        options: zod.object({max: count.optional()}).optional()
+    }),
+    getTeams: zod.object({
+        identifiers: zod.object({name: id.optional(), id: id.optional()}).optional()
+    }),
+    getUsers: zod.object({
+        options: zod.object({userIds: ids(100).optional(), userLogins: ids(100).optional()}).optional()
+    }).refine((parameters)=> (parameters.options?.userIds?.length ?? 0) + (parameters.options?.userLogins?.length ?? 0) <= 100, {message: "At most 100 IDs and logins combined", path: ["options"]}),
+    updateUser: zod.object({
+        newDescription: zod.string().max(300).optional()
+    }),
+    getUsersFollows: zod.object({
+        identifiers: zod.object({followerId: id.optional(), followeeId: id.optional()}),
+        options: pagination.optional()
+    }),
+    getUserBlockList: zod.object({
+        broadcasterId: id,
+        options: pagination.optional()
+    }),
+    blockUser: zod.object({
+        userId: id,
+        options: zod.object({blockContext: zod.enum(["chat", "whisper"]), reason: zod.enum(["harassment", "spam", "other"])}).optional()
+    }),
+    unblockUser: zod.object({
+        userId: id
+    }),
+    getUserActiveExtensions: zod.object({
+        broadcasterId: id.optional()
+    }),
+    getVideos: zod.object({
+        videoIds: ids(100),
+        broadcasterId: zod.string(),
+        categoryId: zod.string(),
+        options: zod.object({
+            language: zod.string().optional(),
+            period: zod.enum(["all", "day", "month", "week"]).optional(),
+            sort: zod.enum(["time", "trending", "views"]).optional(),
+            type: zod.enum(["archive", "highlight", "upload"]).optional(),
+            cursor: cursor.optional(),
+            max: count.optional()
+        }).optional()
+    }),
+    deleteVideos: zod.object({
+        videoIds: ids(5).min(1)
+    }),
+    sendWhisper: zod.object({
+        senderId: id,
+        receiverId: id,
+        message: zod.string().min(1).max(10000)
+    })
+} as const;
+
+/**
+ * Validates the parameters of a TwitchAPI call before its request is sent
+ * @param method The name of the called method
+ * @param parameters The parameters of the call, by name
+ * @throws Exception with reason INVALID_PARAMETERS, whose message lists every invalid field, e.g. "createPoll: duration: Number must be less than or equal to 1800"
+ */
+export function validateParameters(method: keyof typeof PARAMETER_SCHEMAS, parameters: Record<string, unknown>){
+    const result = PARAMETER_SCHEMAS[method].safeParse(parameters);
+
+    if(!result.success)
+        throw new Exception(EXCEPTION_REASONS.INVALID_PARAMETERS, `${method}: ${formatIssues(result.error.issues)}`);
+}
@@ -0,0 +1,106 @@
+import {isDefined, isUndefined, sleep} from "./utils";
+
+/**
+ * Token bucket that mirrors the rate limit state Twitch reports in the Ratelimit-* response headers.
+ * Requests are queued once the bucket is exhausted and resumed after the reset time.
+ */
+export class RateLimitBucket{
+
+    private _limit?: number;
+    private _remaining?: number;
+    private _resetAt?: Date;
+
+    private _queued = 0;
+    private _queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Waits until the bucket has capacity for another request and takes one point from it.
+     * Requests are released in the order they were queued.
+     */
+    public acquire(): Promise<void>{
+        this._queued++;
+
+        const slot = this._queue.then(async ()=>{
+            await this.waitForCapacity();
+            this._queued--;
+        });
+
+        this._queue = slot;
+        return slot;
+    }
+
+    /**
+     * Updates the bucket with the rate limit headers of a Helix response
+     * @param headers The response headers. Responses without rate limit headers are ignored.
+     */
+    public update(headers: Record<string, any>){
+        const limit = parseInt(headers["ratelimit-limit"]);
+        const remaining = parseInt(headers["ratelimit-remaining"]);
+        const reset = parseInt(headers["ratelimit-reset"]);
+
+        if(!isNaN(limit))
+            this._limit = limit;
+
+        if(!isNaN(remaining))
+            this._remaining = remaining;
+
+        if(!isNaN(reset))
+            this._resetAt = new Date(reset * 1000);
+    }
+
+    /**
+     * The current state of the bucket. All values are undefined until the first response was received.
+     */
+    get state(): RateLimitState{
+        return {
+            limit: this._limit,
+            remaining: this._remaining,
+            resetAt: this._resetAt,
+            queued: this._queued
+        }
+    }
+
+    /**
+     * Delays until the bucket was reset, if it is exhausted
+     * @private
+     */
+    private async waitForCapacity(){
+        if(isUndefined(this._remaining))
+            return;
+
+        if(this._remaining! <= 0 && isDefined(this._resetAt)){
+            const delay = this._resetAt!.getTime() - Date.now();
+
+            if(delay > 0)
+                await sleep(delay);
+
+            this._remaining = this._limit;
+        }
+
+        if(isDefined(this._remaining))
+            this._remaining!--;
+    }
+}
+
+
+export type RateLimitState = {
+    /**
+     * The rate at which points are added to the bucket
+     */
+    limit?: number,
+
+    /**
+     * The number of points remaining in the bucket
+     */
+    remaining?: number,
+
+    /**
+     * The time at which the bucket is reset to its full size
+     */
+    resetAt?: Date,
+
+    /**
+     * The number of requests that are waiting for capacity
+     */
+    queued: number
+}
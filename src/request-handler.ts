@@ -0,0 +1,444 @@
+import {TokenHandler} from "./token-handler";
+import {isDefined, isUndefined, sleep} from "./utils";
+import {
+    BadRequestException,
+    ConflictException,
+    Exception,
+    EXCEPTION_REASONS,
+    ForbiddenException,
+    HttpException,
+    HttpExceptionDetails,
+    InsufficientScopeException,
+    MissingScopeException,
+    NetworkException,
+    NotFoundException,
+    RateLimitedException,
+    ResponseValidationException,
+    ServerErrorException,
+    UnauthorizedException
+} from "./exceptions";
+import {ZodTypeAny} from "zod";
+import {ObjectValues} from "./types";
+import {RateLimitBucket} from "./rate-limit-bucket";
+import {DEFAULT_RETRY_POLICY, RetryPolicy, getBackoffDelay, isRetryable} from "./retry-policy";
+import {Transport, TransportResponse, axiosTransport} from "./transport";
+
+export const HELIX_BASE_URL = "https://api.twitch.tv/helix";
+
+export class RequestHandler{
+
+    private readonly _tokenHandler: TokenHandler;
+    private readonly _retryPolicy: RetryPolicy;
+    private readonly _baseUrl: string;
+    private readonly _transport: Transport;
+    private readonly _validation: ValidationMode;
+    private readonly _checkScopes: boolean;
+
+    /**
+     * Request handler every TwitchAPI call is routed through
+     * @param tokenHandler The token handler that provides the tokens and the client identifier of the requests
+     * @param [options] Additional options
+     * @param [options.retryPolicy] Overrides of the default retry policy
+     * @param [options.baseUrl] The base URL of the Helix API, e.g. of a local mock server. Defaults to https://api.twitch.tv/helix
+     * @param [options.transport] The transport the requests are sent with. Defaults to axios.
+     * @param [options.validation] Whether response bodies are validated against the schema of their request. Defaults to none.
+     * @param [options.checkScopes] A Boolean that determines whether the scopes of the User Access Token are checked before a request is sent. Defaults to false.
+     */
+    constructor(tokenHandler: TokenHandler, options?: {retryPolicy?: Partial<RetryPolicy>, baseUrl?: string, transport?: Transport, validation?: ValidationMode, checkScopes?: boolean}){
+        this._tokenHandler = tokenHandler;
+        this._retryPolicy = {...DEFAULT_RETRY_POLICY, ...options?.retryPolicy};
+        this._baseUrl = (options?.baseUrl ?? HELIX_BASE_URL).replace(/\/+$/, "");
+        this._transport = options?.transport ?? axiosTransport;
+        this._validation = options?.validation ?? VALIDATION_MODES.NONE;
+        this._checkScopes = options?.checkScopes ?? false;
+    }
+
+    /**
+     * Creates a request handler that shares the token handler, base URL, transport, validation mode and scope check, but retries with a different policy
+     * @param retryPolicy Overrides of the current retry policy
+     */
+    public withRetryPolicy(retryPolicy: Partial<RetryPolicy>): RequestHandler{
+        return new RequestHandler(this._tokenHandler, {retryPolicy: {...this._retryPolicy, ...retryPolicy}, baseUrl: this._baseUrl, transport: this._transport, validation: this._validation, checkScopes: this._checkScopes});
+    }
+
+    /**
+     * Creates a request handler that shares the retry policy, base URL, transport, validation mode and scope check, but authorizes its requests with a different token handler
+     * @param tokenHandler The token handler that provides the tokens of the requests
+     */
+    public withTokenHandler(tokenHandler: TokenHandler): RequestHandler{
+        return new RequestHandler(tokenHandler, {retryPolicy: this._retryPolicy, baseUrl: this._baseUrl, transport: this._transport, validation: this._validation, checkScopes: this._checkScopes});
+    }
+
+    /**
+     * Sends a request to the Helix API and returns the unwrapped response body. Transient failures are retried according to the retry policy.
+     * @param request Information about the request to be sent
+     * @returns The response body. For the usual Helix responses, this contains the data, pagination and total fields.
+     */
+    public async request<T = HelixResponse>(request: HelixRequest): Promise<T>{
+        for(let attempt = 1; ; attempt++){
+            try{
+                return await this.sendAuthorized<T>(request);
+            }catch(err: unknown){
+                if(attempt >= this._retryPolicy.maxAttempts || !isRetryable(err, request.method, this._retryPolicy))
+                    throw err;
+
+                await sleep(getBackoffDelay(attempt, this._retryPolicy));
+            }
+        }
+    }
+
+    get retryPolicy(): RetryPolicy{
+        return this._retryPolicy;
+    }
+
+    get validation(): ValidationMode{
+        return this._validation;
+    }
+
+    get checkScopes(): boolean{
+        return this._checkScopes;
+    }
+
+    /**
+     * Sends a single attempt of the request. If Twitch rejects the token as invalid, the token is renewed once and the request is replayed.
+     * @param request Information about the request to be sent
+     * @private
+     */
+    private async sendAuthorized<T>(request: HelixRequest): Promise<T>{
+        const authorization = this.resolveAuthorization(request.tokenType, request.jwt);
+        await this.checkScopesOf(request, authorization);
+
+        try{
+            return await this.send<T>(request, authorization);
+        }catch(err: unknown){
+            if(!(err instanceof UnauthorizedException) || !/invalid oauth token/i.test(err.helixMessage))
+                throw err;
+
+            if(!await this.renewToken(authorization))
+                throw err;
+
+            return await this.send<T>(request, this.resolveAuthorization(request.tokenType, request.jwt));
+        }
+    }
+
+    /**
+     * Throws if scope checking is enabled and the User Access Token of the request grants none of the scopes the request requires
+     * @param request Information about the request to be sent
+     * @param authorization The authorization of the request
+     * @private
+     */
+    private async checkScopesOf(request: HelixRequest, authorization: Authorization){
+        if(!this._checkScopes || authorization.tokenType !== TOKEN_TYPES.USER || isUndefined(request.scopes) || request.scopes!.length === 0)
+            return;
+
+        const grantedScopes = await this._tokenHandler.getUserAccessTokenScopes();
+
+        if(!request.scopes!.some((scope)=> grantedScopes.includes(scope)))
+            throw new InsufficientScopeException(`${request.method} ${request.endpoint}`, request.scopes!);
+    }
+
+    /**
+     * Renews the token the request was authorized with, unless another request already renewed it in the meantime.
+     * Concurrent renewals of the same token share a single refresh (see TokenHandler).
+     * @param authorization The authorization of the rejected request
+     * @returns A Boolean that determines whether a different token is available now
+     * @private
+     */
+    private async renewToken(authorization: Authorization): Promise<boolean>{
+        switch(authorization.tokenType){
+            case TOKEN_TYPES.USER:
+                if(this._tokenHandler.userAccessToken === authorization.token)
+                    await this._tokenHandler.renewUserAccessToken();
+                return isDefined(this._tokenHandler.userAccessToken) && this._tokenHandler.userAccessToken !== authorization.token;
+            case TOKEN_TYPES.APP:
+                if(this._tokenHandler.appAccessToken === authorization.token)
+                    await this._tokenHandler.renewAppAccessToken();
+                return isDefined(this._tokenHandler.appAccessToken) && this._tokenHandler.appAccessToken !== authorization.token;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Sends the request with the given authorization
+     * @param request Information about the request to be sent
+     * @param authorization The headers and rate limit bucket of the request
+     * @private
+     */
+    private async send<T>(request: HelixRequest, authorization: Authorization): Promise<T>{
+        await authorization.bucket?.acquire();
+
+        let response: TransportResponse;
+
+        try{
+            response = await this._transport({
+                method: request.method,
+                url: this.buildURL(request.endpoint, request.query),
+                headers: authorization.headers,
+                body: request.body
+            })
+        }catch(err: unknown){
+            //Exceptions of this library (e.g. of a replaying cassette) are no network failures and must not be retried
+            if(err instanceof Exception)
+                throw err;
+
+            throw new NetworkException(`${request.method} ${request.endpoint}`, err);
+        }
+
+        authorization.bucket?.update(response.headers);
+
+        if(response.status >= 400)
+            throw this.toHttpException(response, request);
+
+        this.validate(response.data, request);
+
+        return response.data;
+    }
+
+    /**
+     * Validates the response body against the schema of the request. Mismatches throw in strict mode and are logged in lenient mode.
+     * @param body The response body
+     * @param request The request the body was returned for
+     * @private
+     */
+    private validate(body: unknown, request: HelixRequest){
+        if(this._validation === VALIDATION_MODES.NONE || !isDefined(request.schema))
+            return;
+
+        const result = request.schema!.safeParse(body);
+        if(result.success)
+            return;
+
+        const exception = new ResponseValidationException(`${request.method} ${request.endpoint}`, result.error.issues);
+
+        if(this._validation === VALIDATION_MODES.STRICT)
+            throw exception;
+
+        console.warn(exception.message);
+    }
+
+    /**
+     * Converts an error response of the Helix API into the matching exception
+     * @param response The error response
+     * @param request The request that failed
+     * @private
+     */
+    private toHttpException(response: TransportResponse, request: HelixRequest): HttpException{
+        const details: HttpExceptionDetails = {
+            status: response.status,
+            message: response.data?.message ?? "",
+            endpoint: `${request.method} ${request.endpoint}`,
+            requestId: response.headers["twitch-trace-id"] ?? response.headers["x-request-id"]
+        }
+
+        //Twitch reports missing scopes with 401 or 403, depending on the endpoint
+        if((details.status === 401 || details.status === 403) && /missing scope/i.test(details.message))
+            return new MissingScopeException(details);
+
+        switch(details.status){
+            case 400:
+                return new BadRequestException(details);
+            case 401:
+                return new UnauthorizedException(details);
+            case 403:
+                return new ForbiddenException(details);
+            case 404:
+                return new NotFoundException(details);
+            case 409:
+                return new ConflictException(details);
+            case 429:
+                return new RateLimitedException(details, this.getRetryAfter(response));
+        }
+
+        if(details.status >= 500)
+            return new ServerErrorException(details);
+
+        return new HttpException(EXCEPTION_REASONS.HTTP_ERROR, details);
+    }
+
+    /**
+     * Gets the number of seconds until a rate limited request may be sent again
+     * @param response The 429 response
+     * @private
+     */
+    private getRetryAfter(response: TransportResponse): number{
+        const retryAfter = parseInt(response.headers["retry-after"]);
+        if(!isNaN(retryAfter))
+            return retryAfter;
+
+        const reset = parseInt(response.headers["ratelimit-reset"]);
+        if(!isNaN(reset))
+            return Math.max(0, Math.ceil(reset - Date.now() / 1000));
+
+        return 0;
+    }
+
+    /**
+     * Builds the full request URL. Array values are encoded as repeated parameters (user_id=a&user_id=b), undefined values are omitted.
+     * @param endpoint The Helix endpoint, e.g. "/channels/commercial"
+     * @param [query] The query parameters of the request
+     * @private
+     */
+    private buildURL(endpoint: string, query?: HelixQuery): string{
+        const parameters = new URLSearchParams();
+
+        for(const [key, value] of Object.entries(query ?? {})){
+            const values = Array.isArray(value) ? value : [value];
+
+            for(const entry of values){
+                if(isUndefined(entry))
+                    continue;
+
+                parameters.append(key, entry instanceof Date ? entry.toISOString() : String(entry));
+            }
+        }
+
+        const queryString = parameters.toString();
+        return `${this._baseUrl}${endpoint}${queryString.length === 0 ? "" : `?${queryString}`}`;
+    }
+
+    /**
+     * Resolves the token, the headers and the rate limit bucket of the request. Requests of token type none are sent without an Authorization header.
+     * @param tokenType The type of token that is accepted by the endpoint
+     * @param [jwt] The JWT for requests of token type jwt
+     * @private
+     */
+    private resolveAuthorization(tokenType: TokenType, jwt?: string): Authorization{
+        const headers: Record<string, string> = {"Client-Id": this._tokenHandler.clientId};
+
+        if(tokenType === TOKEN_TYPES.NONE)
+            return {headers};
+
+        if(tokenType === TOKEN_TYPES.JWT){
+            if(!isDefined(jwt))
+                throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `No token of type "${tokenType}" available for this request!`);
+
+            headers["Authorization"] = `Bearer ${jwt}`;
+            return {headers, token: jwt};
+        }
+
+        const useUserToken = tokenType === TOKEN_TYPES.USER || (tokenType === TOKEN_TYPES.ANY && isDefined(this._tokenHandler.userAccessToken));
+        const token = useUserToken ? this._tokenHandler.userAccessToken : this._tokenHandler.appAccessToken;
+
+        if(!isDefined(token))
+            throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `No token of type "${tokenType}" available for this request!`);
+
+        headers["Authorization"] = `Bearer ${token}`;
+
+        return {
+            headers,
+            token,
+            tokenType: useUserToken ? TOKEN_TYPES.USER : TOKEN_TYPES.APP,
+            bucket: useUserToken ? this._tokenHandler.userRateLimit : this._tokenHandler.appRateLimit
+        };
+    }
+}
+
+
+
+export const HTTP_METHODS = {
+    GET: "GET",
+    POST: "POST",
+    PUT: "PUT",
+    PATCH: "PATCH",
+    DELETE: "DELETE"
+} as const;
+export type HttpMethod = ObjectValues<typeof HTTP_METHODS>;
+
+export const TOKEN_TYPES = {
+    /** Only a User Access Token is accepted */
+    USER: "user",
+    /** Only an App Access Token is accepted */
+    APP: "app",
+    /** User Access Token or App Access Token, the User Access Token is preferred */
+    ANY: "any",
+    /** A JWT that was signed by the extension (see Extensions calls) */
+    JWT: "jwt",
+    /** The endpoint does not require any authorization */
+    NONE: "none"
+} as const;
+export type TokenType = ObjectValues<typeof TOKEN_TYPES>;
+
+export const VALIDATION_MODES = {
+    /** Response bodies are not validated */
+    NONE: "none",
+    /** Mismatching response bodies are logged with console.warn and returned as they are */
+    LENIENT: "lenient",
+    /** Mismatching response bodies throw a ResponseValidationException */
+    STRICT: "strict"
+} as const;
+export type ValidationMode = ObjectValues<typeof VALIDATION_MODES>;
+
+export type HelixQueryValue = string | number | boolean | Date | undefined;
+export type HelixQuery = Record<string, HelixQueryValue | HelixQueryValue[]>;
+
+export type HelixRequest = {
+    /**
+     * The HTTP method of the request
+     */
+    method: HttpMethod,
+
+    /**
+     * The Helix endpoint relative to the base URL, e.g. "/channels/commercial"
+     */
+    endpoint: string,
+
+    /**
+     * The type of token the request should be authorized with
+     */
+    tokenType: TokenType,
+
+    /**
+     * The query parameters of the request. Arrays are encoded as repeated parameters, undefined values are omitted.
+     */
+    query?: HelixQuery,
+
+    /**
+     * The JSON body of the request
+     */
+    body?: unknown,
+
+    /**
+     * The JWT to authorize the request with, if tokenType is jwt
+     */
+    jwt?: string,
+
+    /**
+     * The schema the response body is validated against, unless validation is disabled
+     */
+    schema?: ZodTypeAny,
+
+    /**
+     * The scopes the endpoint accepts, one of them is required. Checked before sending, if scope checking is enabled.
+     */
+    scopes?: readonly string[]
+}
+
+export type HelixResponse = {
+    /**
+     * The data of the response
+     */
+    data: any,
+
+    /**
+     * Information used to page through the list of results
+     */
+    pagination?: {cursor?: string},
+
+    /**
+     * The total number of results, if the endpoint provides it
+     */
+    total?: number,
+
+    [key: string]: any
+}
+
+/**
+ * The resolved authorization of a single request
+ */
+type Authorization = {
+    headers: Record<string, string>,
+    token?: string,
+    tokenType?: typeof TOKEN_TYPES.USER | typeof TOKEN_TYPES.APP,
+    bucket?: RateLimitBucket
+}
@@ -0,0 +1,829 @@
+import {z as zod} from "zod";
+
+//Reference: https://dev.twitch.tv/docs/api/reference
+//All objects are strict, so fields that Twitch adds are reported as unrecognized keys as well
+
+/**
+ * Strict object schema of a Helix payload object
+ * @param shape The fields of the object
+ */
+export function helixObject<T extends zod.ZodRawShape>(shape: T){
+    return zod.object(shape).strict();
+}
+
+/**
+ * Schema of the usual Helix response body, which wraps the items in a data array
+ * @param item The schema of a single item of the data array
+ * @param [envelope] Additional fields of the response body, e.g. total
+ */
+export function helixResponse<T extends zod.ZodTypeAny, E extends zod.ZodRawShape = {}>(item: T, envelope?: E){
+    return helixObject({
+        data: zod.array(item),
+        pagination: paginationSchema.optional(),
+        ...(envelope ?? {} as E)
+    });
+}
+
+const paginationSchema = helixObject({cursor: zod.string().optional()});
+const dateRangeSchema = helixObject({started_at: zod.string(), ended_at: zod.string()});
+const imageSchema = helixObject({url_1x: zod.string(), url_2x: zod.string(), url_4x: zod.string()});
+const amountSchema = helixObject({value: zod.number(), decimal_places: zod.number(), currency: zod.string()});
+const userReferenceSchema = helixObject({user_id: zod.string(), user_login: zod.string(), user_name: zod.string()});
+
+//#region Payload objects
+
+export const commercialSchema = helixObject({
+    length: zod.number(),
+    message: zod.string(),
+    retry_after: zod.number()
+});
+
+export const extensionReportSchema = helixObject({
+    extension_id: zod.string(),
+    URL: zod.string(),
+    type: zod.string(),
+    date_range: dateRangeSchema
+});
+
+export const gameReportSchema = helixObject({
+    game_id: zod.string(),
+    URL: zod.string(),
+    type: zod.string(),
+    date_range: dateRangeSchema
+});
+
+export const bitsLeaderSchema = helixObject({
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    rank: zod.number(),
+    score: zod.number()
+});
+
+export const cheermoteSchema = helixObject({
+    prefix: zod.string(),
+    tiers: zod.array(helixObject({
+        min_bits: zod.number(),
+        id: zod.string(),
+        color: zod.string(),
+        images: zod.record(zod.record(zod.record(zod.string()))),
+        can_cheer: zod.boolean(),
+        show_in_bits_card: zod.boolean()
+    })),
+    type: zod.string(),
+    order: zod.number(),
+    last_updated: zod.string(),
+    is_charitable: zod.boolean()
+});
+
+export const extensionTransactionSchema = helixObject({
+    id: zod.string(),
+    timestamp: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    product_type: zod.string(),
+    product_data: helixObject({
+        domain: zod.string(),
+        sku: zod.string(),
+        cost: helixObject({amount: zod.number(), type: zod.string()}),
+        inDevelopment: zod.boolean(),
+        displayName: zod.string(),
+        expiration: zod.string(),
+        broadcast: zod.boolean()
+    })
+});
+
+export const channelSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    broadcaster_language: zod.string(),
+    game_id: zod.string(),
+    game_name: zod.string(),
+    title: zod.string(),
+    delay: zod.number(),
+    tags: zod.array(zod.string()).optional()
+});
+
+export const channelEditorSchema = helixObject({
+    user_id: zod.string(),
+    user_name: zod.string(),
+    created_at: zod.string()
+});
+
+export const customRewardSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    id: zod.string(),
+    title: zod.string(),
+    prompt: zod.string(),
+    cost: zod.number(),
+    image: imageSchema.nullable(),
+    default_image: imageSchema,
+    background_color: zod.string(),
+    is_enabled: zod.boolean(),
+    is_user_input_required: zod.boolean(),
+    max_per_stream_setting: helixObject({is_enabled: zod.boolean(), max_per_stream: zod.number()}),
+    max_per_user_per_stream_setting: helixObject({is_enabled: zod.boolean(), max_per_user_per_stream: zod.number()}),
+    global_cooldown_setting: helixObject({is_enabled: zod.boolean(), global_cooldown_seconds: zod.number()}),
+    is_paused: zod.boolean(),
+    is_in_stock: zod.boolean(),
+    should_redemptions_skip_request_queue: zod.boolean(),
+    redemptions_redeemed_current_stream: zod.number().nullable(),
+    cooldown_expires_at: zod.string().nullable()
+});
+
+export const redemptionSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    id: zod.string(),
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    user_input: zod.string(),
+    status: zod.enum(["CANCELED", "FULFILLED", "UNFULFILLED"]),
+    redeemed_at: zod.string(),
+    reward: helixObject({id: zod.string(), title: zod.string(), prompt: zod.string(), cost: zod.number()})
+});
+
+export const charityCampaignSchema = helixObject({
+    id: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    charity_name: zod.string(),
+    charity_description: zod.string(),
+    charity_logo: zod.string(),
+    charity_website: zod.string(),
+    current_amount: amountSchema,
+    target_amount: amountSchema
+});
+
+export const charityDonationSchema = helixObject({
+    id: zod.string(),
+    campaign_id: zod.string(),
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    amount: amountSchema
+});
+
+export const chatterSchema = userReferenceSchema;
+
+export const emoteSchema = helixObject({
+    id: zod.string(),
+    name: zod.string(),
+    images: imageSchema,
+    tier: zod.string().optional(),
+    emote_type: zod.string().optional(),
+    emote_set_id: zod.string().optional(),
+    owner_id: zod.string().optional(),
+    format: zod.array(zod.string()),
+    scale: zod.array(zod.string()),
+    theme_mode: zod.array(zod.string())
+});
+
+export const chatBadgeSchema = helixObject({
+    set_id: zod.string(),
+    versions: zod.array(helixObject({
+        id: zod.string(),
+        image_url_1x: zod.string(),
+        image_url_2x: zod.string(),
+        image_url_4x: zod.string(),
+        title: zod.string().optional(),
+        description: zod.string().optional(),
+        click_action: zod.string().nullable().optional(),
+        click_url: zod.string().nullable().optional()
+    }))
+});
+
+export const chatSettingsSchema = helixObject({
+    broadcaster_id: zod.string(),
+    emote_mode: zod.boolean(),
+    follower_mode: zod.boolean(),
+    follower_mode_duration: zod.number().nullable(),
+    moderator_id: zod.string().optional(),
+    non_moderator_chat_delay: zod.boolean().optional(),
+    non_moderator_chat_delay_duration: zod.number().nullable().optional(),
+    slow_mode: zod.boolean(),
+    slow_mode_wait_time: zod.number().nullable(),
+    subscriber_mode: zod.boolean(),
+    unique_chat_mode: zod.boolean()
+});
+
+export const chatColorSchema = helixObject({
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    color: zod.string()
+});
+
+export const createdClipSchema = helixObject({
+    id: zod.string(),
+    edit_url: zod.string()
+});
+
+export const clipSchema = helixObject({
+    id: zod.string(),
+    url: zod.string(),
+    embed_url: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_name: zod.string(),
+    creator_id: zod.string(),
+    creator_name: zod.string(),
+    video_id: zod.string(),
+    game_id: zod.string(),
+    language: zod.string(),
+    title: zod.string(),
+    view_count: zod.number(),
+    created_at: zod.string(),
+    thumbnail_url: zod.string(),
+    duration: zod.number(),
+    vod_offset: zod.number().nullable()
+});
+
+export const codeStatusSchema = helixObject({
+    code: zod.string(),
+    status: zod.string()
+});
+
+export const dropEntitlementSchema = helixObject({
+    id: zod.string(),
+    benefit_id: zod.string(),
+    timestamp: zod.string(),
+    user_id: zod.string(),
+    game_id: zod.string(),
+    fulfillment_status: zod.enum(["CLAIMED", "FULFILLED"]),
+    last_updated: zod.string()
+});
+
+export const extensionLiveChannelSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_name: zod.string(),
+    game_id: zod.string(),
+    game_name: zod.string(),
+    title: zod.string()
+});
+
+export const extensionSecretSchema = helixObject({
+    format_version: zod.number(),
+    secrets: zod.array(helixObject({content: zod.string(), active_at: zod.string(), expires_at: zod.string()}))
+});
+
+const extensionViewSchema = helixObject({
+    viewer_url: zod.string(),
+    height: zod.number().optional(),
+    aspect_width: zod.number().optional(),
+    aspect_height: zod.number().optional(),
+    aspect_ratio_x: zod.number().optional(),
+    aspect_ratio_y: zod.number().optional(),
+    autoscale: zod.boolean().optional(),
+    scale_pixels: zod.number().optional(),
+    target_height: zod.number().optional(),
+    size: zod.number().optional(),
+    zoom: zod.boolean().optional(),
+    zoom_pixels: zod.number().optional(),
+    can_link_external_content: zod.boolean().optional()
+});
+
+export const extensionSchema = helixObject({
+    author_name: zod.string(),
+    bits_enabled: zod.boolean(),
+    can_install: zod.boolean(),
+    configuration_location: zod.string(),
+    description: zod.string(),
+    eula_tos_url: zod.string(),
+    has_chat_support: zod.boolean(),
+    icon_url: zod.string(),
+    icon_urls: zod.record(zod.string()),
+    id: zod.string(),
+    name: zod.string(),
+    privacy_policy_url: zod.string(),
+    request_identity_link: zod.boolean(),
+    screenshot_urls: zod.array(zod.string()),
+    state: zod.string(),
+    subscriptions_support_level: zod.string(),
+    summary: zod.string(),
+    support_email: zod.string(),
+    version: zod.string(),
+    viewer_summary: zod.string(),
+    views: helixObject({
+        mobile: extensionViewSchema.optional(),
+        panel: extensionViewSchema.optional(),
+        video_overlay: extensionViewSchema.optional(),
+        component: extensionViewSchema.optional(),
+        config: extensionViewSchema.optional()
+    }),
+    allowlisted_config_urls: zod.array(zod.string()),
+    allowlisted_panel_urls: zod.array(zod.string())
+});
+
+export const extensionBitsProductSchema = helixObject({
+    sku: zod.string(),
+    cost: helixObject({amount: zod.number(), type: zod.string()}),
+    in_development: zod.boolean(),
+    display_name: zod.string(),
+    expiration: zod.string(),
+    is_broadcast: zod.boolean()
+});
+
+export const eventsubSubscriptionSchema = helixObject({
+    id: zod.string(),
+    status: zod.string(),
+    type: zod.string(),
+    version: zod.string(),
+    condition: zod.record(zod.string()),
+    created_at: zod.string(),
+    transport: helixObject({
+        method: zod.enum(["webhook", "websocket"]),
+        callback: zod.string().optional(),
+        session_id: zod.string().optional(),
+        connected_at: zod.string().optional(),
+        disconnected_at: zod.string().optional()
+    }),
+    cost: zod.number()
+});
+
+export const gameSchema = helixObject({
+    id: zod.string(),
+    name: zod.string(),
+    box_art_url: zod.string(),
+    igdb_id: zod.string()
+});
+
+export const creatorGoalSchema = helixObject({
+    id: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_name: zod.string(),
+    broadcaster_login: zod.string(),
+    type: zod.string(),
+    description: zod.string(),
+    current_amount: zod.number(),
+    target_amount: zod.number(),
+    created_at: zod.string()
+});
+
+const hypeTrainContributionSchema = helixObject({
+    total: zod.number(),
+    type: zod.enum(["BITS", "SUBS", "OTHER"]),
+    user: zod.string()
+});
+
+export const hypeTrainEventSchema = helixObject({
+    id: zod.string(),
+    event_type: zod.string(),
+    event_timestamp: zod.string(),
+    version: zod.string(),
+    event_data: helixObject({
+        broadcaster_id: zod.string(),
+        cooldown_end_time: zod.string(),
+        expires_at: zod.string(),
+        goal: zod.number(),
+        id: zod.string(),
+        last_contribution: hypeTrainContributionSchema,
+        level: zod.number(),
+        started_at: zod.string(),
+        top_contributions: zod.array(hypeTrainContributionSchema),
+        total: zod.number()
+    })
+});
+
+export const autoModStatusSchema = helixObject({
+    msg_id: zod.string(),
+    is_permitted: zod.boolean()
+});
+
+export const autoModSettingsSchema = helixObject({
+    broadcaster_id: zod.string(),
+    moderator_id: zod.string(),
+    overall_level: zod.number().nullable(),
+    disability: zod.number(),
+    aggression: zod.number(),
+    sexuality_sex_or_gender: zod.number(),
+    misogyny: zod.number(),
+    bullying: zod.number(),
+    swearing: zod.number(),
+    race_ethnicity_or_religion: zod.number(),
+    sex_based_terms: zod.number()
+});
+
+export const bannedUserSchema = helixObject({
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    expires_at: zod.string(),
+    created_at: zod.string(),
+    reason: zod.string(),
+    moderator_id: zod.string(),
+    moderator_login: zod.string(),
+    moderator_name: zod.string()
+});
+
+export const banSchema = helixObject({
+    broadcaster_id: zod.string(),
+    moderator_id: zod.string(),
+    user_id: zod.string(),
+    created_at: zod.string(),
+    end_time: zod.string().nullable()
+});
+
+export const blockedTermSchema = helixObject({
+    broadcaster_id: zod.string(),
+    moderator_id: zod.string(),
+    id: zod.string(),
+    text: zod.string(),
+    created_at: zod.string(),
+    updated_at: zod.string(),
+    expires_at: zod.string().nullable()
+});
+
+export const moderatorSchema = userReferenceSchema;
+
+export const vipSchema = userReferenceSchema;
+
+export const shieldModeStatusSchema = helixObject({
+    is_active: zod.boolean(),
+    moderator_id: zod.string(),
+    moderator_login: zod.string(),
+    moderator_name: zod.string(),
+    last_activated_at: zod.string()
+});
+
+export const pollSchema = helixObject({
+    id: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_name: zod.string(),
+    broadcaster_login: zod.string(),
+    title: zod.string(),
+    choices: zod.array(helixObject({
+        id: zod.string(),
+        title: zod.string(),
+        votes: zod.number(),
+        channel_points_votes: zod.number(),
+        bits_votes: zod.number()
+    })),
+    bits_voting_enabled: zod.boolean(),
+    bits_per_vote: zod.number(),
+    channel_points_voting_enabled: zod.boolean(),
+    channel_points_per_vote: zod.number(),
+    status: zod.enum(["ACTIVE", "COMPLETED", "TERMINATED", "ARCHIVED", "MODERATED", "INVALID"]),
+    duration: zod.number(),
+    started_at: zod.string(),
+    ended_at: zod.string().nullable()
+});
+
+export const predictionSchema = helixObject({
+    id: zod.string(),
+    broadcaster_id: zod.string(),
+    broadcaster_name: zod.string(),
+    broadcaster_login: zod.string(),
+    title: zod.string(),
+    winning_outcome_id: zod.string().nullable(),
+    outcomes: zod.array(helixObject({
+        id: zod.string(),
+        title: zod.string(),
+        users: zod.number(),
+        channel_points: zod.number(),
+        top_predictors: zod.array(helixObject({
+            user_id: zod.string(),
+            user_name: zod.string(),
+            user_login: zod.string(),
+            channel_points_used: zod.number(),
+            channel_points_won: zod.number().nullable()
+        })).nullable(),
+        color: zod.enum(["BLUE", "PINK"])
+    })),
+    prediction_window: zod.number(),
+    status: zod.enum(["ACTIVE", "CANCELED", "LOCKED", "RESOLVED"]),
+    created_at: zod.string(),
+    ended_at: zod.string().nullable(),
+    locked_at: zod.string().nullable()
+});
+
+export const raidSchema = helixObject({
+    created_at: zod.string(),
+    is_mature: zod.boolean()
+});
+
+export const categorySchema = helixObject({
+    box_art_url: zod.string(),
+    name: zod.string(),
+    id: zod.string()
+});
+
+export const searchedChannelSchema = helixObject({
+    broadcaster_language: zod.string(),
+    broadcaster_login: zod.string(),
+    display_name: zod.string(),
+    game_id: zod.string(),
+    game_name: zod.string(),
+    id: zod.string(),
+    is_live: zod.boolean(),
+    tag_ids: zod.array(zod.string()),
+    tags: zod.array(zod.string()).optional(),
+    thumbnail_url: zod.string(),
+    title: zod.string(),
+    started_at: zod.string()
+});
+
+export const soundtrackTrackSchema = helixObject({
+    album: helixObject({id: zod.string(), image_url: zod.string(), name: zod.string()}),
+    artists: zod.array(helixObject({creator_channel_id: zod.string(), id: zod.string(), name: zod.string()})),
+    duration: zod.number(),
+    id: zod.string(),
+    isrc: zod.string(),
+    title: zod.string()
+});
+
+export const soundtrackCurrentTrackSchema = helixObject({
+    track: soundtrackTrackSchema,
+    source: helixObject({
+        content_type: zod.enum(["PLAYLIST", "STATION"]),
+        id: zod.string(),
+        image_url: zod.string(),
+        soundtrack_url: zod.string(),
+        spotify_url: zod.string(),
+        title: zod.string()
+    })
+});
+
+export const soundtrackPlaylistSchema = helixObject({
+    id: zod.string(),
+    title: zod.string(),
+    description: zod.string(),
+    image_url: zod.string()
+});
+
+export const streamKeySchema = helixObject({
+    stream_key: zod.string()
+});
+
+export const streamSchema = helixObject({
+    id: zod.string(),
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    game_id: zod.string(),
+    game_name: zod.string(),
+    type: zod.string(),
+    title: zod.string(),
+    tags: zod.array(zod.string()).optional(),
+    viewer_count: zod.number(),
+    started_at: zod.string(),
+    language: zod.string(),
+    thumbnail_url: zod.string(),
+    tag_ids: zod.array(zod.string()).nullable(),
+    is_mature: zod.boolean()
+});
+
+export const createdStreamMarkerSchema = helixObject({
+    id: zod.string(),
+    created_at: zod.string(),
+    position_seconds: zod.number(),
+    description: zod.string()
+});
+
+export const streamMarkersSchema = helixObject({
+    user_id: zod.string(),
+    user_name: zod.string(),
+    user_login: zod.string(),
+    videos: zod.array(helixObject({
+        video_id: zod.string(),
+        markers: zod.array(helixObject({
+            id: zod.string(),
+            created_at: zod.string(),
+            description: zod.string(),
+            position_seconds: zod.number(),
+            url: zod.string()
+        }))
+    }))
+});
+
+export const broadcasterSubscriptionSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    gifter_id: zod.string(),
+    gifter_login: zod.string(),
+    gifter_name: zod.string(),
+    is_gift: zod.boolean(),
+    plan_name: zod.string(),
+    tier: zod.enum(["1000", "2000", "3000"]),
+    user_id: zod.string(),
+    user_name: zod.string(),
+    user_login: zod.string()
+});
+
+export const userSubscriptionSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    gifter_id: zod.string().optional(),
+    gifter_login: zod.string().optional(),
+    gifter_name: zod.string().optional(),
+    is_gift: zod.boolean(),
+    tier: zod.enum(["1000", "2000", "3000"])
+});
+
+export const streamTagSchema = helixObject({
+    tag_id: zod.string(),
+    is_auto: zod.boolean(),
+    localization_names: zod.record(zod.string()),
+    localization_descriptions: zod.record(zod.string())
+});
+
+const teamFields = {
+    background_image_url: zod.string().nullable(),
+    banner: zod.string().nullable(),
+    created_at: zod.string(),
+    updated_at: zod.string(),
+    info: zod.string(),
+    thumbnail_url: zod.string(),
+    team_name: zod.string(),
+    team_display_name: zod.string(),
+    id: zod.string()
+};
+
+export const channelTeamSchema = helixObject({
+    broadcaster_id: zod.string(),
+    broadcaster_login: zod.string(),
+    broadcaster_name: zod.string(),
+    ...teamFields
+});
+
+export const teamSchema = helixObject({
+    users: zod.array(userReferenceSchema),
+    ...teamFields
+});
+
+export const userSchema = helixObject({
+    id: zod.string(),
+    login: zod.string(),
+    display_name: zod.string(),
+    type: zod.enum(["admin", "global_mod", "staff", ""]),
+    broadcaster_type: zod.enum(["affiliate", "partner", ""]),
+    description: zod.string(),
+    profile_image_url: zod.string(),
+    offline_image_url: zod.string(),
+    view_count: zod.number(),
+    email: zod.string().optional(),
+    created_at: zod.string()
+});
+
+export const userFollowSchema = helixObject({
+    from_id: zod.string(),
+    from_login: zod.string(),
+    from_name: zod.string(),
+    to_id: zod.string(),
+    to_login: zod.string(),
+    to_name: zod.string(),
+    followed_at: zod.string()
+});
+
+export const blockedUserSchema = helixObject({
+    user_id: zod.string(),
+    user_login: zod.string(),
+    display_name: zod.string()
+});
+
+export const userExtensionSchema = helixObject({
+    id: zod.string(),
+    version: zod.string(),
+    name: zod.string(),
+    can_activate: zod.boolean(),
+    type: zod.array(zod.string())
+});
+
+const activeExtensionSchema = helixObject({
+    active: zod.boolean(),
+    id: zod.string().optional(),
+    version: zod.string().optional(),
+    name: zod.string().optional(),
+    x: zod.number().optional(),
+    y: zod.number().optional()
+});
+
+export const activeExtensionsSchema = helixObject({
+    panel: zod.record(activeExtensionSchema),
+    overlay: zod.record(activeExtensionSchema),
+    component: zod.record(activeExtensionSchema)
+});
+
+export const videoSchema = helixObject({
+    id: zod.string(),
+    stream_id: zod.string().nullable(),
+    user_id: zod.string(),
+    user_login: zod.string(),
+    user_name: zod.string(),
+    title: zod.string(),
+    description: zod.string(),
+    created_at: zod.string(),
+    published_at: zod.string(),
+    url: zod.string(),
+    thumbnail_url: zod.string(),
+    viewable: zod.string(),
+    view_count: zod.number(),
+    language: zod.string(),
+    type: zod.enum(["archive", "highlight", "upload"]),
+    duration: zod.string(),
+    muted_segments: zod.array(helixObject({duration: zod.number(), offset: zod.number()})).nullable()
+});
+
+//#endregion
+
+/**
+ * Schemas of the response bodies, by the TwitchAPI method that requests them. Methods whose endpoints respond with 204 No Content have no schema.
+ */
+export const RESPONSE_SCHEMAS = {
+    startCommercial: helixResponse(commercialSchema),
+    getExtensionAnalytics: helixResponse(extensionReportSchema),
+    getGameAnalytics: helixResponse(gameReportSchema),
+    getBitsLeaderboards: helixResponse(bitsLeaderSchema, {date_range: dateRangeSchema, total: zod.number()}),
+    getCheermotes: helixResponse(cheermoteSchema),
+    getExtensionTransactions: helixResponse(extensionTransactionSchema),
+    getChannelInformation: helixResponse(channelSchema),
+    getChannelEditors: helixResponse(channelEditorSchema),
+    createCustomReward: helixResponse(customRewardSchema),
+    getCustomRewards: helixResponse(customRewardSchema),
+    getCustomRewardRedemptions: helixResponse(redemptionSchema),
+    updateCustomReward: helixResponse(customRewardSchema),
+    updateRedemptionStatus: helixResponse(redemptionSchema),
+    getCharityCampaign: helixResponse(charityCampaignSchema),
+    getCharityCampaignDonations: helixResponse(charityDonationSchema),
+    getChatters: helixResponse(chatterSchema, {total: zod.number()}),
+    getChannelEmotes: helixResponse(emoteSchema, {template: zod.string()}),
+    getGlobalEmotes: helixResponse(emoteSchema, {template: zod.string()}),
+    getEmoteSets: helixResponse(emoteSchema, {template: zod.string()}),
+    getChannelChatBadges: helixResponse(chatBadgeSchema),
+    getGlobalChatBadges: helixResponse(chatBadgeSchema),
+    getChatSettings: helixResponse(chatSettingsSchema),
+    updateChatSettings: helixResponse(chatSettingsSchema),
+    getUsersChatColor: helixResponse(chatColorSchema),
+    createClip: helixResponse(createdClipSchema),
+    getClips: helixResponse(clipSchema),
+    getCodeStatus: helixResponse(codeStatusSchema),
+    getDropEntitlements: helixResponse(dropEntitlementSchema),
+    redeemCode: helixResponse(codeStatusSchema),
+    //This endpoint returns the cursor as a string instead of a pagination object
+    getExtensionLiveChannels: helixObject({data: zod.array(extensionLiveChannelSchema), pagination: zod.string().optional()}),
+    getExtensionSecrets: helixResponse(extensionSecretSchema),
+    createExtensionSecret: helixResponse(extensionSecretSchema),
+    getExtensions: helixResponse(extensionSchema),
+    getReleasedExtensions: helixResponse(extensionSchema),
+    getExtensionBitsProducts: helixResponse(extensionBitsProductSchema),
+    createEventsubSubscription: helixResponse(eventsubSubscriptionSchema, {total: zod.number(), total_cost: zod.number(), max_total_cost: zod.number()}),
+    getEventsubSubscription: helixResponse(eventsubSubscriptionSchema, {total: zod.number(), total_cost: zod.number(), max_total_cost: zod.number()}),
+    getTopGames: helixResponse(gameSchema),
+    getGames: helixResponse(gameSchema),
+    getCreatorGoals: helixResponse(creatorGoalSchema),
+    getHypeTrainEvents: helixResponse(hypeTrainEventSchema),
+    checkAutoModStatus: helixResponse(autoModStatusSchema),
+    getAutoModSettings: helixResponse(autoModSettingsSchema),
+    updateAutoModSettings: helixResponse(autoModSettingsSchema),
+    getBannedUsers: helixResponse(bannedUserSchema),
+    banUser: helixResponse(banSchema),
+    getBlockedTerms: helixResponse(blockedTermSchema),
+    addBlockedTerm: helixResponse(blockedTermSchema),
+    getModerators: helixResponse(moderatorSchema),
+    getVIPs: helixResponse(vipSchema),
+    updateShieldModeStatus: helixResponse(shieldModeStatusSchema),
+    getShieldModeStatus: helixResponse(shieldModeStatusSchema),
+    getPolls: helixResponse(pollSchema),
+    createPoll: helixResponse(pollSchema),
+    endPoll: helixResponse(pollSchema),
+    getPredictions: helixResponse(predictionSchema),
+    createPrediction: helixResponse(predictionSchema),
+    endPrediction: helixResponse(predictionSchema),
+    startRaid: helixResponse(raidSchema),
+    getChannelICalendar: zod.string(),
+    searchCategories: helixResponse(categorySchema),
+    searchChannels: helixResponse(searchedChannelSchema),
+    getSoundtrackCurrentTrack: helixResponse(soundtrackCurrentTrackSchema),
+    getSoundtrackPlaylist: helixResponse(soundtrackTrackSchema),
+    getSoundtrackPlaylists: helixResponse(soundtrackPlaylistSchema),
+    getStreamKey: helixResponse(streamKeySchema),
+    getStreams: helixResponse(streamSchema),
+    getFollowedStreams: helixResponse(streamSchema),
+    createStreamMarker: helixResponse(createdStreamMarkerSchema),
+    getStreamMarkers: helixResponse(streamMarkersSchema),
+    getBroadcasterSubscriptions: helixResponse(broadcasterSubscriptionSchema, {total: zod.number(), points: zod.number()}),
+    checkUserSubscription: helixResponse(userSubscriptionSchema),
+    getAllStreamTags: helixResponse(streamTagSchema),
+    getStreamTags: helixResponse(streamTagSchema),
+    getChannelTeams: helixResponse(channelTeamSchema),
+    getTeams: helixResponse(teamSchema),
+    getUsers: helixResponse(userSchema),
+    updateUser: helixResponse(userSchema),
+    getUsersFollows: helixResponse(userFollowSchema, {total: zod.number()}),
+    getUserBlockList: helixResponse(blockedUserSchema),
+    getUserExtensions: helixResponse(userExtensionSchema),
+    getUserActiveExtensions: helixObject({data: activeExtensionsSchema}),
+    getVideos: helixResponse(videoSchema),
+    deleteVideos: helixResponse(zod.string())
+} as const;
@@ -0,0 +1,70 @@
+import {HTTP_METHODS, HttpMethod} from "./request-handler";
+import {HttpException, NetworkException} from "./exceptions";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelay: 500,
+    maxDelay: 10000,
+    retryNonIdempotent: false
+}
+
+/**
+ * Determines whether a failed request should be sent again.
+ * Rate limited requests (429) were rejected by Twitch before processing, so they are retried regardless of the method.
+ * Server errors (5xx) and network errors are only retried for idempotent methods, unless retryNonIdempotent is set.
+ * @param err The error the request failed with
+ * @param method The HTTP method of the failed request
+ * @param policy The retry policy of the request
+ */
+export function isRetryable(err: unknown, method: HttpMethod, policy: RetryPolicy): boolean{
+    let isTransient: boolean;
+
+    if(err instanceof HttpException){
+        if(err.status === 429)
+            return true;
+
+        isTransient = err.status >= 500;
+    }else{
+        //Requests that failed without any response (connection resets, timeouts, ...)
+        isTransient = err instanceof NetworkException;
+    }
+
+    //Requests with these methods have the same effect no matter how often they are sent
+    const idempotentMethods: HttpMethod[] = [HTTP_METHODS.GET, HTTP_METHODS.PUT, HTTP_METHODS.DELETE];
+
+    return isTransient && (policy.retryNonIdempotent || idempotentMethods.includes(method));
+}
+
+/**
+ * Calculates the delay before the next attempt, using exponential backoff with full jitter
+ * @param attempt The number of the attempt that just failed, starting at 1
+ * @param policy The retry policy of the request
+ * @returns The delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number{
+    const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+    return Math.floor(Math.random() * delay);
+}
+
+
+export type RetryPolicy = {
+    /**
+     * The maximum number of attempts, including the first one. 1 disables retries.
+     */
+    maxAttempts: number,
+
+    /**
+     * The delay (milliseconds) the exponential backoff starts with
+     */
+    baseDelay: number,
+
+    /**
+     * The upper bound (milliseconds) of the delay between two attempts
+     */
+    maxDelay: number,
+
+    /**
+     * A Boolean that determines whether POST and PATCH requests (e.g. createClip, startRaid) are retried on server and network errors
+     */
+    retryNonIdempotent: boolean
+}
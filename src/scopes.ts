@@ -0,0 +1,193 @@
+//Reference: https://dev.twitch.tv/docs/authentication/scopes
+/**
+ * The scopes the TwitchAPI methods require, by method name. A method requires one of its listed scopes, methods without scopes accept any token.
+ * @NOTE Only required scopes are listed. Scopes that merely add fields to a response (e.g. user:read:email on getUsers) are omitted.
+ */
+export const SCOPES = {
+    //Ads
+    startCommercial: ["channel:edit:commercial"],
+
+    //Analytics
+    getExtensionAnalytics: ["analytics:read:extensions"],
+    getGameAnalytics: ["analytics:read:games"],
+
+    //Bits
+    getBitsLeaderboards: ["bits:read"],
+    getCheermotes: [],
+    getExtensionTransactions: [],
+
+    //Channel points
+    createCustomReward: ["channel:manage:redemptions"],
+    deleteCustomReward: ["channel:manage:redemptions"],
+    getCustomRewards: ["channel:read:redemptions", "channel:manage:redemptions"],
+    getCustomRewardRedemptions: ["channel:read:redemptions", "channel:manage:redemptions"],
+    updateCustomReward: ["channel:manage:redemptions"],
+    updateRedemptionStatus: ["channel:manage:redemptions"],
+
+    //Channels
+    getChannelInformation: [],
+    modifyChannelInformation: ["channel:manage:broadcast"],
+    getChannelEditors: ["channel:read:editors"],
+    getVIPs: ["channel:read:vips", "channel:manage:vips"],
+    addChannelVIP: ["channel:manage:vips"],
+    removeChannelVIP: ["channel:manage:vips"],
+
+    //Charity
+    getCharityCampaign: ["channel:read:charity"],
+    getCharityCampaignDonations: ["channel:read:charity"],
+
+    //Chat
+    getChatters: ["moderator:read:chatters"],
+    getChannelEmotes: [],
+    getGlobalEmotes: [],
+    getEmoteSets: [],
+    getChannelChatBadges: [],
+    getGlobalChatBadges: [],
+    getChatSettings: [],
+    updateChatSettings: ["moderator:manage:chat_settings"],
+    sendChatAnnouncement: ["moderator:manage:announcements"],
+    getUsersChatColor: [],
+    updateUserChatColor: ["user:manage:chat_color"],
+
+    //Clips
+    createClip: ["clips:edit"],
+    getClips: [],
+
+    //Entitlements
+    getCodeStatus: [],
+    getDropEntitlements: [],
+    redeemCode: [],
+
+    //EventSub, the scopes depend on the subscription type
+    createEventsubSubscription: [],
+    deleteEventsubSubscription: [],
+    getEventsubSubscription: [],
+
+    //Extensions
+    sendExtensionPubsubMessage: [],
+    getExtensionLiveChannels: [],
+    getExtensionSecrets: [],
+    createExtensionSecret: [],
+    sendExtensionChatMessage: [],
+    getExtensions: [],
+    getReleasedExtensions: [],
+    getExtensionBitsProducts: [],
+
+    //Games
+    getTopGames: [],
+    getGames: [],
+    getCategory: [],
+
+    //Goals
+    getCreatorGoals: ["channel:read:goals"],
+
+    //Hype train
+    getHypeTrainEvents: ["channel:read:hype_train"],
+
+    //Moderation
+    checkAutoModStatus: ["moderation:read"],
+    manageHeldAutoModMessages: ["moderator:manage:automod"],
+    getAutoModSettings: ["moderator:read:automod_settings", "moderator:manage:automod_settings"],
+    updateAutoModSettings: ["moderator:manage:automod_settings"],
+    getBannedUsers: ["moderation:read", "moderator:manage:banned_users"],
+    banUser: ["moderator:manage:banned_users"],
+    unbanUser: ["moderator:manage:banned_users"],
+    getBlockedTerms: ["moderator:read:blocked_terms", "moderator:manage:blocked_terms"],
+    addBlockedTerm: ["moderator:manage:blocked_terms"],
+    removeBlockedTerm: ["moderator:manage:blocked_terms"],
+    deleteChatMessages: ["moderator:manage:chat_messages"],
+    getModerators: ["moderation:read"],
+    addChannelModerator: ["channel:manage:moderators"],
+    removeChannelModerator: ["channel:manage:moderators"],
+    updateShieldModeStatus: ["moderator:manage:shield_mode"],
+    getShieldModeStatus: ["moderator:read:shield_mode", "moderator:manage:shield_mode"],
+
+    //Polls
+    getPolls: ["channel:read:polls", "channel:manage:polls"],
+    createPoll: ["channel:manage:polls"],
+    endPoll: ["channel:manage:polls"],
+
+    //Predictions
+    getPredictions: ["channel:read:predictions", "channel:manage:predictions"],
+    createPrediction: ["channel:manage:predictions"],
+    endPrediction: ["channel:manage:predictions"],
+
+    //Raids
+    startRaid: ["channel:manage:raids"],
+    cancelRaid: ["channel:manage:raids"],
+
+    //Schedule
+    getChannelICalendar: [],
+
+    //Search
+    searchCategories: [],
+    searchChannels: [],
+
+    //Soundtrack
+    getSoundtrackCurrentTrack: [],
+    getSoundtrackPlaylist: [],
+    getSoundtrackPlaylists: [],
+
+    //Streams
+    getStreamKey: ["channel:read:stream_key"],
+    getStreams: [],
+    getFollowedStreams: ["user:read:follows"],
+    createStreamMarker: ["channel:manage:broadcast"],
+    getStreamMarkers: ["user:read:broadcast", "channel:manage:broadcast"],
+
+    //Subscriptions
+    getBroadcasterSubscriptions: ["channel:read:subscriptions"],
+    checkUserSubscription: ["user:read:subscriptions"],
+
+    //Tags
+    getAllStreamTags: [],
+    getStreamTags: [],
+    replaceStreamTags: ["channel:manage:broadcast"],
+
+    //Teams
+    getChannelTeams: [],
+    getTeams: [],
+
+    //Users
+    getUsers: [],
+    updateUser: ["user:edit"],
+    updateDescription: ["user:edit"],
+    getUsersFollows: [],
+    getFollowers: [],
+    getFollowees: [],
+    isFollowing: [],
+    getUserBlockList: ["user:read:blocked_users"],
+    blockUser: ["user:manage:blocked_users"],
+    unblockUser: ["user:manage:blocked_users"],
+    getUserExtensions: ["user:read:broadcast", "user:edit:broadcast"],
+    getUserActiveExtensions: [],
+
+    //Videos
+    getVideos: [],
+    deleteVideos: ["channel:manage:videos"],
+
+    //Whispers
+    sendWhisper: ["user:manage:whispers"]
+} as const;
+export type ScopedMethod = keyof typeof SCOPES;
+
+/**
+ * Computes the scopes a User Access Token needs for the given methods, e.g. for the authorize URL of an authorization flow.
+ * If a method accepts several scopes, a scope that is already required by another method is preferred, otherwise the first one is chosen.
+ * @param [methods] The methods the application calls. Defaults to all methods.
+ * @returns The scopes without duplicates
+ */
+export function getRequiredScopes(methods: ScopedMethod[] = Object.keys(SCOPES) as ScopedMethod[]): string[]{
+    const requirements: readonly (readonly string[])[] = methods.map((method)=> SCOPES[method]);
+    const scopes = new Set<string>();
+
+    for(const requirement of requirements)
+        if(requirement.length === 1)
+            scopes.add(requirement[0]);
+
+    for(const requirement of requirements)
+        if(requirement.length > 1 && !requirement.some((scope)=> scopes.has(scope)))
+            scopes.add(requirement[0]);
+
+    return [...scopes];
+}
@@ -1,8 +1,26 @@
-import axios from "axios";
+import {EventEmitter} from "events";
 import {z as zod} from "zod";
-import {isDefined, isUndefined} from "./utils";
+import {isDefined, isUndefined, sleep} from "./utils";
+import {RateLimitBucket} from "./rate-limit-bucket";
+import {Transport, TransportResponse, axiosTransport} from "./transport";
+import {HTTP_METHODS, HttpMethod, TOKEN_TYPES} from "./request-handler";
+import {Exception, EXCEPTION_REASONS, OAuthException} from "./exceptions";
+import {TokenStore} from "./token-store";
+import {ObjectValues} from "./types";
+
+export const OAUTH_BASE_URL = "https://id.twitch.tv/oauth2";
+
+export interface TokenHandler{
+    on<E extends keyof TokenHandlerEvents>(event: E, listener: TokenHandlerEvents[E]): this;
+    once<E extends keyof TokenHandlerEvents>(event: E, listener: TokenHandlerEvents[E]): this;
+    off<E extends keyof TokenHandlerEvents>(event: E, listener: TokenHandlerEvents[E]): this;
+    emit<E extends keyof TokenHandlerEvents>(event: E, ...args: Parameters<TokenHandlerEvents[E]>): boolean;
+}
 
-export class TokenHandler{
+/**
+ * Manages the tokens of the application and emits the events of TokenHandlerEvents, e.g. tokenHandler.on("refreshFailed", ...)
+ */
+export class TokenHandler extends EventEmitter{
 
     private readonly _clientId: string
     private _clientSecret?: string
@@ -18,6 +36,21 @@ export class TokenHandler{
     private readonly _initialUserAccessTokenRefresh: boolean;
     private readonly _initialAppAccessTokenRefresh: boolean;
 
+    private _validationInterval?: NodeJS.Timer;
+    private _userAccessTokenScopes?: {token: string, scopes: string[]};
+    private readonly _initialTokenValidation: boolean;
+    private readonly _expiringSoonThreshold: number;
+
+    private _userAccessTokenRenewal?: Promise<void>;
+    private _appAccessTokenRenewal?: Promise<void>;
+
+    private readonly _oauthBaseUrl: string;
+    private readonly _transport: Transport;
+    private readonly _store?: TokenStore;
+
+    private readonly _userRateLimit = new RateLimitBucket();
+    private readonly _appRateLimit = new RateLimitBucket();
+
     /**
      * Tokenhandler that makes token management easy
      * @param clientId The client identifier of the application that should be used for interaction with the Twitch API
@@ -29,18 +62,28 @@ export class TokenHandler{
      * @param [options.clientSecret] The applications secrets for auto App Access Token renewal/refresh
      * @param [options.refreshAppAccessToken] A Boolean that determines whether the App Access Token should be refreshed automatically
      * @param [options.clientSecret] A Boolean that determines whether the User Access Token should be refreshed automatically
+     * @param [options.oauthBaseUrl] The base URL of the OAuth API, e.g. of a local mock server. Defaults to https://id.twitch.tv/oauth2
+     * @param [options.transport] The transport the OAuth requests are sent with. Defaults to axios.
+     * @param [options.validateTokens] A Boolean that determines whether the tokens should be validated every hour, as Twitch requires it from applications that use User Access Tokens
+     * @param [options.onInvalidToken] Called when the hourly validation found a token to be invalid, e.g. because the user disconnected the application. Shorthand for a listener of the tokenInvalid event.
+     * @param [options.expiringSoonThreshold] The number of seconds before its expiration a token that is not refreshed automatically is reported with the tokenExpiringSoon event. Defaults to 2 hours.
+     * @param [options.store] The store the tokens are loaded from on init() and saved to after every refresh. Stored tokens replace the provided ones.
+     * @param [options.logMissingTokens] A Boolean that determines whether missing tokens are logged, e.g. the App Access Token of a handler that only manages the tokens of a user. Defaults to true.
      */
-    constructor(clientId: string, tokens?: {userAccessToken?: string, appAccessToken?: string, refreshToken?: string}, options?: {clientSecret?: string, refreshAppAccessToken?: boolean, refreshUserAccessToken?: boolean}){
+    constructor(clientId: string, tokens?: {userAccessToken?: string, appAccessToken?: string, refreshToken?: string}, options?: {clientSecret?: string, refreshAppAccessToken?: boolean, refreshUserAccessToken?: boolean, oauthBaseUrl?: string, transport?: Transport, validateTokens?: boolean, onInvalidToken?: (tokenType: ValidatedTokenType) => void, expiringSoonThreshold?: number, store?: TokenStore, logMissingTokens?: boolean}){
+        super();
         this._clientId = zod.string().min(10).parse(clientId)
 
-        if(isUndefined(tokens?.appAccessToken, options?.clientSecret, tokens?.userAccessToken, tokens?.refreshToken)){
-            console.error("You did not provide any token or the client secret! You wont be able to make any API calls except those that require a JWT (see Extensions calls)");
-        }else{
-            if(isUndefined(tokens?.appAccessToken, options?.clientSecret))
-                console.info("No App Access Token  or client secret provided. You will not be able to make API calls that only accept App Access Tokens!");
+        if(options?.logMissingTokens ?? true){
+            if(isUndefined(tokens?.appAccessToken, options?.clientSecret, tokens?.userAccessToken, tokens?.refreshToken, options?.store)){
+                console.error("You did not provide any token or the client secret! You wont be able to make any API calls except those that require a JWT (see Extensions calls)");
+            }else{
+                if(isUndefined(tokens?.appAccessToken, options?.clientSecret))
+                    console.info("No App Access Token  or client secret provided. You will not be able to make API calls that only accept App Access Tokens!");
 
-            if(isUndefined(tokens?.userAccessToken, tokens?.refreshToken))
-                console.info("No User Access Token or Refresh Token provided. You will not be able to make API calls that only accept User Access Tokens!");
+                if(isUndefined(tokens?.userAccessToken, tokens?.refreshToken))
+                    console.info("No User Access Token or Refresh Token provided. You will not be able to make API calls that only accept User Access Tokens!");
+            }
         }
 
 
@@ -51,8 +94,18 @@ export class TokenHandler{
         this._userAccessToken = tokens?.userAccessToken;
         this._appAccessToken = tokens?.appAccessToken;
 
-        this._initialUserAccessTokenRefresh = isDefined(tokens?.refreshToken) && (isDefined(options?.refreshUserAccessToken) && options!.refreshUserAccessToken!)
+        this._initialUserAccessTokenRefresh = (isDefined(tokens?.refreshToken) || isDefined(options?.store)) && (isDefined(options?.refreshUserAccessToken) && options!.refreshUserAccessToken!)
         this._initialAppAccessTokenRefresh = isDefined(options?.clientSecret) && (isDefined(options?.refreshAppAccessToken) && options!.refreshAppAccessToken!)
+
+        this._oauthBaseUrl = (options?.oauthBaseUrl ?? OAUTH_BASE_URL).replace(/\/+$/, "");
+        this._transport = options?.transport ?? axiosTransport;
+
+        this._initialTokenValidation = options?.validateTokens ?? false;
+        this._expiringSoonThreshold = options?.expiringSoonThreshold ?? 60 * 60 * 2;
+
+        if(isDefined(options?.onInvalidToken))
+            this.on("tokenInvalid", options!.onInvalidToken!);
+        this._store = options?.store;
     }
 
     /**
@@ -60,11 +113,17 @@ export class TokenHandler{
      */
     public async init(){
 
+        if(isDefined(this._store))
+            await this.loadTokens();
+
         if(this._initialAppAccessTokenRefresh)
             await this.refreshAppAccessToken();
 
         if(this._initialUserAccessTokenRefresh)
             await this.refreshUserAccessToken();
+
+        if(this._initialTokenValidation)
+            await this.startTokenValidation();
     }
 
     //#region API
@@ -75,6 +134,8 @@ export class TokenHandler{
     public stopUserTokenRefresh(){
         if(isDefined(this._refreshTokenInterval))
             clearInterval(this._refreshTokenInterval)
+
+        this._refreshTokenInterval = undefined;
     }
 
     /**
@@ -98,6 +159,8 @@ export class TokenHandler{
     public stopAppTokenRefresh(){
         if(isDefined(this._appAccessTokenInterval))
             clearInterval(this._appAccessTokenInterval)
+
+        this._appAccessTokenInterval = undefined;
     }
 
     /**
@@ -115,19 +178,186 @@ export class TokenHandler{
     }
 
     /**
-     * Renews/refreshes the User Access Token once (with the initial/current internal client secret)
+     * Stops the hourly token validation, if it is running
+     */
+    public stopTokenValidation(){
+        if(isDefined(this._validationInterval))
+            clearInterval(this._validationInterval)
+
+        this._validationInterval = undefined;
+    }
+
+    /**
+     * Validates the tokens once and starts the hourly token validation or restarts it, if it is already running
+     * @NOTE Tokens that turn out to be invalid are reported with the tokenInvalid event
+     */
+    public async startTokenValidation(){
+        this.stopTokenValidation();
+
+        await this.validateTokens();
+        this._validationInterval = setInterval(this.validateTokens.bind(this), 1000 * 60 * 60);
+    }
+
+    //Reference: https://dev.twitch.tv/docs/authentication/validate-tokens/
+    /**
+     * Validates the User Access Token and returns the information Twitch associates with it
+     * @throws Exception with reason UNAUTHORIZED if the token is missing or invalid
+     */
+    public async validateUserAccessToken(): Promise<TokenValidation>{
+        const token = this._userAccessToken;
+        const validation = await this.validateToken(token, TOKEN_TYPES.USER);
+
+        this._userAccessTokenScopes = {token: token!, scopes: validation.scopes};
+        return validation;
+    }
+
+    /**
+     * Gets the scopes the current User Access Token grants
+     * @NOTE The token is only validated once, the scopes are remembered until the token changes
+     * @throws Exception with reason UNAUTHORIZED if the token is missing or invalid
+     */
+    public async getUserAccessTokenScopes(): Promise<string[]>{
+        if(isUndefined(this._userAccessTokenScopes) || this._userAccessTokenScopes!.token !== this._userAccessToken)
+            await this.validateUserAccessToken();
+
+        return this._userAccessTokenScopes!.scopes;
+    }
+
+    //Reference: https://dev.twitch.tv/docs/authentication/validate-tokens/
+    /**
+     * Validates the App Access Token and returns the information Twitch associates with it
+     * @throws Exception with reason UNAUTHORIZED if the token is missing or invalid
+     */
+    public async validateAppAccessToken(): Promise<TokenValidation>{
+        return await this.validateToken(this._appAccessToken, TOKEN_TYPES.APP);
+    }
+
+    //Reference: https://dev.twitch.tv/docs/authentication/revoke-tokens/
+    /**
+     * Revokes the User Access Token, e.g. when the user disconnects their Twitch account.
+     * The refresh interval is stopped and the User Access Token and refresh token are cleared, even if Twitch could not be reached.
+     * @NOTE Revoking the token also invalidates its refresh token. Tokens Twitch already considers invalid are treated as revoked.
+     */
+    public async revokeUserAccessToken(){
+        const token = this._userAccessToken;
+
+        this.stopUserTokenRefresh();
+        this._userAccessToken = undefined;
+        this._refreshToken = undefined;
+        this._userAccessTokenScopes = undefined;
+        await this.saveTokens();
+
+        await this.revokeToken(token);
+    }
+
+    //Reference: https://dev.twitch.tv/docs/authentication/revoke-tokens/
+    /**
+     * Revokes the App Access Token. The refresh interval is stopped and the App Access Token is cleared, even if Twitch could not be reached.
+     * @NOTE A new App Access Token can be requested with startAppTokenRefresh(), as long as the client secret is set
+     */
+    public async revokeAppAccessToken(){
+        const token = this._appAccessToken;
+
+        this.stopAppTokenRefresh();
+        this._appAccessToken = undefined;
+        await this.saveTokens();
+
+        await this.revokeToken(token);
+    }
+
+    /**
+     * Renews/refreshes the App Access Token once (with the initial/current internal client secret)
+     * @NOTE Concurrent calls share a single refresh
      */
     public async renewAppAccessToken(){
-        await this.refreshAppAccessToken(true);
+        if(isUndefined(this._appAccessTokenRenewal))
+            this._appAccessTokenRenewal = this.refreshAppAccessToken(true).finally(()=> this._appAccessTokenRenewal = undefined);
+
+        await this._appAccessTokenRenewal;
     }
 
     /**
      * Renews/refreshes the User Access Token once (with the initial/current internal token information)
+     * @NOTE Concurrent calls share a single refresh
      */
     public async renewUserAccessToken(){
-        await this.refreshUserAccessToken(true);
+        if(isUndefined(this._userAccessTokenRenewal))
+            this._userAccessTokenRenewal = this.refreshUserAccessToken(true).finally(()=> this._userAccessTokenRenewal = undefined);
+
+        await this._userAccessTokenRenewal;
+    }
+
+    /**
+     * Replaces the User Access Token and the refresh token, e.g. with the tokens of an authorization flow
+     * @param tokens The new tokens
+     * @param tokens.accessToken The new User Access Token
+     * @param [tokens.refreshToken] The refresh token of the new User Access Token
+     * @param [tokens.expiresIn] The number of seconds until the User Access Token expires. If provided with a refresh token, the refresh interval is started.
+     */
+    public async setUserTokens(tokens: {accessToken: string, refreshToken?: string, expiresIn?: number}){
+        this._userAccessToken = tokens.accessToken;
+        this._refreshToken = tokens.refreshToken;
+
+        this.stopUserTokenRefresh();
+
+        if(isDefined(tokens.refreshToken, tokens.expiresIn))
+            this.scheduleUserTokenRefresh(tokens.expiresIn!);
+
+        await this.saveTokens();
     }
 
+    //Reference: https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#device-code-grant-flow
+    /**
+     * Obtains a User Access Token with the Device Code Grant flow, e.g. for bots on servers without a browser.
+     * The user has to open the verification URI and enter the user code on any device. Meanwhile, the token endpoint is polled in the interval Twitch requested.
+     * Once the user authorized the application, the tokens are set and the User Access Token refresh interval is started.
+     * @param scopes The scopes the user is asked to grant
+     * @param onVerification Called with the verification URI and user code the user needs, e.g. to print them
+     * @NOTE Applications of type "Public" have no client secret, so their refresh tokens can only be used once. The new refresh token of every refresh is kept.
+     */
+    public async authorizeDevice(scopes: string[], onVerification: (verification: DeviceVerification) => void | Promise<void>){
+        const deviceResponse = await this.sendOAuthRequest("/device", {body: {
+            client_id: this._clientId,
+            scopes: scopes.join(" ")
+        }})
+
+        if(deviceResponse.status >= 400)
+            throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `Device code request failed with ${deviceResponse.status}: ${deviceResponse.data?.message ?? ""}`);
+
+        const device = deviceResponse.data;
+        await onVerification({verificationUri: device.verification_uri, userCode: device.user_code, expiresIn: device.expires_in});
+
+        const expiresAt = Date.now() + device.expires_in * 1000;
+        let interval = device.interval;
+
+        while(Date.now() < expiresAt){
+            await sleep(interval * 1000);
+
+            const response = await this.sendOAuthRequest("/token", {body: {
+                client_id: this._clientId,
+                scopes: scopes.join(" "),
+                device_code: device.device_code,
+                grant_type: "urn:ietf:params:oauth:grant-type:device_code"
+            }})
+
+            if(response.status < 400){
+                await this.setUserTokens({accessToken: response.data.access_token, refreshToken: response.data.refresh_token, expiresIn: response.data.expires_in});
+                return;
+            }
+
+            switch(response.data?.message){
+                case "authorization_pending":
+                    continue;
+                case "slow_down":
+                    interval += 5;
+                    continue;
+                default:
+                    throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `Device authorization failed with ${response.status}: ${response.data?.message ?? ""}`);
+            }
+        }
+
+        throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, "The device code expired before the user authorized the application");
+    }
 
     get appAccessToken(): string | undefined{
         return this._appAccessToken;
@@ -149,6 +379,20 @@ export class TokenHandler{
         return this._refreshToken;
     }
 
+    /**
+     * The rate limit bucket of all requests authorized with the User Access Token
+     */
+    get userRateLimit(): RateLimitBucket{
+        return this._userRateLimit;
+    }
+
+    /**
+     * The rate limit bucket of all requests authorized with the App Access Token
+     */
+    get appRateLimit(): RateLimitBucket{
+        return this._appRateLimit;
+    }
+
     set appAccessToken(token: string | undefined){
         this._appAccessToken = token;
     }
@@ -203,17 +447,19 @@ export class TokenHandler{
     private async refreshAppAccessToken(refreshOnce?: boolean){
         try{
             if(isUndefined(this._clientSecret)){
-                console.error("Unable to start App Access token refresh interval due to missing client secret!")
+                this.reportRefreshFailure(TOKEN_TYPES.APP, REFRESH_FAILURE_REASONS.MISSING_CREDENTIALS, new Exception(EXCEPTION_REASONS.UNAUTHORIZED, "Unable to start App Access token refresh interval due to missing client secret!"));
                 return;
             }
 
-            const response = await axios.post("https://id.twitch.tv/oauth2/token",{
+            const response = await this.requestToken({
                 client_id: this._clientId,
                 client_secret: this._clientSecret,
                 grant_type: "client_credentials"
             })
 
-            this._appAccessToken = response.data.access_token;
+            this._appAccessToken = response.access_token;
+            await this.saveTokens();
+            this.emit("appTokenRefreshed", {accessToken: response.access_token, expiresIn: response.expires_in});
 
             if(isDefined(refreshOnce))
                 return;
@@ -223,7 +469,7 @@ export class TokenHandler{
 
             this._appAccessTokenInterval = setInterval(this.refreshAppAccessToken.bind(this), 1000 * 60 * 60 * 24 * 10);
         }catch(err: unknown){
-            console.error(err);
+            this.reportRefreshFailure(TOKEN_TYPES.APP, getRefreshFailureReason(err), err);
         }
     }
 
@@ -235,35 +481,300 @@ export class TokenHandler{
     private async refreshUserAccessToken(refreshOnce?: boolean){
         try{
             if(isUndefined(this._refreshToken)){
-                console.error("Unable to start User Access token refresh interval due to missing refresh token!")
+                this.reportRefreshFailure(TOKEN_TYPES.USER, REFRESH_FAILURE_REASONS.MISSING_CREDENTIALS, new Exception(EXCEPTION_REASONS.UNAUTHORIZED, "Unable to start User Access token refresh interval due to missing refresh token!"));
                 return;
             }
 
-            const response = await axios.post("https://id.twitch.tv/oauth2/token",{
+            const response = await this.requestToken({
                 client_id: this._clientId,
                 client_secret: this._clientSecret,
                 grant_type: "refresh_token",
                 refresh_token: this._refreshToken
             })
 
-            this._userAccessToken = response.data.access_token;
+            this._userAccessToken = response.access_token;
+            this._refreshToken = response.refresh_token ?? this._refreshToken;
+            await this.saveTokens();
+            this.emit("userTokenRefreshed", {accessToken: response.access_token, refreshToken: this._refreshToken!, expiresIn: response.expires_in});
 
             if(isDefined(refreshOnce))
                 return;
 
-            const expiresIn = response.data.expires_in * 1000;
+            this.scheduleUserTokenRefresh(response.expires_in);
+        }catch(err: unknown){
+            this.reportRefreshFailure(TOKEN_TYPES.USER, getRefreshFailureReason(err), err);
+        }
+    }
 
+    /**
+     * Starts the User Access Token refresh interval, which refreshes the token 1 hour prior to its expiration
+     * @param expiresIn The number of seconds until the User Access Token expires
+     * @private
+     */
+    private scheduleUserTokenRefresh(expiresIn: number){
+        if(this._refreshTokenInterval)
+            clearInterval(this._refreshTokenInterval);
 
-            if(this._refreshTokenInterval)
-                clearInterval(this._refreshTokenInterval);
-            
-            this._refreshTokenInterval = setInterval(this.refreshUserAccessToken.bind(this), expiresIn - (1000 * 60 * 60)); //1 hour prior to expiration
+        this._refreshTokenInterval = setInterval(this.refreshUserAccessToken.bind(this), Math.max(expiresIn * 1000 - (1000 * 60 * 60), 1000 * 60));
+    }
+
+    /**
+     * Emits the refreshFailed event, or logs the error if nobody listens to it
+     * @param tokenType The type of the token that could not be refreshed
+     * @param reason The reason of the failure
+     * @param error The error the refresh failed with
+     * @private
+     */
+    private reportRefreshFailure(tokenType: ValidatedTokenType, reason: RefreshFailureReason, error: unknown){
+        if(this.listenerCount("refreshFailed") > 0)
+            this.emit("refreshFailed", {tokenType, reason, error});
+        else
+            console.error(error);
+    }
+
+    /**
+     * Replaces the tokens with the ones of the token store, if it stored any
+     * @private
+     */
+    private async loadTokens(){
+        const tokens = await this._store!.load();
+        if(isUndefined(tokens))
+            return;
+
+        this._userAccessToken = tokens!.userAccessToken ?? this._userAccessToken;
+        this._refreshToken = tokens!.refreshToken ?? this._refreshToken;
+        this._appAccessToken = tokens!.appAccessToken ?? this._appAccessToken;
+    }
+
+    /**
+     * Saves the current tokens to the token store, if one is set. Failures are logged, so they do not interrupt the refresh.
+     * @private
+     */
+    private async saveTokens(){
+        if(isUndefined(this._store))
+            return;
+
+        try{
+            await this._store!.save({userAccessToken: this._userAccessToken, refreshToken: this._refreshToken, appAccessToken: this._appAccessToken});
         }catch(err: unknown){
             console.error(err);
         }
     }
 
+    /**
+     * Validates a token at the OAuth validation endpoint
+     * @param token The token to validate
+     * @param tokenType The type of the token, used for the error message
+     * @private
+     */
+    private async validateToken(token: string | undefined, tokenType: ValidatedTokenType): Promise<TokenValidation>{
+        const name = tokenType === TOKEN_TYPES.USER ? "User Access Token" : "App Access Token";
+
+        if(isUndefined(token))
+            throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `No ${name} available to validate`);
+
+        const response = await this.sendOAuthRequest("/validate", {method: HTTP_METHODS.GET, headers: {Authorization: `OAuth ${token}`}});
+
+        if(response.status === 401)
+            throw new Exception(EXCEPTION_REASONS.UNAUTHORIZED, `The ${name} is invalid: ${response.data?.message ?? ""}`);
+
+        if(response.status >= 400)
+            throw new Exception(EXCEPTION_REASONS.HTTP_ERROR, `Token validation failed with ${response.status}: ${response.data?.message ?? ""}`);
+
+        return {
+            clientId: response.data.client_id,
+            login: response.data.login,
+            userId: response.data.user_id,
+            scopes: response.data.scopes ?? [],
+            expiresIn: response.data.expires_in
+        }
+    }
+
+    /**
+     * Validates all available tokens and reports the invalid ones with the tokenInvalid event and those that expire soon with the tokenExpiringSoon event
+     * @private
+     */
+    private async validateTokens(){
+        const tokens: [string | undefined, ValidatedTokenType][] = [[this._userAccessToken, TOKEN_TYPES.USER], [this._appAccessToken, TOKEN_TYPES.APP]];
+
+        for(const [token, tokenType] of tokens){
+            if(isUndefined(token))
+                continue;
+
+            try{
+                const validation = await this.validateToken(token, tokenType);
+
+                //Tokens with a running refresh interval are replaced before they expire
+                const refreshed = isDefined(tokenType === TOKEN_TYPES.USER ? this._refreshTokenInterval : this._appAccessTokenInterval);
+                if(!refreshed && validation.expiresIn <= this._expiringSoonThreshold)
+                    this.emit("tokenExpiringSoon", {tokenType, expiresIn: validation.expiresIn});
+            }catch(err: unknown){
+                if(err instanceof Exception && err.reason === EXCEPTION_REASONS.UNAUTHORIZED && this.listenerCount("tokenInvalid") > 0)
+                    this.emit("tokenInvalid", tokenType);
+                else
+                    console.error(err);
+            }
+        }
+    }
+
+    /**
+     * Revokes a token at the OAuth revocation endpoint
+     * @param token The token to revoke. Nothing is sent if it is undefined.
+     * @private
+     */
+    private async revokeToken(token: string | undefined){
+        if(isUndefined(token))
+            return;
+
+        const response = await this.sendOAuthRequest("/revoke", {body: {
+            client_id: this._clientId,
+            token
+        }})
+
+        //Twitch answers tokens that are already invalid with 400 "Invalid token"
+        if(response.status >= 400 && !(response.status === 400 && /invalid token/i.test(response.data?.message ?? "")))
+            throw new Exception(EXCEPTION_REASONS.HTTP_ERROR, `Token revocation failed with ${response.status}: ${response.data?.message ?? ""}`);
+    }
+
+    /**
+     * Requests a token from the OAuth token endpoint
+     * @param body The grant specific parameters
+     * @returns The response body of the token endpoint
+     * @private
+     */
+    private async requestToken(body: Record<string, unknown>): Promise<any>{
+        const response = await this.sendOAuthRequest("/token", {body});
+
+        if(response.status >= 400)
+            throw new OAuthException("/token", response.status, response.data?.message ?? "");
+
+        return response.data;
+    }
+
+    /**
+     * Sends a request to the OAuth API
+     * @param endpoint The OAuth endpoint, e.g. "/token"
+     * @param request The request details
+     * @param [request.method] The HTTP method of the request. Defaults to POST.
+     * @param [request.headers] The headers of the request
+     * @param [request.body] The parameters of the request
+     * @private
+     */
+    private async sendOAuthRequest(endpoint: string, request: {method?: HttpMethod, headers?: Record<string, string>, body?: Record<string, unknown>}): Promise<TransportResponse>{
+        return await this._transport({
+            method: request.method ?? HTTP_METHODS.POST,
+            url: `${this._oauthBaseUrl}${endpoint}`,
+            headers: request.headers ?? {},
+            body: request.body
+        })
+    }
+
+}
+
+export type DeviceVerification = {
+    /**
+     * The URI the user has to open to authorize the application
+     */
+    verificationUri: string,
+
+    /**
+     * The code the user has to enter on the page of the verification URI
+     */
+    userCode: string,
+
+    /**
+     * The number of seconds until the user code expires
+     */
+    expiresIn: number
 }
 
+export type TokenValidation = {
+    /**
+     * The client identifier of the application the token was issued to
+     */
+    clientId: string,
+
+    /**
+     * The login name of the user the token belongs to. Undefined for App Access Tokens.
+     */
+    login?: string,
 
+    /**
+     * The ID of the user the token belongs to. Undefined for App Access Tokens.
+     */
+    userId?: string,
 
+    /**
+     * The scopes the token grants
+     */
+    scopes: string[],
+
+    /**
+     * The number of seconds until the token expires
+     */
+    expiresIn: number
+}
+
+/**
+ * The types of tokens the OAuth API validates
+ */
+export type ValidatedTokenType = typeof TOKEN_TYPES.USER | typeof TOKEN_TYPES.APP;
+
+export const REFRESH_FAILURE_REASONS = {
+    /** The refresh token was revoked or already used, the user has to authorize the application again */
+    INVALID_REFRESH_TOKEN: "invalid_refresh_token",
+    /** The client identifier or client secret was rejected */
+    INVALID_CLIENT: "invalid_client",
+    /** The refresh token or client secret needed for the refresh is missing */
+    MISSING_CREDENTIALS: "missing_credentials",
+    /** The refresh failed for another reason, e.g. a network failure */
+    REQUEST_FAILED: "request_failed"
+} as const;
+export type RefreshFailureReason = ObjectValues<typeof REFRESH_FAILURE_REASONS>;
+
+/**
+ * Classifies the error a token refresh failed with
+ * @param err The error the refresh failed with
+ */
+function getRefreshFailureReason(err: unknown): RefreshFailureReason{
+    if(!(err instanceof OAuthException))
+        return REFRESH_FAILURE_REASONS.REQUEST_FAILED;
+
+    if(/invalid refresh token/i.test(err.oauthMessage))
+        return REFRESH_FAILURE_REASONS.INVALID_REFRESH_TOKEN;
+
+    if(err.status === 403 || /invalid client/i.test(err.oauthMessage))
+        return REFRESH_FAILURE_REASONS.INVALID_CLIENT;
+
+    return REFRESH_FAILURE_REASONS.REQUEST_FAILED;
+}
+
+/**
+ * The events of a TokenHandler and their listeners
+ */
+export type TokenHandlerEvents = {
+    /**
+     * The User Access Token was refreshed. The refresh token may have been rotated.
+     */
+    userTokenRefreshed: (tokens: {accessToken: string, refreshToken: string, expiresIn: number}) => void,
+
+    /**
+     * The App Access Token was refreshed
+     */
+    appTokenRefreshed: (tokens: {accessToken: string, expiresIn: number}) => void,
+
+    /**
+     * A refresh failed. If nobody listens to this event, the error is logged instead.
+     */
+    refreshFailed: (failure: {tokenType: ValidatedTokenType, reason: RefreshFailureReason, error: unknown}) => void,
+
+    /**
+     * The hourly validation found a token that is not refreshed automatically to expire within the expiringSoonThreshold
+     */
+    tokenExpiringSoon: (expiration: {tokenType: ValidatedTokenType, expiresIn: number}) => void,
+
+    /**
+     * The hourly validation found a token to be invalid, e.g. because the user disconnected the application
+     */
+    tokenInvalid: (tokenType: ValidatedTokenType) => void
+}
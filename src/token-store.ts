@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import {isDefined} from "./utils";
+
+/**
+ * Persistent storage of the tokens of a TokenHandler, e.g. to keep the rotated refresh token across restarts.
+ * The token handler loads the tokens on init() and saves them after every refresh.
+ */
+export interface TokenStore{
+    /**
+     * Loads the stored tokens
+     * @returns The stored tokens, or undefined if nothing was stored yet
+     */
+    load(): Promise<StoredTokens | undefined>;
+
+    /**
+     * Replaces the stored tokens
+     * @param tokens The current tokens of the token handler
+     */
+    save(tokens: StoredTokens): Promise<void>;
+}
+
+/**
+ * Token store that keeps the tokens in memory, e.g. for tests or to share tokens between token handlers of one process
+ */
+export class MemoryTokenStore implements TokenStore{
+
+    private _tokens?: StoredTokens;
+
+    /**
+     * @param [tokens] The initially stored tokens
+     */
+    constructor(tokens?: StoredTokens){
+        this._tokens = isDefined(tokens) ? {...tokens} : undefined;
+    }
+
+    public async load(): Promise<StoredTokens | undefined>{
+        return isDefined(this._tokens) ? {...this._tokens} : undefined;
+    }
+
+    public async save(tokens: StoredTokens){
+        this._tokens = {...tokens};
+    }
+
+    get tokens(): StoredTokens | undefined{
+        return this._tokens;
+    }
+}
+
+/**
+ * Token store that keeps the tokens in a JSON file
+ * @NOTE The file is only readable by its owner and is replaced atomically, so a crash while saving does not lose the refresh token
+ */
+export class JsonFileTokenStore implements TokenStore{
+
+    private readonly _file: string;
+    private _queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param file The path of the JSON file. Missing directories are created on the first save.
+     */
+    constructor(file: string){
+        this._file = file;
+    }
+
+    public async load(): Promise<StoredTokens | undefined>{
+        try{
+            return JSON.parse(await fs.promises.readFile(this._file, "utf8")) as StoredTokens;
+        }catch(err: unknown){
+            if((err as NodeJS.ErrnoException).code === "ENOENT")
+                return undefined;
+
+            throw err;
+        }
+    }
+
+    public save(tokens: StoredTokens): Promise<void>{
+        //Saves are queued, so concurrent refreshes do not write the temporary file at the same time and the last save wins
+        const saved = this._queue.then(async ()=>{
+            const temporaryFile = `${this._file}.${process.pid}.tmp`;
+
+            await fs.promises.mkdir(path.dirname(this._file), {recursive: true});
+            await fs.promises.writeFile(temporaryFile, JSON.stringify(tokens, null, 2), {mode: 0o600});
+            await fs.promises.rename(temporaryFile, this._file);
+        })
+
+        this._queue = saved.catch(()=> undefined);
+        return saved;
+    }
+
+    get file(): string{
+        return this._file;
+    }
+}
+
+export type StoredTokens = {
+    /**
+     * The User Access Token
+     */
+    userAccessToken?: string,
+
+    /**
+     * The refresh token of the User Access Token
+     */
+    refreshToken?: string,
+
+    /**
+     * The App Access Token
+     */
+    appAccessToken?: string
+}
@@ -0,0 +1,118 @@
+import axios from "axios";
+import {HttpMethod} from "./request-handler";
+import {Exception, EXCEPTION_REASONS} from "./exceptions";
+
+/**
+ * Sends a single HTTP request. Transports must not throw on error status codes, only if no response was received at all.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+export type TransportRequest = {
+    /**
+     * The HTTP method of the request
+     */
+    method: HttpMethod,
+
+    /**
+     * The full URL of the request, including the query string
+     */
+    url: string,
+
+    /**
+     * The headers of the request
+     */
+    headers: Record<string, string>,
+
+    /**
+     * The body of the request, which is sent as JSON
+     */
+    body?: unknown
+}
+
+export type TransportResponse = {
+    /**
+     * The HTTP status code of the response
+     */
+    status: number,
+
+    /**
+     * The headers of the response, with lower case names
+     */
+    headers: Record<string, string>,
+
+    /**
+     * The parsed JSON body of the response, or the raw body if it is not JSON
+     */
+    data: any
+}
+
+/**
+ * Transport that sends requests with axios. This is the default transport.
+ */
+export const axiosTransport: Transport = async (request)=>{
+    const response = await axios.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        validateStatus: ()=> true
+    })
+
+    const headers: Record<string, string> = {};
+    for(const [name, value] of Object.entries(response.headers))
+        headers[name.toLowerCase()] = String(value);
+
+    return {status: response.status, headers, data: response.data};
+}
+
+/**
+ * Creates a transport that sends requests with the fetch API
+ * @param [fetchFunction] The fetch implementation to be used. Defaults to the global fetch of Node.js 18+.
+ * @throws Exception with reason NETWORK_ERROR if no fetch implementation is passed and there is no global fetch
+ */
+export function createFetchTransport(fetchFunction: FetchFunction = getGlobalFetch()): Transport{
+    return async (request)=>{
+        const headers = {...request.headers};
+        if(request.body !== undefined)
+            headers["Content-Type"] = "application/json";
+
+        const response = await fetchFunction(request.url, {
+            method: request.method,
+            headers,
+            body: request.body === undefined ? undefined : JSON.stringify(request.body)
+        })
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name)=> responseHeaders[name.toLowerCase()] = value);
+
+        const text = await response.text();
+        let data: any = text;
+
+        if(responseHeaders["content-type"]?.includes("application/json") && text.length > 0)
+            data = JSON.parse(text);
+
+        return {status: response.status, headers: responseHeaders, data};
+    }
+}
+
+/**
+ * Gets the global fetch. It is not part of the Node.js 16 typings the package is compiled against, so its presence is checked at runtime.
+ * @private
+ */
+function getGlobalFetch(): FetchFunction{
+    const globalFetch: unknown = (globalThis as {fetch?: unknown}).fetch;
+
+    if(typeof globalFetch !== "function")
+        throw new Exception(EXCEPTION_REASONS.NETWORK_ERROR, "No global fetch available, pass a fetch implementation to createFetchTransport");
+
+    return globalFetch as FetchFunction;
+}
+
+/**
+ * The subset of the fetch API the fetch transport relies on
+ */
+export type FetchFunction = (url: string, init: {method: string, headers: Record<string, string>, body?: string}) => Promise<{
+    status: number,
+    headers: {forEach(callback: (value: string, name: string) => void): void},
+    text(): Promise<string>
+}>;
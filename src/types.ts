@@ -0,0 +1,1496 @@
+import {EventSubCondition} from "./eventsub-types";
+
+export type startCommercialResult = {
+    /**
+     * The length (seconds) of the commercial you requested. If you request a commercial that’s longer than 180 seconds, the API uses 180 seconds.
+     */
+    commercialLength: number,
+    /**
+     * A message that indicates whether Twitch was able to serve an ad.
+     */
+    twitchMessage: string,
+    /**
+     * The number of seconds you must wait before running another commercial.
+     */
+    nextCommercialIn: number
+}
+
+export type ExtensionReport = {
+    /**
+     * An ID that identifies the extension that the report was generated for.
+     */
+    extensionId: string,
+    /**
+     * The URL that you use to download the report. The URL is valid for 5 minutes.
+     */
+    url : string,
+    /**
+     * The type of report.
+     */
+    type: string,
+    /**
+     * The reporting window’s start and end dates, in RFC3339 format.
+     */
+    range: {
+        /**
+         * The reporting window’s start date.
+         */
+        startedAt: Date,
+        /**
+         * The reporting window’s end date.
+         */
+        endedAt: Date
+    }
+}
+
+export type GameReport = {
+    /**
+     * An ID that identifies the game that the report was generated for.
+     */
+    gameId: string,
+    /**
+     * The URL that you use to download the report. The URL is valid for 5 minutes.
+     */
+    url : string,
+    /**
+     * The type of report.
+     */
+    type: string,
+    /**
+     * The reporting window’s start and end dates, in RFC3339 format.
+     */
+    range: {
+        /**
+         * The reporting window’s start date.
+         */
+        startedAt: Date,
+        /**
+         * The reporting window’s end date.
+         */
+        endedAt: Date
+    }
+}
+
+export type LeaderboardLeaders = {
+    /**
+     * An ID that identifies a user on the leaderboard.
+     */
+    userId: string,
+    /**
+     * The user’s login name.
+     */
+    userLogin: string,
+    /**
+     * The user’s display name.
+     */
+    displayName: string,
+    /**
+     * The user’s position on the leaderboard.
+     */
+    rank: number,
+    /**
+     * The number of Bits the user has cheered.
+     */
+    score: number,
+    /**
+     * The reporting window’s start and end dates, in RFC3339 format. The dates are calculated by using the started_at and period query parameters. If you don’t specify the started_at query parameter, the fields contain empty strings.
+     */
+    date_range: {
+        /**
+         * The reporting window’s start date.
+         */
+        started_at: Date,
+        /**
+         * The reporting window’s end date.
+         */
+        ended_at: Date
+    }
+}
+
+export type Cheermote = {
+    /**
+     * The name portion of the Cheermote string that you use in chat to cheer Bits. The full Cheermote string is the concatenation of {prefix} + {number of Bits}. For example, if the prefix is “Cheer” and you want to cheer 100 Bits, the full Cheermote string is Cheer100. When the Cheermote string is entered in chat, Twitch converts it to the image associated with the Bits tier that was cheered.
+     */
+    prefix: string,
+    /**
+     * A list of tier levels that the Cheermote supports. Each tier identifies the range of Bits that you can cheer at that tier level and an image that graphically identifies the tier level.
+     */
+    tiers: Tier[]
+    /**
+     * The type of Cheermote.
+     */
+    type: CheermoteType,
+    /**
+     * The order that the Cheermotes are shown in the Bits card. The numbers may not be consecutive.
+     */
+    order: number,
+    /**
+     * The date and time, when this Cheermote was last updated.
+     */
+    lastUpdated: Date,
+    /**
+     * A Boolean value that indicates whether this Cheermote provides a charitable contribution match during charity campaigns.
+     */
+    isCharitable: boolean,
+
+}
+
+const CHEERMOTE_TYPE = {
+    /**
+     * A Twitch-defined Cheermote that is shown in the Bits card
+     */
+    GLOBAL_FIRST_PARTY: "global_first_party",
+    /**
+     * A Twitch-defined Cheermote that is not shown in the Bits card.
+     */
+    GLOBAL_THRID_PARTY: "global_third_party",
+    /**
+     * A broadcaster-defined Cheermote.
+     */
+    CHANNEL_CUSTOM: "channel_custom",
+    /**
+     * Do not use; for internal use only.
+     */
+    DISPLAY_ONLY: "display_only",
+    /**
+     * A sponsor-defined Cheermote. When used, the sponsor adds additional Bits to the amount that the user cheered. For example, if the user cheered Terminator100, the broadcaster might receive 110 Bits, which includes the sponsor's 10 Bits contribution.
+     */
+    SPONSORED: "sponsored"
+
+} as const;
+
+/**
+ * @constant GLOBAL_FIRST_PARTY: A Twitch-defined Cheermote that is shown in the Bits card
+ * @constant GLOBAL_THRID_PARTY: A Twitch-defined Cheermote that is not shown in the Bits card.
+ * @constant CHANNEL_CUSTOM: A broadcaster-defined Cheermote.
+ * @constant DISPLAY_ONLY: Do not use; for internal use only.
+ * @constant SPONSORED: A sponsor-defined Cheermote. When used, the sponsor adds additional Bits to the amount that the user cheered. For example, if the user cheered Terminator100, the broadcaster might receive 110 Bits, which includes the sponsor's 10 Bits contribution.
+ */
+export type CheermoteType = keyof typeof CHEERMOTE_TYPE;
+
+export const LANGUAGES = {
+    GERMAN: "de"
+} as const;
+
+export type ObjectValues<T> = T[keyof T];
+export type Languages = ObjectValues<typeof LANGUAGES>;
+
+export type Tier = {
+    /**
+     * The minimum number of Bits that you must cheer at this tier level. The maximum number of Bits that you can cheer at this level is determined by the required minimum Bits of the next tier level minus 1. For example, if min_bits is 1 and min_bits for the next tier is 100, the Bits range for this tier level is 1 through 99. The minimum Bits value of the last tier is the maximum number of Bits you can cheer using this Cheermote. For example, 10000.
+     */
+    min_bits: number,
+    /**
+     * The tier level.
+     */
+    level: TierLevel,
+    /**
+     * The hex code of the color associated with this tier level.
+     */
+    color: string,
+    /**
+     * The animated and static image sets for the Cheermote. The dictionary of images is organized by theme, format, and size.
+     */
+    images: CheermoteImages,
+    /**
+     * A Boolean value that determines whether users can cheer at this tier level.
+     */
+    canCheer: boolean,
+    /**
+     * A Boolean value that determines whether this tier level is shown in the Bits card. Is true if this tier level is shown in the Bits card.
+     */
+    showInBitsCard: boolean,
+}
+
+const TIER_LEVELS = {
+    "1":"1",
+    "100":"100",
+    "500":"500",
+    "1000":"1000",
+    "5000":"5000",
+    "10000":"10000",
+    "100000":"100000"
+} as const;
+export type TierLevel = keyof typeof TIER_LEVELS;
+
+const BROADCASTER_TYPES = {
+    AFFILIATE: "affiliate",
+    PARTNER: "partner",
+    NORMAL: ""
+} as const;
+export type BroadcasterTypes = ObjectValues<typeof BROADCASTER_TYPES>;
+
+export const USER_TYPES = {
+    ADMIN: "admin",
+    GLOBAL_MOD: "global_mod",
+    STAFF: "staff",
+    NORMAL: ""
+} as const;
+export type UserTypes = ObjectValues<typeof USER_TYPES>;
+
+export const POLL_STATUS = {
+    ACTIVE: "ACTIVE",
+    COMPLETED: "COMPLETED",
+    TERMINATED: "TERMINATED",
+    ARCHIVED: "ARCHIVED",
+    MODERATED: "MODERATED",
+    INVALID: "INVALID"
+} as const;
+export type PollStatus = ObjectValues<typeof POLL_STATUS>;
+
+export const NAMED_CHAT_COLORS = {
+    BLUE: "blue",
+    BLUE_VIOLET: "blue_violet",
+    CHOCOLATE: "chocolate",
+    CORAL: "coral",
+    DODGER_BLUE: "dodger_blue",
+    FIREBRICK: "firebrick",
+    GOLDEN_ROD: "golden_rod",
+    GREEN: "green",
+    HOT_PINK: "hot_pink",
+    ORANGE_RED: "orange_red",
+    RED: "red",
+    SEA_GREEN: "sea_green",
+    SPRING_GREEN: "spring_green",
+    YELLOW_GREEN: "yellow_green"
+} as const;
+export type NamedChatColors = ObjectValues<typeof NAMED_CHAT_COLORS>;
+
+export const REDEMPTION_CODE_STATUS = {
+    ALREADY_CLAIMED: "ALREADY_CLAIMED",
+    EXPIRED: "EXPIRED",
+    INACTIVE: "INACTIVE",
+    INCORRECT_FORMAT: "INCORRECT_FORMAT",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+    NOT_FOUND: "NOT_FOUND",
+    SUCCESSFULLY_REDEEMED: "SUCCESSFULLY_REDEEMED",
+    UNUSED: "UNUSED",
+    USER_NOT_ELIGIBLE: "USER_NOT_ELIGIBLE"
+} as const;
+export type RedemptionCodeStatus = ObjectValues<typeof REDEMPTION_CODE_STATUS>;
+
+export const BLOCK_REASONS = {
+    HARASSMENT: "harassment",
+    SPAM: "spam",
+    OTHER: "other",
+} as const;
+export type BlockReason = ObjectValues<typeof BLOCK_REASONS>;
+
+export const BLOCK_CONTEXTS = {
+    CHAT: "chat",
+    WHISPER: "whisper"
+} as const;
+export type BlockContext = ObjectValues<typeof BLOCK_CONTEXTS>;
+
+export const TRANSPORT_METHODS = {
+    WEBHOOK: "webhook",
+    WEBSOCKET: "websocket"
+} as const;
+export type TransportMethod = ObjectValues<typeof TRANSPORT_METHODS>;
+
+export const CODE_STATUS = {
+    ALREADY_CLAIMED: "ALREADY_CLAIMED",
+    EXPIRED: "EXPIRED",
+    INACTIVE: "INACTIVE",
+    INCORRECT_FORMAT: "INCORRECT_FORMAT",
+    INTERNAL_ERROR: "INTERNAL_ERROR",
+    NOT_FOUND: "NOT_FOUND",
+    UNUSED: "UNUSED",
+    USER_NOT_ELIGIBLE: "USER_NOT_ELIGIBLE"
+} as const;
+export type CodeStatus = ObjectValues<typeof CODE_STATUS>;
+
+export const SUBSCRIPTION_STATUS = {
+    ENABLED: "enabled",
+    WEBHOOK_CALLBACK_VERIFICATION_PENDING: "webhook_callback_verification_pending",
+    WEBHOOK_CALLBACK_VERFICIATION_FAILED: "webhook_callback_verification_failed",
+    NOTIFICATION_FAILURES_EXCEEDED: "notification_failures_exceeded",
+    AUTHORIZATION_REVOKED: "authorization_revoked",
+    MODERATOR_REMOVED: "moderator_removed",
+    USER_REMOVED: "user_removed",
+    VERSION_REMOVED: "version_removed",
+    WEBSOCKET_DISCONNECTED: "websocket_disconnected",
+    WEBSOCKET_RECEIVED_INBOUND_TRAFFIC: "websocket_received_inbound_traffic",
+    WEBSOCKET_CONNECTION_UNUSED: "websocket_connection_unused",
+    WEBSOCKET_INTERNAL_ERROR: "websocket_internal_error",
+    WEBSOCKET_NETWORK_TIMEOUT: "websocket_network_timeout",
+    WEBSOCKET_NETWORK_ERROR: "websocket_network_error"
+} as const;
+export type SubscriptionStatus = ObjectValues<typeof SUBSCRIPTION_STATUS>;
+
+export const SUBSCRIPTION_TYPES = {
+    CHANNEL_UPDATE: "channel.update",
+    CHANNEL_FOLLOW: "channel.follow",
+    CHANNEL_SUBSCRIBE: "channel.subscribe",
+    CHANNEL_SUBSCRIPTION_END: "channel.subscription.end",
+    CHANNEL_SUBSCRIPTION_GIFT: "channel.subscription.gift",
+    CHANNEL_SUBSCRIPTION_MESSAGE: "channel.subscription.message",
+    CHANNEL_CHEER: "channel.cheer",
+    CHANNEL_RAID: "channel.raid",
+    CHANNEL_BAN: "channel.ban",
+    CHANNEL_UNBAN: "channel.unban",
+    CHANNEL_MODERATOR_ADD: "channel.moderator.add",
+    CHANNEL_MODERATOR_REMOVE: "channel.moderator.remove",
+    CHANNEL_POINTS_CUSTOM_REWARD_ADD:"channel.channel_points_custom_reward.add",
+    CHANNEL_POINTS_CUSTOM_REWARD_UPDATE: "channel.channel_points_custom_reward.update",
+    CHANNEL_POINTS_CUSTOM_REWARD_REMOVE: "channel.channel_points_custom_reward.remove",
+    CHANNEL_POINTS_CUSTOM_REWARD_REDEMPTION_ADD: "channel.channel_points_custom_reward_redemption.add",
+    CHANNEL_POINTS_CUSTOM_REWARD_REDEMPTION_UPDATE: "channel.channel_points_custom_reward_redemption.update",
+    CHANNEL_POLL_BEGIN: "channel.poll.begin",
+    CHANNEL_POLL_PROGRESS: "channel.poll.progress",
+    CHANNEL_POLL_END: "channel.poll.end",
+    CHANNEL_PREDICTION_BEGIN: "channel.prediction.begin",
+    CHANNEL_PREDICTION_PROGRESS: "channel.prediction.progress",
+    CHANNEL_PREDICTION_LOCK: "channel.prediction.lock",
+    CHANNEL_PREDICTION_END: "channel.prediction.end",
+    CHARITY_DONATION: "channel.charity_campaign.donate",
+    CHARITY_CAMPAIGN_START: "channel.charity_campaign.start",
+    CHARITY_CAMPAIGN_PROGRESS: "channel.charity_campaign.progress",
+    CHARITY_CAMPAIGN_STOP: "channel.charity_campaign.stop",
+    DROP_ENTITLEMENT_GRAND: "drop.entitlement.grant",
+    EXTENSION_BITS_TRANSACTION_CREATE: "extension.bits_transaction.create",
+    GOAL_BEGIN: "channel.goal.begin",
+    GOAL_PROGRESS: "channel.goal.progress",
+    GOAL_END: "channel.goal.end",
+    HYPE_TRAIN_BEGIN: "channel.hype_train.begin",
+    HYPE_TRAIN_PROGRESS: "channel.hype_train.progress",
+    HYPE_TRAIN_END: "channel.hype_train.end",
+    SHIELD_MODE_BEGIN: "channel.shield_mode.begin",
+    SHIELD_MODE_END: "channel.shield_mode.end",
+    STREAM_ONLINE: "stream.online",
+    STREAM_OFFLINE: "stream.offline",
+    USER_AUTHORIZATION_GRANT: "user.authorization.grant",
+    USER_AUTHORIZATION_REVOKE: "user.authorization.revoke",
+    USER_UPDATE: "user.update"
+} as const;
+export type SubscriptionType = ObjectValues<typeof SUBSCRIPTION_TYPES>;
+
+export type CheermoteImages = {
+    /**
+     * Dark theme images
+     */
+    dark:{
+        animated: {
+            "1": string,
+            "1.5": string,
+            "2": string,
+            "3": string,
+            "4": string
+        },
+        static: {
+            "1": string,
+            "1.5": string,
+            "2": string,
+            "3": string,
+            "4": string
+        }
+    },
+    /**
+     * Light theme images
+     */
+    light:{
+        animated: {
+            "1": string,
+            "1.5": string,
+            "2": string,
+            "3": string,
+            "4": string
+        },
+        static: {
+            "1": string,
+            "1.5": string,
+            "2": string,
+            "3": string,
+            "4": string
+        }
+    }
+}
+
+export interface ChannelInformation {
+    /**
+     * An ID that uniquely identifies the streamer/broadcaster.
+     */
+    streamerId: string,
+    /**
+     * The streamer’s/broadcaster’s login name.
+     */
+    streamerLogin: string,
+    /**
+     * The streamer’s/broadcaster’s display name.
+     */
+    streamerDisplayName: string,
+    /**
+     * The broadcaster’s preferred language. The value is an ISO 639-1 two-letter language code (for example, en for English). The value is set to “other” if the language is not a Twitch supported language.
+     */
+    streamerLanguage: Languages,
+    /**
+     * The name of the game that the broadcaster is playing or last played. The value is an empty string if the streamer/broadcaster has never played a game.
+     */
+    gameName: string,
+    /**
+     * 	An ID that uniquely identifies the game that the broadcaster is playing or last played. The value is an empty string if the streamer/broadcaster has never played a game.
+     */
+    gameId: string,
+    /**
+     * The title of the stream that the streamer/broadcaster is currently streaming or last streamed. The value is an empty string if the streamer/broadcaster has never streamed.
+     */
+    streamTitle: string,
+    /**
+     * The value of the broadcaster’s stream delay setting, in seconds.
+     */
+    streamDelay: string
+
+}
+
+export type Editor = {
+    /**
+     * An ID that uniquely identifies a user with editor permissions.
+     */
+    id: string,
+    /**
+     * The editor’s display name.
+     */
+    displayName: string,
+    /**
+     * The date and time, when the user became one of the broadcaster’s editors.
+     */
+    appointedAt: Date
+}
+
+export type Reward = {
+    /**
+     * The ID that uniquely identifies the broadcaster.
+     */
+    broadcasterId: string,
+    /**
+     * The broadcaster’s login name.
+     */
+    broadcasterLogin: string,
+    /**
+     * The broadcaster’s display name.
+     */
+    broadcasterDisplayName: string,
+    /**
+     * The ID that uniquely identifies this custom reward.
+     */
+    id: string,
+    /**
+     * The title of the reward.
+     */
+    title: string,
+    /**
+     * The prompt shown to the viewer when they redeem the reward if user input is required
+     */
+    prompt: string,
+    /**
+     * The cost of the reward in Channel Points.
+     */
+    cost: number,
+    /**
+     * A set of custom images for the reward. This field is null if the broadcaster didn’t upload images.
+     */
+    image: {
+        /**
+         * The URL to a small version of the image.
+         */
+        url_1x: string,
+        /**
+         * The URL to a medium version of the image.
+         */
+        url_2x: string,
+        /**
+         * The URL to a large version of the image.
+         */
+        url_4x: string
+    },
+    /**
+     * A set of default images for the reward.
+     */
+    defaultImage: {
+        /**
+         * The URL to a small version of the image.
+         */
+        url_1x: string,
+        /**
+         * The URL to a medium version of the image.
+         */
+        url_2x: string,
+        /**
+         * The URL to a large version of the image.
+         */
+        url_4x: string
+    },
+    /**
+     * The background color to use for the reward. The color is in Hex format
+     */
+    backgroundColor: string,
+    /**
+     * A Boolean value that determines whether the reward is enabled.
+     */
+    isEnabled: boolean,
+    /**
+     * A Boolean value that determines whether the user must enter information when redeeming the reward.
+     */
+    userInputRequired: boolean,
+    /**
+     * The settings used to determine whether to apply a maximum to the number of redemptions allowed per live stream.
+     */
+    maxPerStreamSetting:{
+        /**
+         * A Boolean value that determines whether the reward applies a limit on the number of redemptions allowed per live stream.
+         */
+        isEnabled: boolean,
+        /**
+         * The maximum number of redemptions allowed per live stream.
+         */
+        maxPerStream: number,
+    },
+    /**
+     * The settings used to determine whether to apply a maximum to the number of redemptions allowed per user per live stream.
+     */
+    maxPerUserPerStreamSetting:{
+        /**
+         * A Boolean value that determines whether the reward applies a limit on the number of redemptions allowed per user per live stream.
+         */
+        isEnabled: boolean,
+        /**
+         * The maximum number of redemptions allowed per user per live stream.
+         */
+        maxPerUserPerStream: number
+    },
+    /**
+     * The settings used to determine whether to apply a cooldown period between redemptions and the length of the cooldown.
+     */
+    globalCooldownSetting:{
+        /**
+         * A Boolean value that determines whether to apply a cooldown period.
+         */
+        isEnabled: boolean,
+        /**
+         * The cooldown period, in seconds.
+         */
+        globalCooldown: number
+    },
+    /**
+     * A Boolean value that determines whether the reward is currently paused.
+     */
+    isPaused: boolean,
+    /**
+     * A Boolean value that determines whether the reward is currently in stock.
+     */
+    isInStock: boolean,
+    /**
+     * A Boolean value that determines whether redemptions should be set to FULFILLED status immediately when a reward is redeemed.
+     */
+    redemptionsSkipRequestQueue: boolean,
+    /**
+     * The number of redemptions redeemed during the current live stream.
+     */
+    redemptionsCountCurrentStream: number,
+    /**
+     * The timestamp of when the cooldown period expires. Is null if the reward isn’t in a cooldown state.
+     */
+    cooldownExpiresAt: Date
+
+
+}
+
+export type Redemption = {
+    /**
+     * The ID that uniquely identifies the broadcaster.
+     */
+    broadcasterId: string,
+    /**
+     * The broadcaster’s login name.
+     */
+    broadcasterLogin: string,
+    /**
+     * The broadcaster’s display name.
+     */
+    broadcasterDisplayName: string,
+    /**
+     * The ID that uniquely identifies this redemption.
+     */
+    id: string,
+    /**
+     * The ID that uniquely identifies the user that redeemed the reward.
+     */
+    redeemerId: string,
+    /**
+     * The redeemer’s login name.
+     */
+    redeemerLogin: string,
+    /**
+     * 	The redeemers’s display name.
+     */
+    redeemerDisplayName: string,
+    /**
+     * The text the redeemer entered at the prompt when they redeemed the reward; otherwise, an empty string if user input was not required.
+     */
+    redeemerInput: string,
+    /**
+     * The state of the redemption.
+     */
+    status: "CANCELED" | "FULFILLED" | "UNFULLFILED",
+    /**
+     * The date and time of when the reward was redeemed
+     */
+    redeemedAt: Date,
+    /**
+     * 	The reward that the redeemer redeemed.
+     */
+    reward: Pick<Reward, "id" | "title" | "prompt" | "cost">
+}
+
+export type User = {
+    id: string,
+    login: string,
+    displayName: string,
+    broadcasterType?: BroadcasterTypes,
+    type?: UserTypes,
+    description?: string,
+    profileImageURL?: string,
+    offlineImageURL?: string,
+    viewCount?: number,
+    email?: string,
+    createdAt?: Date
+}
+
+export type Emote = {
+    id: string,
+    name: string,
+    images: {
+        url_1x: string,
+        url_2x: string,
+        url_4x: string
+    },
+    tier: string,
+    type: "bitstier" | "follower" | "subscriptions",
+    setId: string,
+    format: ("static" | "animated")[],
+    scale: ("1.0" | "2.0" | "3.0")[],
+    themeMode: ("dark" | "light")[]
+
+}
+
+export type GlobalEmote = Omit<Emote, "tier" | "type" | "setId">;
+
+export type EmoteSet = Omit<Emote, "tier">& {ownerId: string};
+
+export type ChatBadge = {
+    setId: string,
+    versions: {
+       id: string,
+       image_url_1x: string,
+        image_url_2x: string,
+        image_url_4x: string,
+    }[]
+
+
+}
+
+export type ChatSettings = {
+    /**
+     * The ID of the broadcaster specified in the request
+     */
+    broadcasterId: string,
+    /**
+     * A Boolean value that determines whether chat messages must contain only emotes.
+     */
+    emoteModeActive: boolean,
+    /**
+     * A Boolean value that determines whether the broadcaster restricts the chat room to followers only.
+     */
+    followerModeActive: boolean,
+    /**
+     * The length of time, in minutes, that users must follow the broadcaster before being able to participate in the chat room.
+     */
+    followerModeDuration: number,
+    /**
+     * The moderator’s ID. Only included if the request token was issued by a moderator
+     */
+    moderatorId?: string,
+    /**
+     * A Boolean value that determines whether the broadcaster adds a short delay before chat messages appear in the chat room. This gives chat moderators and bots a chance to remove them before viewers can see the message.
+     */
+    moderatorChatDelayActive: boolean,
+    /**
+     * The amount of time, in seconds, that messages are delayed before appearing in chat.
+     */
+    moderatorChatDelay: number,
+    /**
+     * A Boolean value that determines whether the broadcaster limits how often users in the chat room are allowed to send messages.
+     */
+    slowModeActive: boolean,
+    /**
+     * The amount of time, in seconds, that users must wait between sending messages.
+     */
+    slowModeWaitTime: number | null,
+    /**
+     * A Boolean value that determines whether only users that subscribe to the broadcaster’s channel may talk in the chat room.
+     */
+    subscriberModeActive: boolean,
+    /**
+     * A Boolean value that determines whether the broadcaster requires users to post only unique messages in the chat room.
+     */
+    uniqueChatModeActive: boolean
+
+}
+
+export type ChatColor = {
+    userId: string,
+    userLogin: string,
+    userDisplayName: string,
+    color: string
+}
+
+export type Clip = {
+    id: string,
+    url: string,
+    embedUrl: string,
+    broadcasterId: string,
+    broadcasterDisplayName: string,
+    creatorId: string,
+    creatorDisplayName: string,
+    videoId: string,
+    categoryId: string,
+    language: Languages,
+    title: string,
+    viewCount: number,
+    createdAt: Date,
+    thumbnailUrl: string,
+    duration: number,
+    vodOffset: number
+}
+
+export type Marker = {
+    id: string,
+    createdAt: Date,
+    position: number,
+    description: string
+}
+
+export type Poll = {
+    id: string,
+    broadcasterId: string,
+    broadcasterDisplayName: string,
+    broadcasterLogin: string,
+    title: string,
+    choices: {
+        id: string,
+        title: string,
+        votes: number,
+        channelPointsVotes: number,
+        bitsVotes: number
+    }[],
+    bitsVoting: boolean,
+    bitsPerVote: number,
+    channelPointsVoting: boolean,
+    channelPointsPerVote: number,
+    status: PollStatus,
+    duration: number,
+    startedAt: Date,
+    endedAt: Date
+}
+
+export type CodeRedemption = {
+    code: string,
+    status: RedemptionCodeStatus
+
+}
+
+export type Category = {
+    id: string,
+    name: string,
+    boxArtUrl: string,
+    igdbId?: string
+}
+
+export type BanResult = {
+    broadcasterId: string,
+    moderatorId: string,
+    userId: string,
+    createdAt: Date,
+    endTime: Date
+}
+
+export type BlockedTerm = {
+    broadcasterId: string,
+    moderatorId: string,
+    id: string,
+    text: string,
+    createdAt: Date,
+    updatedAt: Date,
+    expiresAt: Date
+}
+
+export type Subscription<T extends SubscriptionType = SubscriptionType> = {
+    id: string,
+    status: SubscriptionStatus,
+    type: T,
+    version: string,
+    /**
+     * The condition of the subscription. Typed if the subscription type is known, e.g. for the results of createEventsubSubscription().
+     */
+    condition: SubscriptionType extends T ? any : EventSubCondition<T>;
+    createdAt: Date,
+    transport: {
+        method: TransportMethod,
+        callback?: string,
+        sessionId?: string,
+        connectedAt?: Date
+    },
+    cost: number,
+    totalSubscriptions?: number,
+    totalCost?: number,
+    maxTotalCost?: number
+}
+
+export type BannedUser = {
+    userId: string,
+    userLogin: string,
+    userDisplayName: string,
+    expiresAt: Date | null,
+    createdAt: Date,
+    reason: string,
+    moderatorId: string,
+    moderatorLogin: string,
+    moderatorDisplayName: string
+}
+
+export type Code = {
+    code: string,
+    status: CodeStatus
+}
+
+export type StreamTag = {
+    id: string,
+    isAuto: boolean,
+    localizationNames: Map<string, string>,
+    localizationDescription: Map<string, string>
+}
+
+export type getChannelTeamResult = {
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    team: Team
+}
+export type Team = {
+    users?: {
+        userId: string,
+        userLogin: string,
+        userDisplayName: string
+    }[],
+    info: string,
+    thumbnailUrl: string,
+    name: string,
+    displayName: string,
+    id: string,
+    backgroundImageUrl: string,
+    banner: string,
+    createdAt: Date,
+    updatedAt: Date
+}
+
+export const EXTENSION_CONFIGURATION_LOCATIONS = {
+    HOSTED: "hosted",
+    CUSTOM: "custom",
+    NONE: "none"
+} as const;
+export type ExtensionConfigurationLocation = ObjectValues<typeof EXTENSION_CONFIGURATION_LOCATIONS>;
+
+export const EXTENSION_STATES = {
+    APPROVED: "Approved",
+    ASSETS_UPLOADED: "AssetsUploaded",
+    DELETED: "Deleted",
+    DEPRECATED: "Deprecated",
+    IN_REVIEW: "InReview",
+    IN_TEST: "InTest",
+    PENDING_ACTION: "PendingAction",
+    REJECTED: "Rejected",
+    RELEASED: "Released"
+} as const;
+export type ExtensionStates = ObjectValues<typeof EXTENSION_STATES>;
+
+export const EXTENSION_SUBSCRIPTIONS_SUPPORT_LEVELS = {
+    OPTIONAL: "optional",
+    NONE: "none"
+} as const;
+export type ExtensionSubscriptionsSupportLevel = ObjectValues<typeof EXTENSION_SUBSCRIPTIONS_SUPPORT_LEVELS>;
+
+export const EXTENSION_TYPES = {
+    COMPONENT: "component",
+    MOBILE: "mobile",
+    OVERLAY: "overlay",
+    PANEL: "panel"
+} as const;
+export type ExtensionType = ObjectValues<typeof EXTENSION_TYPES>;
+
+
+export type UserExtension = {
+    id: string,
+    version: string,
+    name: string,
+    canActivate: boolean,
+    type: ExtensionType
+}
+
+export type Extension = {
+    authorName: string,
+    bitsEnabled: boolean,
+    canInstall: boolean,
+    configurationLocation: ExtensionConfigurationLocation,
+    description: string,
+    eulaTosUrl: string,
+    hasChatSupport: boolean,
+    iconUrl: string,
+    iconUrls: Map<string, string>,
+    id: string,
+    name: string,
+    privacyPolicyUrl: string,
+    requestIdentityLink: string,
+    screenshotUrls: string[],
+    state: ExtensionStates,
+    subscriptionsSupportLevel: ExtensionSubscriptionsSupportLevel,
+    summary: string,
+    supportEmail: string,
+    version: string,
+    viewerSummary: string,
+    views: {
+        mobile: { viewerUrl: string}
+        panel: { viewerUrl: string, height: number, canLinkExternalContent: boolean},
+        videoOverlay: { viewerUrl: string, canLinkExternalContent: boolean},
+        component: { viewerUrl: string, aspectRatioX: number, aspectRatioY: number, autoScale: boolean, scalePixels: number, targetHigh: number, canLinkExternalContent: boolean},
+        config: { viewerUrl: string, canLinkExternalContent: boolean},
+    },
+    allowlistedConfigUrls: string[],
+    allowlistedPanelUrls: string[],
+}
+
+export const GOAL_TYPES = {
+    FOLLOWER: "follower",
+    SUBSCRIPTION: "subscription",
+    SUBSCRIPTION_COUNT: "subscription_count",
+    NEW_SUBSCRIPTION: "new_subscription",
+    NEW_SUBSCRIPTION_COUNT: "new_subscription_count",
+} as const;
+export type GoalType = ObjectValues<typeof GOAL_TYPES>;
+
+export type Goal = {
+    id: string,
+    broadcasterId: string,
+    brodcasterLogin: string,
+    broadcasterDisplayName: string,
+    type: GoalType,
+    description: string,
+    currentAmount: number,
+    targetAmount: number,
+    createdAt: Date
+}
+
+export type MessageCheck = {
+    id: string,
+    text: string
+}
+
+export type MessageCheckResult = {
+    checkId: string,
+    isPermitted: boolean
+}
+
+export const MESSAGE_MODERATION_ACTION = {
+    ALLOW: "ALLOW",
+    DENY: "DENY"
+} as const;
+export type MessageModerationAction = ObjectValues<typeof MESSAGE_MODERATION_ACTION>;
+
+export type AutoModSettings = {
+    broadcasterId: string,
+    moderatorId: string,
+    overallLevel: number,
+    disability: number,
+    aggression: number,
+    sexualitySexOrGender: number,
+    misogyny: number,
+    bullying: number,
+    swearing: number,
+    raceEthnicityOrReligion: number,
+    sexBasedTerms: number
+}
+
+export type ExtensionSecret = {
+    formatVersion: number,
+    secrets: {
+        content: string,
+        activeAt: Date,
+        expiresAt: Date
+    }[]
+}
+
+export type BitsProduct = {
+    sku: string,
+    cost: {
+        amount: number,
+        type: "bits"
+    },
+    inDevelopment: boolean,
+    displayName: string,
+    expiration: Date,
+    isBroadcast: boolean
+}
+export const PREDICTION_OUTCOME_COLORS = {
+    BLUE: "BLUE",
+    PINK: "PINK"
+} as const;
+export type PredictionOutcomeColor = ObjectValues<typeof PREDICTION_OUTCOME_COLORS>;
+
+export const PREDICTION_STATUS = {
+    ACTIVE: "ACTIVE",
+    CANCELED: "CANCELED",
+    LOCKED: "LOCKED",
+    RESOLVED: "RESOLVED",
+
+} as const;
+export type PredictionStatus = ObjectValues<typeof PREDICTION_STATUS>;
+
+export type Prediction = {
+    id: string,
+    broadcasterId: string,
+    broadcasterDisplayName: string,
+    broadcasterLogin: string,
+    title: string,
+    winningOutcomeId: string,
+    outcomes: {
+       id: string,
+       title: string,
+       users: number,
+       channelPoints: number,
+       topPredictors:{
+           userId: string,
+           userDisplayName: string,
+           userLogin: string,
+           channelPointsUsed: number,
+           channelPointsWon: number
+       },
+        color: PredictionOutcomeColor,
+
+    }[],
+    predictionWindow: number,
+    status: PredictionStatus,
+    createdAt: Date,
+    endedAt: Date,
+    lockedAt: Date,
+}
+
+export const VIDEO_TYPES = {
+    ARCHIVE: "archive",
+    HIGHLIGHT: "highlight",
+    UPLOAD: "upload"
+
+} as const;
+export type VideoType = ObjectValues<typeof VIDEO_TYPES>;
+
+export const VIDEO_SORTINGS = {
+    TIME: "time",
+    TRENDING: "trending",
+    VIEWS: "views"
+
+} as const;
+export type VideoSorting = ObjectValues<typeof VIDEO_SORTINGS>;
+
+export const VIDEO_PERIODS = {
+    ALL: "all",
+    DAY: "day",
+    MONTH: "month",
+    WEEK: "week"
+
+} as const;
+export type VideoPeriods = ObjectValues<typeof VIDEO_PERIODS>;
+
+export type Video = {
+    id: string,
+    streamId: string,
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    title: string,
+    description: string,
+    createdAt: Date,
+    publishedAt: Date,
+    url: string,
+    thumbnailUrl: string,
+    viewable: string,
+    viewCount: number,
+    language: Languages,
+    type: VideoType,
+    duration: {
+        minutes: number,
+        seconds: number
+    },
+    mutedSegments:{
+        duration: number,
+        offset: number
+    }
+}
+
+export const STREAM_TYPES = {
+    LIVE: "live"
+
+} as const;
+export type StreamTypes = ObjectValues<typeof STREAM_TYPES>;
+
+export type Stream = {
+    id: string,
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    categoryId: string,
+    categoryName: string,
+    type: StreamTypes,
+    title: string,
+    viewerCount: number,
+    startedAt: Date,
+    language: Languages,
+    thumbnailUrl: string,
+    tagIds: string,
+    isMature: boolean
+}
+
+export type FollowRelationship = {
+    followerId: string,
+    followerLogin: string,
+    followerDisplayName: string,
+    followeeId: string,
+    followeeLogin: string,
+    followeeDisplayName: string
+    followedAt: Date
+}
+
+
+export const PLAYLIST_TRACK_SOURCE_CONTENT_TYPES = {
+    PLAYLIST: "PLAYLIST",
+    STATION: "STATION"
+
+} as const;
+export type PlaylistTrackSourceContentType = ObjectValues<typeof PLAYLIST_TRACK_SOURCE_CONTENT_TYPES>;
+export type PlaylistTrack = {
+    album:{
+        id: string,
+        imageUrl: string,
+        name: string
+    },
+    artists: {
+        creatorChannelId: string,
+        id: string,
+        name: string
+    }[],
+    duration: number,
+    id: string,
+    isrc: string,
+    title: string,
+    source?:{
+        contentType: "",
+        id: string,
+        imageUrl: string,
+        soundtrackUrl: string,
+        spotifyUrl: string,
+        title: string
+    }
+}
+
+export type SoundtrackPlaylist = {
+    id: string,
+    description: string,
+    imageUrl: string,
+    title: string
+}
+
+export type Channel = {
+    broadcasterLanguage: Languages,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    categoryId: string,
+    categoryName: string,
+    id: string,
+    isLive: boolean,
+    tagIds: string[],
+    thumbnailUrl: string,
+    title: string,
+    startedAt: Date
+}
+
+export const USER_SUBSCRIPTION_TIER = {
+    1000: "Tier 1",
+    2000: "Tier 2",
+    3000: "Tier 3"
+
+} as const;
+export type UserSubscriptionTier = ObjectValues<typeof USER_SUBSCRIPTION_TIER>;
+export type UserSubscription = {
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    gifterId: string,
+    gifterLogin: string,
+    gifterDisplayName: string,
+    isGift: boolean,
+    tier: UserSubscriptionTier
+}
+
+export type StreamMarker = {
+    creatorId: string,
+    creatorLogin: string,
+    creatorDisplayName: string,
+    videos:{
+        id: string,
+        markers: {
+            id: string,
+            createdAt: Date,
+            description: string,
+            position: number,
+            url: string
+        }[]
+    }[]
+}
+
+export type BroadcasterSubscription = UserSubscription & {
+    planName: string,
+    userId: string,
+    userLogin: string,
+    userDisplayName: string
+}
+
+export const CURRENCIES = {
+    EURO: "eur"
+
+} as const;
+export type Currency = ObjectValues<typeof CURRENCIES>;
+
+export type CharityCampaign = {
+    id: string,
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    name: string,
+    description: string,
+    logo: string,
+    website: string,
+    currentAmount: {
+        value: number,
+        decimalPlaces: number,
+        currency: Currency
+    },
+    targetAmount: {
+        value: number,
+        decimalPlaces: number,
+        currency: Currency
+    }
+
+}
+
+export type CharityDonation = {
+    campaignId: string,
+    donatorId: string,
+    donatorLogin: string,
+    donatorDisplayName: string,
+    amount: {
+        value: number,
+        decimalPlaces: number,
+        currency: Currency
+    }
+}
+
+
+export const HYPETRAIN_CONTRIBUTION_TYPES = {
+    BITS: "BITS",
+    SUBS: "SUBS",
+    OTHER: "OTHER"
+
+} as const;
+export type HypetrainContributionTypes = ObjectValues<typeof HYPETRAIN_CONTRIBUTION_TYPES>;
+
+export const HYPETRAIN_LEVELS = {
+    1: 1,
+    2: 2,
+    3: 3,
+    4: 4,
+    5: 5
+
+} as const;
+export type HypetrainLevel = ObjectValues<typeof HYPETRAIN_LEVELS>;
+
+export type HypeTrainEvent = {
+    id: string,
+    type: string,
+    timestamp: Date,
+    version: string,
+    data: {
+        broadcasterId: string,
+        cooldownEndTime: Date,
+        expiresAt: Date,
+        goal: number,
+        hypetrainId: string,
+        lastContribution:{
+            total: number,
+            type: HypetrainContributionTypes,
+            contributorId: string
+        },
+        level: HypetrainLevel,
+        startedAt: Date,
+        topContributions:{
+            total: number,
+            type: HypetrainContributionTypes,
+            contributorId: string
+        }[],
+        total: number
+    }
+}
+
+export type ShieldModeStatus = {
+    isActive: boolean,
+    moderatorId: string,
+    moderatorLogin: string,
+    moderatorDisplayName: string,
+    lastActivatedAt: Date
+}
+
+export type ExtensionLiveChannel = {
+    broadcasterId: string,
+    broadcasterDisplayName: string,
+    categoryId: string,
+    categoryName: string,
+    title: string
+}
+
+export const EXTENSION_TRANSACTION_PRODUCT_TYPE = {
+    BITS_IN_EXTENSION: "BITS_IN_EXTENSION"
+
+} as const;
+export type ExtensionTransactionProductType = ObjectValues<typeof EXTENSION_TRANSACTION_PRODUCT_TYPE>;
+
+export const EXTENSION_TRANSACTION_PRODUCT_COST_TYPE = {
+    BITS: "BITS"
+
+} as const;
+export type ExtensionTransactionProductCostType = ObjectValues<typeof EXTENSION_TRANSACTION_PRODUCT_COST_TYPE>;
+
+export type ExtensionTransaction = {
+    id: string,
+    timestamp: Date,
+    broadcasterId: string,
+    broadcasterLogin: string,
+    broadcasterDisplayName: string,
+    buyerId: string,
+    buyerLogin: string,
+    buyerDisplayName: string,
+    productType: ExtensionTransactionProductType,
+    productData:{
+        sku: string,
+        domain: string,
+        cost: {
+            amount: number,
+            type: ExtensionTransactionProductCostType
+        },
+        inDevelopment: boolean,
+        name: string,
+        expiration: string,
+        broadcast: boolean
+    }
+}
+
+export type UserExtension2 = {
+    panel: Map<string, {
+        active: boolean,
+        id: string,
+        version: string,
+        name:string
+    }>,
+    overlay: Map<string, {
+        active: boolean,
+        id: string,
+        version: string,
+        name:string
+    }>,
+    component: Map<string,{
+        active: boolean,
+        id: string,
+        version: string,
+        name:string,
+        x: number,
+        y: number
+    }>
+}
+
+
+export const ENTITLEMENT_STATUS = {
+    CLAIMED: "CLAIMED",
+    FULLFILLED: "FULLFILLED"
+
+} as const;
+export type EntitlementStatus = ObjectValues<typeof ENTITLEMENT_STATUS>;
+export type DropEntitlement = {
+    id: string,
+    benefitId: string,
+    timestamp: Date,
+    granteeId: string,
+    categoryId: string,
+    fulfillmentStatus: EntitlementStatus,
+    lastUpdated: Date
+}
+
+export type ScheduleSegment = {
+    id: string,
+    startTime: Date,
+    endTime: Date,
+    title: string,
+    canceledUntil: string,
+    category: {
+        id: string,
+        name: string
+    },
+    isRecurring: boolean
+
+}
+
+
+export type ChatSettingsModifications = {
+    emoteModeActive: boolean,
+    followerModeActive: boolean,
+    followerModeDuration: number,
+    moderatorChatDelayActive: boolean,
+    moderatorChatDelay: number,
+    slowModeActive: boolean,
+    slowModeWaitTime: number,
+    subscriberModeActive: boolean,
+    uniqueChatModeActive: boolean
+}
+
+export type RewardModifications = {
+    title?: string,
+    prompt?: string,
+    cost?: number,
+    backgroundColor?: string,
+    isEnabled?: boolean,
+    isUserInputRequired?: boolean,
+    isMaxPerStreamEnabled?: boolean,
+    maxPerStream?: number,
+    isMaxPerUserPerStreamEnabled?: boolean,
+    maxPerUserPerStream?: number,
+    isCooldownEnabled?: boolean,
+    cooldownSeconds?: number,
+    isPaused?: boolean,
+    redemptionsSkipRequestQueue: boolean
+}
+
+export const REDEMPTION_STATUS = {
+    CANCELED: "CANCELED",
+    FULFILLED: "FULFILLED",
+    /** @deprecated Misspelled, use FULFILLED */
+    FULLFILLED: "FULFILLED"
+
+} as const;
+export type RedemptionStatus = ObjectValues<typeof REDEMPTION_STATUS>;
+
+
+export type PubsubMessageTarget = "broadcast" | "global" | string;
@@ -0,0 +1,98 @@
+import {TokenHandler} from "./token-handler";
+import {TokenStore} from "./token-store";
+import {Transport} from "./transport";
+import {isDefined, isUndefined} from "./utils";
+
+/**
+ * Manages the tokens of many users, e.g. of all broadcasters a service acts for. Every user has its own token handler,
+ * so the tokens are refreshed independently and every user has its own rate limit bucket.
+ * @example
+ * await apiClient.userTokens.addUser(broadcasterId, {accessToken, refreshToken});
+ * await apiClient.as(broadcasterId).polls.createPoll(broadcasterId, "Best game?", ["Chess", "Go"], 60);
+ */
+export class UserTokenManager{
+
+    private readonly _clientId: string;
+    private readonly _clientSecret?: string;
+    private readonly _oauthBaseUrl?: string;
+    private readonly _transport?: Transport;
+    private readonly _tokenStore?: (userId: string) => TokenStore;
+
+    private readonly _tokenHandlers = new Map<string, TokenHandler>();
+
+    /**
+     * @param clientId The client identifier of the application
+     * @param [options] Additional options
+     * @param [options.clientSecret] The client secret of the application, which confidential clients need to refresh User Access Tokens
+     * @param [options.oauthBaseUrl] The base URL of the OAuth API, e.g. of a local mock server. Defaults to https://id.twitch.tv/oauth2
+     * @param [options.transport] The transport the OAuth requests are sent with. Defaults to axios.
+     * @param [options.tokenStore] Creates the store of a user's tokens. The tokens are saved to it when the user is added and after every refresh, so rotated refresh tokens are not lost.
+     */
+    constructor(clientId: string, options?: {clientSecret?: string, oauthBaseUrl?: string, transport?: Transport, tokenStore?: (userId: string) => TokenStore}){
+        this._clientId = clientId;
+        this._clientSecret = options?.clientSecret;
+        this._oauthBaseUrl = options?.oauthBaseUrl;
+        this._transport = options?.transport;
+        this._tokenStore = options?.tokenStore;
+    }
+
+    /**
+     * Adds the tokens of a user or replaces them, if the user was already added.
+     * With a refresh token, the User Access Token is refreshed automatically: Right away if expiresIn is unknown, otherwise 1 hour prior to its expiration.
+     * @param userId The ID of the user the tokens belong to
+     * @param tokens The tokens of the user
+     * @param tokens.accessToken The User Access Token
+     * @param [tokens.refreshToken] The refresh token of the User Access Token
+     * @param [tokens.expiresIn] The number of seconds until the User Access Token expires
+     * @returns The token handler of the user
+     */
+    public async addUser(userId: string, tokens: {accessToken: string, refreshToken?: string, expiresIn?: number}): Promise<TokenHandler>{
+        this.removeUser(userId);
+
+        //The handler only manages the tokens of the user, App Access Tokens are handled by the client
+        const tokenHandler = new TokenHandler(this._clientId, {userAccessToken: tokens.accessToken, refreshToken: tokens.refreshToken}, {clientSecret: this._clientSecret, oauthBaseUrl: this._oauthBaseUrl, transport: this._transport, store: this._tokenStore?.(userId), logMissingTokens: false});
+        this._tokenHandlers.set(userId, tokenHandler);
+
+        //Starts the refresh interval if expiresIn is known and saves the tokens
+        await tokenHandler.setUserTokens(tokens);
+
+        if(isDefined(tokens.refreshToken) && isUndefined(tokens.expiresIn))
+            await tokenHandler.startUserTokenRefresh();
+
+        return tokenHandler;
+    }
+
+    /**
+     * Removes the tokens of a user and stops their refresh interval
+     * @param userId The ID of the user
+     * @returns A Boolean that determines whether tokens of the user were added
+     */
+    public removeUser(userId: string): boolean{
+        this._tokenHandlers.get(userId)?.stopUserTokenRefresh();
+        return this._tokenHandlers.delete(userId);
+    }
+
+    /**
+     * Gets the token handler of a user
+     * @param userId The ID of the user
+     * @returns The token handler, or undefined if no tokens of the user were added
+     */
+    public getTokenHandler(userId: string): TokenHandler | undefined{
+        return this._tokenHandlers.get(userId);
+    }
+
+    /**
+     * Stops the refresh intervals of all users, e.g. on shutdown
+     */
+    public stop(){
+        for(const tokenHandler of this._tokenHandlers.values())
+            tokenHandler.stopUserTokenRefresh();
+    }
+
+    /**
+     * The IDs of all users whose tokens were added
+     */
+    get userIds(): string[]{
+        return [...this._tokenHandlers.keys()];
+    }
+}
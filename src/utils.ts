@@ -15,3 +15,7 @@ export function isDefined(...variables: (unknown | undefined)[]): boolean{
 
     return true;
 }
+
+export function sleep(ms: number): Promise<void>{
+    return new Promise((resolve)=> setTimeout(resolve, ms));
+}
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import axios from "axios";
+import {AuthorizationCodeFlow, Exception, FakeHelix, FakeUser, TwitchAPI} from "../src";
+
+describe("Authorization Code flow", ()=>{
+    const redirectUri = "http://127.0.0.1:38915/callback";
+
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+    let flow: AuthorizationCodeFlow;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+        flow = new AuthorizationCodeFlow({clientId: helix.clientId, clientSecret: helix.clientSecret, redirectUri, scopes: ["channel:manage:polls", "user:read:email"], oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+    })
+
+    it("Builds the authorize URL", ()=>{
+        const url = new URL(flow.getAuthorizeUrl("somestate"));
+
+        expect(url.origin + url.pathname).to.equal(`${helix.oauthBaseUrl}/authorize`);
+        expect(Object.fromEntries(url.searchParams)).to.deep.equal({client_id: helix.clientId, redirect_uri: redirectUri, response_type: "code", scope: "channel:manage:polls user:read:email", state: "somestate"});
+    })
+
+    it("Receives the code and hands the tokens to a token handler", async()=>{
+        const apiClient = new TwitchAPI({clientId: helix.clientId, options: helix.clientOptions});
+
+        const tokens = await flow.authorize({
+            tokenHandler: apiClient._tokenHandler,
+            onAuthorizeUrl: async (url)=>{
+                //A request with a forged state must not complete the flow
+                const forged = new URL(helix.approveAuthorization(url, broadcaster.id));
+                forged.searchParams.set("state", "forged");
+                expect((await axios.get(forged.toString(), {validateStatus: ()=> true})).status).to.equal(400);
+
+                await axios.get(helix.approveAuthorization(url, broadcaster.id));
+            }
+        });
+        apiClient._tokenHandler.stopUserTokenRefresh();
+
+        expect(tokens.scopes).to.deep.equal(["channel:manage:polls", "user:read:email"]);
+        expect(apiClient._tokenHandler.userAccessToken).to.equal(tokens.accessToken);
+        expect(apiClient._tokenHandler.refreshToken).to.equal(tokens.refreshToken);
+        expect((await apiClient.users.getUsers({userIds: [broadcaster.id]}))[0].login).to.equal("broadcaster");
+    })
+
+    it("Fails if the user denies the authorization", async()=>{
+        try{
+            await flow.authorize({onAuthorizeUrl: (url)=> axios.get(helix.denyAuthorization(url), {validateStatus: ()=> true})});
+            expect.fail("authorize should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(Exception);
+            expect((err as Exception).message).to.contain("The user denied you access");
+        }
+    })
+})
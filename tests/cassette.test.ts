@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {Cassette, CASSETTE_MODES, FakeHelix, TwitchAPI, UnmatchedRequestException} from "../src";
+
+describe("Cassette", ()=>{
+    let directory: string;
+    let file: string;
+    let helix: FakeHelix;
+    let broadcasterId: string;
+
+    beforeEach(()=>{
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "twitchts-cassette-"));
+        file = path.join(directory, "cassettes", "channels.json");
+
+        helix = new FakeHelix();
+        broadcasterId = helix.createUser({login: "broadcaster", displayName: "Broadcaster"}).id;
+    })
+
+    afterEach(()=>{
+        fs.rmSync(directory, {recursive: true, force: true});
+    })
+
+    function createClient(cassette: Cassette): TwitchAPI{
+        return new TwitchAPI({clientId: helix.clientId, clientSecret: helix.clientSecret, options: {helixBaseUrl: helix.helixBaseUrl, oauthBaseUrl: helix.oauthBaseUrl, transport: cassette.transport, retry: {maxAttempts: 1}}});
+    }
+
+    it("Replays recorded exchanges without secrets", async()=>{
+        const recordingClient = createClient(new Cassette(file, {mode: CASSETTE_MODES.RECORD, transport: helix.transport}));
+        await recordingClient._tokenHandler.renewAppAccessToken();
+        await recordingClient.getChannelInformation([broadcasterId]);
+
+        const recording = fs.readFileSync(file, "utf8");
+        expect(recording).not.to.contain(helix.clientSecret);
+        expect(recording).not.to.contain(recordingClient._tokenHandler.appAccessToken);
+
+        //Without an upstream, every response must come from the cassette
+        const replayingClient = createClient(new Cassette(file, {transport: async ()=> expect.fail("The upstream transport must not be used")}));
+        await replayingClient._tokenHandler.renewAppAccessToken();
+        const channels = await replayingClient.getChannelInformation([broadcasterId]);
+
+        expect(channels[0]).to.include({streamerId: broadcasterId, streamerLogin: "broadcaster", streamerDisplayName: "Broadcaster"});
+    })
+
+    it("Fails loudly on unmatched requests while replaying", async()=>{
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {appToken: "app-token"}, options: {transport: new Cassette(file).transport}});
+
+        try{
+            await apiClient.getChannelInformation([broadcasterId]);
+            expect.fail("getChannelInformation should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(UnmatchedRequestException);
+            expect((err as UnmatchedRequestException).url).to.equal(`https://api.twitch.tv/helix/channels?broadcaster_id=${broadcasterId}`);
+        }
+    })
+
+    it("Records new requests and replays existing ones", async()=>{
+        const firstClient = createClient(new Cassette(file, {mode: CASSETTE_MODES.RECORD_NEW, transport: helix.transport}));
+        await firstClient._tokenHandler.renewAppAccessToken();
+        await firstClient.getChannelInformation([broadcasterId]);
+
+        const otherId = helix.createUser({login: "other"}).id;
+        const cassette = new Cassette(file, {mode: CASSETTE_MODES.RECORD_NEW, transport: helix.transport});
+        const secondClient = createClient(cassette);
+        await secondClient._tokenHandler.renewAppAccessToken();
+        await secondClient.getChannelInformation([broadcasterId]);
+        await secondClient.getChannelInformation([otherId]);
+
+        expect(cassette.interactions.map((interaction)=> interaction.request.url)).to.deep.equal([
+            `${helix.oauthBaseUrl}/token`,
+            `${helix.helixBaseUrl}/channels?broadcaster_id=${broadcasterId}`,
+            `${helix.helixBaseUrl}/channels?broadcaster_id=${otherId}`
+        ]);
+    })
+})
@@ -0,0 +1,53 @@
+import { expect } from 'chai';
+import {DeviceVerification, Exception, FakeHelix, FakeUser, TwitchAPI} from "../src";
+
+describe("Device Code Grant flow", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+    let apiClient: TwitchAPI;
+
+    beforeEach(()=>{
+        helix = new FakeHelix({deviceInterval: 0});
+        broadcaster = helix.createUser({login: "broadcaster"});
+        apiClient = new TwitchAPI({clientId: helix.clientId, options: helix.clientOptions});
+    })
+
+    afterEach(()=>{
+        apiClient._tokenHandler.stopUserTokenRefresh();
+    })
+
+    it("Polls until the user approved the device and sets the tokens", async()=>{
+        let verification: DeviceVerification | undefined;
+
+        await apiClient._tokenHandler.authorizeDevice(["channel:manage:polls"], (received)=>{
+            verification = received;
+            //The first polls are answered with authorization_pending
+            setTimeout(()=> helix.approveDevice(received.userCode, broadcaster.id), 20);
+        });
+
+        expect(verification!.verificationUri).to.contain(verification!.userCode);
+        expect(verification!.expiresIn).to.equal(1800);
+        expect(apiClient._tokenHandler.refreshToken).to.be.a("string");
+
+        const poll = await apiClient.polls.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+        expect(poll.title).to.equal("Best game?");
+    })
+
+    it("Fails on errors other than authorization_pending and slow_down", async()=>{
+        apiClient = new TwitchAPI({clientId: helix.clientId, options: {...helix.clientOptions, transport: async (request)=>{
+            //Twitch answers polls of an expired device code with "invalid device code"
+            if(request.url.endsWith("/token"))
+                return {status: 400, headers: {}, data: {status: 400, message: "invalid device code"}};
+
+            return await helix.transport(request);
+        }}});
+
+        try{
+            await apiClient._tokenHandler.authorizeDevice(["channel:manage:polls"], ()=> undefined);
+            expect.fail("authorizeDevice should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(Exception);
+            expect((err as Exception).message).to.contain("invalid device code");
+        }
+    })
+})
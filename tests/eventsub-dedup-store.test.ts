@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import {EventSubNotification, EventSubWebhookHandler, EventSubWebSocketClient, FakeHelix, JsonFileDedupStore, MemoryDedupStore, TwitchAPI} from "../src";
+
+describe("EventSub dedup stores", ()=>{
+    let directory: string;
+
+    beforeEach(()=>{
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "dedup-store-"));
+    })
+
+    afterEach(()=>{
+        fs.rmSync(directory, {recursive: true, force: true});
+    })
+
+    it("Remembers IDs until they expire or are evicted", async()=>{
+        let now = new Date("2023-01-01T00:00:00Z");
+        const store = new MemoryDedupStore({ttl: 1000, maxSize: 2, now: ()=> now});
+
+        expect(await store.add("first")).to.be.true;
+        expect(await store.add("first")).to.be.false;
+
+        now = new Date(now.getTime() + 1001);
+        expect(await store.add("first")).to.be.true;
+
+        //first was seen last, so second is evicted when third is added
+        expect(await store.add("second")).to.be.true;
+        expect(await store.add("first")).to.be.false;
+        expect(await store.add("third")).to.be.true;
+
+        expect(store.size).to.equal(2);
+        expect(await store.add("first")).to.be.false;
+        expect(await store.add("second")).to.be.true;
+    })
+
+    it("Keeps the IDs in a JSON file", async()=>{
+        const store = new JsonFileDedupStore(path.join(directory, "nested", "message-ids.json"));
+
+        expect(await Promise.all([store.add("first"), store.add("second"), store.add("first")])).to.deep.equal([true, true, false]);
+
+        const restarted = new JsonFileDedupStore(store.file);
+        expect(await restarted.add("first")).to.be.false;
+        expect(await restarted.add("third")).to.be.true;
+    })
+
+    it("Dispatches retried webhook notifications once", async()=>{
+        const secret = "s3cr3t-webhook-secret";
+        const webhook = new EventSubWebhookHandler(secret, {dedupStore: new JsonFileDedupStore(path.join(directory, "message-ids.json"))});
+        const notifications: EventSubNotification[] = [];
+        webhook.on("notification", (notification)=> notifications.push(notification));
+
+        const messageId = crypto.randomUUID();
+        const timestamp = new Date().toISOString();
+        const body = JSON.stringify({subscription: {id: "1", status: "enabled", type: "stream.online", version: "1", condition: {broadcaster_user_id: "1"}, transport: {method: "webhook", callback: "https://example.com"}, created_at: timestamp, cost: 0}, event: {id: "2"}});
+        const headers = {
+            "Twitch-Eventsub-Message-Id": messageId,
+            "Twitch-Eventsub-Message-Timestamp": timestamp,
+            "Twitch-Eventsub-Message-Signature": `sha256=${crypto.createHmac("sha256", secret).update(messageId + timestamp + body).digest("hex")}`,
+            "Twitch-Eventsub-Message-Type": "notification"
+        };
+
+        //Retries are acknowledged like the first delivery, otherwise Twitch keeps retrying
+        expect((await webhook.handle({headers, body})).status).to.equal(204);
+        expect((await webhook.handle({headers, body})).status).to.equal(204);
+
+        expect(notifications).to.have.length(1);
+    })
+
+    it("Dispatches the retry of a notification whose listener failed", async()=>{
+        const secret = "s3cr3t-webhook-secret";
+        const webhook = new EventSubWebhookHandler(secret, {dedupStore: new JsonFileDedupStore(path.join(directory, "message-ids.json"))});
+        const notifications: EventSubNotification[] = [];
+        webhook.once("notification", ()=>{
+            throw new Error("Listener failed");
+        });
+
+        const messageId = crypto.randomUUID();
+        const timestamp = new Date().toISOString();
+        const body = JSON.stringify({subscription: {id: "1", status: "enabled", type: "stream.online", version: "1", condition: {broadcaster_user_id: "1"}, transport: {method: "webhook", callback: "https://example.com"}, created_at: timestamp, cost: 0}, event: {id: "2"}});
+        const headers = {
+            "Twitch-Eventsub-Message-Id": messageId,
+            "Twitch-Eventsub-Message-Timestamp": timestamp,
+            "Twitch-Eventsub-Message-Signature": `sha256=${crypto.createHmac("sha256", secret).update(messageId + timestamp + body).digest("hex")}`,
+            "Twitch-Eventsub-Message-Type": "notification"
+        };
+
+        try{
+            await webhook.handle({headers, body});
+            expect.fail("handle should have thrown");
+        }catch(err){
+            expect((err as Error).message).to.equal("Listener failed");
+        }
+
+        webhook.on("notification", (notification)=> notifications.push(notification));
+        expect((await webhook.handle({headers, body})).status).to.equal(204);
+        expect((await webhook.handle({headers, body})).status).to.equal(204);
+
+        expect(notifications).to.have.length(1);
+    })
+
+    it("Dispatches WebSocket notifications once", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const token = helix.issueUserToken(broadcaster.id);
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: helix.clientOptions});
+
+        const client = new EventSubWebSocketClient(apiClient.eventsub, {
+            url: helix.eventsubWebSocketUrl,
+            webSocket: helix.webSocket,
+            subscriptions: [{type: "stream.online", version: "1", condition: {broadcaster_user_id: broadcaster.id}}]
+        });
+
+        try{
+            const events: unknown[] = [];
+            //Notifications are dispatched in order, so the duplicates were handled once the second event arrived
+            const second = new Promise<void>((resolve)=> client.on("stream.online", (event)=>{
+                events.push(event);
+                if(event.id === "2")
+                    resolve();
+            }));
+            await client.connect();
+
+            helix.publishEvent("stream.online", {broadcaster_user_id: broadcaster.id}, {id: "1"}, {deliveries: 3});
+            helix.publishEvent("stream.online", {broadcaster_user_id: broadcaster.id}, {id: "2"});
+            await second;
+
+            expect(events).to.deep.equal([{id: "1"}, {id: "2"}]);
+        }finally{
+            client.disconnect();
+        }
+    })
+})
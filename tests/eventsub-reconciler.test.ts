@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import {EventSubReconciler, EventSubSubscriptionDefinition, FakeHelix, TRANSPORT_METHODS, TwitchAPI} from "../src";
+
+const callback = "https://example.com/eventsub";
+const secret = "s3cr3t-webhook-secret";
+
+describe("EventSub reconciler", ()=>{
+    let helix: FakeHelix;
+    let apiClient: TwitchAPI;
+    let reconciler: EventSubReconciler;
+
+    const raid: EventSubSubscriptionDefinition = {type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: "1"}};
+    const online: EventSubSubscriptionDefinition = {type: "stream.online", version: "1", condition: {broadcaster_user_id: "1"}};
+    const offline: EventSubSubscriptionDefinition = {type: "stream.offline", version: "1", condition: {broadcaster_user_id: "1"}};
+
+    function setup(eventsubMaxTotalCost?: number){
+        helix = new FakeHelix({eventsubMaxTotalCost});
+        apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {appToken: helix.issueAppToken()}, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+        reconciler = new EventSubReconciler(apiClient.eventsub, {method: TRANSPORT_METHODS.WEBHOOK, callback, secret});
+    }
+
+    async function create(definition: EventSubSubscriptionDefinition, callbackUrl = callback){
+        return await apiClient.eventsub.createEventsubSubscription(definition.type, definition.version, definition.condition, {method: TRANSPORT_METHODS.WEBHOOK, callback: callbackUrl, secret});
+    }
+
+    it("Creates missing and deletes failed and stale subscriptions", async()=>{
+        setup();
+        const kept = await create(raid);
+        //Subscriptions of another callback URL belong to another deployment
+        const foreign = await create(raid, "https://example.com/other-eventsub");
+        const failed = await create(online);
+        helix.setSubscriptionStatus(failed.id, "webhook_callback_verification_failed");
+        const stale = await create({type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: "2"}});
+
+        const plan = await reconciler.plan([raid, online, offline]);
+        expect(plan.keep.map((subscription)=> subscription.id)).to.deep.equal([kept.id]);
+        expect(plan.delete.map((subscription)=> subscription.id)).to.deep.equal([failed.id, stale.id]);
+        expect(plan.create.map((definition)=> definition.type)).to.deep.equal(["stream.online", "stream.offline"]);
+        expect(plan.totalCost).to.equal(4);
+
+        const result = await reconciler.reconcile([raid, online, offline]);
+        expect(result.kept.map((subscription)=> subscription.id)).to.deep.equal([kept.id]);
+        expect(result.deleted).to.have.length(2);
+        expect(result.created.map((subscription)=> subscription.type)).to.deep.equal(["stream.online", "stream.offline"]);
+        expect(result.failedCreations).to.be.empty;
+        expect(result.failedDeletions).to.be.empty;
+        expect(result.totalCost).to.equal(4);
+        expect(result.maxTotalCost).to.equal(10000);
+
+        //A second run has nothing to do
+        const again = await reconciler.plan([raid, online, offline]);
+        expect(again.create).to.be.empty;
+        expect(again.delete).to.be.empty;
+        expect(again.keep).to.have.length(3);
+
+        const subscriptions = await apiClient.eventsub.getEventsubSubscription({usedMethod: TRANSPORT_METHODS.WEBHOOK});
+        expect(subscriptions!.subscriptions.map((subscription)=> subscription.id)).to.include(foreign.id);
+    })
+
+    it("Deletes subscriptions of other callbacks if enabled", async()=>{
+        setup();
+        const kept = await create(raid);
+        const oldCallback = await create(raid, "https://example.com/old-eventsub");
+        reconciler = new EventSubReconciler(apiClient.eventsub, reconciler.transport, {deleteForeignTransports: true});
+
+        const result = await reconciler.reconcile([raid]);
+        expect(result.kept.map((subscription)=> subscription.id)).to.deep.equal([kept.id]);
+        expect(result.deleted.map((subscription)=> subscription.id)).to.deep.equal([oldCallback.id]);
+        expect(result.created).to.be.empty;
+        expect(result.totalCost).to.equal(1);
+    })
+
+    it("Reports subscriptions that exceed the maximum total cost", async()=>{
+        setup(2);
+        await create(raid);
+
+        const result = await reconciler.reconcile([raid, online, offline]);
+
+        expect(result.created).to.have.length(1);
+        expect(result.failedCreations.map((failure)=> failure.definition.type)).to.deep.equal(["stream.offline"]);
+        expect(result.totalCost).to.equal(2);
+        expect(result.maxTotalCost).to.equal(2);
+    })
+})
@@ -0,0 +1,55 @@
+import { expect } from 'chai';
+import {once} from "events";
+import {ChannelRaidEvent, EventSubSubscriptionDefinition, EventSubWebSocketClient, FakeHelix, SUBSCRIPTION_TYPES, SUBSCRIPTION_VERSIONS, TRANSPORT_METHODS, TwitchAPI, camelCaseKeys} from "../src";
+
+describe("EventSub types", ()=>{
+    it("Knows the version of every subscription type", ()=>{
+        for(const type of Object.values(SUBSCRIPTION_TYPES))
+            expect(SUBSCRIPTION_VERSIONS[type]).to.be.a("string");
+    })
+
+    it("Camel-cases events", ()=>{
+        const event = camelCaseKeys({broadcaster_user_id: "1", top_contributions: [{user_login: "viewer"}], image: {url_1x: "https://example.com"}, last_contribution: null});
+
+        expect(event).to.deep.equal({broadcasterUserId: "1", topContributions: [{userLogin: "viewer"}], image: {url1x: "https://example.com"}, lastContribution: null});
+    })
+
+    it("Checks conditions against the subscription type", ()=>{
+        const raid: EventSubSubscriptionDefinition = {type: "channel.raid", version: "1", condition: {from_broadcaster_user_id: "1"}};
+        expect(raid.type).to.equal("channel.raid");
+
+        // @ts-expect-error channel.ban requires broadcaster_user_id
+        const ban: EventSubSubscriptionDefinition = {type: "channel.ban", version: "1", condition: {}};
+        // @ts-expect-error channel.follow is only typed in version 2
+        const follow: EventSubSubscriptionDefinition = {type: "channel.follow", version: "1", condition: {broadcaster_user_id: "1", moderator_user_id: "1"}};
+        expect([ban, follow]).to.have.length(2);
+    })
+
+    it("Emits typed events of the subscription types", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const token = helix.issueUserToken(broadcaster.id);
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: helix.clientOptions});
+
+        const client = new EventSubWebSocketClient(apiClient.eventsub, {url: helix.eventsubWebSocketUrl, webSocket: helix.webSocket});
+
+        try{
+            const sessionId = await client.connect();
+            const subscription = await apiClient.eventsub.createEventsubSubscription("channel.raid", "1", {to_broadcaster_user_id: broadcaster.id}, {method: TRANSPORT_METHODS.WEBSOCKET, sessionId});
+            expect(subscription.condition.to_broadcaster_user_id).to.equal(broadcaster.id);
+
+            const raids: ChannelRaidEvent[] = [];
+            client.on("channel.raid", (event)=> raids.push(event));
+
+            const notification = once(client, "notification");
+            helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {from_broadcaster_user_id: "1234", from_broadcaster_user_login: "raider", from_broadcaster_user_name: "Raider", to_broadcaster_user_id: broadcaster.id, to_broadcaster_user_login: "broadcaster", to_broadcaster_user_name: "broadcaster", viewers: 9001});
+            await notification;
+
+            expect(raids).to.have.length(1);
+            expect(raids[0].fromBroadcasterUserId).to.equal("1234");
+            expect(raids[0].viewers).to.equal(9001);
+        }finally{
+            client.disconnect();
+        }
+    })
+})
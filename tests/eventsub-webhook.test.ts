@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import http from "http";
+import net from "net";
+import crypto from "crypto";
+import axios from "axios";
+import {EventSubNotification, EventSubWebhookHandler, Subscription} from "../src";
+
+const secret = "s3cr3t-webhook-secret";
+const subscription = {
+    id: "f1c2a387-161a-49f9-a165-0f21d7a4e1c4",
+    status: "enabled",
+    type: "channel.raid",
+    version: "1",
+    condition: {to_broadcaster_user_id: "1337"},
+    transport: {method: "webhook", callback: "https://example.com/eventsub"},
+    created_at: "2023-01-01T00:00:00Z",
+    cost: 0
+}
+
+function signedRequest(messageType: string, payload: object, options?: {timestamp?: string, secret?: string}){
+    const messageId = crypto.randomUUID();
+    const timestamp = options?.timestamp ?? new Date().toISOString();
+    const body = JSON.stringify(payload);
+    const signature = `sha256=${crypto.createHmac("sha256", options?.secret ?? secret).update(messageId + timestamp + body).digest("hex")}`;
+
+    return {
+        headers: {
+            "Twitch-Eventsub-Message-Id": messageId,
+            "Twitch-Eventsub-Message-Timestamp": timestamp,
+            "Twitch-Eventsub-Message-Signature": signature,
+            "Twitch-Eventsub-Message-Type": messageType,
+            "Content-Type": "application/json"
+        },
+        body
+    }
+}
+
+describe("EventSub webhook handler", ()=>{
+    let webhook: EventSubWebhookHandler;
+
+    beforeEach(()=>{
+        webhook = new EventSubWebhookHandler(secret);
+    })
+
+    it("Answers verification challenges", async()=>{
+        const verified: Subscription[] = [];
+        webhook.on("verification", (verifiedSubscription)=> verified.push(verifiedSubscription));
+
+        const response = await webhook.handle(signedRequest("webhook_callback_verification", {subscription: {...subscription, status: "webhook_callback_verification_pending"}, challenge: "pogchamp-kappa-360noscope-vohiyo"}));
+
+        expect(response.status).to.equal(200);
+        expect(response.headers["Content-Type"]).to.equal("text/plain");
+        expect(response.body).to.equal("pogchamp-kappa-360noscope-vohiyo");
+        expect(verified[0].id).to.equal(subscription.id);
+    })
+
+    it("Dispatches notifications and revocations", async()=>{
+        const notifications: EventSubNotification[] = [];
+        const revocations: Subscription[] = [];
+        webhook.on("notification", (notification)=> notifications.push(notification));
+        webhook.on("revocation", (revoked)=> revocations.push(revoked));
+
+        const request = signedRequest("notification", {subscription, event: {from_broadcaster_user_id: "1234", viewers: 9001}});
+        expect((await webhook.handle(request)).status).to.equal(204);
+
+        expect(notifications[0].messageId).to.equal(request.headers["Twitch-Eventsub-Message-Id"]);
+        expect(notifications[0].subscription.type).to.equal("channel.raid");
+        expect(notifications[0].event).to.deep.equal({from_broadcaster_user_id: "1234", viewers: 9001});
+
+        expect((await webhook.handle(signedRequest("revocation", {subscription: {...subscription, status: "authorization_revoked"}}))).status).to.equal(204);
+        expect(revocations[0].status).to.equal("authorization_revoked");
+    })
+
+    it("Rejects invalid signatures, stale messages and incomplete requests", async()=>{
+        let dispatched = 0;
+        webhook.on("notification", ()=> dispatched++);
+
+        const forged = signedRequest("notification", {subscription, event: {}}, {secret: "not-the-secret"});
+        expect((await webhook.handle(forged)).status).to.equal(403);
+
+        const tampered = signedRequest("notification", {subscription, event: {viewers: 1}});
+        expect((await webhook.handle({...tampered, body: tampered.body.replace("1", "2")})).status).to.equal(403);
+
+        const stale = signedRequest("notification", {subscription, event: {}}, {timestamp: new Date(Date.now() - 1000 * 60 * 11).toISOString()});
+        expect((await webhook.handle(stale)).status).to.equal(403);
+
+        expect((await webhook.handle({headers: {}, body: "{}"})).status).to.equal(400);
+        expect(dispatched).to.equal(0);
+    })
+
+    it("Serves the callback over HTTP", async()=>{
+        const server = await webhook.listen(0, {path: "/eventsub", host: "127.0.0.1"});
+
+        try{
+            const request = signedRequest("webhook_callback_verification", {subscription, challenge: "challenge"});
+            const response = await axios.post(`http://127.0.0.1:${server.port}/eventsub`, request.body, {headers: request.headers});
+            expect(response.data).to.equal("challenge");
+
+            const other = await axios.post(`http://127.0.0.1:${server.port}/other`, request.body, {headers: request.headers, validateStatus: ()=> true});
+            expect(other.status).to.equal(404);
+
+            const errors: unknown[] = [];
+            webhook.on("error", (err)=> errors.push(err));
+            webhook.once("notification", ()=>{
+                throw new Error("Listener failed");
+            });
+
+            const notification = signedRequest("notification", {subscription, event: {viewers: 5}});
+            const failed = await axios.post(`http://127.0.0.1:${server.port}/eventsub`, notification.body, {headers: notification.headers, validateStatus: ()=> true});
+            expect(failed.status).to.equal(500);
+            expect((errors[0] as Error).message).to.equal("Listener failed");
+        }finally{
+            await server.close();
+        }
+    })
+
+    it("Works as a middleware", async()=>{
+        const middleware = webhook.middleware();
+        const errors: unknown[] = [];
+        const server = http.createServer((request, response)=> middleware(request, response, (err)=>{
+            errors.push(err);
+            response.writeHead(500).end();
+        }));
+        await new Promise<void>((resolve)=> server.listen(0, "127.0.0.1", resolve));
+
+        try{
+            const port = (server.address() as {port: number}).port;
+            const notifications: EventSubNotification[] = [];
+            webhook.on("notification", (notification)=> notifications.push(notification));
+
+            const request = signedRequest("notification", {subscription, event: {viewers: 5}});
+            const response = await axios.post(`http://127.0.0.1:${port}/eventsub`, request.body, {headers: request.headers});
+
+            expect(response.status).to.equal(204);
+            expect(notifications[0].event).to.deep.equal({viewers: 5});
+            expect(errors).to.be.empty;
+        }finally{
+            await new Promise((resolve)=> server.close(resolve));
+        }
+    })
+
+    it("Passes failures to read the body to the next handler", async()=>{
+        const request = new http.IncomingMessage(new net.Socket());
+        const response = new http.ServerResponse(request);
+
+        const passed = new Promise<unknown>((resolve)=> webhook.middleware()(request, response, resolve));
+        request.emit("error", new Error("aborted"));
+
+        expect(((await passed) as Error).message).to.equal("aborted");
+    })
+})
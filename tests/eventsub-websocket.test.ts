@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import {once} from "events";
+import {EventSubNotification, EventSubWebSocket, EventSubWebSocketClient, FakeHelix, FakeUser, TwitchAPI} from "../src";
+
+describe("EventSub WebSocket client", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+    let apiClient: TwitchAPI;
+    let client: EventSubWebSocketClient;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+
+        const token = helix.issueUserToken(broadcaster.id);
+        apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+
+        client = new EventSubWebSocketClient(apiClient.eventsub, {
+            url: helix.eventsubWebSocketUrl,
+            webSocket: helix.webSocket,
+            keepaliveTimeoutSeconds: 0.05,
+            reconnectDelay: 10,
+            subscriptions: [{type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: broadcaster.id}}]
+        });
+    })
+
+    afterEach(()=>{
+        client.disconnect();
+    })
+
+    it("Creates the subscriptions for the session and emits notifications", async()=>{
+        const sessionId = await client.connect();
+
+        expect(client.sessionId).to.equal(sessionId);
+        expect(client.subscriptions).to.have.length(1);
+        expect(client.subscriptions[0].type).to.equal("channel.raid");
+
+        const notification = once(client, "notification");
+        expect(helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 42})).to.equal(1);
+
+        const [received] = await notification as [EventSubNotification];
+        expect(received.subscription.id).to.equal(client.subscriptions[0].id);
+        expect(received.event).to.deep.equal({viewers: 42});
+    })
+
+    it("Follows reconnect requests without dropping notifications", async()=>{
+        const sessionId = await client.connect();
+        const events: unknown[] = [];
+        client.on("notification", (notification)=> events.push(notification.event));
+
+        const reconnected = once(client, "reconnected");
+        helix.reconnectWebSockets();
+        //Sent to the old connection while the client connects to the reconnect URL
+        helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 1});
+
+        expect(await reconnected).to.deep.equal([sessionId]);
+        helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 2});
+        await once(client, "notification");
+
+        expect(events).to.deep.equal([{viewers: 1}, {viewers: 2}]);
+        expect(client.sessionId).to.equal(sessionId);
+    })
+
+    it("Starts a new session when the keepalive messages stop", async()=>{
+        const sessionId = await client.connect();
+
+        const disconnected = once(client, "disconnected");
+        const connected = once(client, "connected");
+        helix.stallWebSockets();
+
+        expect((await disconnected)[0].code).to.equal(4005);
+        const [newSessionId] = await connected;
+
+        expect(newSessionId).to.not.equal(sessionId);
+        expect(client.subscriptions).to.have.length(1);
+        expect(helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 3})).to.equal(1);
+    })
+
+    it("Emits revocations", async()=>{
+        await client.connect();
+        const subscriptionId = client.subscriptions[0].id;
+
+        const revocation = once(client, "revocation");
+        helix.revokeSubscription(subscriptionId, "user_removed");
+
+        const [revoked] = await revocation;
+        expect(revoked.id).to.equal(subscriptionId);
+        expect(revoked.status).to.equal("user_removed");
+        expect(client.subscriptions).to.be.empty;
+    })
+
+    it("Emits failures of listeners and malformed messages as errors", async()=>{
+        const sockets: EventSubWebSocket[] = [];
+        const webSocket = helix.webSocket;
+        client = new EventSubWebSocketClient(apiClient.eventsub, {
+            url: helix.eventsubWebSocketUrl,
+            webSocket: (url)=>{
+                const socket = webSocket(url);
+                sockets.push(socket);
+                return socket;
+            },
+            subscriptions: [{type: "channel.raid", version: "1", condition: {to_broadcaster_user_id: broadcaster.id}}]
+        });
+        await client.connect();
+
+        const errors: unknown[] = [];
+        client.on("error", (err)=> errors.push(err));
+        client.once("channel.raid", ()=>{
+            throw new Error("Listener failed");
+        });
+
+        const notification = once(client, "notification");
+        helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 1});
+        await notification;
+        await new Promise((resolve)=> setImmediate(resolve));
+
+        //A message without metadata
+        sockets[0].onmessage!({data: "{}"});
+
+        expect(errors).to.have.length(2);
+        expect((errors[0] as Error).message).to.equal("Listener failed");
+        expect(errors[1]).to.be.instanceOf(TypeError);
+
+        //The client keeps working
+        const next = once(client, "notification");
+        helix.publishEvent("channel.raid", {to_broadcaster_user_id: broadcaster.id}, {viewers: 2});
+        expect((await next)[0].event).to.deep.equal({viewers: 2});
+    })
+})
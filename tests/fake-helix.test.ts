@@ -0,0 +1,163 @@
+import { expect } from 'chai';
+import http from "http";
+import {BadRequestException, FakeHelix, FakeUser, MissingScopeException, TwitchAPI} from "../src";
+
+describe("Fake Helix", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+    let viewer: FakeUser;
+    let apiClient: TwitchAPI;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster", displayName: "Broadcaster"});
+        viewer = helix.createUser({login: "viewer"});
+
+        const token = helix.issueUserToken(broadcaster.id);
+        apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken, refreshToken: token.refreshToken}, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+    })
+
+    it("Bans and unbans users", async()=>{
+        await apiClient.banUser(broadcaster.id, broadcaster.id, viewer.id, {reason: "spam"});
+
+        const bans = await apiClient.getBannedUsers(broadcaster.id);
+        expect(bans!.bannedUsers).to.have.length(1);
+        expect(bans!.bannedUsers[0]).to.include({userId: viewer.id, userLogin: "viewer", reason: "spam", expiresAt: null, moderatorId: broadcaster.id});
+
+        try{
+            await apiClient.banUser(broadcaster.id, broadcaster.id, viewer.id);
+            expect.fail("banUser should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(BadRequestException);
+        }
+
+        await apiClient.unbanUser(broadcaster.id, broadcaster.id, viewer.id);
+        expect(await apiClient.getBannedUsers(broadcaster.id)).to.equal(null);
+    })
+
+    it("Manages moderators and VIPs", async()=>{
+        await apiClient.addChannelModerator(broadcaster.id, viewer.id);
+        expect((await apiClient.getModerators(broadcaster.id))!.moderators).to.deep.equal([{id: viewer.id, login: "viewer", displayName: "viewer"}]);
+
+        await apiClient.removeChannelModerator(broadcaster.id, viewer.id);
+        await apiClient.addChannelVIP(broadcaster.id, viewer.id);
+
+        expect(await apiClient.getModerators(broadcaster.id)).to.equal(null);
+        expect((await apiClient.getVIPs(broadcaster.id))!.vips.map((vip)=> vip.id)).to.deep.equal([viewer.id]);
+    })
+
+    it("Runs polls and predictions", async()=>{
+        const poll = await apiClient.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+        await apiClient.endPoll(broadcaster.id, poll.id, "TERMINATED");
+
+        const polls = await apiClient.getPolls(broadcaster.id);
+        expect(polls!.polls[0].status).to.equal("TERMINATED");
+        expect(polls!.polls[0].choices.map((choice)=> choice.title)).to.deep.equal(["Chess", "Go"]);
+
+        const prediction = await apiClient.createPrediction(broadcaster.id, "Will we win?", ["Yes", "No"], 120);
+        const resolved = await apiClient.endPrediction(broadcaster.id, prediction!.id, "RESOLVED", {winningOutcomeId: prediction!.outcomes[0].id});
+
+        expect(resolved!.status).to.equal("RESOLVED");
+        expect(resolved!.winningOutcomeId).to.equal(prediction!.outcomes[0].id);
+        expect(resolved!.predictionWindow).to.equal(120);
+    })
+
+    it("Creates rewards and fulfills redemptions", async()=>{
+        const reward = await apiClient.createCustomReward(broadcaster.id, {title: "Hydrate", cost: 100, backgroundColor: "#00FF00"});
+        const redemptionId = helix.redeemCustomReward(broadcaster.id, reward.id, viewer.id);
+
+        const unfulfilled = await apiClient.getCustomRewardRedemptions(broadcaster.id, reward.id, {status: "UNFULFILLED"});
+        expect(unfulfilled.map((redemption)=> redemption.id)).to.deep.equal([redemptionId]);
+
+        const fulfilled = await apiClient.updateRedemptionStatus(broadcaster.id, reward.id, [redemptionId], "FULFILLED");
+        expect(fulfilled.status).to.equal("FULFILLED");
+
+        const rewards = await apiClient.getCustomRewards(broadcaster.id, {});
+        expect(rewards[0]).to.include({title: "Hydrate", cost: 100, backgroundColor: "#00FF00", redemptionsCountCurrentStream: 1});
+    })
+
+    it("Maps the fields of custom rewards", async()=>{
+        //background_color and max_per_stream are sent
+        const created = await apiClient.createCustomReward(broadcaster.id, {title: "Hydrate", cost: 100, backgroundColor: "#00FF00", maxPerStreamEnabled: true, maxPerStream: 5});
+        expect(created.backgroundColor).to.equal("#00FF00");
+
+        //max_per_stream_setting is read, and the image is null for rewards without custom images
+        for(const reward of [created, (await apiClient.getCustomRewards(broadcaster.id, {}))[0], await apiClient.updateCustomReward(broadcaster.id, created.id, {cost: 200, redemptionsSkipRequestQueue: false})]){
+            expect(reward.maxPerStreamSetting).to.deep.equal({isEnabled: true, maxPerStream: 5});
+            expect(reward.image).to.deep.equal({url_1x: undefined, url_2x: undefined, url_4x: undefined});
+        }
+    })
+
+    it("Maps the fields of polls and predictions", async()=>{
+        //The choices are sent as {title}
+        const poll = await apiClient.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+        expect(poll.choices.map((choice)=> choice.title)).to.deep.equal(["Chess", "Go"]);
+
+        //The outcomes are sent as {title}, prediction_window and top_predictors are read
+        const prediction = await apiClient.createPrediction(broadcaster.id, "Will we win?", ["Yes", "No"], 120);
+        expect(prediction!.outcomes.map((outcome)=> outcome.title)).to.deep.equal(["Yes", "No"]);
+        expect(prediction!.predictionWindow).to.equal(120);
+        expect(prediction!.outcomes[0].topPredictors).to.deep.equal([]);
+
+        //locked_at is read
+        const lockedBefore = Date.now();
+        const locked = await apiClient.endPrediction(broadcaster.id, prediction!.id, "LOCKED");
+        expect(locked!.lockedAt.getTime()).to.be.within(lockedBefore, Date.now());
+
+        const predictions = await apiClient.getPredictions(broadcaster.id);
+        expect(predictions!.predictions[0]).to.include({predictionWindow: 120});
+        expect(predictions!.predictions[0].lockedAt).to.deep.equal(locked!.lockedAt);
+        expect(predictions!.predictions[0].outcomes[1].topPredictors).to.deep.equal([]);
+    })
+
+    it("Renews expired tokens through the fake OAuth API", async()=>{
+        helix.invalidateToken(apiClient._tokenHandler.userAccessToken!);
+
+        const users = await apiClient.getUsers({userIds: [viewer.id]});
+
+        expect(users[0].login).to.equal("viewer");
+    })
+
+    it("Rejects tokens without the required scope", async()=>{
+        const token = helix.issueUserToken(broadcaster.id, ["channel:read:polls"]);
+        const restrictedClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+
+        expect(await restrictedClient.getPolls(broadcaster.id)).to.equal(null);
+
+        try{
+            await restrictedClient.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+            expect.fail("createPoll should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(MissingScopeException);
+        }
+    })
+
+    it("Serves the fake over HTTP", async()=>{
+        const server = await helix.listen();
+
+        try{
+            const token = helix.issueUserToken(broadcaster.id);
+            const httpClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {helixBaseUrl: server.helixBaseUrl, oauthBaseUrl: server.oauthBaseUrl}});
+
+            await httpClient.modifyChannelInformation(broadcaster.id, {title: "Offline testing"});
+            const channels = await httpClient.getChannelInformation([broadcaster.id]);
+
+            expect(channels[0].streamTitle).to.equal("Offline testing");
+
+            //The URL of the request cannot be parsed, which fails outside of the routes
+            const port = new URL(server.helixBaseUrl).port;
+            const failed = await new Promise<{status?: number, body: string}>((resolve, reject)=>{
+                http.get({host: "127.0.0.1", port, path: "//"}, (response)=>{
+                    let body = "";
+                    response.on("data", (chunk)=> body += chunk);
+                    response.on("end", ()=> resolve({status: response.statusCode, body}));
+                }).on("error", reject);
+            });
+
+            expect(failed.status).to.equal(500);
+            expect(JSON.parse(failed.body)).to.include({error: "Internal Server Error", status: 500});
+        }finally{
+            await server.close();
+        }
+    })
+})
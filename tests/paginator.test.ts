@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import {FakeHelix, Page, Paginator, Transport, TwitchAPI} from "../src";
+
+//Fake endpoint with 250 numbered items, the cursor is the index of the next item
+function fakeEndpoint(requests: {cursor?: string, pageSize: number}[]){
+    return async (cursor: string | undefined, pageSize: number): Promise<Page<number>>=>{
+        requests.push({cursor, pageSize});
+
+        const start = parseInt(cursor ?? "0");
+        const end = Math.min(start + pageSize, 250);
+        const items = Array.from({length: end - start}, (_, i)=> start + i);
+
+        return {items, cursor: end < 250 ? `${end}` : undefined};
+    }
+}
+
+describe("Pagination", ()=>{
+
+    it("Iterates over all items of all pages", async()=>{
+        const requests: {cursor?: string, pageSize: number}[] = [];
+        const items: number[] = [];
+
+        for await (const item of new Paginator(fakeEndpoint(requests)))
+            items.push(item);
+
+        expect(items.length).to.equal(250);
+        expect(requests.map((request)=> request.cursor)).to.deep.equal([undefined, "100", "200"]);
+    })
+
+    it("Fetches lazily and stops on break", async()=>{
+        const requests: {cursor?: string, pageSize: number}[] = [];
+        const paginator = new Paginator(fakeEndpoint(requests), {pageSize: 20});
+
+        for await (const item of paginator){
+            if(item === 30)
+                break;
+        }
+
+        expect(requests).to.deep.equal([{cursor: undefined, pageSize: 20}, {cursor: "20", pageSize: 20}]);
+        expect(paginator.cursor).to.equal("40");
+    })
+
+    it("Resumes from a saved cursor", async()=>{
+        const requests: {cursor?: string, pageSize: number}[] = [];
+        const pages: Page<number>[] = [];
+
+        for await (const page of new Paginator(fakeEndpoint(requests), {pageSize: 100, cursor: "200"}).pages())
+            pages.push(page);
+
+        expect(pages.length).to.equal(1);
+        expect(pages[0].items[0]).to.equal(200);
+        expect(pages[0].cursor).to.equal(undefined);
+    })
+
+    it("Paginates the calls of the client", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const viewers = Array.from({length: 5}, (_, i)=> helix.createUser({login: `viewer${i}`}));
+
+        const queries: string[] = [];
+        const transport: Transport = async (request)=>{
+            const url = new URL(request.url);
+            if(url.pathname.endsWith("/moderation/banned"))
+                queries.push(`first=${url.searchParams.get("first")}&after=${url.searchParams.get("after")}`);
+            return await helix.transport(request);
+        }
+
+        const token = helix.issueUserToken(broadcaster.id);
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {...helix.clientOptions, transport}});
+        for(const viewer of viewers)
+            await apiClient.moderation.banUser(broadcaster.id, broadcaster.id, viewer.id, {reason: "Spam"});
+
+        const bans = apiClient.paginate.getBannedUsers(broadcaster.id, {pageSize: 2});
+        const logins: string[] = [];
+        for await (const ban of bans){
+            logins.push(ban.userLogin);
+            if(ban.userLogin === "viewer2")
+                break;
+        }
+
+        expect(logins).to.deep.equal(["viewer0", "viewer1", "viewer2"]);
+        //The loop stopped on the second page, so the cursor points behind it
+        expect(queries).to.deep.equal(["first=2&after=null", "first=2&after=2"]);
+        expect(bans.cursor).to.equal("4");
+
+        const remaining: string[] = [];
+        for await (const ban of apiClient.paginate.getBannedUsers(broadcaster.id, {cursor: bans.cursor}))
+            remaining.push(`${ban.userId}: ${ban.reason}`);
+
+        expect(remaining).to.deep.equal([`${viewers[4].id}: Spam`]);
+        expect(queries.slice(2)).to.deep.equal(["first=100&after=4"]);
+    })
+})
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import {Exception, EXCEPTION_REASONS, TwitchAPI} from "../src";
+
+describe("Parameter validation", ()=>{
+    //Every request fails the test, so validation must reject the calls before anything is sent
+    const apiClient = new TwitchAPI({clientId: "validationclientid", tokens: {userToken: "validationusertoken"}, options: {transport: async ()=> expect.fail("No request must be sent")}});
+
+    async function expectInvalid(call: Promise<unknown>, message: string){
+        try{
+            await call;
+            expect.fail("The call should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(Exception);
+            expect((err as Exception).reason).to.equal(EXCEPTION_REASONS.INVALID_PARAMETERS);
+            expect((err as Exception).message).to.contain(message);
+        }
+    }
+
+    it("Rejects polls outside of the Helix limits", async()=>{
+        await expectInvalid(apiClient.createPoll("1", "Best game?", ["A", "B", "C", "D", "E", "F"], 60), "createPoll: choices: Array must contain at most 5 element(s)");
+        await expectInvalid(apiClient.createPoll("1", "Best game?", ["A", "B"], 10), "createPoll: duration: Number must be greater than or equal to 15");
+        await expectInvalid(apiClient.createPoll("1", "", ["A", "B"], 1801), "title: String must contain at least 1 character(s); duration: Number must be less than or equal to 1800");
+    })
+
+    it("Rejects predictions outside of the Helix limits", async()=>{
+        await expectInvalid(apiClient.createPrediction("1", "Will we win?", ["Yes"], 120), "createPrediction: outcomes: Array must contain at least 2 element(s)");
+        await expectInvalid(apiClient.createPrediction("1", "x".repeat(46), ["Yes", "No"], 120), "createPrediction: title: String must contain at most 45 character(s)");
+        await expectInvalid(apiClient.endPrediction("1", "2", "RESOLVED"), "endPrediction: options.winningOutcomeId: Required to resolve a prediction");
+    })
+
+    it("Rejects invalid commercials, colors and rewards", async()=>{
+        await expectInvalid(apiClient.startCommercial("1", 9999), "startCommercial: length: Number must be less than or equal to 180");
+        await expectInvalid(apiClient.updateUserChatColor("1", "#GGGGGG"), "updateUserChatColor: color");
+        await expectInvalid(apiClient.createCustomReward("1", {title: "Hydrate", cost: 100, backgroundColor: "green"}), "createCustomReward: rewardData.backgroundColor: Invalid hex color, expected #RRGGBB");
+    })
+})
@@ -0,0 +1,38 @@
+import { expect } from 'chai';
+import {RateLimitBucket} from "../src";
+
+describe("Rate limits", ()=>{
+
+    it("Is unlimited until the first response was received", async()=>{
+        const bucket = new RateLimitBucket();
+        await bucket.acquire();
+
+        expect(bucket.state).to.deep.equal({limit: undefined, remaining: undefined, resetAt: undefined, queued: 0});
+    })
+
+    it("Takes the state from the response headers", async()=>{
+        const bucket = new RateLimitBucket();
+        bucket.update({"ratelimit-limit": "800", "ratelimit-remaining": "799", "ratelimit-reset": "1670000000"});
+
+        expect(bucket.state.limit).to.equal(800);
+        expect(bucket.state.remaining).to.equal(799);
+        expect(bucket.state.resetAt!.getTime()).to.equal(1670000000 * 1000);
+
+        await bucket.acquire();
+        expect(bucket.state.remaining).to.equal(798);
+    })
+
+    it("Queues requests until the bucket was reset", async()=>{
+        const bucket = new RateLimitBucket();
+        const resetAt = Math.ceil(Date.now() / 1000) + 1;
+        bucket.update({"ratelimit-limit": "800", "ratelimit-remaining": "0", "ratelimit-reset": `${resetAt}`});
+
+        const pending = bucket.acquire();
+        expect(bucket.state.queued).to.equal(1);
+
+        await pending;
+        expect(Date.now()).to.be.at.least(resetAt * 1000);
+        expect(bucket.state.queued).to.equal(0);
+        expect(bucket.state.remaining).to.equal(799);
+    })
+})
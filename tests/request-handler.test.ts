@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import {Exception, HTTP_METHODS, RequestHandler, TOKEN_TYPES, TokenHandler, TransportRequest, TransportResponse} from "../src";
+
+describe("Request Handler", ()=>{
+    let requests: TransportRequest[];
+    const transport = async (request: TransportRequest): Promise<TransportResponse>=>{
+        requests.push(request);
+        return {status: 200, headers: {}, data: {data: []}};
+    }
+
+    beforeEach(()=>{
+        requests = [];
+    })
+
+    function requestHandler(tokens: {userAccessToken?: string, appAccessToken?: string}){
+        return new RequestHandler(new TokenHandler("abcdefghijklmnop", tokens), {baseUrl: "http://localhost:8080/helix/", transport});
+    }
+
+    it("Encodes arrays as repeated parameters and omits undefined values", async()=>{
+        const handler = requestHandler({appAccessToken: "app-token"});
+
+        await handler.request({
+            method: HTTP_METHODS.GET,
+            endpoint: "/users",
+            tokenType: TOKEN_TYPES.APP,
+            query: {id: ["1", undefined, "2"], login: undefined, first: 20, started_at: new Date("2023-01-01T00:00:00Z")}
+        });
+        await handler.request({method: HTTP_METHODS.GET, endpoint: "/games/top", tokenType: TOKEN_TYPES.APP, query: {after: undefined}});
+
+        expect(requests.map((request)=> request.url)).to.deep.equal([
+            "http://localhost:8080/helix/users?id=1&id=2&first=20&started_at=2023-01-01T00%3A00%3A00.000Z",
+            "http://localhost:8080/helix/games/top"
+        ]);
+    })
+
+    it("Picks the token by the token type of the request", async()=>{
+        const handler = requestHandler({userAccessToken: "user-token", appAccessToken: "app-token"});
+
+        for(const tokenType of [TOKEN_TYPES.USER, TOKEN_TYPES.APP, TOKEN_TYPES.ANY, TOKEN_TYPES.NONE])
+            await handler.request({method: HTTP_METHODS.GET, endpoint: "/users", tokenType});
+        await handler.request({method: HTTP_METHODS.GET, endpoint: "/extensions/live", tokenType: TOKEN_TYPES.JWT, jwt: "extension-jwt"});
+
+        expect(requests.map((request)=> request.headers["Authorization"])).to.deep.equal(["Bearer user-token", "Bearer app-token", "Bearer user-token", undefined, "Bearer extension-jwt"]);
+        expect(requests.every((request)=> request.headers["Client-Id"] === "abcdefghijklmnop")).to.be.true;
+
+        //Without a User Access Token, any falls back to the App Access Token
+        requests = [];
+        await requestHandler({appAccessToken: "app-token"}).request({method: HTTP_METHODS.GET, endpoint: "/users", tokenType: TOKEN_TYPES.ANY});
+        expect(requests[0].headers["Authorization"]).to.equal("Bearer app-token");
+    })
+
+    it("Rejects requests whose token is missing without sending them", async()=>{
+        const handler = requestHandler({appAccessToken: "app-token"});
+
+        try{
+            await handler.request({method: HTTP_METHODS.GET, endpoint: "/users", tokenType: TOKEN_TYPES.USER});
+            expect.fail("The request should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(Exception);
+            expect((err as Exception).message).to.include(`No token of type "user"`);
+        }
+
+        expect(requests).to.be.empty;
+    })
+})
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import {FakeHelix, FakeUser, ResponseValidationException, Transport, TwitchAPI, VALIDATION_MODES, ValidationMode} from "../src";
+
+describe("Response validation", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster", displayName: "Broadcaster"});
+    })
+
+    function createClient(validation: ValidationMode, transport: Transport = helix.transport): TwitchAPI{
+        const token = helix.issueUserToken(broadcaster.id);
+        return new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {...helix.clientOptions, transport, validation, retry: {maxAttempts: 1}}});
+    }
+
+    //Renames a field of the first data item, as if Twitch had changed the payload
+    function renamingTransport(from: string, to: string): Transport{
+        return async (request)=>{
+            const response = await helix.transport(request);
+            const item = response.data.data[0];
+            item[to] = item[from];
+            delete item[from];
+            return response;
+        }
+    }
+
+    it("Accepts valid payloads in strict mode", async()=>{
+        const apiClient = createClient(VALIDATION_MODES.STRICT);
+
+        const poll = await apiClient.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+        await apiClient.endPoll(broadcaster.id, poll.id, "TERMINATED");
+        await apiClient.createCustomReward(broadcaster.id, {title: "Hydrate", cost: 100});
+
+        expect((await apiClient.getUsers({userIds: [broadcaster.id]}))[0].login).to.equal("broadcaster");
+        expect((await apiClient.getPolls(broadcaster.id))!.polls).to.have.length(1);
+    })
+
+    it("Throws on unexpected payloads in strict mode", async()=>{
+        const apiClient = createClient(VALIDATION_MODES.STRICT, renamingTransport("title", "channel_title"));
+
+        try{
+            await apiClient.getChannelInformation([broadcaster.id]);
+            expect.fail("getChannelInformation should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(ResponseValidationException);
+            expect((err as ResponseValidationException).endpoint).to.equal("GET /channels");
+            expect((err as ResponseValidationException).message).to.contain("data.0.title: Required");
+            expect((err as ResponseValidationException).message).to.contain("Unrecognized key(s) in object: 'channel_title'");
+        }
+    })
+
+    it("Logs unexpected payloads in lenient mode", async()=>{
+        const apiClient = createClient(VALIDATION_MODES.LENIENT, renamingTransport("title", "channel_title"));
+        const warnings: string[] = [];
+        const warn = console.warn;
+        console.warn = (message: string)=> warnings.push(message);
+
+        try{
+            const channels = await apiClient.getChannelInformation([broadcaster.id]);
+            expect(channels[0].streamerId).to.equal(broadcaster.id);
+        }finally{
+            console.warn = warn;
+        }
+
+        expect(warnings).to.have.length(1);
+        expect(warnings[0]).to.contain("GET /channels returned an unexpected payload: data.0.title: Required");
+    })
+})
@@ -0,0 +1,44 @@
+import { expect } from 'chai';
+import {BadRequestException, DEFAULT_RETRY_POLICY, HTTP_METHODS, NetworkException, NotFoundException, RateLimitedException, ServerErrorException, getBackoffDelay, isRetryable} from "../src";
+
+const details = {status: 0, message: "", endpoint: "GET /streams"};
+
+function networkError(): NetworkException{
+    return new NetworkException("GET /streams", new Error("socket hang up"));
+}
+
+describe("Retry policy", ()=>{
+
+    it("Retries rate limited requests regardless of the method", ()=>{
+        const err = new RateLimitedException({...details, status: 429}, 1);
+
+        expect(isRetryable(err, HTTP_METHODS.GET, DEFAULT_RETRY_POLICY)).to.equal(true);
+        expect(isRetryable(err, HTTP_METHODS.POST, DEFAULT_RETRY_POLICY)).to.equal(true);
+    })
+
+    it("Retries server and network errors of idempotent requests only", ()=>{
+        const err = new ServerErrorException({...details, status: 503});
+
+        expect(isRetryable(err, HTTP_METHODS.GET, DEFAULT_RETRY_POLICY)).to.equal(true);
+        expect(isRetryable(networkError(), HTTP_METHODS.DELETE, DEFAULT_RETRY_POLICY)).to.equal(true);
+        expect(isRetryable(err, HTTP_METHODS.POST, DEFAULT_RETRY_POLICY)).to.equal(false);
+        expect(isRetryable(networkError(), HTTP_METHODS.PATCH, DEFAULT_RETRY_POLICY)).to.equal(false);
+        expect(isRetryable(err, HTTP_METHODS.POST, {...DEFAULT_RETRY_POLICY, retryNonIdempotent: true})).to.equal(true);
+    })
+
+    it("Does not retry client errors", ()=>{
+        expect(isRetryable(new BadRequestException({...details, status: 400}), HTTP_METHODS.GET, DEFAULT_RETRY_POLICY)).to.equal(false);
+        expect(isRetryable(new NotFoundException({...details, status: 404}), HTTP_METHODS.GET, DEFAULT_RETRY_POLICY)).to.equal(false);
+        expect(isRetryable(new Error("Not an HTTP error"), HTTP_METHODS.GET, DEFAULT_RETRY_POLICY)).to.equal(false);
+    })
+
+    it("Backs off exponentially up to the maximum delay", ()=>{
+        const policy = {...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000};
+
+        for(let i = 0; i < 50; i++){
+            expect(getBackoffDelay(1, policy)).to.be.within(0, 99);
+            expect(getBackoffDelay(3, policy)).to.be.within(0, 399);
+            expect(getBackoffDelay(10, policy)).to.be.within(0, 999);
+        }
+    })
+})
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import {EXCEPTION_REASONS, FakeHelix, FakeUser, InsufficientScopeException, MissingScopeException, SCOPES, ScopedMethod, Transport, TwitchAPI, getRequiredScopes} from "../src";
+
+describe("Scopes", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+    })
+
+    it("Lists every method of the client", ()=>{
+        const apiClient = new TwitchAPI({clientId: helix.clientId, options: helix.clientOptions});
+
+        //Indexing the client only compiles if every registry key is a member of TwitchAPI
+        for(const method of Object.keys(SCOPES) as ScopedMethod[])
+            expect(apiClient[method], method).to.be.a("function");
+
+        //Every Helix method of the client has an entry, only the helpers that do not call an endpoint are exempt
+        const helpers = ["constructor", "init", "withRetryPolicy", "as", "getRateLimits", "withRequestHandler"];
+        const methods = Object.getOwnPropertyNames(TwitchAPI.prototype)
+            .filter((method)=> typeof Object.getOwnPropertyDescriptor(TwitchAPI.prototype, method)!.value === "function" && !helpers.includes(method));
+
+        for(const method of methods)
+            expect(SCOPES, method).to.have.property(method);
+    })
+
+    it("Computes the scopes of an authorize URL", ()=>{
+        expect(getRequiredScopes(["getPolls", "createPoll", "getBannedUsers", "getUsers"])).to.deep.equal(["channel:manage:polls", "moderation:read"]);
+        expect(getRequiredScopes()).to.include.members(["moderator:manage:banned_users", "channel:manage:predictions", "user:edit"]);
+    })
+
+    it("Checks the scopes of the User Access Token before sending", async()=>{
+        const helixRequests: string[] = [];
+        const transport: Transport = async (request)=>{
+            if(request.url.startsWith(helix.helixBaseUrl))
+                helixRequests.push(`${request.method} ${new URL(request.url).pathname}`);
+            return await helix.transport(request);
+        }
+
+        const token = helix.issueUserToken(broadcaster.id, ["channel:read:polls"]);
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken}, options: {...helix.clientOptions, transport, checkScopes: true}});
+
+        try{
+            await apiClient.polls.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+            expect.fail("createPoll should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(InsufficientScopeException);
+            //Caught like the missing scope Helix would have responded with
+            expect(err).to.be.instanceOf(MissingScopeException);
+            expect((err as InsufficientScopeException).endpoint).to.equal("POST /polls");
+            expect((err as InsufficientScopeException).reason).to.equal(EXCEPTION_REASONS.MISSING_SCOPE);
+            expect((err as InsufficientScopeException).requiredScopes).to.deep.equal(["channel:manage:polls"]);
+        }
+
+        //Either of the accepted scopes is sufficient
+        expect(await apiClient.polls.getPolls(broadcaster.id)).to.be.null;
+        expect(helixRequests).to.deep.equal(["GET /helix/polls"]);
+    })
+})
@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import {FakeHelix, FakeUser, TwitchAPI} from "../src";
+import {ModerationClient} from "../src/clients/moderation-client";
+import {RequestHandler} from "../src/request-handler";
+import {TokenHandler} from "../src/token-handler";
+
+describe("Sub-clients", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+    let viewer: FakeUser;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+        viewer = helix.createUser({login: "viewer"});
+    })
+
+    it("Share the tokens of the client", async()=>{
+        const token = helix.issueUserToken(broadcaster.id);
+        const apiClient = new TwitchAPI({clientId: helix.clientId, tokens: {userToken: token.accessToken, refreshToken: token.refreshToken}, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+
+        const poll = await apiClient.polls.createPoll(broadcaster.id, "Best game?", ["Chess", "Go"], 60);
+        helix.invalidateToken(apiClient._tokenHandler.userAccessToken!);
+        await apiClient.moderation.banUser(broadcaster.id, broadcaster.id, viewer.id);
+
+        //The flat calls are delegates of the sub-clients
+        expect((await apiClient.getPolls(broadcaster.id))!.polls[0].id).to.equal(poll.id);
+        expect((await apiClient.moderation.getBannedUsers(broadcaster.id))!.bannedUsers[0].userId).to.equal(viewer.id);
+    })
+
+    it("Can be used without the TwitchAPI client", async()=>{
+        const token = helix.issueUserToken(broadcaster.id);
+        const tokenHandler = new TokenHandler(helix.clientId, {userAccessToken: token.accessToken}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+        const moderation = new ModerationClient(new RequestHandler(tokenHandler, {baseUrl: helix.helixBaseUrl, transport: helix.transport}));
+
+        await moderation.addChannelModerator(broadcaster.id, viewer.id);
+
+        expect((await moderation.getModerators(broadcaster.id))!.moderators.map((moderator)=> moderator.id)).to.deep.equal([viewer.id]);
+    })
+})
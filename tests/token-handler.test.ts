@@ -0,0 +1,170 @@
+import { expect } from 'chai';
+import {EXCEPTION_REASONS, Exception, FakeHelix, FakeUser, REFRESH_FAILURE_REASONS, TokenHandler, Transport, TwitchAPI} from "../src";
+
+describe("Token Handler", ()=>{
+
+    it("Shares a single refresh between concurrent renewals", async()=>{
+        let refreshes = 0;
+        const transport: Transport = async ()=>{
+            refreshes++;
+            await new Promise((resolve)=> setTimeout(resolve, 10));
+            return {status: 200, headers: {}, data: {access_token: `user-token-${refreshes}`, expires_in: 14400}};
+        }
+
+        const tokenHandler = new TokenHandler("abcdefghijklmnop", {userAccessToken: "user-token-0", refreshToken: "refresh-token"}, {clientSecret: "secret", transport});
+        await Promise.all([tokenHandler.renewUserAccessToken(), tokenHandler.renewUserAccessToken(), tokenHandler.renewUserAccessToken()]);
+
+        expect(refreshes).to.equal(1);
+        expect(tokenHandler.userAccessToken).to.equal("user-token-1");
+
+        await tokenHandler.renewUserAccessToken();
+        expect(refreshes).to.equal(2);
+    })
+
+    it("Renews a rejected token once and replays the requests", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const tokens = helix.issueUserToken(broadcaster.id);
+
+        const requests: string[] = [];
+        const transport: Transport = async (request)=>{
+            requests.push(`${request.method} ${new URL(request.url).pathname}`);
+            return await helix.transport(request);
+        }
+
+        const apiClient = new TwitchAPI({clientId: helix.clientId, clientSecret: helix.clientSecret, tokens: {userToken: tokens.accessToken, refreshToken: tokens.refreshToken}, options: {...helix.clientOptions, transport, retry: {maxAttempts: 1}}});
+        helix.invalidateToken(tokens.accessToken);
+
+        //Both calls are rejected with 401 "Invalid OAuth token" and wait for the same renewal
+        const [first, second] = await Promise.all([apiClient.getUsers({userIds: [broadcaster.id]}), apiClient.getUsers({userLogins: ["broadcaster"]})]);
+
+        expect(first[0].id).to.equal(broadcaster.id);
+        expect(second[0].id).to.equal(broadcaster.id);
+        expect(apiClient._tokenHandler.userAccessToken).to.not.equal(tokens.accessToken);
+        expect(requests.filter((request)=> request === "POST /oauth2/token")).to.have.length(1);
+        expect(requests.filter((request)=> request === "GET /helix/users")).to.have.length(4);
+    })
+})
+
+describe("Token validation", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+    })
+
+    it("Returns the user and scopes of a User Access Token", async()=>{
+        const tokens = helix.issueUserToken(broadcaster.id, ["channel:manage:polls"]);
+        const tokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokens.accessToken, appAccessToken: helix.issueAppToken()}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+
+        expect(await tokenHandler.validateUserAccessToken()).to.deep.equal({clientId: helix.clientId, login: "broadcaster", userId: broadcaster.id, scopes: ["channel:manage:polls"], expiresIn: 14400});
+
+        const appValidation = await tokenHandler.validateAppAccessToken();
+        expect(appValidation.userId).to.be.undefined;
+        expect(appValidation.scopes).to.deep.equal([]);
+    })
+
+    it("Reports invalid tokens during the hourly validation", async()=>{
+        const tokens = helix.issueUserToken(broadcaster.id);
+        const invalidTokens: string[] = [];
+        const tokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokens.accessToken, appAccessToken: helix.issueAppToken()}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport, validateTokens: true, onInvalidToken: (tokenType)=> invalidTokens.push(tokenType)});
+
+        helix.invalidateToken(tokens.accessToken);
+        await tokenHandler.init();
+        tokenHandler.stopTokenValidation();
+        expect(tokenHandler["_validationInterval"]).to.be.undefined;
+
+        expect(invalidTokens).to.deep.equal(["user"]);
+
+        try{
+            await tokenHandler.validateUserAccessToken();
+            expect.fail("validateUserAccessToken should have thrown");
+        }catch(err){
+            expect((err as Exception).reason).to.equal(EXCEPTION_REASONS.UNAUTHORIZED);
+        }
+    })
+})
+
+describe("Token revocation", ()=>{
+    it("Revokes the tokens and clears them", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const tokens = helix.issueUserToken(broadcaster.id);
+        const tokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokens.accessToken, refreshToken: tokens.refreshToken}, {clientSecret: helix.clientSecret, oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+
+        await tokenHandler.startAppTokenRefresh();
+        const appAccessToken = tokenHandler.appAccessToken;
+
+        await tokenHandler.revokeUserAccessToken();
+        await tokenHandler.revokeAppAccessToken();
+
+        expect(tokenHandler.userAccessToken).to.be.undefined;
+        expect(tokenHandler.refreshToken).to.be.undefined;
+        expect(tokenHandler.appAccessToken).to.be.undefined;
+
+        //Twitch no longer accepts the revoked tokens, revoking them again is not an error
+        const revokedTokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokens.accessToken, appAccessToken}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+        for(const validate of [()=> revokedTokenHandler.validateUserAccessToken(), ()=> revokedTokenHandler.validateAppAccessToken()]){
+            try{
+                await validate();
+                expect.fail("The revoked token should be invalid");
+            }catch(err){
+                expect((err as Exception).reason).to.equal(EXCEPTION_REASONS.UNAUTHORIZED);
+            }
+        }
+        await revokedTokenHandler.revokeUserAccessToken();
+    })
+})
+
+describe("Token events", ()=>{
+    let helix: FakeHelix;
+    let broadcaster: FakeUser;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        broadcaster = helix.createUser({login: "broadcaster"});
+    })
+
+    it("Emits the refreshed tokens and failed refreshes", async()=>{
+        const tokens = helix.issueUserToken(broadcaster.id);
+        const tokenHandler = new TokenHandler(helix.clientId, {refreshToken: tokens.refreshToken}, {clientSecret: helix.clientSecret, oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+
+        const events: unknown[] = [];
+        tokenHandler.on("userTokenRefreshed", (refreshed)=> events.push(refreshed));
+        tokenHandler.on("appTokenRefreshed", (refreshed)=> events.push(refreshed));
+        tokenHandler.on("refreshFailed", ({tokenType, reason})=> events.push({tokenType, reason}));
+
+        await tokenHandler.renewUserAccessToken();
+        await tokenHandler.renewAppAccessToken();
+
+        //Revoking the User Access Token also revokes its refresh token
+        const revokedTokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokenHandler.userAccessToken}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+        await revokedTokenHandler.revokeUserAccessToken();
+        await tokenHandler.renewUserAccessToken();
+
+        expect(events).to.deep.equal([
+            {accessToken: tokenHandler.userAccessToken, refreshToken: tokens.refreshToken, expiresIn: 14400},
+            {accessToken: tokenHandler.appAccessToken, expiresIn: 5011271},
+            {tokenType: "user", reason: REFRESH_FAILURE_REASONS.INVALID_REFRESH_TOKEN}
+        ]);
+    })
+
+    it("Emits tokens that expire soon without being refreshed", async()=>{
+        const tokens = helix.issueUserToken(broadcaster.id);
+        const tokenHandler = new TokenHandler(helix.clientId, {userAccessToken: tokens.accessToken, appAccessToken: helix.issueAppToken()}, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport, expiringSoonThreshold: 60 * 60 * 5});
+
+        const expiring: unknown[] = [];
+        tokenHandler.on("tokenExpiringSoon", (expiration)=> expiring.push(expiration));
+
+        await tokenHandler.startTokenValidation();
+        tokenHandler.stopTokenValidation();
+
+        //Only the hourly validation reports them, not validations on demand
+        await tokenHandler.validateUserAccessToken();
+        await tokenHandler.getUserAccessTokenScopes();
+
+        expect(expiring).to.deep.equal([{tokenType: "user", expiresIn: 14400}]);
+    })
+})
@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {FakeHelix, JsonFileTokenStore, MemoryTokenStore, TokenHandler} from "../src";
+
+describe("Token stores", ()=>{
+    let directory: string;
+
+    beforeEach(()=>{
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "token-store-"));
+    })
+
+    afterEach(()=>{
+        fs.rmSync(directory, {recursive: true, force: true});
+    })
+
+    it("Stores the tokens in a JSON file", async()=>{
+        const store = new JsonFileTokenStore(path.join(directory, "nested", "tokens.json"));
+
+        expect(await store.load()).to.be.undefined;
+
+        await store.save({userAccessToken: "user-token", refreshToken: "refresh-token"});
+        expect(await new JsonFileTokenStore(store.file).load()).to.deep.equal({userAccessToken: "user-token", refreshToken: "refresh-token"});
+        expect(fs.statSync(store.file).mode & 0o777).to.equal(0o600);
+    })
+
+    it("Writes concurrent saves one after another", async()=>{
+        const store = new JsonFileTokenStore(path.join(directory, "tokens.json"));
+
+        await Promise.all(Array.from({length: 10}, (_, index)=> store.save({userAccessToken: `user-token-${index}`})));
+
+        expect(await store.load()).to.deep.equal({userAccessToken: "user-token-9"});
+        expect(fs.readdirSync(directory)).to.deep.equal(["tokens.json"]);
+    })
+
+    it("Loads the tokens on init and saves them after every refresh", async()=>{
+        const helix = new FakeHelix();
+        const broadcaster = helix.createUser({login: "broadcaster"});
+        const tokens = helix.issueUserToken(broadcaster.id);
+        const store = new MemoryTokenStore({refreshToken: tokens.refreshToken});
+
+        const tokenHandler = new TokenHandler(helix.clientId, undefined, {clientSecret: helix.clientSecret, refreshUserAccessToken: true, refreshAppAccessToken: true, store, oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport});
+        await tokenHandler.init();
+        tokenHandler.stopUserTokenRefresh();
+        tokenHandler.stopAppTokenRefresh();
+
+        expect(store.tokens).to.deep.equal({userAccessToken: tokenHandler.userAccessToken, refreshToken: tokens.refreshToken, appAccessToken: tokenHandler.appAccessToken});
+        expect(tokenHandler.userAccessToken).to.be.a("string");
+
+        await tokenHandler.renewUserAccessToken();
+        expect(store.tokens!.userAccessToken).to.equal(tokenHandler.userAccessToken);
+    })
+})
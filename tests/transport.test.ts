@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import {EXCEPTION_REASONS, Exception, FetchFunction, NotFoundException, TransportRequest, TransportResponse, TwitchAPI, createFetchTransport} from "../src";
+
+describe("Transport", ()=>{
+
+    it("Sends requests to the configured hosts through the injected transport", async()=>{
+        const requests: TransportRequest[] = [];
+        const transport = async (request: TransportRequest): Promise<TransportResponse>=>{
+            requests.push(request);
+
+            if(request.url.endsWith("/oauth2/token"))
+                return {status: 200, headers: {}, data: {access_token: "app-token", expires_in: 5000000}};
+
+            return {status: 200, headers: {}, data: {data: [{id: "1", login: "someone", display_name: "Someone", created_at: "2020-01-01T00:00:00Z"}]}};
+        }
+
+        const apiClient = new TwitchAPI({clientId: "abcdefghijklmnop", clientSecret: "secret", options: {helixBaseUrl: "http://localhost:8080/mock", oauthBaseUrl: "http://localhost:8080/oauth2", transport}});
+        await apiClient._tokenHandler.renewAppAccessToken();
+
+        const users = await apiClient.getUsers({userLogins: ["someone", "someone_else"]});
+
+        expect(users[0].login).to.equal("someone");
+        expect(requests[0].url).to.equal("http://localhost:8080/oauth2/token");
+        expect(requests[1].url).to.equal("http://localhost:8080/mock/users?login=someone&login=someone_else");
+        expect(requests[1].headers).to.deep.equal({"Client-Id": "abcdefghijklmnop", "Authorization": "Bearer app-token"});
+    })
+
+    it("Turns error responses into exceptions", async()=>{
+        const transport = async (): Promise<TransportResponse>=> ({status: 404, headers: {}, data: {error: "Not Found", status: 404, message: "video not found"}});
+        const apiClient = new TwitchAPI({clientId: "abcdefghijklmnop", tokens: {userToken: "user-token"}, options: {transport}});
+
+        try{
+            await apiClient.deleteVideos(["1"]);
+            expect.fail("deleteVideos should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(NotFoundException);
+            expect((err as NotFoundException).endpoint).to.equal("DELETE /videos");
+            expect((err as NotFoundException).helixMessage).to.equal("video not found");
+        }
+    })
+
+    it("Sends requests with the fetch API", async()=>{
+        const calls: Parameters<FetchFunction>[] = [];
+        const fetchFunction: FetchFunction = async (...args)=>{
+            calls.push(args);
+            return {status: 200, headers: new Map([["Content-Type", "application/json"]]), text: async ()=> JSON.stringify({data: []})};
+        }
+
+        const response = await createFetchTransport(fetchFunction)({method: "POST", url: "http://localhost:8080/mock/polls", headers: {"Client-Id": "abcdefghijklmnop"}, body: {title: "Best game?"}});
+
+        expect(response).to.deep.equal({status: 200, headers: {"content-type": "application/json"}, data: {data: []}});
+        expect(calls[0][1]).to.deep.equal({method: "POST", headers: {"Client-Id": "abcdefghijklmnop", "Content-Type": "application/json"}, body: JSON.stringify({title: "Best game?"})});
+
+        //Without a global fetch, an implementation has to be passed
+        const globalFetch = Object.getOwnPropertyDescriptor(globalThis, "fetch");
+        Reflect.deleteProperty(globalThis, "fetch");
+        try{
+            createFetchTransport();
+            expect.fail("createFetchTransport should have thrown");
+        }catch(err){
+            expect((err as Exception).reason).to.equal(EXCEPTION_REASONS.NETWORK_ERROR);
+        }finally{
+            if(globalFetch)
+                Object.defineProperty(globalThis, "fetch", globalFetch);
+        }
+    })
+})
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import {Exception, FakeHelix, FakeUser, MemoryTokenStore, TwitchAPI, UnauthorizedException, UserTokenManager} from "../src";
+
+describe("User token manager", ()=>{
+    let helix: FakeHelix;
+    let first: FakeUser;
+    let second: FakeUser;
+    let apiClient: TwitchAPI;
+
+    beforeEach(()=>{
+        helix = new FakeHelix();
+        first = helix.createUser({login: "first"});
+        second = helix.createUser({login: "second"});
+        apiClient = new TwitchAPI({clientId: helix.clientId, clientSecret: helix.clientSecret, options: {...helix.clientOptions, retry: {maxAttempts: 1}}});
+    })
+
+    afterEach(()=>{
+        apiClient.userTokens.stop();
+    })
+
+    it("Calls the API as the added users", async()=>{
+        await apiClient.userTokens.addUser(first.id, {...helix.issueUserToken(first.id), expiresIn: 14400});
+        //Without expiresIn, the token is refreshed right away
+        const secondTokens = helix.issueUserToken(second.id);
+        await apiClient.userTokens.addUser(second.id, secondTokens);
+
+        expect(apiClient.userTokens.userIds).to.deep.equal([first.id, second.id]);
+        expect(apiClient.userTokens.getTokenHandler(second.id)!.userAccessToken).to.not.equal(secondTokens.accessToken);
+
+        const firstPoll = await apiClient.as(first.id).createPoll(first.id, "Best game?", ["Chess", "Go"], 60);
+        const secondPoll = await apiClient.as(second.id).polls.createPoll(second.id, "Best food?", ["Pizza", "Pasta"], 60);
+
+        expect(firstPoll.broadcasterId).to.equal(first.id);
+        expect(secondPoll.broadcasterId).to.equal(second.id);
+
+        //The users have separate tokens, so the first user cannot act for the second one
+        try{
+            await apiClient.as(first.id).polls.createPoll(second.id, "Best game?", ["Chess", "Go"], 60);
+            expect.fail("createPoll should have thrown");
+        }catch(err){
+            expect(err).to.be.instanceOf(UnauthorizedException);
+        }
+    })
+
+    it("Rejects users without tokens", async()=>{
+        await apiClient.userTokens.addUser(first.id, helix.issueUserToken(first.id));
+        expect(apiClient.userTokens.removeUser(first.id)).to.be.true;
+
+        expect(()=> apiClient.as(first.id)).to.throw(Exception, `No tokens of the user ${first.id}`);
+    })
+
+    it("Saves the refreshed tokens of every user to their store", async()=>{
+        const stores = new Map<string, MemoryTokenStore>();
+        const userTokens = new UserTokenManager(helix.clientId, {oauthBaseUrl: helix.oauthBaseUrl, transport: helix.transport, clientSecret: helix.clientSecret, tokenStore: (userId)=>{
+            stores.set(userId, new MemoryTokenStore());
+            return stores.get(userId)!;
+        }});
+
+        const logged: unknown[] = [];
+        const info = console.info;
+        console.info = (...args: unknown[])=> logged.push(args);
+
+        try{
+            const firstTokens = helix.issueUserToken(first.id);
+            await userTokens.addUser(first.id, {...firstTokens, expiresIn: 14400});
+            const secondHandler = await userTokens.addUser(second.id, helix.issueUserToken(second.id));
+
+            expect(stores.get(first.id)!.tokens).to.deep.equal({userAccessToken: firstTokens.accessToken, refreshToken: firstTokens.refreshToken, appAccessToken: undefined});
+            //The token of the second user was refreshed right away
+            expect(stores.get(second.id)!.tokens!.userAccessToken).to.equal(secondHandler.userAccessToken);
+            expect(logged).to.be.empty;
+        }finally{
+            console.info = info;
+            userTokens.stop();
+        }
+    })
+})